@@ -0,0 +1,354 @@
+import React, {
+  createContext,
+  ReactElement,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+import { Message, ToastMessage } from "./MessageQueueContext";
+import { MessageHistoryStorage } from "./messageHistoryStorage";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface MessageHistoryEntry<M extends Message = ToastMessage> {
+  /**
+   * A unique id for the entry within the history.
+   */
+  id: string;
+
+  /**
+   * The message that was added to the queue.
+   */
+  message: M;
+
+  /**
+   * The time in milliseconds that the message was added to the queue. This
+   * will be updated if the message was replaced.
+   */
+  timestamp: number;
+
+  /**
+   * Boolean if the entry has been marked as read.
+   */
+  read: boolean;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface MessageHistoryActions {
+  /**
+   * Marks a single entry as read.
+   */
+  markRead(id: string): void;
+
+  /**
+   * Marks every entry in the history as read.
+   */
+  markAllRead(): void;
+
+  /**
+   * Removes a single entry from the history.
+   */
+  removeEntry(id: string): void;
+
+  /**
+   * Removes every entry from the history.
+   */
+  clearHistory(): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface MessageHistory<M extends Message = ToastMessage>
+  extends MessageHistoryActions {
+  /**
+   * The recorded messages ordered from newest to oldest.
+   */
+  history: readonly MessageHistoryEntry<M>[];
+
+  /**
+   * The number of entries that have not been marked as read.
+   */
+  unreadCount: number;
+}
+
+/**
+ * @internal
+ */
+interface MessageHistoryContext extends MessageHistory<Message> {
+  recordMessages(messages: readonly Message[]): void;
+}
+
+/**
+ * @internal
+ */
+const context = createContext<MessageHistoryContext | null>(null);
+
+/**
+ * This hook is used to get the recorded message history along with actions to
+ * update it. This requires the `MessageHistoryProvider` to be mounted as a
+ * parent component.
+ *
+ * @remarks \@since 3.2.0
+ */
+export function useMessageHistory<
+  M extends Message = ToastMessage
+>(): MessageHistory<M> {
+  const value = useContext(context);
+  if (!value) {
+    throw new Error(
+      "Attempted to use the message history without initializing the MessageHistoryProvider component."
+    );
+  }
+
+  const { recordMessages: _recordMessages, ...history } = value;
+  return history as MessageHistory<M>;
+}
+
+/**
+ * This hook is used by the `MessageQueue` to record every message that is
+ * added to the queue when the `MessageHistoryProvider` has been mounted as a
+ * parent component.
+ *
+ * @internal
+ */
+export function useMessageHistoryRecorder(queue: readonly Message[]): void {
+  const value = useContext(context);
+  const recordMessages = value?.recordMessages;
+  const prevQueue = useRef<readonly Message[]>([]);
+
+  useEffect(() => {
+    const prev = prevQueue.current;
+    prevQueue.current = queue;
+    if (!recordMessages) {
+      return;
+    }
+
+    // the same message can be in the queue multiple times when duplicates are
+    // allowed, so the number of times each message existed in the previous
+    // queue is used to find the new messages
+    const counts = new Map<Message, number>();
+    prev.forEach((message) => {
+      counts.set(message, (counts.get(message) ?? 0) + 1);
+    });
+
+    // an immediate message re-adds the current message after itself so that
+    // it can be shown again, but it shouldn't be recorded again
+    const [current, next, reshown] = queue;
+    if (
+      current &&
+      reshown === current &&
+      next.messagePriority === "immediate" &&
+      !prev.includes(next)
+    ) {
+      counts.set(current, (counts.get(current) ?? 0) + 1);
+    }
+
+    const added = queue.filter((message) => {
+      const count = counts.get(message) ?? 0;
+      if (count > 0) {
+        counts.set(message, count - 1);
+        return false;
+      }
+
+      // stacked messages are copied when a duplicate restarts the timer, so
+      // the copy should not be recorded as a new message
+      const { messageId, messagePriority } = message;
+      return (
+        messagePriority === "replace" ||
+        typeof messageId === "undefined" ||
+        !prev.some(
+          (prevMessage) =>
+            prevMessage.messageId === messageId && !queue.includes(prevMessage)
+        )
+      );
+    });
+
+    if (added.length) {
+      recordMessages(added);
+    }
+  }, [queue, recordMessages]);
+}
+
+let entryId = 0;
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface MessageHistoryProviderProps<M extends Message = ToastMessage> {
+  /**
+   * An optional adapter to load and save the history so that it can be
+   * persisted between page loads.
+   *
+   * @see {@link createLocalStorageMessageHistory}
+   */
+  storage?: MessageHistoryStorage<M>;
+
+  /**
+   * The maximum number of entries to keep in the history. The oldest entries
+   * will be removed once this limit has been reached.
+   *
+   * @defaultValue `100`
+   */
+  maxEntries?: number;
+
+  /**
+   * The history to use when the `storage` has not been provided.
+   *
+   * @defaultValue `[]`
+   */
+  defaultHistory?: readonly MessageHistoryEntry<M>[];
+
+  /**
+   * The children should contain the `MessageQueue` that should be recorded.
+   */
+  children: ReactNode;
+}
+
+/**
+ * This component is used to opt-in to recording every message that is added
+ * to a `MessageQueue` so that the messages can be reviewed after they have
+ * been hidden. The `MessageQueue` must be rendered as a child of this
+ * component.
+ *
+ * Example:
+ *
+ * ```tsx
+ * <MessageHistoryProvider>
+ *   <MessageQueue id="main-alerts">
+ *     <App />
+ *   </MessageQueue>
+ * </MessageHistoryProvider>
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export function MessageHistoryProvider<M extends Message = ToastMessage>({
+  storage,
+  maxEntries = 100,
+  defaultHistory = [],
+  children,
+}: MessageHistoryProviderProps<M>): ReactElement {
+  const [history, setHistory] = useState<readonly MessageHistoryEntry<M>[]>(
+    () => (storage ? storage.load() : defaultHistory)
+  );
+
+  useEffect(() => {
+    if (storage) {
+      storage.save(history);
+    }
+  }, [history, storage]);
+
+  const recordMessages = useCallback(
+    (messages: readonly Message[]) => {
+      const timestamp = Date.now();
+      setHistory((prevHistory) => {
+        let nextHistory = prevHistory.slice();
+        messages.forEach((message) => {
+          const { messageId, messagePriority } = message;
+          const i =
+            messagePriority === "replace" && typeof messageId !== "undefined"
+              ? nextHistory.findIndex(
+                  (entry) => entry.message.messageId === messageId
+                )
+              : -1;
+
+          if (i !== -1) {
+            nextHistory[i] = {
+              ...nextHistory[i],
+              message: message as M,
+              timestamp,
+              read: false,
+            };
+            return;
+          }
+
+          entryId += 1;
+          nextHistory = [
+            {
+              id: `message-history-${timestamp}-${entryId}`,
+              message: message as M,
+              timestamp,
+              read: false,
+            },
+            ...nextHistory,
+          ];
+        });
+
+        return nextHistory.slice(0, maxEntries);
+      });
+    },
+    [maxEntries]
+  );
+
+  const markRead = useCallback((id: string) => {
+    setHistory((prevHistory) =>
+      prevHistory.map((entry) =>
+        entry.id === id && !entry.read ? { ...entry, read: true } : entry
+      )
+    );
+  }, []);
+
+  const markAllRead = useCallback(() => {
+    setHistory((prevHistory) =>
+      prevHistory.some((entry) => !entry.read)
+        ? prevHistory.map((entry) => ({ ...entry, read: true }))
+        : prevHistory
+    );
+  }, []);
+
+  const removeEntry = useCallback((id: string) => {
+    setHistory((prevHistory) => prevHistory.filter((entry) => entry.id !== id));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+  }, []);
+
+  const value = useMemo<MessageHistoryContext>(
+    () => ({
+      history,
+      unreadCount: history.filter((entry) => !entry.read).length,
+      markRead,
+      markAllRead,
+      removeEntry,
+      clearHistory,
+      recordMessages,
+    }),
+    [history, markRead, markAllRead, removeEntry, clearHistory, recordMessages]
+  );
+
+  return <context.Provider value={value}>{children}</context.Provider>;
+}
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    MessageHistoryProvider.propTypes = {
+      storage: PropTypes.shape({
+        load: PropTypes.func.isRequired,
+        save: PropTypes.func.isRequired,
+      }),
+      maxEntries: PropTypes.number,
+      defaultHistory: PropTypes.arrayOf(
+        PropTypes.shape({
+          id: PropTypes.string.isRequired,
+          message: PropTypes.object.isRequired,
+          timestamp: PropTypes.number.isRequired,
+          read: PropTypes.bool.isRequired,
+        })
+      ),
+      children: PropTypes.node.isRequired,
+    };
+  } catch (e) {}
+}
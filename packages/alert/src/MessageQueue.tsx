@@ -1,5 +1,6 @@
 import React, { ReactElement, ReactNode, useMemo } from "react";
 
+import { useMessageHistoryRecorder } from "./MessageHistory";
 import {
   AddMessage,
   AddMessageContext,
@@ -29,16 +30,35 @@ export interface MessageQueueProps<M extends ToastMessage>
    * be provided the current message followed by the click event.
    */
   onActionClick?: ActionEventHandler<M>;
+
+  /**
+   * Boolean if the toasts should not be able to be swiped away with a mouse or
+   * touch.
+   *
+   * @defaultValue `false`
+   * @remarks \@since 3.2.0
+   */
+  disableSwipeDismiss?: boolean;
 }
 
 /**
  * This component is used to be able to create a queue of messages with the
  * `Snackbar` and `Toast` components with a _fairly_ decent API out of the box.
+ *
+ * Multiple toasts can be displayed at the same time by setting the
+ * `maxVisible` prop to a number greater than `1`:
+ *
+ * ```tsx
+ * <MessageQueue id="main-alerts" maxVisible={3}>
+ *   <App />
+ * </MessageQueue>
+ * ```
  */
 export function MessageQueue<M extends ToastMessage = ToastMessage>({
   timeout = 5000,
   duplicates = "allow",
   defaultQueue = [],
+  maxVisible = 1,
   children,
   ...props
 }: MessageQueueProps<M>): ReactElement {
@@ -51,18 +71,29 @@ export function MessageQueue<M extends ToastMessage = ToastMessage>({
     restartTimer,
     addMessage,
     popMessage,
+    removeMessage,
     resetQueue,
-  } = useMessageQueue<M>({ timeout, duplicates, defaultQueue });
+  } = useMessageQueue<M>({ timeout, duplicates, defaultQueue, maxVisible });
+  useMessageHistoryRecorder(queue);
   const actions = useMemo(
     () => ({
       popMessage,
+      removeMessage,
       hideMessage,
       startTimer,
       stopTimer,
       resetQueue,
       restartTimer,
     }),
-    [popMessage, hideMessage, startTimer, stopTimer, restartTimer, resetQueue]
+    [
+      popMessage,
+      removeMessage,
+      hideMessage,
+      startTimer,
+      stopTimer,
+      restartTimer,
+      resetQueue,
+    ]
   );
 
   return (
@@ -72,7 +103,12 @@ export function MessageQueue<M extends ToastMessage = ToastMessage>({
           <MessageQueueContext.Provider value={queue}>
             {children}
           </MessageQueueContext.Provider>
-          <SnackbarQueue {...props} queue={queue} />
+          <SnackbarQueue
+            {...props}
+            queue={queue}
+            timeout={timeout}
+            maxVisible={maxVisible}
+          />
         </MessageVisibilityContext.Provider>
       </MessageQueueActionsContext.Provider>
     </AddMessageContext.Provider>
@@ -87,7 +123,9 @@ if (process.env.NODE_ENV !== "production") {
       timeout: PropTypes.number,
       duplicates: PropTypes.oneOf(["allow", "restart", "prevent"]),
       defaultQueue: PropTypes.array,
+      maxVisible: PropTypes.number,
       onActionClick: PropTypes.func,
+      disableSwipeDismiss: PropTypes.bool,
       children: PropTypes.node.isRequired,
     };
   } catch (e) {}
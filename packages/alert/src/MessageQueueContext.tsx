@@ -107,6 +107,14 @@ export function useMessageVisibility(): boolean {
  */
 export type PopMessage = () => void;
 
+/**
+ * This function is used to remove a specific message from the queue. This is
+ * mostly used when multiple messages are visible at the same time.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type RemoveMessage<M extends Message> = (message: M) => void;
+
 /**
  * This function is used to trigger the exit animation for the current message.
  * Once the animation finishes, the `PopMessage` function will be called to
@@ -148,6 +156,11 @@ export type ResetQueue<M extends Message> = () => readonly M[];
  */
 export interface MessageQueueActions<M extends Message> {
   popMessage: PopMessage;
+  /**
+   * @see {@link RemoveMessage}
+   * @remarks \@since 3.2.0
+   */
+  removeMessage(message: M): void;
   hideMessage: HideMessage;
   startTimer: StartVisibilityTimer;
   stopTimer: StopVisibilityTimer;
@@ -166,6 +179,11 @@ export const MessageQueueActionsContext = createContext<
       "Attempted to pop a message without initializing the MessageQueue component."
     );
   },
+  removeMessage() {
+    throw new Error(
+      "Attempted to remove a message without initializing the MessageQueue component."
+    );
+  },
   hideMessage() {
     throw new Error(
       "Attempted to hide a message within initializing the MessageQueue component."
@@ -0,0 +1,203 @@
+import React, { forwardRef, ReactNode } from "react";
+import cn from "classnames";
+import { Button } from "@react-md/button";
+import { DialogContent, DialogHeader, DialogTitle } from "@react-md/dialog";
+import { List, ListItem } from "@react-md/list";
+import { BaseSheetProps, Sheet } from "@react-md/sheet";
+import { SrOnly } from "@react-md/typography";
+import { bem } from "@react-md/utils";
+
+import { MessageHistoryEntry, useMessageHistory } from "./MessageHistory";
+import { ToastMessage } from "./MessageQueueContext";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface NotificationCenterProps
+  extends Omit<
+    BaseSheetProps,
+    "aria-label" | "aria-labelledby" | "children" | "title"
+  > {
+  /**
+   * The title to display at the top of the notification center that will also
+   * be used as the accessible label.
+   *
+   * @defaultValue `"Notifications"`
+   */
+  title?: ReactNode;
+
+  /**
+   * The content to display when there are no messages in the history.
+   *
+   * @defaultValue `"No notifications"`
+   */
+  emptyMessage?: ReactNode;
+
+  /**
+   * The label for the button that marks every message as read.
+   *
+   * @defaultValue `"Mark all as read"`
+   */
+  markAllReadLabel?: ReactNode;
+
+  /**
+   * The label for the button that clears the history.
+   *
+   * @defaultValue `"Clear all"`
+   */
+  clearLabel?: ReactNode;
+
+  /**
+   * The screen reader only text that is added to unread messages.
+   *
+   * @defaultValue `"Unread"`
+   */
+  unreadLabel?: ReactNode;
+
+  /**
+   * A function to format the time that a message was added to the queue. The
+   * default behavior is to use `Date.prototype.toLocaleString`.
+   */
+  formatTimestamp?(timestamp: number): ReactNode;
+
+  /**
+   * A function to get the content to display for each message. The default
+   * behavior is to render the message's `children`.
+   */
+  getEntryContent?(entry: MessageHistoryEntry<ToastMessage>): ReactNode;
+}
+
+const block = bem("rmd-notification-center");
+
+const defaultFormatTimestamp = (timestamp: number): ReactNode =>
+  new Date(timestamp).toLocaleString();
+
+const defaultGetEntryContent = (
+  entry: MessageHistoryEntry<ToastMessage>
+): ReactNode => entry.message.children;
+
+/**
+ * A ready-made panel to review the messages that were recorded by the
+ * `MessageHistoryProvider`. Clicking a message will mark it as read.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const [visible, show, hide] = useToggle(false);
+ *
+ * <NotificationCenter
+ *   id="notification-center"
+ *   visible={visible}
+ *   onRequestClose={hide}
+ * />
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export const NotificationCenter = forwardRef<
+  HTMLDivElement,
+  NotificationCenterProps
+>(function NotificationCenter(
+  {
+    id,
+    className,
+    position = "right",
+    title = "Notifications",
+    emptyMessage = "No notifications",
+    markAllReadLabel = "Mark all as read",
+    clearLabel = "Clear all",
+    unreadLabel = "Unread",
+    formatTimestamp = defaultFormatTimestamp,
+    getEntryContent = defaultGetEntryContent,
+    ...props
+  },
+  ref
+) {
+  const { history, unreadCount, markRead, markAllRead, clearHistory } =
+    useMessageHistory<ToastMessage>();
+  const titleId = `${id}-title`;
+
+  return (
+    <Sheet
+      {...props}
+      id={id}
+      ref={ref}
+      aria-labelledby={titleId}
+      position={position}
+      className={cn(block(), className)}
+    >
+      <DialogHeader className={block("header")}>
+        <DialogTitle id={titleId} className={block("title")}>
+          {title}
+        </DialogTitle>
+        <Button
+          id={`${id}-mark-all-read`}
+          disabled={unreadCount === 0}
+          onClick={markAllRead}
+        >
+          {markAllReadLabel}
+        </Button>
+        <Button
+          id={`${id}-clear`}
+          disabled={history.length === 0}
+          onClick={clearHistory}
+        >
+          {clearLabel}
+        </Button>
+      </DialogHeader>
+      <DialogContent disablePadding>
+        {history.length === 0 && (
+          <p className={block("empty")}>{emptyMessage}</p>
+        )}
+        {history.length > 0 && (
+          <List>
+            {history.map((entry) => {
+              const { id: entryId, read, timestamp } = entry;
+
+              return (
+                <ListItem
+                  id={`${id}-${entryId}`}
+                  key={entryId}
+                  onClick={() => markRead(entryId)}
+                  secondaryText={formatTimestamp(timestamp)}
+                  rightAddon={
+                    !read && (
+                      <span className={block("unread")}>
+                        <SrOnly>{unreadLabel}</SrOnly>
+                      </span>
+                    )
+                  }
+                  className={block("item", { unread: !read })}
+                >
+                  {getEntryContent(entry)}
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+      </DialogContent>
+    </Sheet>
+  );
+});
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    NotificationCenter.propTypes = {
+      id: PropTypes.string.isRequired,
+      className: PropTypes.string,
+      visible: PropTypes.bool.isRequired,
+      onRequestClose: PropTypes.func.isRequired,
+      position: PropTypes.oneOf(["top", "right", "bottom", "left"]),
+      title: PropTypes.node,
+      emptyMessage: PropTypes.node,
+      markAllReadLabel: PropTypes.node,
+      clearLabel: PropTypes.node,
+      unreadLabel: PropTypes.node,
+      formatTimestamp: PropTypes.func,
+      getEntryContent: PropTypes.func,
+    };
+  } catch (e) {}
+}
@@ -21,6 +21,15 @@ export interface SnackbarProps
    * container element.
    */
   position?: SnackbarPosition;
+
+  /**
+   * Boolean if the snackbar will display multiple toasts at the same time.
+   * This will update the layout so that each toast is stacked in a column.
+   *
+   * @defaultValue `false`
+   * @remarks \@since 3.2.0
+   */
+  stacked?: boolean;
 }
 
 const block = bem("rmd-snackbar");
@@ -34,6 +43,7 @@ export const Snackbar = forwardRef<HTMLDivElement, SnackbarProps>(
       portalInto,
       portalIntoId,
       position = "bottom",
+      stacked = false,
       ...props
     },
     ref
@@ -48,7 +58,7 @@ export const Snackbar = forwardRef<HTMLDivElement, SnackbarProps>(
           {...props}
           role="status"
           ref={ref}
-          className={cn(block({ [position]: true }), className)}
+          className={cn(block({ [position]: true, stacked }), className)}
         >
           {children}
         </div>
@@ -67,6 +77,7 @@ if (process.env.NODE_ENV !== "production") {
       className: PropTypes.string,
       children: PropTypes.node,
       position: PropTypes.oneOf(["bottom", "top"]),
+      stacked: PropTypes.bool,
       portal: PropTypes.bool,
       portalInto: PropTypes.oneOfType([PropTypes.object, PropTypes.string]),
       portalIntoId: PropTypes.string,
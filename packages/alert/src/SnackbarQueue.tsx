@@ -4,16 +4,24 @@ import React, {
   ReactElement,
   ReactNode,
   Ref,
+  useCallback,
+  useEffect,
+  useRef,
 } from "react";
+import TransitionGroup from "react-transition-group/TransitionGroup";
 import { Button, ButtonProps } from "@react-md/button";
+import { Collapse } from "@react-md/transition";
+import { bem, useTimeout } from "@react-md/utils";
 
 import {
+  DEFAULT_MESSAGE_QUEUE_TIMEOUT,
   ToastMessage,
   useMessageQueueActions,
   useMessageVisibility,
 } from "./MessageQueueContext";
 import { Snackbar, SnackbarProps } from "./Snackbar";
-import { Toast } from "./Toast";
+import { Toast, ToastProps } from "./Toast";
+import { useWindowBlurPause } from "./useWindowBlurPause";
 
 export type ActionEventHandler<M extends ToastMessage> = (
   message: M,
@@ -24,8 +32,39 @@ export interface SnackbarQueueProps<M extends ToastMessage>
   extends SnackbarProps {
   queue: readonly M[];
   onActionClick?: ActionEventHandler<M>;
+
+  /**
+   * Boolean if the toasts should not be able to be swiped away with a mouse or
+   * touch.
+   *
+   * @defaultValue `false`
+   * @remarks \@since 3.2.0
+   */
+  disableSwipeDismiss?: boolean;
+
+  /**
+   * The maximum number of toasts that can be visible at the same time. When
+   * this is greater than `1`, the toasts will be stacked and each toast will
+   * start its own visibility timer once it has entered.
+   *
+   * @defaultValue `1`
+   * @remarks \@since 3.2.0
+   */
+  maxVisible?: number;
+
+  /**
+   * The amount of time in milliseconds each stacked toast should be visible
+   * before being removed. This is only used when the `maxVisible` prop is
+   * greater than `1`.
+   *
+   * @defaultValue `DEFAULT_MESSAGE_QUEUE_TIMEOUT`
+   * @remarks \@since 3.2.0
+   */
+  timeout?: number;
 }
 
+const block = bem("rmd-snackbar");
+
 function getId(
   snackbarId: string,
   toastId: string | undefined,
@@ -42,6 +81,269 @@ function getId(
   return `${snackbarId}-action`;
 }
 
+interface ToastPropsOptions<M extends ToastMessage> {
+  toast: M;
+  snackbarId: string;
+  onActionClick: ActionEventHandler<M> | undefined;
+  hideMessage(): void;
+  swipeDismiss: (() => void) | undefined;
+  startTimer(): void;
+  stopTimer(): void;
+}
+
+interface ToastMessageProps
+  extends Omit<ToastProps, "visible" | "onEntered" | "onExited"> {
+  disableAutohide: boolean;
+}
+
+/**
+ * @internal
+ */
+function chain(
+  first: (() => void) | undefined,
+  second: (() => void) | undefined
+): (() => void) | undefined {
+  if (!first || !second) {
+    return first || second;
+  }
+
+  return () => {
+    first();
+    second();
+  };
+}
+
+/**
+ * Converts a message from the queue into the props for a `Toast` by creating
+ * the action button if needed. When the toast can be swiped away, the autohide
+ * timer will also be paused while the toast is being dragged.
+ *
+ * @internal
+ */
+function getToastProps<M extends ToastMessage>({
+  toast,
+  snackbarId,
+  onActionClick,
+  hideMessage,
+  swipeDismiss,
+  startTimer,
+  stopTimer,
+}: ToastPropsOptions<M>): ToastMessageProps {
+  const toastId = toast.id;
+  const {
+    messageId: _messageId,
+    messagePriority: _messagePriority,
+    disableAutohide = false,
+    disableActionHide = false,
+    action: providedAction,
+    onSwipeDismiss: messageSwipeDismiss,
+    onSwipeStart: messageSwipeStart,
+    onSwipeCancel: messageSwipeCancel,
+    ...toastProps
+  } = toast;
+
+  const onSwipeDismiss = chain(messageSwipeDismiss, swipeDismiss);
+  let onSwipeStart = messageSwipeStart;
+  let onSwipeCancel = messageSwipeCancel;
+  if (swipeDismiss) {
+    onSwipeStart = chain(messageSwipeStart, stopTimer);
+    onSwipeCancel = chain(
+      messageSwipeCancel,
+      disableAutohide ? undefined : startTimer
+    );
+  }
+
+  let action: ReactNode = null;
+  if (providedAction) {
+    const actionProps = providedAction as ButtonProps;
+    const onClick: React.MouseEventHandler<HTMLButtonElement> = (event) => {
+      if (onActionClick) {
+        onActionClick(toast, event);
+      }
+
+      if (actionProps.onClick) {
+        actionProps.onClick(event);
+      }
+
+      if (!disableActionHide) {
+        hideMessage();
+      }
+    };
+
+    const t = typeof providedAction;
+    if (isValidElement(providedAction) || t !== "object") {
+      action = (
+        <Button
+          id={getId(snackbarId, toastId, undefined)}
+          onClick={onClick}
+          theme="secondary"
+        >
+          {providedAction}
+        </Button>
+      );
+    } else {
+      action = (
+        <Button
+          id={getId(snackbarId, toastId, actionProps.id)}
+          theme="secondary"
+          {...actionProps}
+          onClick={onClick}
+        />
+      );
+    }
+  }
+
+  return {
+    ...toastProps,
+    action,
+    disableAutohide,
+    onSwipeDismiss,
+    onSwipeStart,
+    onSwipeCancel,
+  };
+}
+
+/**
+ * @internal
+ */
+interface StackedToastProps<M extends ToastMessage> {
+  /**
+   * This will be provided by the `TransitionGroup`.
+   */
+  in?: boolean;
+
+  /**
+   * This will be provided by the `TransitionGroup`.
+   */
+  onExited?(): void;
+
+  toast: M;
+  timeout: number;
+  snackbarId: string;
+  onActionClick: ActionEventHandler<M> | undefined;
+  disableSwipeDismiss: boolean;
+}
+
+/**
+ * Renders a single toast within a stack of toasts. Each stacked toast has its
+ * own visibility timer that will remove the toast from the queue once it has
+ * expired and collapses once removed so the remaining toasts can reflow.
+ *
+ * @internal
+ */
+function StackedToast<M extends ToastMessage>({
+  in: visible = true,
+  onExited,
+  toast,
+  timeout,
+  snackbarId,
+  onActionClick,
+  disableSwipeDismiss,
+}: StackedToastProps<M>): ReactElement {
+  const { removeMessage } = useMessageQueueActions<M>();
+  const hideMessage = useCallback(() => {
+    removeMessage(toast);
+  }, [removeMessage, toast]);
+  const [startTimer, stopTimer, restartTimer] = useTimeout(
+    hideMessage,
+    timeout
+  );
+  const { disableAutohide, ...toastProps } = getToastProps({
+    toast,
+    snackbarId,
+    onActionClick,
+    hideMessage,
+    swipeDismiss: disableSwipeDismiss
+      ? undefined
+      : () => {
+          stopTimer();
+          hideMessage();
+        },
+    startTimer,
+    stopTimer,
+  });
+
+  const entered = useRef(false);
+  useEffect(() => {
+    // the message will be a new object when it has been replaced or restarted
+    // by a duplicate, so the timer should be restarted
+    if (!entered.current) {
+      return;
+    }
+
+    if (disableAutohide) {
+      stopTimer();
+    } else {
+      restartTimer();
+    }
+  }, [toast, disableAutohide, stopTimer, restartTimer]);
+
+  useEffect(() => {
+    // the toast might have been pushed out of the visible messages by an
+    // immediate message, so it should not be removed from the queue
+    if (!visible) {
+      stopTimer();
+    }
+  }, [visible, stopTimer]);
+
+  useWindowBlurPause({
+    startTimer,
+    stopTimer,
+    visible,
+    message: toast,
+  });
+
+  return (
+    <Collapse collapsed={!visible} appear onExited={onExited}>
+      <div className={block("toast")}>
+        <Toast
+          {...toastProps}
+          visible={visible}
+          onEntered={() => {
+            entered.current = true;
+            if (!disableAutohide) {
+              startTimer();
+            }
+          }}
+        />
+      </div>
+    </Collapse>
+  );
+}
+
+/**
+ * Creates a key for each visible message so that the message's state is
+ * maintained while the queue changes. The `messageId` will be used when it
+ * exists so that replaced messages keep their position and state.
+ *
+ * @internal
+ */
+function useStackedKeys<M extends ToastMessage>(
+  visibleQueue: readonly M[]
+): readonly string[] {
+  const keys = useRef(new WeakMap<M, string>());
+  const count = useRef(0);
+
+  const occurrences = new Map<string, number>();
+  return visibleQueue.map((message) => {
+    let key =
+      typeof message.messageId !== "undefined"
+        ? `id-${message.messageId}`
+        : keys.current.get(message);
+    if (!key) {
+      count.current += 1;
+      key = `message-${count.current}`;
+      keys.current.set(message, key);
+    }
+
+    // the same message or messageId can be added multiple times when
+    // duplicates are allowed
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    return `${key}-${occurrence}`;
+  });
+}
+
 /**
  * Because the toast renderer is a callback function instead of a React
  * component, it's actually required to create a separate component instance so
@@ -50,70 +352,59 @@ function getId(
  * @internal
  */
 function SnackbarQueueT<M extends ToastMessage = ToastMessage>(
-  { queue, onActionClick, ...props }: SnackbarQueueProps<M>,
+  {
+    queue,
+    onActionClick,
+    disableSwipeDismiss = false,
+    maxVisible = 1,
+    timeout = DEFAULT_MESSAGE_QUEUE_TIMEOUT,
+    ...props
+  }: SnackbarQueueProps<M>,
   ref?: Ref<HTMLDivElement>
 ): ReactElement {
   const [toast] = queue;
   const visible = useMessageVisibility();
-  const { popMessage, hideMessage, startTimer } = useMessageQueueActions();
+  const { popMessage, hideMessage, startTimer, stopTimer } =
+    useMessageQueueActions();
+  const stacked = maxVisible > 1;
+  const visibleQueue = stacked ? queue.slice(0, maxVisible) : [];
+  const keys = useStackedKeys(visibleQueue);
 
   let content = null;
-  if (toast) {
-    const snackbarId = props.id;
-    const toastId = toast.id;
-    const {
-      messageId: _messageId,
-      messagePriority: _messagePriority,
-      disableAutohide = false,
-      disableActionHide = false,
-      action: providedAction,
-      ...toastProps
-    } = toast;
-
-    let action: ReactNode = null;
-    if (providedAction) {
-      const actionProps = providedAction as ButtonProps;
-      const onClick: React.MouseEventHandler<HTMLButtonElement> = (event) => {
-        if (onActionClick) {
-          onActionClick(toast, event);
-        }
-
-        if (actionProps.onClick) {
-          actionProps.onClick(event);
-        }
-
-        if (!disableActionHide) {
-          hideMessage();
-        }
-      };
-
-      const t = typeof providedAction;
-      if (isValidElement(providedAction) || t !== "object") {
-        action = (
-          <Button
-            id={getId(snackbarId, toastId, undefined)}
-            onClick={onClick}
-            theme="secondary"
-          >
-            {providedAction}
-          </Button>
-        );
-      } else {
-        action = (
-          <Button
-            id={getId(snackbarId, toastId, actionProps.id)}
-            theme="secondary"
-            {...actionProps}
-            onClick={onClick}
+  if (stacked) {
+    content = (
+      <TransitionGroup component={null}>
+        {visibleQueue.map((message, i) => (
+          <StackedToast
+            key={keys[i]}
+            toast={message}
+            timeout={timeout}
+            snackbarId={props.id}
+            onActionClick={onActionClick}
+            disableSwipeDismiss={disableSwipeDismiss}
           />
-        );
-      }
-    }
+        ))}
+      </TransitionGroup>
+    );
+  } else if (toast) {
+    const { disableAutohide, ...toastProps } = getToastProps({
+      toast,
+      snackbarId: props.id,
+      onActionClick,
+      hideMessage,
+      swipeDismiss: disableSwipeDismiss
+        ? undefined
+        : () => {
+            stopTimer();
+            hideMessage();
+          },
+      startTimer,
+      stopTimer,
+    });
 
     content = (
       <Toast
         {...toastProps}
-        action={action}
         visible={visible}
         onEntered={disableAutohide ? undefined : startTimer}
         onExited={popMessage}
@@ -122,7 +413,7 @@ function SnackbarQueueT<M extends ToastMessage = ToastMessage>(
   }
 
   return (
-    <Snackbar {...props} ref={ref}>
+    <Snackbar {...props} ref={ref} stacked={stacked}>
       {content}
     </Snackbar>
   );
@@ -1,3 +1,6 @@
+/* eslint-disable jsx-a11y/no-static-element-interactions */
+// the mouse and touch handlers only implement the swipe-to-dismiss gesture
+// while the toast itself is announced by the snackbar's status role
 import React, { forwardRef, HTMLAttributes, ReactNode } from "react";
 import cn from "classnames";
 import CSSTransition from "react-transition-group/CSSTransition";
@@ -5,10 +8,12 @@ import { OverridableCSSTransitionProps } from "@react-md/transition";
 import { bem } from "@react-md/utils";
 
 import { DEFAULT_TOAST_CLASSNAMES, DEFAULT_TOAST_TIMEOUT } from "./constants";
+import { ToastSwipeOptions, useToastSwipe } from "./useToastSwipe";
 
 export interface ToastProps
   extends HTMLAttributes<HTMLDivElement>,
-    Omit<OverridableCSSTransitionProps, "mountOnEnter" | "unmountOnExit"> {
+    Omit<OverridableCSSTransitionProps, "mountOnEnter" | "unmountOnExit">,
+    Omit<ToastSwipeOptions, "visible" | "onMouseDown" | "onTouchStart"> {
   /**
    * Boolean if the main message content should be stacked above the action
    * button.  This prop is invalid if an `action` is not provided.
@@ -43,11 +48,24 @@ const block = bem("rmd-toast");
  * provide the `onEntered` callback as a function to start the hide visibility
  * timer and the `onExited` callback to remove the current toast from your
  * queue.
+ *
+ * The toast can also be swiped away horizontally with a mouse or touch by
+ * providing the `onSwipeDismiss` callback.
  */
 export const Toast = forwardRef<HTMLDivElement, ToastProps>(function Toast(
   {
+    style,
     className,
     children,
+    onMouseDown,
+    onTouchStart,
+    onSwipeDismiss,
+    onSwipeStart,
+    onSwipeCancel,
+    swipeDirection,
+    swipeThreshold,
+    swipeVelocity,
+    swipeTimeout,
     onEnter,
     onEntering,
     onEntered,
@@ -64,6 +82,19 @@ export const Toast = forwardRef<HTMLDivElement, ToastProps>(function Toast(
   },
   ref
 ) {
+  const swipe = useToastSwipe({
+    visible,
+    onSwipeDismiss,
+    onSwipeStart,
+    onSwipeCancel,
+    swipeDirection,
+    swipeThreshold,
+    swipeVelocity,
+    swipeTimeout,
+    onMouseDown,
+    onTouchStart,
+  });
+
   return (
     <CSSTransition
       in={visible}
@@ -82,6 +113,9 @@ export const Toast = forwardRef<HTMLDivElement, ToastProps>(function Toast(
       <div
         {...props}
         ref={ref}
+        style={swipe.style ? { ...style, ...swipe.style } : style}
+        onMouseDown={swipe.onMouseDown}
+        onTouchStart={swipe.onTouchStart}
         className={cn(
           block({
             stacked,
@@ -90,6 +124,7 @@ export const Toast = forwardRef<HTMLDivElement, ToastProps>(function Toast(
             action,
             "action-2": action && twoLines,
           }),
+          swipe.className,
           className
         )}
       >
@@ -112,7 +147,17 @@ if (process.env.NODE_ENV !== "production") {
       action: PropTypes.element,
       stacked: PropTypes.bool,
       twoLines: PropTypes.bool,
+      style: PropTypes.object,
       className: PropTypes.string,
+      onMouseDown: PropTypes.func,
+      onTouchStart: PropTypes.func,
+      onSwipeDismiss: PropTypes.func,
+      onSwipeStart: PropTypes.func,
+      onSwipeCancel: PropTypes.func,
+      swipeDirection: PropTypes.oneOf(["both", "start", "end"]),
+      swipeThreshold: PropTypes.number,
+      swipeVelocity: PropTypes.number,
+      swipeTimeout: PropTypes.number,
       classNames: PropTypes.oneOfType([
         PropTypes.string,
         PropTypes.shape({
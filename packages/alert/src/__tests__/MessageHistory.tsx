@@ -0,0 +1,148 @@
+import React, { ReactElement } from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+
+import { MessageHistoryProvider, useMessageHistory } from "../MessageHistory";
+import { MessageHistoryStorage } from "../messageHistoryStorage";
+import { MessageQueue } from "../MessageQueue";
+import { ToastMessage, useAddMessage } from "../MessageQueueContext";
+
+jest.useFakeTimers();
+
+function Test({ message }: { message: ToastMessage }): ReactElement {
+  const addMessage = useAddMessage();
+  const { history, unreadCount, markRead, markAllRead, clearHistory } =
+    useMessageHistory();
+
+  return (
+    <>
+      <button type="button" onClick={() => addMessage(message)}>
+        Add
+      </button>
+      <button type="button" onClick={() => markRead(history[0].id)}>
+        Read
+      </button>
+      <button type="button" onClick={markAllRead}>
+        Read All
+      </button>
+      <button type="button" onClick={clearHistory}>
+        Clear
+      </button>
+      <span data-testid="unread">{unreadCount}</span>
+      <ul>
+        {history.map(({ id, message }) => (
+          <li key={id}>{message.children}</li>
+        ))}
+      </ul>
+    </>
+  );
+}
+
+describe("MessageHistoryProvider", () => {
+  it("should throw an error if the useMessageHistory hook is used without the provider", () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    expect(() =>
+      render(
+        <MessageQueue id="queue">
+          <Test message={{ children: "Message" }} />
+        </MessageQueue>
+      )
+    ).toThrowError();
+
+    error.mockRestore();
+  });
+
+  it("should record every message added to the queue even after it has been hidden", () => {
+    const { getByText, getByTestId, getAllByRole } = render(
+      <MessageHistoryProvider>
+        <MessageQueue id="queue" timeout={1000}>
+          <Test message={{ children: "Message" }} />
+        </MessageQueue>
+      </MessageHistoryProvider>
+    );
+
+    fireEvent.click(getByText("Add"));
+    fireEvent.click(getByText("Add"));
+    act(() => {
+      jest.runAllTimers();
+    });
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    expect(getAllByRole("listitem")).toHaveLength(2);
+    expect(getByTestId("unread")).toHaveTextContent("2");
+
+    fireEvent.click(getByText("Read"));
+    expect(getByTestId("unread")).toHaveTextContent("1");
+    fireEvent.click(getByText("Read All"));
+    expect(getByTestId("unread")).toHaveTextContent("0");
+
+    fireEvent.click(getByText("Clear"));
+    expect(() => getAllByRole("listitem")).toThrow();
+  });
+
+  it("should update the existing entry when a message is replaced", () => {
+    const { getByText, getAllByRole, rerender } = render(
+      <MessageHistoryProvider>
+        <MessageQueue id="queue">
+          <Test message={{ messageId: "saving", children: "Saving" }} />
+        </MessageQueue>
+      </MessageHistoryProvider>
+    );
+
+    fireEvent.click(getByText("Add"));
+    rerender(
+      <MessageHistoryProvider>
+        <MessageQueue id="queue">
+          <Test
+            message={{
+              messageId: "saving",
+              messagePriority: "replace",
+              children: "Saved",
+            }}
+          />
+        </MessageQueue>
+      </MessageHistoryProvider>
+    );
+    fireEvent.click(getByText("Add"));
+
+    const items = getAllByRole("listitem");
+    expect(items).toHaveLength(1);
+    expect(items[0]).toHaveTextContent("Saved");
+  });
+
+  it("should load and save the history with the storage adapter", () => {
+    const storage: MessageHistoryStorage = {
+      load: jest.fn(() => [
+        {
+          id: "stored",
+          message: { children: "Stored" },
+          timestamp: 0,
+          read: true,
+        },
+      ]),
+      save: jest.fn(),
+    };
+
+    const { getByText, getAllByRole } = render(
+      <MessageHistoryProvider storage={storage}>
+        <MessageQueue id="queue">
+          <Test message={{ children: "Message" }} />
+        </MessageQueue>
+      </MessageHistoryProvider>
+    );
+
+    expect(storage.load).toBeCalledTimes(1);
+    expect(getAllByRole("listitem")).toHaveLength(1);
+
+    fireEvent.click(getByText("Add"));
+    expect(getAllByRole("listitem")).toHaveLength(2);
+    expect(storage.save).toHaveBeenLastCalledWith([
+      expect.objectContaining({
+        message: { children: "Message" },
+        read: false,
+      }),
+      expect.objectContaining({ id: "stored" }),
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import React, { ReactElement } from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+
+import { MessageQueue } from "../MessageQueue";
+import { ToastMessage, useAddMessage } from "../MessageQueueContext";
+
+function AddMessageButtons({
+  messages,
+}: {
+  messages: readonly ToastMessage[];
+}): ReactElement {
+  const addMessage = useAddMessage();
+
+  return (
+    <>
+      {messages.map((message, i) => (
+        <button key={i} type="button" onClick={() => addMessage(message)}>
+          {`Add ${i + 1}`}
+        </button>
+      ))}
+    </>
+  );
+}
+
+jest.useFakeTimers();
+
+const messages: readonly ToastMessage[] = [
+  { messageId: "message-1", children: "Message 1" },
+  { messageId: "message-2", children: "Message 2" },
+  { messageId: "message-3", children: "Message 3" },
+];
+
+describe("MessageQueue", () => {
+  it("should only render a single toast by default", () => {
+    const { getByText, queryByText } = render(
+      <MessageQueue id="queue">
+        <AddMessageButtons messages={messages} />
+      </MessageQueue>
+    );
+
+    fireEvent.click(getByText("Add 1"));
+    fireEvent.click(getByText("Add 2"));
+    expect(getByText("Message 1")).toBeInTheDocument();
+    expect(queryByText("Message 2")).toBeNull();
+  });
+
+  it("should render up to the maxVisible number of toasts and show the next message once one has timed out", () => {
+    const { getByText, queryByText, container } = render(
+      <MessageQueue id="queue" maxVisible={2} timeout={1000}>
+        <AddMessageButtons messages={messages} />
+      </MessageQueue>
+    );
+
+    const snackbar = container.querySelector(".rmd-snackbar");
+    expect(snackbar).toHaveClass("rmd-snackbar--stacked");
+
+    fireEvent.click(getByText("Add 1"));
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+    fireEvent.click(getByText("Add 2"));
+    fireEvent.click(getByText("Add 3"));
+    expect(getByText("Message 1")).toBeInTheDocument();
+    expect(getByText("Message 2")).toBeInTheDocument();
+    expect(queryByText("Message 3")).toBeNull();
+
+    // each toast has its own timer so only the first message should be
+    // removed at this point
+    act(() => {
+      jest.advanceTimersByTime(700);
+    });
+    expect(getByText("Message 3")).toBeInTheDocument();
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(queryByText("Message 1")).toBeNull();
+    expect(getByText("Message 2")).toBeInTheDocument();
+    expect(getByText("Message 3")).toBeInTheDocument();
+  });
+
+  it("should not automatically remove stacked toasts that disable the autohide behavior", () => {
+    const { getByText } = render(
+      <MessageQueue id="queue" maxVisible={2} timeout={1000}>
+        <AddMessageButtons
+          messages={[{ children: "Message 1", disableAutohide: true }]}
+        />
+      </MessageQueue>
+    );
+
+    fireEvent.click(getByText("Add 1"));
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(getByText("Message 1")).toBeInTheDocument();
+  });
+
+  it("should remove the message once it has been swiped away", () => {
+    const { getByText, queryByText } = render(
+      <MessageQueue id="queue">
+        <AddMessageButtons messages={messages} />
+      </MessageQueue>
+    );
+
+    fireEvent.click(getByText("Add 1"));
+    fireEvent.click(getByText("Add 2"));
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+
+    const toast = getByText("Message 1").parentElement as HTMLElement;
+    fireEvent.mouseDown(toast, { clientX: 0 });
+    fireEvent.mouseMove(window, { clientX: 500 });
+    fireEvent.mouseUp(window);
+    act(() => {
+      jest.advanceTimersByTime(150);
+    });
+    act(() => {
+      jest.advanceTimersByTime(150);
+    });
+    expect(queryByText("Message 1")).toBeNull();
+    expect(getByText("Message 2")).toBeInTheDocument();
+  });
+
+  it("should pause the autohide timer while the toast is being swiped", () => {
+    const { getByText } = render(
+      <MessageQueue id="queue" timeout={1000}>
+        <AddMessageButtons messages={messages} />
+      </MessageQueue>
+    );
+
+    fireEvent.click(getByText("Add 1"));
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+
+    const toast = getByText("Message 1").parentElement as HTMLElement;
+    fireEvent.mouseDown(toast, { clientX: 0 });
+    // move past the drag threshold and back so the toast is not dismissed
+    fireEvent.mouseMove(window, { clientX: 20 });
+    fireEvent.mouseMove(window, { clientX: 0 });
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    expect(toast).toHaveClass("rmd-toast--swiping");
+    expect(getByText("Message 1")).toBeInTheDocument();
+
+    fireEvent.mouseUp(window);
+    expect(toast).toHaveClass("rmd-toast--swipe-return");
+    act(() => {
+      jest.advanceTimersByTime(900);
+    });
+    expect(toast).not.toHaveClass("rmd-toast--exit");
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(toast).toHaveClass("rmd-toast--exit");
+  });
+
+  it("should not restart the autohide timer when the toast is clicked without swiping", () => {
+    const { getByText } = render(
+      <MessageQueue id="queue" timeout={1000}>
+        <AddMessageButtons messages={messages} />
+      </MessageQueue>
+    );
+
+    fireEvent.click(getByText("Add 1"));
+    act(() => {
+      jest.advanceTimersByTime(900);
+    });
+
+    const toast = getByText("Message 1").parentElement as HTMLElement;
+    fireEvent.mouseDown(toast, { clientX: 0 });
+    fireEvent.mouseUp(window);
+    expect(toast).not.toHaveClass("rmd-toast--swipe-return");
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(toast).toHaveClass("rmd-toast--exit");
+  });
+});
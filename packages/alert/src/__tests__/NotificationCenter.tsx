@@ -0,0 +1,59 @@
+import React from "react";
+import { fireEvent, render } from "@testing-library/react";
+
+import { MessageHistoryEntry, MessageHistoryProvider } from "../MessageHistory";
+import { ToastMessage } from "../MessageQueueContext";
+import { NotificationCenter } from "../NotificationCenter";
+
+const history: readonly MessageHistoryEntry<ToastMessage>[] = [
+  { id: "2", message: { children: "Second" }, timestamp: 2, read: false },
+  { id: "1", message: { children: "First" }, timestamp: 1, read: true },
+];
+
+describe("NotificationCenter", () => {
+  it("should render an empty message when there is no history", () => {
+    const { getByRole, getByText } = render(
+      <MessageHistoryProvider>
+        <NotificationCenter
+          id="notifications"
+          visible
+          onRequestClose={() => {}}
+          portal={false}
+        />
+      </MessageHistoryProvider>
+    );
+
+    expect(getByRole("dialog", { name: "Notifications" })).toBeInTheDocument();
+    expect(getByText("No notifications")).toBeInTheDocument();
+    expect(getByRole("button", { name: "Clear all" })).toBeDisabled();
+  });
+
+  it("should render each message and allow them to be marked as read or cleared", () => {
+    const { getByRole, getByText, queryByText } = render(
+      <MessageHistoryProvider defaultHistory={history}>
+        <NotificationCenter
+          id="notifications"
+          visible
+          onRequestClose={() => {}}
+          portal={false}
+          formatTimestamp={(timestamp) => `Time ${timestamp}`}
+        />
+      </MessageHistoryProvider>
+    );
+
+    const items = Array.from(
+      document.querySelectorAll(".rmd-notification-center__item")
+    );
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveTextContent("SecondTime 2Unread");
+    expect(items[0]).toHaveClass("rmd-notification-center__item--unread");
+    expect(items[1]).toHaveTextContent("FirstTime 1");
+
+    fireEvent.click(items[0]);
+    expect(queryByText("Unread")).toBeNull();
+    expect(getByRole("button", { name: "Mark all as read" })).toBeDisabled();
+
+    fireEvent.click(getByRole("button", { name: "Clear all" }));
+    expect(getByText("No notifications")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,63 @@
+import { createElement } from "react";
+
+import { createLocalStorageMessageHistory } from "../messageHistoryStorage";
+
+describe("createLocalStorageMessageHistory", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("should save and load the history from localStorage", () => {
+    const storage = createLocalStorageMessageHistory({ key: "history" });
+    const history = [
+      { id: "1", message: { children: "Message" }, timestamp: 0, read: false },
+    ];
+
+    expect(storage.load()).toEqual([]);
+    storage.save(history);
+    expect(localStorage.getItem("history")).toBe(JSON.stringify(history));
+    expect(storage.load()).toEqual(history);
+  });
+
+  it("should only persist the serializable parts of each message", () => {
+    const storage = createLocalStorageMessageHistory({ key: "history" });
+    const onClick = jest.fn();
+    storage.save([
+      {
+        id: "1",
+        message: {
+          children: createElement("span", null, "Element"),
+          action: { children: "Undo", onClick },
+        },
+        timestamp: 0,
+        read: false,
+      },
+      {
+        id: "2",
+        message: { children: "Text", action: createElement("button") },
+        timestamp: 1,
+        read: true,
+      },
+    ]);
+
+    expect(storage.load()).toEqual([
+      {
+        id: "1",
+        message: { action: { children: "Undo" } },
+        timestamp: 0,
+        read: false,
+      },
+      { id: "2", message: { children: "Text" }, timestamp: 1, read: true },
+    ]);
+  });
+
+  it("should return an empty history if the stored value is invalid", () => {
+    const storage = createLocalStorageMessageHistory();
+
+    localStorage.setItem("rmd-message-history", "{");
+    expect(storage.load()).toEqual([]);
+
+    localStorage.setItem("rmd-message-history", "{}");
+    expect(storage.load()).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import React, { ReactElement } from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+
+import { MessageQueue } from "../MessageQueue";
+import { ToastMessage } from "../MessageQueueContext";
+import { PromiseMessages, useAddPromiseMessage } from "../useAddPromiseMessage";
+
+jest.useFakeTimers();
+
+interface TestProps {
+  promise: Promise<string>;
+  messages?: PromiseMessages<string, ToastMessage>;
+}
+
+const DEFAULT_MESSAGES: PromiseMessages<string, ToastMessage> = {
+  pending: { children: "Saving" },
+  fulfilled: (value) => ({ children: `Saved ${value}` }),
+  rejected: { children: "Unable to save" },
+};
+
+function Test({
+  promise,
+  messages = DEFAULT_MESSAGES,
+}: TestProps): ReactElement {
+  const addPromiseMessage = useAddPromiseMessage();
+
+  return (
+    <button
+      type="button"
+      onClick={() => {
+        addPromiseMessage(promise, messages).catch(() => {});
+      }}
+    >
+      Save
+    </button>
+  );
+}
+
+function createPromise(): [
+  Promise<string>,
+  (value: string) => void,
+  (error: Error) => void
+] {
+  let resolve: (value: string) => void = () => {};
+  let reject: (error: Error) => void = () => {};
+  const promise = new Promise<string>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  return [promise, resolve, reject];
+}
+
+describe("useAddPromiseMessage", () => {
+  it("should replace the pending message with the fulfilled message and restart the timer", async () => {
+    const [promise, resolve] = createPromise();
+    const { getByText, queryByText } = render(
+      <MessageQueue id="queue" timeout={1000}>
+        <Test promise={promise} />
+      </MessageQueue>
+    );
+
+    fireEvent.click(getByText("Save"));
+    act(() => {
+      jest.advanceTimersByTime(5000);
+    });
+    expect(getByText("Saving")).toBeInTheDocument();
+
+    await act(async () => {
+      resolve("document");
+      await promise;
+    });
+    expect(queryByText("Saving")).toBeNull();
+    expect(getByText("Saved document")).toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(queryByText("Saved document")).toBeNull();
+  });
+
+  it("should keep the position of the message when stacked", async () => {
+    const [promise, , reject] = createPromise();
+    const { getByText, container } = render(
+      <MessageQueue
+        id="queue"
+        maxVisible={2}
+        defaultQueue={[{ children: "Existing" }]}
+      >
+        <Test promise={promise} />
+      </MessageQueue>
+    );
+
+    fireEvent.click(getByText("Save"));
+    const getMessages = (): string[] =>
+      Array.from(
+        container.querySelectorAll(".rmd-toast__message"),
+        (message) => message.textContent || ""
+      );
+    expect(getMessages()).toEqual(["Existing", "Saving"]);
+
+    await act(async () => {
+      reject(new Error());
+      await promise.catch(() => {});
+    });
+    expect(getMessages()).toEqual(["Existing", "Unable to save"]);
+  });
+});
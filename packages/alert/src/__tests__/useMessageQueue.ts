@@ -7,6 +7,8 @@ import {
   popMessage,
   POP_MESSAGE,
   reducer,
+  removeMessage,
+  REMOVE_MESSAGE,
   resetQueue,
   RESET_QUEUE,
 } from "../useMessageQueue";
@@ -46,6 +48,16 @@ describe("popMessage", () => {
   });
 });
 
+describe("removeMessage", () => {
+  it("should create the correct action", () => {
+    const message: Message = { messageId: "message-1" };
+    expect(removeMessage(message)).toEqual({
+      type: REMOVE_MESSAGE,
+      message: { messageId: "message-1" },
+    });
+  });
+});
+
 describe("resetQueue", () => {
   it("should create the correct action", () => {
     expect(resetQueue()).toEqual({ type: RESET_QUEUE });
@@ -350,6 +362,78 @@ describe("handleAddMessage", () => {
   });
 });
 
+describe("handleAddMessage with multiple visible messages", () => {
+  const message1: Message = { messageId: "message-1" };
+  const message2: Message = { messageId: "message-2" };
+  const message3: Message = { messageId: "message-3" };
+  const message4: Message = { messageId: "message-4" };
+
+  it("should insert next messages immediately after the visible messages", () => {
+    const next: Message = { messageId: "next", messagePriority: "next" };
+
+    expect(handleAddMessage([message1], next, "allow", 3)).toEqual([
+      message1,
+      next,
+    ]);
+    expect(
+      handleAddMessage(
+        [message1, message2, message3, message4],
+        next,
+        "allow",
+        3
+      )
+    ).toEqual([message1, message2, message3, next, message4]);
+  });
+
+  it("should insert immediate messages at the start of the queue without duplicating the visible messages", () => {
+    const immediate: Message = {
+      messageId: "immediate",
+      messagePriority: "immediate",
+    };
+
+    expect(
+      handleAddMessage([message1, message2, message3], immediate, "allow", 2)
+    ).toEqual([immediate, message1, message2, message3]);
+  });
+
+  it("should move a hidden duplicate message when duplicates are not allowed", () => {
+    const next: Message = { messageId: "message-4", messagePriority: "next" };
+
+    expect(
+      handleAddMessage(
+        [message1, message2, message3, message4],
+        next,
+        "prevent",
+        2
+      )
+    ).toEqual([message1, message2, next, message3]);
+  });
+
+  it("should only restart the timer for a visible duplicate message by copying it", () => {
+    const state = [message1, message2, message3];
+    const next: Message = { messageId: "message-2", messagePriority: "next" };
+
+    expect(handleAddMessage(state, next, "prevent", 2)).toBe(state);
+
+    const nextState = handleAddMessage(state, next, "restart", 2);
+    expect(nextState).toEqual(state);
+    expect(nextState[0]).toBe(message1);
+    expect(nextState[1]).not.toBe(message2);
+    expect(nextState[2]).toBe(message3);
+  });
+
+  it("should replace a visible message in place", () => {
+    const replace: Message = {
+      messageId: "message-2",
+      messagePriority: "replace",
+    };
+
+    expect(
+      handleAddMessage([message1, message2, message3], replace, "prevent", 2)
+    ).toEqual([message1, replace, message3]);
+  });
+});
+
 describe("reducer", () => {
   const message1: Message = { messageId: "message-1" };
   const message2: Message = { messageId: "message-2" };
@@ -377,6 +461,18 @@ describe("reducer", () => {
     expect(reducer([message1, message2], popMessage())).toEqual([message2]);
   });
 
+  it("should remove the specific message after a REMOVE_MESSAGE action", () => {
+    const state = [message1, message2, message3];
+
+    expect(reducer(state, removeMessage(message2))).toEqual([
+      message1,
+      message3,
+    ]);
+    expect(reducer(state, removeMessage({ messageId: "message-2" }))).toBe(
+      state
+    );
+  });
+
   it("should reset the queue after a RESET_QUEUE action", () => {
     expect(reducer([message1], resetQueue())).toEqual([]);
     expect(reducer([message1, message1], resetQueue())).toEqual([]);
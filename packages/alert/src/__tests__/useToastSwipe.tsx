@@ -0,0 +1,200 @@
+import React, { ReactElement } from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import { Dir } from "@react-md/utils";
+
+import { Toast, ToastProps } from "../Toast";
+
+jest.useFakeTimers();
+
+let offsetWidth: jest.SpyInstance;
+beforeAll(() => {
+  offsetWidth = jest
+    .spyOn(HTMLElement.prototype, "offsetWidth", "get")
+    .mockReturnValue(300);
+});
+
+afterAll(() => {
+  offsetWidth.mockRestore();
+});
+
+function Test(props: Omit<ToastProps, "visible">): ReactElement {
+  return (
+    <Toast {...props} visible>
+      Message
+    </Toast>
+  );
+}
+
+function swipe(toast: HTMLElement, from: number, to: number, duration = 500) {
+  fireEvent.mouseDown(toast, { clientX: from });
+  act(() => {
+    jest.advanceTimersByTime(duration);
+  });
+  fireEvent.mouseMove(window, { clientX: to });
+  fireEvent.mouseUp(window);
+}
+
+describe("useToastSwipe", () => {
+  it("should not be swipeable without the onSwipeDismiss prop", () => {
+    const { getByText } = render(<Test />);
+    const toast = getByText("Message").parentElement as HTMLElement;
+
+    swipe(toast, 0, 300);
+    expect(toast).not.toHaveClass("rmd-toast--swipeable");
+    expect(toast.style.transform).toBe("");
+  });
+
+  it("should call the onSwipeDismiss prop after it has been swiped past the threshold", () => {
+    const onSwipeDismiss = jest.fn();
+    const { getByText } = render(<Test onSwipeDismiss={onSwipeDismiss} />);
+    const toast = getByText("Message").parentElement as HTMLElement;
+    expect(toast).toHaveClass("rmd-toast--swipeable");
+
+    fireEvent.mouseDown(toast, { clientX: 0 });
+    fireEvent.mouseMove(window, { clientX: 75 });
+    expect(toast).toHaveClass("rmd-toast--swiping");
+    expect(toast.style.transform).toBe("translateX(75px)");
+    expect(toast.style.opacity).toBe("0.75");
+
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+    fireEvent.mouseMove(window, { clientX: 160 });
+    fireEvent.mouseUp(window);
+    expect(toast).toHaveClass("rmd-toast--swiped");
+    expect(toast.style.transform).toBe("translateX(300px)");
+    expect(onSwipeDismiss).not.toBeCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(150);
+    });
+    expect(onSwipeDismiss).toBeCalledTimes(1);
+  });
+
+  it("should spring back if it was not swiped far or fast enough", () => {
+    const onSwipeDismiss = jest.fn();
+    const { getByText } = render(<Test onSwipeDismiss={onSwipeDismiss} />);
+    const toast = getByText("Message").parentElement as HTMLElement;
+
+    swipe(toast, 0, -100);
+    expect(toast).toHaveClass("rmd-toast--swipe-return");
+    expect(toast.style.transform).toBe("");
+
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(onSwipeDismiss).not.toBeCalled();
+  });
+
+  it("should not restart the dismiss timeout when the onSwipeDismiss prop changes", () => {
+    const onSwipeDismiss = jest.fn();
+    const { getByText, rerender } = render(
+      <Test onSwipeDismiss={() => onSwipeDismiss("first")} />
+    );
+    const toast = getByText("Message").parentElement as HTMLElement;
+
+    swipe(toast, 0, 200);
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    rerender(<Test onSwipeDismiss={() => onSwipeDismiss("second")} />);
+    act(() => {
+      jest.advanceTimersByTime(50);
+    });
+    expect(onSwipeDismiss).toBeCalledTimes(1);
+    expect(onSwipeDismiss).toBeCalledWith("second");
+  });
+
+  it("should call the onSwipeStart and onSwipeCancel props", () => {
+    const onSwipeStart = jest.fn();
+    const onSwipeCancel = jest.fn();
+    const { getByText } = render(
+      <Test
+        onSwipeDismiss={jest.fn()}
+        onSwipeStart={onSwipeStart}
+        onSwipeCancel={onSwipeCancel}
+      />
+    );
+    const toast = getByText("Message").parentElement as HTMLElement;
+
+    fireEvent.mouseDown(toast, { clientX: 0 });
+    expect(onSwipeStart).not.toBeCalled();
+
+    fireEvent.mouseMove(window, { clientX: 50 });
+    expect(onSwipeStart).toBeCalledTimes(1);
+    expect(onSwipeCancel).not.toBeCalled();
+
+    fireEvent.mouseUp(window);
+    expect(onSwipeCancel).toBeCalledTimes(1);
+
+    swipe(toast, 0, 200);
+    expect(onSwipeStart).toBeCalledTimes(2);
+    expect(onSwipeCancel).toBeCalledTimes(1);
+  });
+
+  it("should not start a swipe until the pointer has moved past the drag threshold", () => {
+    const onSwipeStart = jest.fn();
+    const onSwipeCancel = jest.fn();
+    const { getByText } = render(
+      <Test
+        onSwipeDismiss={jest.fn()}
+        onSwipeStart={onSwipeStart}
+        onSwipeCancel={onSwipeCancel}
+      />
+    );
+    const toast = getByText("Message").parentElement as HTMLElement;
+
+    fireEvent.mouseDown(toast, { clientX: 0 });
+    fireEvent.mouseMove(window, { clientX: 4 });
+    expect(toast).not.toHaveClass("rmd-toast--swiping");
+    expect(toast.style.transform).toBe("");
+
+    fireEvent.mouseUp(window);
+    expect(toast).not.toHaveClass("rmd-toast--swipe-return");
+    expect(onSwipeStart).not.toBeCalled();
+    expect(onSwipeCancel).not.toBeCalled();
+  });
+
+  it("should not start a swipe from an interactive element within the toast", () => {
+    const onSwipeStart = jest.fn();
+    const { getByRole } = render(
+      <Toast visible onSwipeDismiss={jest.fn()} onSwipeStart={onSwipeStart}>
+        <button type="button">Undo</button>
+      </Toast>
+    );
+    const button = getByRole("button", { name: "Undo" });
+    const toast = button.closest(".rmd-toast") as HTMLElement;
+
+    swipe(button, 0, 200);
+    expect(toast).not.toHaveClass("rmd-toast--swiped");
+    expect(onSwipeStart).not.toBeCalled();
+  });
+
+  it("should be dismissed by a fast swipe even if the threshold was not reached", () => {
+    const onSwipeDismiss = jest.fn();
+    const { getByText } = render(<Test onSwipeDismiss={onSwipeDismiss} />);
+    const toast = getByText("Message").parentElement as HTMLElement;
+
+    swipe(toast, 0, -100, 50);
+    expect(toast).toHaveClass("rmd-toast--swiped");
+    expect(toast.style.transform).toBe("translateX(-300px)");
+  });
+
+  it("should swap the start and end directions in right-to-left languages", () => {
+    const onSwipeDismiss = jest.fn();
+    const { getByText } = render(
+      <Dir defaultDir="rtl">
+        <div>
+          <Test onSwipeDismiss={onSwipeDismiss} swipeDirection="end" />
+        </div>
+      </Dir>
+    );
+    const toast = getByText("Message").parentElement as HTMLElement;
+
+    swipe(toast, 0, 200);
+    expect(toast).toHaveClass("rmd-toast--swipe-return");
+
+    swipe(toast, 0, -200);
+    expect(toast).toHaveClass("rmd-toast--swiped");
+  });
+});
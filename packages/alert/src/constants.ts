@@ -10,3 +10,11 @@ export const DEFAULT_TOAST_CLASSNAMES: CSSTransitionClassNames = {
   exit: "rmd-toast--exit",
   exitActive: "rmd-toast--exit-active",
 };
+
+/**
+ * The duration in milliseconds for a toast to animate out after it has been
+ * swiped away.
+ *
+ * @remarks \@since 3.2.0
+ */
+export const DEFAULT_TOAST_SWIPE_TIMEOUT = 150;
@@ -3,6 +3,11 @@
  */
 export * from "./Snackbar";
 export * from "./Toast";
+export * from "./useToastSwipe";
 export * from "./MessageQueue";
 export * from "./MessageQueueContext";
+export * from "./useAddPromiseMessage";
+export * from "./MessageHistory";
+export * from "./messageHistoryStorage";
+export * from "./NotificationCenter";
 export * from "./constants";
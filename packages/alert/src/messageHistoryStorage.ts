@@ -0,0 +1,117 @@
+import { isValidElement } from "react";
+
+import { Message, ToastMessage } from "./MessageQueueContext";
+import { MessageHistoryEntry } from "./MessageHistory";
+
+/**
+ * An adapter that can be provided to the `MessageHistoryProvider` to persist
+ * the message history between page loads.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface MessageHistoryStorage<M extends Message = ToastMessage> {
+  /**
+   * This will be called once when the `MessageHistoryProvider` mounts to get
+   * the initial history.
+   */
+  load(): readonly MessageHistoryEntry<M>[];
+
+  /**
+   * This will be called each time the history changes.
+   */
+  save(history: readonly MessageHistoryEntry<M>[]): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface LocalStorageMessageHistoryOptions<
+  M extends Message = ToastMessage
+> {
+  /**
+   * The `localStorage` key to store the history in.
+   *
+   * @defaultValue `"rmd-message-history"`
+   */
+  key?: string;
+
+  /**
+   * An optional function to convert the history into a string. The default
+   * behavior is to use `JSON.stringify` while omitting any `ReactElement`s and
+   * functions so that only the serializable parts of each message are
+   * persisted. This should be provided if the messages contain `ReactElement`
+   * children or actions that need to be restored.
+   */
+  serialize?(history: readonly MessageHistoryEntry<M>[]): string;
+
+  /**
+   * An optional function to convert the stored string back into the history.
+   * The default behavior is to use `JSON.parse`.
+   */
+  deserialize?(value: string): readonly MessageHistoryEntry<M>[];
+}
+
+/**
+ * A `JSON.stringify` replacer that omits values that cannot be restored with
+ * `JSON.parse` since a `ReactElement` would be restored as a plain object and
+ * could contain circular references to the React internals.
+ */
+const replacer = (_key: string, value: unknown): unknown =>
+  (typeof value === "object" && isValidElement(value)) ||
+  typeof value === "function"
+    ? undefined
+    : value;
+
+const defaultSerialize = (
+  history: readonly MessageHistoryEntry<Message>[]
+): string => JSON.stringify(history, replacer);
+
+/**
+ * Creates a {@link MessageHistoryStorage} that persists the message history in
+ * `localStorage`. If `localStorage` is unavailable or the stored value is
+ * invalid, the history will start empty.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const storage = createLocalStorageMessageHistory({ key: "my-app-alerts" });
+ *
+ * <MessageHistoryProvider storage={storage}>
+ *   <MessageQueue id="main-alerts">
+ *     <App />
+ *   </MessageQueue>
+ * </MessageHistoryProvider>
+ * ```
+ *
+ * @param options - The {@link LocalStorageMessageHistoryOptions}
+ * @returns a {@link MessageHistoryStorage} for `localStorage`
+ * @remarks \@since 3.2.0
+ */
+export function createLocalStorageMessageHistory<
+  M extends Message = ToastMessage
+>({
+  key = "rmd-message-history",
+  serialize = defaultSerialize,
+  deserialize = JSON.parse,
+}: LocalStorageMessageHistoryOptions<M> = {}): MessageHistoryStorage<M> {
+  return {
+    load() {
+      try {
+        const value = localStorage.getItem(key);
+        const history = value ? deserialize(value) : [];
+
+        return Array.isArray(history) ? history : [];
+      } catch (e) {
+        return [];
+      }
+    },
+    save(history) {
+      try {
+        localStorage.setItem(key, serialize(history));
+      } catch (e) {
+        // the storage quota was exceeded or localStorage is disabled so the
+        // history will only be available until the page is reloaded
+      }
+    },
+  };
+}
@@ -5,6 +5,7 @@
 
 export default {
   "rmd-snackbar-margin": "1rem",
+  "rmd-snackbar-stacked-spacing": "0.5rem",
   "rmd-snackbar-z-index": 40,
   "rmd-toast-elevation": 6,
   "rmd-toast-border-radius": "0.25rem",
@@ -24,6 +25,9 @@ export default {
   "rmd-toast-stacked-action-margin-top": "0.25rem",
   "rmd-toast-enter-duration": "0.15s",
   "rmd-toast-exit-duration": "0.15s",
+  "rmd-toast-swipe-return-duration": "0.15s",
+  "rmd-notification-center-unread-size": "0.5rem",
+  "rmd-notification-center-empty-padding": "1rem",
   "rmd-alert-theme-values": {
     "background-color": "#323232",
     color: "#fff",
@@ -0,0 +1,122 @@
+import { useCallback } from "react";
+
+import { Message, ToastMessage, useAddMessage } from "./MessageQueueContext";
+
+/**
+ * A message to display once the promise has settled. This can either be a
+ * message or a function that creates the message from the promise's result.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type SettledPromiseMessage<V, M extends Message = ToastMessage> =
+  | M
+  | ((value: V) => M);
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface PromiseMessages<T, M extends Message = ToastMessage> {
+  /**
+   * The message to display while the promise is pending. This message will
+   * have the `disableAutohide` behavior enabled by default so that it is not
+   * hidden before the promise settles.
+   */
+  pending: M;
+
+  /**
+   * The message that should replace the pending message once the promise has
+   * been fulfilled.
+   */
+  fulfilled: SettledPromiseMessage<T, M>;
+
+  /**
+   * The message that should replace the pending message once the promise has
+   * been rejected.
+   */
+  rejected: SettledPromiseMessage<unknown, M>;
+}
+
+/**
+ * This function is used to add a message to the queue that will be updated in
+ * place once the promise settles. The provided promise will be returned so
+ * that it can still be chained.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type AddPromiseMessage<M extends Message = ToastMessage> = <T>(
+  promise: Promise<T>,
+  messages: PromiseMessages<T, M>
+) => Promise<T>;
+
+let promiseMessageId = 0;
+
+function getSettledMessage<V, M extends Message>(
+  message: SettledPromiseMessage<V, M>,
+  value: V
+): M {
+  return typeof message === "function"
+    ? (message as (value: V) => M)(value)
+    : message;
+}
+
+/**
+ * This hook is used to add a message to the queue that displays the current
+ * state of a promise. The `pending` message will be shown until the promise
+ * settles and will then be replaced by the `fulfilled` or `rejected` message
+ * so that the toast keeps its position in the queue and restarts its
+ * visibility timer.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const addPromiseMessage = useAddPromiseMessage();
+ *
+ * const save = (): void => {
+ *   addPromiseMessage(saveDocument(), {
+ *     pending: { children: "Saving…" },
+ *     fulfilled: { children: "Saved" },
+ *     rejected: (error) => ({ children: `Unable to save: ${error}` }),
+ *   });
+ * };
+ * ```
+ *
+ * Note: A `messageId` will be generated for the messages if the `pending`
+ * message does not have one since it is required to replace the message. If
+ * the pending message has already been removed from the queue, the settled
+ * message will be added to the end of the queue instead.
+ *
+ * @remarks \@since 3.2.0
+ */
+export function useAddPromiseMessage<
+  M extends Message = ToastMessage
+>(): AddPromiseMessage<M> {
+  const addMessage = useAddMessage<M>();
+
+  return useCallback<AddPromiseMessage<M>>(
+    (promise, { pending, fulfilled, rejected }) => {
+      let { messageId } = pending;
+      if (typeof messageId === "undefined") {
+        promiseMessageId += 1;
+        messageId = `promise-message-${promiseMessageId}`;
+      }
+
+      addMessage({ disableAutohide: true, ...pending, messageId });
+
+      const replaceMessage = (message: M): void => {
+        addMessage({ ...message, messageId, messagePriority: "replace" });
+      };
+
+      promise.then(
+        (value) => {
+          replaceMessage(getSettledMessage(fulfilled, value));
+        },
+        (error: unknown) => {
+          replaceMessage(getSettledMessage(rejected, error));
+        }
+      );
+
+      return promise;
+    },
+    [addMessage]
+  );
+}
@@ -8,6 +8,7 @@ import {
   Message,
   MessageQueueActions,
   PopMessage,
+  RemoveMessage,
   ResetQueue,
   ToastMessage,
 } from "./MessageQueueContext";
@@ -15,6 +16,7 @@ import { useWindowBlurPause } from "./useWindowBlurPause";
 
 export const ADD_MESSAGE = "ADD_MESSAGE";
 export const POP_MESSAGE = "POP_MESSAGE";
+export const REMOVE_MESSAGE = "REMOVE_MESSAGE";
 export const RESET_QUEUE = "RESET_QUEUE";
 
 /**
@@ -24,6 +26,7 @@ export interface AddMessageAction<M extends Message = ToastMessage> {
   type: typeof ADD_MESSAGE;
   message: M;
   duplicates: DuplicateBehavior;
+  maxVisible?: number;
 }
 
 /**
@@ -31,9 +34,10 @@ export interface AddMessageAction<M extends Message = ToastMessage> {
  */
 export function addMessage<M extends Message = ToastMessage>(
   message: M,
-  duplicates: DuplicateBehavior
+  duplicates: DuplicateBehavior,
+  maxVisible?: number
 ): AddMessageAction {
-  return { type: ADD_MESSAGE, message, duplicates };
+  return { type: ADD_MESSAGE, message, duplicates, maxVisible };
 }
 
 /**
@@ -48,6 +52,25 @@ export interface PopMessageAction {
  */
 export const popMessage = (): PopMessageAction => ({ type: POP_MESSAGE });
 
+/**
+ * @internal
+ * @remarks \@since 3.2.0
+ */
+export interface RemoveMessageAction<M extends Message = ToastMessage> {
+  type: typeof REMOVE_MESSAGE;
+  message: M;
+}
+
+/**
+ * @internal
+ * @remarks \@since 3.2.0
+ */
+export function removeMessage<M extends Message = ToastMessage>(
+  message: M
+): RemoveMessageAction<M> {
+  return { type: REMOVE_MESSAGE, message };
+}
+
 /**
  * @internal
  */
@@ -66,18 +89,27 @@ export const resetQueue = (): ResetQueueAction => ({ type: RESET_QUEUE });
 export type MessageActions<M extends Message = ToastMessage> =
   | AddMessageAction<M>
   | PopMessageAction
+  | RemoveMessageAction<M>
   | ResetQueueAction;
 
 /**
  * This function is used to update the message queue state by adding a new
  * message when needed.
  *
+ * When the `maxVisible` is greater than `1`, the first `maxVisible` messages in
+ * the queue will be displayed at the same time so:
+ *
+ * - `"next"` messages will be inserted immediately after the visible messages
+ * - `"immediate"` messages will be inserted at the start of the queue and the
+ *   last visible message will be re-shown once there is room again
+ *
  * @internal
  */
 export function handleAddMessage<M extends Message = ToastMessage>(
   state: readonly M[],
   message: M,
-  duplicates: DuplicateBehavior
+  duplicates: DuplicateBehavior,
+  maxVisible = 1
 ): readonly M[] {
   if (state.length === 0) {
     return [message];
@@ -91,15 +123,40 @@ export function handleAddMessage<M extends Message = ToastMessage>(
   const isImmediate = messagePriority === "immediate";
   const isDuplicable = duplicates === "allow";
   const isRestart = duplicates === "restart";
+  const isStacked = maxVisible > 1;
+  if (isStacked && !isDuplicable && i !== -1 && i < maxVisible) {
+    // the message is already visible in the stack, so it can't be shown any
+    // sooner
+    if (!isReplace && !isRestart) {
+      return state;
+    }
+
+    // each visible message has its own timer when stacked, so the message is
+    // copied to restart only the timer for the duplicated message
+    const nextState = state.slice();
+    nextState[i] = isReplace ? message : { ...state[i] };
+    return nextState;
+  }
+
   if (isNext || isImmediate) {
     const nextState = state.slice();
 
     // remove the existing message if duplicated messages aren't allowed. This
     // will kind of act like a replace + next behavior
-    if (!isDuplicable && i > 0) {
+    if (!isDuplicable && i >= maxVisible) {
       nextState.splice(i, 1);
     }
 
+    if (isStacked) {
+      nextState.splice(
+        isImmediate ? 0 : Math.min(maxVisible, nextState.length),
+        0,
+        message
+      );
+
+      return nextState;
+    }
+
     const [current, ...remaining] = nextState;
     if (isImmediate && current.messagePriority !== "immediate") {
       return [current, message, current, ...remaining];
@@ -145,9 +202,24 @@ export function reducer<M extends Message = ToastMessage>(
 ): readonly M[] {
   switch (action.type) {
     case ADD_MESSAGE:
-      return handleAddMessage(state, action.message, action.duplicates);
+      return handleAddMessage(
+        state,
+        action.message,
+        action.duplicates,
+        action.maxVisible
+      );
     case POP_MESSAGE:
       return state.length ? state.slice(1) : state;
+    case REMOVE_MESSAGE: {
+      const i = state.indexOf(action.message);
+      if (i === -1) {
+        return state;
+      }
+
+      const nextState = state.slice();
+      nextState.splice(i, 1);
+      return nextState;
+    }
     case RESET_QUEUE:
       return state.length ? [] : state;
     default:
@@ -159,6 +231,16 @@ export interface MessageQueueOptions<M extends Message = ToastMessage> {
   timeout?: number;
   duplicates?: DuplicateBehavior;
   defaultQueue?: readonly M[];
+
+  /**
+   * The maximum number of messages that can be visible at the same time. When
+   * this is greater than `1`, the messages will be stacked within the
+   * `Snackbar` and each message will have its own visibility timer.
+   *
+   * @defaultValue `1`
+   * @remarks \@since 3.2.0
+   */
+  maxVisible?: number;
 }
 
 export interface MessageQueueResult<M extends Message = ToastMessage>
@@ -181,6 +263,7 @@ export function useMessageQueue<M extends Message = ToastMessage>({
   timeout = DEFAULT_MESSAGE_QUEUE_TIMEOUT,
   duplicates = "allow",
   defaultQueue = [],
+  maxVisible = 1,
 }: MessageQueueOptions<M>): MessageQueueResult<M> {
   const [queue, dispatch] = useReducer<MessageQueueReducer<M>>(
     (state, action) => reducer<M>(state, action),
@@ -196,15 +279,19 @@ export function useMessageQueue<M extends Message = ToastMessage>({
         );
       }
 
-      dispatch({ type: ADD_MESSAGE, message, duplicates });
+      dispatch({ type: ADD_MESSAGE, message, duplicates, maxVisible });
     },
-    [duplicates]
+    [duplicates, maxVisible]
   );
 
   const popMessageDispatch = useCallback<PopMessage>(() => {
     dispatch(popMessage());
   }, []);
 
+  const removeMessageDispatch = useCallback<RemoveMessage<M>>((message) => {
+    dispatch(removeMessage(message));
+  }, []);
+
   const resetQueueDispatch = useCallback<ResetQueue<M>>(() => {
     dispatch(resetQueue());
     return queueRef.current;
@@ -220,8 +307,10 @@ export function useMessageQueue<M extends Message = ToastMessage>({
   useEffect(() => {
     // this effect will handle all the "logic" for transitioning between each
     // message along with the message priority updates.
+    //
+    // stacked messages handle their own visibility and timers instead
     const [message, nextMessage] = queue;
-    if (!message) {
+    if (!message || maxVisible > 1) {
       return;
     }
 
@@ -248,6 +337,20 @@ export function useMessageQueue<M extends Message = ToastMessage>({
 
     if (queue.length === prevQueue.length && message === prevMessage) {
       restartTimer();
+    } else if (
+      visible &&
+      prevMessage &&
+      message !== prevMessage &&
+      typeof message.messageId !== "undefined" &&
+      message.messageId === prevMessage.messageId
+    ) {
+      // the visible message was replaced in place, so the timer needs to be
+      // restarted since the toast will not be entered again
+      if (message.disableAutohide) {
+        stopTimer();
+      } else {
+        restartTimer();
+      }
     }
 
     // only want to run this on queue changes
@@ -259,6 +362,7 @@ export function useMessageQueue<M extends Message = ToastMessage>({
     stopTimer,
     visible,
     message: queue[0],
+    disabled: maxVisible > 1,
   });
   useEffect(() => {
     queueRef.current = queue;
@@ -268,9 +372,12 @@ export function useMessageQueue<M extends Message = ToastMessage>({
     queue,
     resetQueue: resetQueueDispatch,
     visible,
-    hideMessage,
+    // there's no need to wait for the exit animation before removing the
+    // message when stacked since it is handled by the TransitionGroup
+    hideMessage: maxVisible > 1 ? popMessageDispatch : hideMessage,
     addMessage: addMessageDispatch,
     popMessage: popMessageDispatch,
+    removeMessage: removeMessageDispatch,
     startTimer,
     stopTimer,
     restartTimer,
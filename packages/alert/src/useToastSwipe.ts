@@ -0,0 +1,395 @@
+import {
+  CSSProperties,
+  MouseEventHandler,
+  TouchEventHandler,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import cn from "classnames";
+import {
+  addTouchEvent,
+  removeTouchEvent,
+  useDir,
+  useIsomorphicLayoutEffect,
+  useRefCache,
+} from "@react-md/utils";
+
+import { DEFAULT_TOAST_SWIPE_TIMEOUT } from "./constants";
+
+/**
+ * The direction(s) that a toast can be swiped to be dismissed. The `"start"`
+ * and `"end"` directions will be swapped when the writing direction is
+ * right-to-left.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type ToastSwipeDirection = "both" | "start" | "end";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface ToastSwipeOptions<E extends HTMLElement = HTMLDivElement> {
+  /**
+   * Boolean if the toast is currently visible. The swipe state will be reset
+   * each time the toast becomes visible so that the same toast can be reused
+   * for multiple messages.
+   */
+  visible: boolean;
+
+  /**
+   * A function to call once the toast has been swiped away. The swipe behavior
+   * will be disabled when this is omitted.
+   */
+  onSwipeDismiss?(): void;
+
+  /**
+   * An optional function to call when the toast starts being dragged. This
+   * will not be called until the pointer has moved a few pixels so that
+   * clicking the toast does not start a swipe. This is used by the
+   * `SnackbarQueue` to pause the autohide timer while swiping.
+   */
+  onSwipeStart?(): void;
+
+  /**
+   * An optional function to call when the toast was released without being
+   * dismissed and will return to its original position. This is used by the
+   * `SnackbarQueue` to restart the autohide timer.
+   */
+  onSwipeCancel?(): void;
+
+  /**
+   * The direction(s) that the toast can be swiped to be dismissed.
+   *
+   * @defaultValue `"both"`
+   */
+  swipeDirection?: ToastSwipeDirection;
+
+  /**
+   * The percentage of the toast's width as a number between `0` and `1` that
+   * the toast must be dragged to be dismissed once released.
+   *
+   * @defaultValue `0.5`
+   */
+  swipeThreshold?: number;
+
+  /**
+   * The minimum velocity in pixels per millisecond that will dismiss the toast
+   * once released even if the `swipeThreshold` has not been reached.
+   *
+   * @defaultValue `0.5`
+   */
+  swipeVelocity?: number;
+
+  /**
+   * The duration in milliseconds for the dismiss animation before the
+   * `onSwipeDismiss` function is called.
+   *
+   * @defaultValue `DEFAULT_TOAST_SWIPE_TIMEOUT`
+   */
+  swipeTimeout?: number;
+
+  onMouseDown?: MouseEventHandler<E>;
+  onTouchStart?: TouchEventHandler<E>;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface ToastSwipeReturnValue<E extends HTMLElement = HTMLDivElement> {
+  /**
+   * Boolean if the toast is currently being dragged.
+   */
+  swiping: boolean;
+
+  /**
+   * Boolean if the toast has been swiped away and is animating out.
+   */
+  dismissed: boolean;
+
+  /**
+   * The style that should be merged with the toast's style to move the toast
+   * while it is being dragged or dismissed.
+   */
+  style: CSSProperties | undefined;
+
+  /**
+   * The class name that should be applied to the toast.
+   */
+  className: string | undefined;
+
+  onMouseDown: MouseEventHandler<E> | undefined;
+  onTouchStart: TouchEventHandler<E> | undefined;
+}
+
+/**
+ * The `"pending"` stage is used after a mouse down or touch start event until
+ * the pointer has moved past the {@link DRAG_THRESHOLD}.
+ *
+ * @internal
+ */
+type ToastSwipeStage =
+  | "idle"
+  | "pending"
+  | "dragging"
+  | "returning"
+  | "dismissed";
+
+/**
+ * @internal
+ */
+interface SwipePosition {
+  x: number;
+  time: number;
+}
+
+/**
+ * The amount of resistance to apply when the toast is dragged in a direction
+ * that does not allow it to be dismissed.
+ *
+ * @internal
+ */
+const RESISTANCE = 0.25;
+
+/**
+ * The distance in pixels that the pointer must move before the toast starts
+ * being dragged so that clicking the toast does not start a swipe.
+ *
+ * @internal
+ */
+const DRAG_THRESHOLD = 8;
+
+/**
+ * Interactive elements within the toast, such as the action button, should
+ * never start a swipe.
+ *
+ * @internal
+ */
+const isInteractive = (target: EventTarget): boolean =>
+  target instanceof Element && !!target.closest("button, a, input");
+
+/**
+ * This hook implements the swipe-to-dismiss behavior for a `Toast` by allowing
+ * it to be dragged horizontally with a mouse or touch. Once released, the toast
+ * will be swiped away if it was dragged past the `swipeThreshold` or was moving
+ * faster than the `swipeVelocity`. Otherwise, it will spring back to its
+ * original position.
+ *
+ * @remarks \@since 3.2.0
+ */
+export function useToastSwipe<E extends HTMLElement = HTMLDivElement>({
+  visible,
+  onSwipeDismiss,
+  onSwipeStart,
+  onSwipeCancel,
+  swipeDirection = "both",
+  swipeThreshold = 0.5,
+  swipeVelocity = 0.5,
+  swipeTimeout = DEFAULT_TOAST_SWIPE_TIMEOUT,
+  onMouseDown,
+  onTouchStart,
+}: ToastSwipeOptions<E>): ToastSwipeReturnValue<E> {
+  const { dir } = useDir();
+  const [stage, setStage] = useState<ToastSwipeStage>("idle");
+  const [offset, setOffset] = useState(0);
+  const width = useRef(0);
+  const start = useRef<SwipePosition>({ x: 0, time: 0 });
+  const prev = useRef<SwipePosition>({ x: 0, time: 0 });
+  const last = useRef<SwipePosition>({ x: 0, time: 0 });
+  const disabled = !onSwipeDismiss;
+
+  // these are stored in a ref so that inline functions do not restart the
+  // dismiss timeout each render
+  const callbacks = useRefCache({
+    onSwipeDismiss,
+    onSwipeStart,
+    onSwipeCancel,
+  });
+
+  useIsomorphicLayoutEffect(() => {
+    if (visible) {
+      setOffset(0);
+      setStage("idle");
+    }
+  }, [visible]);
+
+  // the sign of the offset that is allowed to dismiss the toast or `0` for
+  // both directions
+  let allowed = 0;
+  if (swipeDirection !== "both") {
+    const endSign = dir === "rtl" ? -1 : 1;
+    allowed = swipeDirection === "end" ? endSign : -endSign;
+  }
+
+  const startSwipe = useCallback((x: number, element: HTMLElement) => {
+    const position = { x, time: Date.now() };
+    width.current = element.offsetWidth;
+    start.current = position;
+    prev.current = position;
+    last.current = position;
+    setOffset(0);
+    setStage("pending");
+  }, []);
+
+  const handleMouseDown = useCallback<MouseEventHandler<E>>(
+    (event) => {
+      if (onMouseDown) {
+        onMouseDown(event);
+      }
+
+      if (event.button !== 0 || isInteractive(event.target)) {
+        return;
+      }
+
+      startSwipe(event.clientX, event.currentTarget);
+    },
+    [onMouseDown, startSwipe]
+  );
+
+  const handleTouchStart = useCallback<TouchEventHandler<E>>(
+    (event) => {
+      if (onTouchStart) {
+        onTouchStart(event);
+      }
+
+      if (event.touches.length !== 1 || isInteractive(event.target)) {
+        return;
+      }
+
+      startSwipe(event.touches[0].clientX, event.currentTarget);
+    },
+    [onTouchStart, startSwipe]
+  );
+
+  const tracking = stage === "pending" || stage === "dragging";
+  useEffect(() => {
+    if (!tracking) {
+      return;
+    }
+
+    let dragging = false;
+
+    const getOffset = (x: number): number => {
+      const delta = x - start.current.x;
+      if (allowed !== 0 && Math.sign(delta) !== allowed) {
+        return delta * RESISTANCE;
+      }
+
+      return delta;
+    };
+
+    const move = (event: MouseEvent | TouchEvent): void => {
+      const x = "touches" in event ? event.touches[0]?.clientX : event.clientX;
+      if (typeof x !== "number") {
+        return;
+      }
+
+      prev.current = last.current;
+      last.current = { x, time: Date.now() };
+      if (!dragging) {
+        if (Math.abs(x - start.current.x) < DRAG_THRESHOLD) {
+          return;
+        }
+
+        dragging = true;
+        setStage("dragging");
+        callbacks.current.onSwipeStart?.();
+      }
+
+      setOffset(getOffset(x));
+    };
+
+    const end = (): void => {
+      if (!dragging) {
+        setStage("idle");
+        return;
+      }
+
+      const delta = last.current.x - start.current.x;
+      const elapsed = last.current.time - prev.current.time;
+      const velocity =
+        elapsed > 0 ? (last.current.x - prev.current.x) / elapsed : 0;
+      const sign = Math.sign(delta);
+      const isAllowed = sign !== 0 && (allowed === 0 || sign === allowed);
+      const isPastThreshold = Math.abs(delta) >= width.current * swipeThreshold;
+      const isFastEnough =
+        Math.sign(velocity) === sign && Math.abs(velocity) >= swipeVelocity;
+
+      if (isAllowed && (isPastThreshold || isFastEnough)) {
+        setOffset(sign * width.current);
+        setStage("dismissed");
+        return;
+      }
+
+      setOffset(0);
+      setStage("returning");
+      callbacks.current.onSwipeCancel?.();
+    };
+
+    window.addEventListener("mousemove", move);
+    window.addEventListener("mouseup", end);
+    addTouchEvent(window, "move", move);
+    addTouchEvent(window, "end", end);
+    addTouchEvent(window, "cancel", end);
+    return () => {
+      window.removeEventListener("mousemove", move);
+      window.removeEventListener("mouseup", end);
+      removeTouchEvent(window, "move", move);
+      removeTouchEvent(window, "end", end);
+      removeTouchEvent(window, "cancel", end);
+    };
+  }, [tracking, allowed, swipeThreshold, swipeVelocity, callbacks]);
+
+  useEffect(() => {
+    if (stage !== "dismissed") {
+      return;
+    }
+
+    const timeout = window.setTimeout(() => {
+      callbacks.current.onSwipeDismiss?.();
+    }, swipeTimeout);
+    return () => {
+      window.clearTimeout(timeout);
+    };
+  }, [stage, swipeTimeout, callbacks]);
+
+  if (disabled) {
+    return {
+      swiping: false,
+      dismissed: false,
+      style: undefined,
+      className: undefined,
+      onMouseDown,
+      onTouchStart,
+    };
+  }
+
+  let style: CSSProperties | undefined;
+  if (stage === "dragging" || stage === "dismissed") {
+    const opacity =
+      stage === "dismissed"
+        ? 0
+        : Math.max(0, 1 - Math.abs(offset) / (width.current || 1));
+
+    style = {
+      opacity,
+      transform: `translateX(${offset}px)`,
+      transitionDuration:
+        stage === "dismissed" ? `${swipeTimeout}ms` : undefined,
+    };
+  }
+
+  return {
+    swiping: stage === "dragging",
+    dismissed: stage === "dismissed",
+    style,
+    className: cn("rmd-toast--swipeable", {
+      "rmd-toast--swiping": stage === "dragging",
+      "rmd-toast--swipe-return": stage === "returning",
+      "rmd-toast--swiped": stage === "dismissed",
+    }),
+    onMouseDown: handleMouseDown,
+    onTouchStart: handleTouchStart,
+  };
+}
@@ -1,12 +1,15 @@
 import React, { forwardRef } from "react";
 import cn from "classnames";
+import { Chip } from "@react-md/chip";
 import {
   isListboxOptionProps,
   ListboxOptionProps,
   Option,
   TextField,
+  TextFieldAddon,
 } from "@react-md/form";
 import { List } from "@react-md/list";
+import { CircularProgress } from "@react-md/progress";
 import { ScaleTransition } from "@react-md/transition";
 import { BELOW_CENTER_ANCHOR, bem, omit } from "@react-md/utils";
 
@@ -82,6 +85,16 @@ export const AutoComplete = forwardRef<HTMLInputElement, AutoCompleteProps>(
       defaultValue,
       beforeResultsChildren,
       afterResultsChildren,
+      values,
+      onValuesChange,
+      getChipProps,
+      loadOptions,
+      loadOptionsDelay,
+      onLoadOptionsError,
+      loadingChildren,
+      noResultsChildren,
+      leftChildren: propLeftChildren,
+      isLeftAddon = true,
       ...props
     },
     forwardedRef
@@ -99,6 +112,8 @@ export const AutoComplete = forwardRef<HTMLInputElement, AutoCompleteProps>(
       match,
       value,
       visible,
+      loading,
+      noResults,
       activeId,
       itemRefs,
       filteredData,
@@ -111,6 +126,7 @@ export const AutoComplete = forwardRef<HTMLInputElement, AutoCompleteProps>(
       handleChange,
       handleKeyDown,
       handleAutoComplete,
+      handleValueRemove,
     } = useAutoComplete({
       suggestionsId,
       defaultValue,
@@ -145,8 +161,41 @@ export const AutoComplete = forwardRef<HTMLInputElement, AutoCompleteProps>(
       closeOnResize,
       closeOnScroll,
       disableShowOnFocus,
+      values,
+      onValuesChange,
+      loadOptions,
+      loadOptionsDelay,
+      onLoadOptionsError,
+      noResultsChildren,
     });
 
+    let leftChildren = propLeftChildren;
+    if (values) {
+      leftChildren = (
+        <>
+          {isLeftAddon ? (
+            <TextFieldAddon>{propLeftChildren}</TextFieldAddon>
+          ) : (
+            propLeftChildren
+          )}
+          {values.map((value, i) => {
+            const chipProps = getChipProps?.(value, i);
+
+            return (
+              <Chip
+                key={value}
+                {...chipProps}
+                className={cn(block("chip"), chipProps?.className)}
+                onClick={() => handleValueRemove(value)}
+              >
+                {chipProps?.children ?? value}
+              </Chip>
+            );
+          })}
+        </>
+      );
+    }
+
     return (
       <>
         <TextField
@@ -162,7 +211,9 @@ export const AutoComplete = forwardRef<HTMLInputElement, AutoCompleteProps>(
           onKeyDown={handleKeyDown}
           onChange={handleChange}
           ref={ref}
-          className={cn(block(), className)}
+          className={cn(block({ chips: !!values }), className)}
+          leftChildren={leftChildren}
+          isLeftAddon={!values && isLeftAddon}
           containerProps={{
             ...containerProps,
             "aria-haspopup": "listbox",
@@ -183,6 +234,7 @@ export const AutoComplete = forwardRef<HTMLInputElement, AutoCompleteProps>(
           <List
             id={suggestionsId}
             role="listbox"
+            aria-busy={loading || undefined}
             ref={listboxRef}
             style={fixedStyle}
             className={cn(listbox({ temporary: true }), listboxClassName)}
@@ -218,6 +270,13 @@ export const AutoComplete = forwardRef<HTMLInputElement, AutoCompleteProps>(
                 </Option>
               );
             })}
+            {noResults && noResultsChildren}
+            {loading &&
+              (loadingChildren ?? (
+                <li role="presentation" className={block("loading")}>
+                  <CircularProgress id={`${id}-loading`} small />
+                </li>
+              ))}
             {afterResultsChildren}
           </List>
         </ScaleTransition>
@@ -314,6 +373,14 @@ if (process.env.NODE_ENV !== "production") {
       defaultValue: PropTypes.string,
       beforeResultsChildren: PropTypes.node,
       afterResultsChildren: PropTypes.node,
+      loadOptions: PropTypes.func,
+      loadOptionsDelay: PropTypes.number,
+      onLoadOptionsError: PropTypes.func,
+      loadingChildren: PropTypes.node,
+      noResultsChildren: PropTypes.node,
+      values: PropTypes.arrayOf(PropTypes.string),
+      onValuesChange: PropTypes.func,
+      getChipProps: PropTypes.func,
     };
   } catch (e) {}
 }
@@ -0,0 +1,298 @@
+import React, {
+  CSSProperties,
+  ReactElement,
+  ReactNode,
+  useEffect,
+  useState,
+} from "react";
+import cn from "classnames";
+import { Dialog } from "@react-md/dialog";
+import { Option, TextField } from "@react-md/form";
+import { List, ListSubheader } from "@react-md/list";
+import {
+  bem,
+  MovementPresets,
+  SearchOptions,
+  useActiveDescendantMovement,
+} from "@react-md/utils";
+
+import {
+  CommandPaletteCommand,
+  useCommandPalette,
+} from "./CommandPaletteProvider";
+import { HighlightedResult } from "./HighlightedResult";
+import { findCommand, getCommandGroups, getResultId } from "./utils";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface CommandPaletteProps {
+  /**
+   * The id for the dialog. This will also be used to generate ids for the
+   * search field (`${id}-search`), the listbox (`${id}-listbox`), and each
+   * result (`${id}-listbox-result-${index + 1}`).
+   */
+  id?: string;
+
+  /**
+   * An optional style to apply to the dialog.
+   */
+  style?: CSSProperties;
+
+  /**
+   * An optional className to apply to the dialog.
+   */
+  className?: string;
+
+  /**
+   * The label for the dialog.
+   */
+  "aria-label"?: string;
+
+  /**
+   * The placeholder and label for the search field.
+   */
+  placeholder?: string;
+
+  /**
+   * The subheader to display for the recently executed commands.
+   */
+  recentLabel?: string;
+
+  /**
+   * The children to display when there are no commands that match the query.
+   */
+  noResultsChildren?: ReactNode;
+
+  /**
+   * Any additional options to provide to the `fuzzyFilter` function.
+   */
+  filterOptions?: SearchOptions<CommandPaletteCommand>;
+
+  /**
+   * Boolean if the dialog should not animate in and out of view.
+   */
+  disableTransition?: boolean;
+}
+
+const block = bem("rmd-command-palette");
+
+/**
+ * The `CommandPalette` renders all the commands from the nearest
+ * `CommandPaletteProvider` in a dialog with a search field that will fuzzy
+ * filter the commands. The commands can be selected by clicking them or by
+ * using the `ArrowUp`/`ArrowDown` and `Enter` keys while the search field is
+ * focused.
+ *
+ * Commands with nested `commands` will display a new page of commands once
+ * selected. The `Backspace` key (while the search field is empty) or the
+ * `Escape` key will return to the previous page.
+ *
+ * @remarks \@since 3.2.0
+ */
+export function CommandPalette({
+  id = "command-palette",
+  style,
+  className,
+  "aria-label": ariaLabel = "Command palette",
+  placeholder = "Search commands",
+  recentLabel = "Recent",
+  noResultsChildren = "No commands found",
+  filterOptions,
+  disableTransition = false,
+}: CommandPaletteProps): ReactElement {
+  const { commands, recentCommandIds, visible, hide, execute } =
+    useCommandPalette();
+  const [query, setQuery] = useState("");
+  const [pages, setPages] = useState<readonly CommandPaletteCommand[]>([]);
+  const page = pages[pages.length - 1];
+
+  useEffect(() => {
+    if (visible) {
+      setQuery("");
+      setPages([]);
+    }
+  }, [visible]);
+
+  let recentCommands: readonly CommandPaletteCommand[] = [];
+  if (!page) {
+    recentCommands = recentCommandIds.reduce<CommandPaletteCommand[]>(
+      (recent, commandId) => {
+        const command = findCommand(commands, commandId);
+        if (command) {
+          recent.push(command);
+        }
+
+        return recent;
+      },
+      []
+    );
+  }
+
+  const groups = getCommandGroups(
+    page?.commands ?? commands,
+    query,
+    recentCommands,
+    recentLabel,
+    filterOptions
+  );
+  const results = groups.reduce<readonly CommandPaletteCommand[]>(
+    (allResults, group) => [...allResults, ...group.commands],
+    []
+  );
+
+  const searchId = `${id}-search`;
+  const listboxId = `${id}-listbox`;
+  const select = (command: CommandPaletteCommand | undefined): void => {
+    if (!command || command.disabled) {
+      return;
+    }
+
+    if (command.commands) {
+      setPages([...pages, command]);
+      setQuery("");
+      return;
+    }
+
+    execute(command);
+  };
+
+  const { activeId, itemRefs, onKeyDown, focusedIndex, setFocusedIndex } =
+    useActiveDescendantMovement<
+      CommandPaletteCommand,
+      HTMLInputElement,
+      HTMLLIElement
+    >({
+      ...MovementPresets.VERTICAL_COMBOBOX,
+      baseId: listboxId,
+      getId: getResultId,
+      items: results,
+      getItemValue: (command) => command.label,
+      defaultFocusedIndex: 0,
+      onEnter(index) {
+        select(results[index]);
+      },
+      onKeyDown(event) {
+        if (
+          !page ||
+          (event.key !== "Escape" && (event.key !== "Backspace" || query))
+        ) {
+          return;
+        }
+
+        // go back to the previous page instead of closing the dialog
+        event.preventDefault();
+        event.stopPropagation();
+        setPages(pages.slice(0, -1));
+        setQuery("");
+      },
+    });
+
+  // make sure the first result is always "focused" while the results change
+  const resultsKey = `${pages.length}|${query}`;
+  const hasResults = results.length > 0;
+  useEffect(() => {
+    setFocusedIndex(hasResults ? 0 : -1);
+  }, [resultsKey, hasResults, setFocusedIndex]);
+
+  let resultIndex = -1;
+  return (
+    <Dialog
+      id={id}
+      aria-label={ariaLabel}
+      visible={visible}
+      onRequestClose={hide}
+      style={style}
+      className={cn(block(), className)}
+      defaultFocus={`#${searchId}`}
+      disableTransition={disableTransition}
+    >
+      {pages.length > 0 && (
+        <div className={block("breadcrumbs")}>
+          {pages.map((command) => command.label).join(" / ")}
+        </div>
+      )}
+      <TextField
+        id={searchId}
+        role="combobox"
+        aria-label={placeholder}
+        aria-autocomplete="list"
+        aria-expanded
+        aria-controls={listboxId}
+        aria-activedescendant={activeId || undefined}
+        autoComplete="off"
+        placeholder={placeholder}
+        value={query}
+        onChange={(event) => setQuery(event.currentTarget.value)}
+        onKeyDown={onKeyDown}
+        className={block("search")}
+      />
+      <List
+        id={listboxId}
+        role="listbox"
+        aria-label={page?.label ?? ariaLabel}
+        className={block("results")}
+      >
+        {groups.map(({ name, commands }) => (
+          <React.Fragment key={name}>
+            {name && <ListSubheader role="presentation">{name}</ListSubheader>}
+            {commands.map((command) => {
+              resultIndex += 1;
+              const index = resultIndex;
+              const resultId = getResultId(listboxId, index);
+
+              return (
+                <Option
+                  key={resultId}
+                  id={resultId}
+                  ref={itemRefs[index]}
+                  selected={false}
+                  focused={focusedIndex === index}
+                  disabled={command.disabled}
+                  aria-disabled={command.disabled || undefined}
+                  leftAddon={command.leftAddon}
+                  rightAddon={
+                    command.shortcut && (
+                      <kbd className={block("shortcut")}>
+                        {command.shortcut}
+                      </kbd>
+                    )
+                  }
+                  onClick={() => select(command)}
+                >
+                  <HighlightedResult id={`${resultId}-match`} value={query}>
+                    {command.label}
+                  </HighlightedResult>
+                </Option>
+              );
+            })}
+          </React.Fragment>
+        ))}
+        {!results.length && (
+          <li role="presentation" className={block("no-results")}>
+            {noResultsChildren}
+          </li>
+        )}
+      </List>
+    </Dialog>
+  );
+}
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    CommandPalette.propTypes = {
+      id: PropTypes.string,
+      style: PropTypes.object,
+      className: PropTypes.string,
+      "aria-label": PropTypes.string,
+      placeholder: PropTypes.string,
+      recentLabel: PropTypes.string,
+      noResultsChildren: PropTypes.node,
+      filterOptions: PropTypes.object,
+      disableTransition: PropTypes.bool,
+    };
+  } catch (e) {}
+}
@@ -0,0 +1,341 @@
+import React, {
+  createContext,
+  ReactElement,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { useRefCache } from "@react-md/utils";
+
+/**
+ * A command that can be registered with the `useRegisterCommands` hook and
+ * displayed within the `CommandPalette`.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface CommandPaletteCommand {
+  /**
+   * A unique id for the command. This is used to keep track of the recently
+   * executed commands.
+   */
+  id: string;
+
+  /**
+   * The label to display for the command. This will also be used for
+   * filtering.
+   */
+  label: string;
+
+  /**
+   * An optional group name for the command. Commands with the same group will
+   * be displayed together under a subheader with this name.
+   */
+  group?: string;
+
+  /**
+   * An optional list of additional words that should match this command while
+   * filtering.
+   */
+  keywords?: readonly string[];
+
+  /**
+   * An optional keyboard shortcut to display with the command. This is only
+   * used for display and will not register any keyboard listeners.
+   *
+   * Example:
+   *
+   * ```ts
+   * shortcut: "Ctrl+S"
+   * ```
+   */
+  shortcut?: string;
+
+  /**
+   * An optional icon or other content to display before the label.
+   */
+  leftAddon?: ReactNode;
+
+  /**
+   * Boolean if the command is currently disabled and can't be executed.
+   */
+  disabled?: boolean;
+
+  /**
+   * An optional list of nested commands. When this is provided, selecting
+   * this command will display a new page in the `CommandPalette` with these
+   * commands instead of executing the `action`.
+   */
+  commands?: readonly CommandPaletteCommand[];
+
+  /**
+   * The function to call when the command is executed. This is optional for
+   * commands that only display a nested page of `commands`.
+   */
+  action?(): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface CommandPaletteContext {
+  /**
+   * All the commands that have been registered with the `useRegisterCommands`
+   * hook.
+   */
+  commands: readonly CommandPaletteCommand[];
+
+  /**
+   * The ids of the most recently executed commands, starting with the most
+   * recent.
+   */
+  recentCommandIds: readonly string[];
+
+  /**
+   * Boolean if the `CommandPalette` is currently visible.
+   */
+  visible: boolean;
+  show(): void;
+  hide(): void;
+  toggle(): void;
+
+  /**
+   * Executes the command by calling its `action`, adding it to the recently
+   * executed commands, and hiding the `CommandPalette`.
+   */
+  execute(command: CommandPaletteCommand): void;
+
+  /**
+   * Registers a list of commands and returns a function that will unregister
+   * them. You'll normally want to use the `useRegisterCommands` hook instead.
+   */
+  register(commands: readonly CommandPaletteCommand[]): () => void;
+}
+
+const noop = (): void => {
+  // do nothing
+};
+
+const context = createContext<CommandPaletteContext>({
+  commands: [],
+  recentCommandIds: [],
+  visible: false,
+  show: noop,
+  hide: noop,
+  toggle: noop,
+  execute: noop,
+  register: () => noop,
+});
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface CommandPaletteProviderProps {
+  /**
+   * Boolean if the `CommandPalette` should be visible by default.
+   */
+  defaultVisible?: boolean;
+
+  /**
+   * An optional list of command ids that should be displayed as the recent
+   * commands by default. This can be used with the `onRecentCommandsChange`
+   * prop to persist the recent commands in `localStorage`.
+   */
+  defaultRecentCommandIds?: readonly string[];
+
+  /**
+   * The max number of recently executed commands to keep track of.
+   */
+  maxRecentCommands?: number;
+
+  /**
+   * An optional function to call when the recently executed commands change.
+   */
+  onRecentCommandsChange?(recentCommandIds: readonly string[]): void;
+
+  /**
+   * Boolean if the `Ctrl+K` (`Cmd+K` on macOS) keyboard shortcut should no
+   * longer toggle the `CommandPalette`'s visibility.
+   */
+  disableShortcut?: boolean;
+  children: ReactNode;
+}
+
+/**
+ * The `CommandPaletteProvider` keeps track of all the registered commands,
+ * the recently executed commands, and the visibility of the `CommandPalette`.
+ * This will also toggle the `CommandPalette`'s visibility when `Ctrl+K` (or
+ * `Cmd+K`) is pressed.
+ *
+ * Example:
+ *
+ * ```tsx
+ * function App(): ReactElement {
+ *   useRegisterCommands(
+ *     useMemo(
+ *       () => [
+ *         { id: "save", label: "Save", shortcut: "Ctrl+S", action: save },
+ *       ],
+ *       []
+ *     )
+ *   );
+ *
+ *   return <Layout>...</Layout>;
+ * }
+ *
+ * render(
+ *   <CommandPaletteProvider>
+ *     <App />
+ *     <CommandPalette />
+ *   </CommandPaletteProvider>,
+ *   root
+ * );
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export function CommandPaletteProvider({
+  defaultVisible = false,
+  defaultRecentCommandIds = [],
+  maxRecentCommands = 5,
+  onRecentCommandsChange,
+  disableShortcut = false,
+  children,
+}: CommandPaletteProviderProps): ReactElement {
+  const [visible, setVisible] = useState(defaultVisible);
+  const [recentCommandIds, setRecentCommandIds] = useState(
+    defaultRecentCommandIds
+  );
+  const [registry, setRegistry] = useState<
+    readonly (readonly CommandPaletteCommand[])[]
+  >([]);
+  const cache = useRefCache({ maxRecentCommands, onRecentCommandsChange });
+
+  const show = useCallback(() => setVisible(true), []);
+  const hide = useCallback(() => setVisible(false), []);
+  const toggle = useCallback(
+    () => setVisible((prevVisible) => !prevVisible),
+    []
+  );
+  const register = useCallback((commands: readonly CommandPaletteCommand[]) => {
+    setRegistry((prevRegistry) => [...prevRegistry, commands]);
+
+    return () => {
+      setRegistry((prevRegistry) =>
+        prevRegistry.filter((registered) => registered !== commands)
+      );
+    };
+  }, []);
+  const execute = useCallback(
+    (command: CommandPaletteCommand) => {
+      const { maxRecentCommands, onRecentCommandsChange } = cache.current;
+      const nextRecentCommandIds = [
+        command.id,
+        ...recentCommandIds.filter((id) => id !== command.id),
+      ].slice(0, maxRecentCommands);
+
+      setRecentCommandIds(nextRecentCommandIds);
+      onRecentCommandsChange?.(nextRecentCommandIds);
+      setVisible(false);
+      command.action?.();
+    },
+    // disabled since useRefCache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [recentCommandIds]
+  );
+
+  useEffect(() => {
+    if (disableShortcut) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (
+        (event.ctrlKey || event.metaKey) &&
+        !event.altKey &&
+        !event.shiftKey &&
+        event.key.toLowerCase() === "k"
+      ) {
+        // prevent the browser's search bar from being focused
+        event.preventDefault();
+        toggle();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [disableShortcut, toggle]);
+
+  const commands = useMemo(
+    () =>
+      registry.reduce<readonly CommandPaletteCommand[]>(
+        (allCommands, registered) => [...allCommands, ...registered],
+        []
+      ),
+    [registry]
+  );
+  const value = useMemo<CommandPaletteContext>(
+    () => ({
+      commands,
+      recentCommandIds,
+      visible,
+      show,
+      hide,
+      toggle,
+      execute,
+      register,
+    }),
+    [commands, recentCommandIds, visible, show, hide, toggle, execute, register]
+  );
+
+  return <context.Provider value={value}>{children}</context.Provider>;
+}
+
+/**
+ * This hook can be used to get the current `CommandPalette` state and
+ * control its visibility.
+ *
+ * @returns the {@link CommandPaletteContext}
+ * @remarks \@since 3.2.0
+ */
+export function useCommandPalette(): CommandPaletteContext {
+  return useContext(context);
+}
+
+/**
+ * This hook is used to register commands to display in the `CommandPalette`
+ * while the component is mounted. The commands should be memoized since they
+ * will be re-registered each time the list changes.
+ *
+ * @param commands - The list of commands to register
+ * @remarks \@since 3.2.0
+ */
+export function useRegisterCommands(
+  commands: readonly CommandPaletteCommand[]
+): void {
+  const { register } = useCommandPalette();
+
+  useEffect(() => register(commands), [register, commands]);
+}
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  context.displayName = "CommandPalette";
+
+  try {
+    const PropTypes = require("prop-types");
+
+    CommandPaletteProvider.propTypes = {
+      defaultVisible: PropTypes.bool,
+      defaultRecentCommandIds: PropTypes.arrayOf(PropTypes.string),
+      maxRecentCommands: PropTypes.number,
+      onRecentCommandsChange: PropTypes.func,
+      disableShortcut: PropTypes.bool,
+      children: PropTypes.node.isRequired,
+    };
+  } catch (e) {}
+}
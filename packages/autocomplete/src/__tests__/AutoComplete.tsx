@@ -1,12 +1,13 @@
-import React from "react";
+import React, { useState } from "react";
 import {
+  act,
   render,
   fireEvent,
   waitForElementToBeRemoved,
 } from "@testing-library/react";
 
 import { AutoComplete } from "../AutoComplete";
-import { AutoCompleteProps } from "../types";
+import { AutoCompleteData, AutoCompleteProps } from "../types";
 import states from "../../../documentation/src/constants/states";
 
 function getById<E extends HTMLElement>(id: string): E {
@@ -237,4 +238,238 @@ describe("AutoComplete", () => {
     expect(listbox.lastChild?.textContent).toBe("After Results");
     expect(listbox).toMatchSnapshot();
   });
+
+  describe("multiple values", () => {
+    function Test({
+      defaultValues = [],
+    }: {
+      defaultValues?: readonly string[];
+    }) {
+      const [values, setValues] = useState(defaultValues);
+
+      return (
+        <AutoComplete {...PROPS} values={values} onValuesChange={setValues} />
+      );
+    }
+
+    it("should render each value as a chip and clear the text field when a value is autocompleted", () => {
+      const { getByText, getByRole, queryAllByRole } = render(<Test />);
+      const input = getById<HTMLInputElement>("autocomplete");
+
+      expect(queryAllByRole("button").length).toBe(0);
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: "ala" } });
+      fireEvent.click(getByText("Alaska"));
+      expect(input.value).toBe("");
+      expect(() => getByRole("button", { name: "Alaska" })).not.toThrow();
+
+      fireEvent.change(input, { target: { value: "ala" } });
+      fireEvent.click(getByText("Alabama"));
+      expect(input.value).toBe("");
+      expect(queryAllByRole("button").map((chip) => chip.textContent)).toEqual([
+        "Alaska",
+        "Alabama",
+      ]);
+    });
+
+    it("should not show values that have already been added in the results", () => {
+      const { getByText, queryAllByRole } = render(
+        <Test defaultValues={["Alaska"]} />
+      );
+      const input = getById<HTMLInputElement>("autocomplete");
+
+      fireEvent.focus(input);
+      expect(queryAllByRole("option").length).toBe(states.length - 1);
+
+      fireEvent.change(input, { target: { value: "ala" } });
+      expect(queryAllByRole("option").length).toBe(1);
+      expect(() => getByText("Alabama")).not.toThrow();
+    });
+
+    it("should remove a value when the chip is clicked or the backspace key is pressed with an empty text field", () => {
+      const { getByRole, queryAllByRole } = render(
+        <Test defaultValues={["Alaska", "Alabama", "Arizona"]} />
+      );
+      const input = getById<HTMLInputElement>("autocomplete");
+      const getChips = () =>
+        queryAllByRole("button").map((chip) => chip.textContent);
+
+      fireEvent.click(getByRole("button", { name: "Alabama" }));
+      expect(getChips()).toEqual(["Alaska", "Arizona"]);
+      expect(document.activeElement).toBe(input);
+
+      fireEvent.change(input, { target: { value: "a" } });
+      fireEvent.keyDown(input, { key: "Backspace" });
+      expect(getChips()).toEqual(["Alaska", "Arizona"]);
+
+      fireEvent.change(input, { target: { value: "" } });
+      fireEvent.keyDown(input, { key: "Backspace" });
+      expect(getChips()).toEqual(["Alaska"]);
+
+      fireEvent.keyDown(input, { key: "Backspace" });
+      expect(getChips()).toEqual([]);
+    });
+  });
+
+  describe("async results", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function deferred() {
+      let resolve: (data: readonly AutoCompleteData[]) => void = () => {};
+      const promise = new Promise<readonly AutoCompleteData[]>((r) => {
+        resolve = r;
+      });
+
+      return { promise, resolve };
+    }
+
+    it("should debounce the loadOptions call and display a loading indicator until the results are loaded", async () => {
+      const request = deferred();
+      const loadOptions = jest.fn(() => request.promise);
+      const { getByRole, queryAllByRole } = render(
+        <AutoComplete
+          {...PROPS}
+          data={[]}
+          loadOptions={loadOptions}
+          loadOptionsDelay={200}
+        />
+      );
+      const input = getById<HTMLInputElement>("autocomplete");
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: "a" } });
+      fireEvent.change(input, { target: { value: "al" } });
+      expect(getByRole("listbox")).toHaveAttribute("aria-busy", "true");
+      expect(getByRole("progressbar")).toBeInTheDocument();
+      expect(loadOptions).not.toBeCalled();
+
+      act(() => {
+        jest.advanceTimersByTime(200);
+      });
+      expect(loadOptions).toBeCalledTimes(1);
+      expect(loadOptions).toBeCalledWith("al", expect.any(AbortSignal));
+
+      await act(async () => {
+        request.resolve(["Alabama", "Alaska"]);
+        await request.promise;
+      });
+
+      expect(getByRole("listbox")).not.toHaveAttribute("aria-busy");
+      expect(() => getByRole("progressbar")).toThrow();
+      expect(queryAllByRole("option").map((o) => o.textContent)).toEqual([
+        "Alabama",
+        "Alaska",
+      ]);
+    });
+
+    it("should abort the previous request and ignore stale results when the query changes", async () => {
+      const first = deferred();
+      const second = deferred();
+      const signals: AbortSignal[] = [];
+      const loadOptions = jest.fn((_query: string, signal: AbortSignal) => {
+        signals.push(signal);
+        return signals.length === 1 ? first.promise : second.promise;
+      });
+      const { queryAllByRole } = render(
+        <AutoComplete {...PROPS} data={[]} loadOptions={loadOptions} />
+      );
+      const input = getById<HTMLInputElement>("autocomplete");
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: "a" } });
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+
+      fireEvent.change(input, { target: { value: "ar" } });
+      expect(signals[0].aborted).toBe(true);
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      expect(loadOptions).toBeCalledTimes(2);
+
+      await act(async () => {
+        second.resolve(["Arizona", "Arkansas"]);
+        await second.promise;
+      });
+      await act(async () => {
+        first.resolve(["Alabama", "Alaska"]);
+        await first.promise;
+      });
+
+      expect(queryAllByRole("option").map((o) => o.textContent)).toEqual([
+        "Arizona",
+        "Arkansas",
+      ]);
+    });
+
+    it("should call onLoadOptionsError and stop loading when loadOptions throws or rejects", async () => {
+      const error = new Error("Unable to load");
+      const onLoadOptionsError = jest.fn();
+      const loadOptions = jest.fn((query: string) => {
+        if (query === "a") {
+          throw error;
+        }
+
+        return Promise.reject(error);
+      });
+      const { getByRole } = render(
+        <AutoComplete
+          {...PROPS}
+          data={[]}
+          loadOptions={loadOptions}
+          onLoadOptionsError={onLoadOptionsError}
+        />
+      );
+      const input = getById<HTMLInputElement>("autocomplete");
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: "a" } });
+      await act(async () => {
+        jest.runOnlyPendingTimers();
+        await Promise.resolve();
+      });
+      expect(onLoadOptionsError).toBeCalledTimes(1);
+      expect(onLoadOptionsError).toBeCalledWith(error);
+      expect(() => getByRole("progressbar")).toThrow();
+
+      fireEvent.change(input, { target: { value: "al" } });
+      await act(async () => {
+        jest.runOnlyPendingTimers();
+        await Promise.resolve();
+      });
+      expect(onLoadOptionsError).toBeCalledTimes(2);
+      expect(() => getByRole("progressbar")).toThrow();
+    });
+
+    it("should render the noResultsChildren when there are no matches", async () => {
+      const loadOptions = jest.fn(() => Promise.resolve([]));
+      const { getByText } = render(
+        <AutoComplete
+          {...PROPS}
+          data={[]}
+          loadOptions={loadOptions}
+          noResultsChildren={<li>No Results</li>}
+        />
+      );
+      const input = getById<HTMLInputElement>("autocomplete");
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: "zzz" } });
+      expect(() => getByText("No Results")).toThrow();
+
+      await act(async () => {
+        jest.runOnlyPendingTimers();
+        await Promise.resolve();
+      });
+      expect(() => getByText("No Results")).not.toThrow();
+    });
+  });
 });
@@ -0,0 +1,211 @@
+import React, { ReactElement, useMemo } from "react";
+import { fireEvent, render, waitFor } from "@testing-library/react";
+
+import { CommandPalette } from "../CommandPalette";
+import {
+  CommandPaletteCommand,
+  CommandPaletteProvider,
+  CommandPaletteProviderProps,
+  useRegisterCommands,
+} from "../CommandPaletteProvider";
+
+const save = jest.fn();
+const openFile = jest.fn();
+const lightTheme = jest.fn();
+const darkTheme = jest.fn();
+
+const COMMANDS: readonly CommandPaletteCommand[] = [
+  {
+    id: "save",
+    label: "Save",
+    group: "File",
+    shortcut: "Ctrl+S",
+    action: save,
+  },
+  { id: "open", label: "Open File", group: "File", action: openFile },
+  { id: "print", label: "Print", group: "File", disabled: true },
+  {
+    id: "theme",
+    label: "Change Theme",
+    group: "Preferences",
+    keywords: ["color"],
+    commands: [
+      { id: "light", label: "Light", action: lightTheme },
+      { id: "dark", label: "Dark", action: darkTheme },
+    ],
+  },
+];
+
+function Commands({
+  commands = COMMANDS,
+}: {
+  commands?: readonly CommandPaletteCommand[];
+}): null {
+  useRegisterCommands(commands);
+  return null;
+}
+
+function Test({
+  showCommands = true,
+  ...props
+}: Partial<CommandPaletteProviderProps> & {
+  showCommands?: boolean;
+}): ReactElement {
+  const extra = useMemo<readonly CommandPaletteCommand[]>(
+    () => [{ id: "help", label: "Help" }],
+    []
+  );
+
+  return (
+    <CommandPaletteProvider {...props}>
+      {showCommands && <Commands />}
+      <Commands commands={extra} />
+      <CommandPalette disableTransition />
+    </CommandPaletteProvider>
+  );
+}
+
+const getOptionNames = (listbox: HTMLElement): (string | null)[] =>
+  Array.from(listbox.querySelectorAll('[role="option"]')).map(
+    (option) => option.textContent
+  );
+
+describe("CommandPalette", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should toggle visibility with Ctrl+K or Meta+K", async () => {
+    const { getByRole, queryByRole } = render(<Test />);
+    expect(queryByRole("dialog")).toBe(null);
+
+    fireEvent.keyDown(window, { key: "k", ctrlKey: true });
+    expect(
+      getByRole("dialog", { name: "Command palette" })
+    ).toBeInTheDocument();
+    await waitFor(() => {
+      expect(document.activeElement).toBe(getByRole("combobox"));
+    });
+
+    fireEvent.keyDown(window, { key: "k", metaKey: true });
+    expect(queryByRole("dialog")).toBe(null);
+  });
+
+  it("should not toggle visibility when the shortcut is disabled", () => {
+    const { queryByRole } = render(<Test disableShortcut />);
+
+    fireEvent.keyDown(window, { key: "k", ctrlKey: true });
+    expect(queryByRole("dialog")).toBe(null);
+  });
+
+  it("should render the registered commands in groups and unregister them on unmount", () => {
+    const { getByRole, rerender } = render(<Test defaultVisible />);
+    const listbox = getByRole("listbox");
+    expect(getOptionNames(listbox)).toEqual([
+      "SaveCtrl+S",
+      "Open File",
+      "Print",
+      "Change Theme",
+      "Help",
+    ]);
+    expect(
+      Array.from(listbox.querySelectorAll(".rmd-list-subheader")).map(
+        (subheader) => subheader.textContent
+      )
+    ).toEqual(["File", "Preferences"]);
+
+    rerender(<Test defaultVisible showCommands={false} />);
+    expect(getOptionNames(listbox)).toEqual(["Help"]);
+  });
+
+  it("should fuzzy filter the commands by label and keywords", () => {
+    const { getByRole } = render(<Test defaultVisible />);
+    const search = getByRole("combobox");
+    const listbox = getByRole("listbox");
+
+    fireEvent.change(search, { target: { value: "fle" } });
+    expect(getOptionNames(listbox)).toEqual(["Open File"]);
+
+    fireEvent.change(search, { target: { value: "color" } });
+    expect(getOptionNames(listbox)).toEqual(["Change Theme"]);
+
+    fireEvent.change(search, { target: { value: "zzz" } });
+    expect(getOptionNames(listbox)).toEqual([]);
+    expect(listbox).toHaveTextContent("No commands found");
+    expect(search).not.toHaveAttribute("aria-activedescendant");
+  });
+
+  it("should execute commands with the keyboard or by clicking and display them as recent commands", () => {
+    const onRecentCommandsChange = jest.fn();
+    const { getByRole, queryByRole } = render(
+      <Test onRecentCommandsChange={onRecentCommandsChange} />
+    );
+
+    fireEvent.keyDown(window, { key: "k", ctrlKey: true });
+    let search = getByRole("combobox");
+    expect(search).toHaveAttribute(
+      "aria-activedescendant",
+      "command-palette-listbox-result-1"
+    );
+
+    fireEvent.keyDown(search, { key: "ArrowDown" });
+    expect(search).toHaveAttribute(
+      "aria-activedescendant",
+      "command-palette-listbox-result-2"
+    );
+    fireEvent.keyDown(search, { key: "Enter" });
+    expect(openFile).toBeCalledTimes(1);
+    expect(onRecentCommandsChange).toBeCalledWith(["open"]);
+    expect(queryByRole("dialog")).toBe(null);
+
+    fireEvent.keyDown(window, { key: "k", ctrlKey: true });
+    fireEvent.click(getByRole("option", { name: "Save Ctrl+S" }));
+    expect(save).toBeCalledTimes(1);
+    expect(onRecentCommandsChange).toBeCalledWith(["save", "open"]);
+
+    fireEvent.keyDown(window, { key: "k", ctrlKey: true });
+    search = getByRole("combobox");
+    const listbox = getByRole("listbox");
+    expect(listbox.querySelector(".rmd-list-subheader")).toHaveTextContent(
+      "Recent"
+    );
+    expect(getOptionNames(listbox)).toEqual([
+      "SaveCtrl+S",
+      "Open File",
+      "Print",
+      "Change Theme",
+      "Help",
+    ]);
+
+    // disabled commands can't be executed
+    fireEvent.change(search, { target: { value: "print" } });
+    fireEvent.keyDown(search, { key: "Enter" });
+    expect(getByRole("dialog")).toBeInTheDocument();
+  });
+
+  it("should display nested command pages and go back with Backspace or Escape", () => {
+    const { getByRole } = render(<Test defaultVisible />);
+    const search = getByRole("combobox");
+    const listbox = getByRole("listbox");
+
+    fireEvent.click(getByRole("option", { name: "Change Theme" }));
+    expect(getOptionNames(listbox)).toEqual(["Light", "Dark"]);
+    expect(listbox).toHaveAttribute("aria-label", "Change Theme");
+
+    fireEvent.keyDown(search, { key: "Backspace" });
+    expect(getOptionNames(listbox)).toContain("Change Theme");
+
+    fireEvent.change(search, { target: { value: "theme" } });
+    fireEvent.keyDown(search, { key: "Enter" });
+    expect(search).toHaveValue("");
+    expect(getOptionNames(listbox)).toEqual(["Light", "Dark"]);
+
+    fireEvent.keyDown(search, { key: "Escape" });
+    expect(getByRole("dialog")).toBeInTheDocument();
+    expect(getOptionNames(listbox)).toContain("Change Theme");
+
+    fireEvent.click(getByRole("option", { name: "Change Theme" }));
+    fireEvent.click(getByRole("option", { name: "Dark" }));
+    expect(darkTheme).toBeCalledTimes(1);
+  });
+});
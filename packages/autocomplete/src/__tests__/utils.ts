@@ -3,6 +3,8 @@ import { fuzzyFilter, caseInsensitiveFilter } from "@react-md/utils";
 
 import { FilterFunction } from "../types";
 import {
+  findCommand,
+  getCommandGroups,
   getResultId,
   getResultLabel,
   getResultValue,
@@ -152,3 +154,46 @@ describe("getFilterFunction", () => {
     expect(getFilterFunction(custom)).toBe(custom);
   });
 });
+
+describe("findCommand", () => {
+  it("should find commands within the nested commands", () => {
+    const dark = { id: "dark", label: "Dark" };
+    const commands = [
+      { id: "save", label: "Save" },
+      {
+        id: "theme",
+        label: "Theme",
+        commands: [{ id: "light", label: "Light" }, dark],
+      },
+    ];
+
+    expect(findCommand(commands, "save")).toBe(commands[0]);
+    expect(findCommand(commands, "dark")).toBe(dark);
+    expect(findCommand(commands, "missing")).toBeUndefined();
+  });
+});
+
+describe("getCommandGroups", () => {
+  const save = { id: "save", label: "Save", group: "File" };
+  const help = { id: "help", label: "Help" };
+  const open = { id: "open", label: "Open", group: "File", keywords: ["load"] };
+  const commands = [save, help, open];
+
+  it("should group the commands in the order each group first appears", () => {
+    expect(getCommandGroups(commands, "", [], "Recent")).toEqual([
+      { name: "File", commands: [save, open] },
+      { name: "", commands: [help] },
+    ]);
+  });
+
+  it("should display the recent commands first when there is no query", () => {
+    expect(getCommandGroups(commands, "", [open], "Recent")).toEqual([
+      { name: "Recent", commands: [open] },
+      { name: "File", commands: [save] },
+      { name: "", commands: [help] },
+    ]);
+    expect(getCommandGroups(commands, "lod", [open], "Recent")).toEqual([
+      { name: "File", commands: [open] },
+    ]);
+  });
+});
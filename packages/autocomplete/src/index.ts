@@ -2,8 +2,11 @@
  * @module @react-md/autocomplete
  */
 export * from "./AutoComplete";
+export * from "./CommandPalette";
+export * from "./CommandPaletteProvider";
 export * from "./HighlightedResult";
 export * from "./useAutoComplete";
+export * from "./useAutoCompleteLoader";
 
 export {
   isResultOf,
@@ -0,0 +1,13 @@
+/*
+ * This file was generated from @react-md/dev-utils and should not be updated
+ * manually.
+ */
+
+export default {
+  "rmd-autocomplete-chip-spacing": "0.25rem",
+  "rmd-autocomplete-chips-input-min-width": "5rem",
+  "rmd-autocomplete-loading-padding": "0.5rem",
+  "rmd-command-palette-width": "40rem",
+  "rmd-command-palette-results-max-height": "20rem",
+  "rmd-command-palette-padding": "1rem",
+};
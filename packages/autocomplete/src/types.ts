@@ -1,4 +1,5 @@
 import { CSSProperties, ReactNode } from "react";
+import { ChipProps } from "@react-md/chip";
 import { ListboxOptionProps, TextFieldProps } from "@react-md/form";
 import { RenderConditionalPortalProps } from "@react-md/portal";
 import { OptionalFixedPositionOptions } from "@react-md/transition";
@@ -101,6 +102,48 @@ export interface AutoCompleteResult {
  */
 export type AutoCompleteHandler = (result: AutoCompleteResult) => void;
 
+/**
+ * A function that can be used to load the autocomplete's results for the
+ * current search query asynchronously. This is useful when the filtering should
+ * be done by a server or API instead of in the browser.
+ *
+ * The provided `signal` will be aborted once the query changes or the
+ * autocomplete unmounts so that the request can be cancelled. Results that
+ * resolve after the `signal` has been aborted will be ignored.
+ *
+ * Example:
+ *
+ * ```ts
+ * const loadOptions: AutoCompleteLoadOptions = async (query, signal) => {
+ *   const response = await fetch(`/api/search?q=${query}`, { signal });
+ *
+ *   return response.json();
+ * };
+ * ```
+ *
+ * @param query - The current search query
+ * @param signal - An `AbortSignal` that can be used to cancel the request
+ * @returns a promise that resolves to the list of results to display
+ * @remarks \@since 3.2.0
+ */
+export type AutoCompleteLoadOptions = (
+  query: string,
+  signal: AbortSignal
+) => Promise<readonly AutoCompleteData[]>;
+
+/**
+ * The function to call whenever a value is added or removed while the
+ * autocomplete is rendering multiple values. Values will be added when a result
+ * is autocompleted and removed by:
+ * - clicking one of the value chips
+ * - pressing the backspace key while the text field is empty
+ *
+ * @remarks \@since 3.2.0
+ */
+export type AutoCompleteValuesChangeHandler = (
+  values: readonly string[]
+) => void;
+
 export interface AutoCompleteListboxPositionOptions
   extends Omit<OptionalFixedPositionOptions, "width"> {
   /**
@@ -290,6 +333,92 @@ export interface AutoCompleteProps
    */
   omitKeys?: readonly string[];
 
+  /**
+   * @see AutoCompleteLoadOptions
+   *
+   * When this prop is provided, the loaded results will be displayed without
+   * being filtered by the `filter` function and the `data` prop will only be
+   * used until results have been loaded. Results will only be loaded when
+   * there is a value in the text field unless the `filterOnNoValue` prop is
+   * enabled.
+   *
+   * @remarks \@since 3.2.0
+   */
+  loadOptions?: AutoCompleteLoadOptions;
+
+  /**
+   * The amount of time in milliseconds to wait after the user stops typing
+   * before calling the `loadOptions` function.
+   *
+   * @defaultValue `300`
+   * @remarks \@since 3.2.0
+   */
+  loadOptionsDelay?: number;
+
+  /**
+   * An optional function to call if the promise returned by `loadOptions` is
+   * rejected. This will not be called for requests that have been aborted.
+   *
+   * @remarks \@since 3.2.0
+   */
+  onLoadOptionsError?(error: unknown): void;
+
+  /**
+   * Any children to display at the end of the results while results are being
+   * loaded with the `loadOptions` prop. This defaults to rendering a small
+   * `CircularProgress`.
+   *
+   * @remarks \@since 3.2.0
+   */
+  loadingChildren?: ReactNode;
+
+  /**
+   * Any optional children to display in the autocomplete's menu when there is
+   * a value in the text field but there are no matching results. The menu will
+   * not be shown when there are no results if this prop is omitted.
+   *
+   * @remarks \@since 3.2.0
+   */
+  noResultsChildren?: ReactNode;
+
+  /**
+   * The list of values that have been autocompleted when the autocomplete
+   * should allow multiple values. Providing this prop enables the "multiple
+   * values" mode where:
+   *
+   * - each value is rendered as a `Chip` before the text field's input
+   * - autocompleting a result adds its value to this list and clears the text
+   *   field instead of updating the text field's value
+   * - results that have already been added are removed from the suggestions so
+   *   that there are no duplicate values
+   * - pressing the backspace key while the text field is empty removes the
+   *   last value
+   *
+   * This should be used along with the `onValuesChange` prop to update the
+   * list of values.
+   *
+   * @remarks \@since 3.2.0
+   */
+  values?: readonly string[];
+
+  /**
+   * @see AutoCompleteValuesChangeHandler
+   * @remarks \@since 3.2.0
+   */
+  onValuesChange?: AutoCompleteValuesChangeHandler;
+
+  /**
+   * An optional function to call that can be used to provide additional props
+   * to each value's `Chip` when the `values` prop has been provided. The
+   * default behavior is to render the value as the chip's children.
+   *
+   * Note: The `onClick` handler cannot be overridden since it is used to remove
+   * the value.
+   *
+   * @remarks \@since 3.2.0
+   */
+  getChipProps?(value: string, index: number): Omit<ChipProps, "onClick">;
+
   /**
    * Any optional children to display before the matched results in the
    * autocomplete's menu. This should normally be for any presentational data or
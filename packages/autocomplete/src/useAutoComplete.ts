@@ -9,6 +9,7 @@ import {
   Ref,
   useCallback,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from "react";
@@ -30,6 +31,7 @@ import {
   AutoCompleteListboxPositionOptions,
   AutoCompleteProps,
 } from "./types";
+import { useAutoCompleteLoader } from "./useAutoCompleteLoader";
 import { getFilterFunction } from "./utils";
 
 type EventHandlers = Pick<
@@ -53,7 +55,14 @@ export type RequiredAutoCompleteProps = Required<
 
 export type OptionalAutoCompleteProps = Pick<
   AutoCompleteProps,
-  "onAutoComplete" | "disableShowOnFocus"
+  | "onAutoComplete"
+  | "disableShowOnFocus"
+  | "values"
+  | "onValuesChange"
+  | "loadOptions"
+  | "loadOptionsDelay"
+  | "onLoadOptionsError"
+  | "noResultsChildren"
 >;
 
 export interface AutoCompleteOptions
@@ -74,6 +83,8 @@ export interface AutoCompleteReturnValue {
   match: string;
   value: string;
   visible: boolean;
+  loading: boolean;
+  noResults: boolean;
   activeId: string;
   itemRefs: ItemRefList<HTMLLIElement>;
   filteredData: readonly AutoCompleteData[];
@@ -84,6 +95,7 @@ export interface AutoCompleteReturnValue {
   handleChange: ChangeEventHandler<HTMLInputElement>;
   handleKeyDown: KeyboardEventHandler<HTMLInputElement>;
   handleAutoComplete: (index: number) => void;
+  handleValueRemove: (value: string) => void;
   fixedStyle: CSSProperties | undefined;
   transitionHooks: Required<TransitionHooks>;
 }
@@ -128,6 +140,12 @@ export function useAutoComplete({
   disableShowOnFocus: propDisableShowOnFocus,
   isListAutocomplete,
   isInlineAutocomplete,
+  values,
+  onValuesChange,
+  loadOptions,
+  loadOptionsDelay = 300,
+  onLoadOptionsError,
+  noResultsChildren,
 }: AutoCompleteOptions): AutoCompleteReturnValue {
   const [ref, refHandler] = useEnsuredRef(forwardedRef);
 
@@ -157,10 +175,37 @@ export function useAutoComplete({
       filteredData,
     };
   });
-  const filteredData = filterFn === "none" ? data : stateFilteredData;
   const startsWith = filterOptions?.startsWith ?? isInlineAutocomplete;
   const value = propValue ?? stateValue;
 
+  const { loading, data: loadedData } = useAutoCompleteLoader({
+    query: value,
+    data,
+    delay: loadOptionsDelay,
+    disabled: !value && !filterOnNoValue,
+    loadOptions,
+    onLoadOptionsError,
+  });
+
+  let unfilteredData = stateFilteredData;
+  if (loadOptions) {
+    unfilteredData = loadedData;
+  } else if (filterFn === "none") {
+    unfilteredData = data;
+  }
+
+  const filteredData = useMemo(() => {
+    if (!values) {
+      return unfilteredData;
+    }
+
+    // values that have already been autocompleted are removed from the results
+    // so that the same value can't be added multiple times
+    return unfilteredData.filter(
+      (datum) => !values.includes(getResultValue(datum, valueKey))
+    );
+  }, [unfilteredData, values, getResultValue, valueKey]);
+
   const setValue = useCallback(
     (nextValue: string) => {
       const isBackspace =
@@ -212,6 +257,12 @@ export function useAutoComplete({
   // for showing when the value/ filtered data list change
   const autocompleted = useRef(false);
 
+  const noResults =
+    !loading &&
+    !filteredData.length &&
+    !!value &&
+    typeof noResultsChildren !== "undefined";
+
   const handleChange = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
       if (onChange) {
@@ -287,27 +338,55 @@ export function useAutoComplete({
           value: resultValue,
           index,
           result,
-          dataIndex: data.findIndex(
+          dataIndex: (loadOptions ? loadedData : data).findIndex(
             (datum) => getResultValue(datum, valueKey) === resultValue
           ),
           filteredData,
         });
       }
 
-      setValue(clearOnAutoComplete ? "" : resultValue);
+      if (values) {
+        if (onValuesChange && !values.includes(resultValue)) {
+          onValuesChange([...values, resultValue]);
+        }
+
+        setValue("");
+      } else {
+        setValue(clearOnAutoComplete ? "" : resultValue);
+      }
+
       autocompleted.current = true;
     },
     [
       clearOnAutoComplete,
       data,
+      loadOptions,
+      loadedData,
       filteredData,
       getResultValue,
       onAutoComplete,
       valueKey,
       setValue,
+      values,
+      onValuesChange,
     ]
   );
 
+  const handleValueRemove = useCallback(
+    (removedValue: string) => {
+      if (!values || !onValuesChange) {
+        return;
+      }
+
+      onValuesChange(values.filter((value) => value !== removedValue));
+
+      // clicking one of the chips would normally move focus away from the text
+      // field, so move it back so more values can be added
+      ref.current?.focus();
+    },
+    [ref, values, onValuesChange]
+  );
+
   const listboxRef = useRef<ListElement | null>(null);
   const {
     activeId,
@@ -398,6 +477,11 @@ export function useAutoComplete({
             hide();
           }
           break;
+        case "Backspace":
+          if (values && values.length && !input.value) {
+            handleValueRemove(values[values.length - 1]);
+          }
+          break;
         case "Escape":
           if (visible) {
             event.stopPropagation();
@@ -444,16 +528,17 @@ export function useAutoComplete({
       return;
     }
 
-    if (filteredData.length && !visible && value.length && isListAutocomplete) {
+    const hasContent = !!filteredData.length || loading || noResults;
+    if (hasContent && !visible && value.length && isListAutocomplete) {
       show();
-    } else if (!filteredData.length && visible) {
+    } else if (!hasContent && visible) {
       hide();
     }
 
     // this effect is just for toggling the visibility states as needed if the
-    // value or filter data list changes
+    // value, filter data list, or loading state changes
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filteredData, value]);
+  }, [filteredData, value, loading]);
 
   useEffect(() => {
     if (!visible) {
@@ -473,6 +558,8 @@ export function useAutoComplete({
     value,
     match,
     visible,
+    loading,
+    noResults,
     activeId,
     itemRefs,
     filteredData,
@@ -490,5 +577,6 @@ export function useAutoComplete({
     handleChange,
     handleKeyDown,
     handleAutoComplete,
+    handleValueRemove,
   };
 }
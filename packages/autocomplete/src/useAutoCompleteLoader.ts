@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useRefCache } from "@react-md/utils";
+
+import { AutoCompleteData, AutoCompleteProps } from "./types";
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface AutoCompleteLoaderOptions
+  extends Pick<AutoCompleteProps, "loadOptions" | "onLoadOptionsError"> {
+  /**
+   * The current search query that should be used to load the results.
+   */
+  query: string;
+
+  /**
+   * The data list to use until results have been loaded or while the loading
+   * behavior is disabled.
+   */
+  data: readonly AutoCompleteData[];
+
+  /**
+   * The amount of time in milliseconds to wait after the query stops changing
+   * before calling the `loadOptions` function.
+   */
+  delay: number;
+
+  /**
+   * Boolean if the results should not be loaded for the current query. When
+   * this is `true`, any pending requests will be cancelled and the `data`
+   * will be returned instead.
+   */
+  disabled: boolean;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface AutoCompleteLoaderReturnValue {
+  /**
+   * Boolean if there is a pending or in-flight request for the current query.
+   */
+  loading: boolean;
+
+  /**
+   * The results from the latest request or the `data` if nothing has been
+   * loaded yet.
+   */
+  data: readonly AutoCompleteData[];
+}
+
+interface AutoCompleteLoaderState {
+  loading: boolean;
+  results: readonly AutoCompleteData[] | null;
+}
+
+/**
+ * This hook handles loading the autocomplete's results asynchronously with the
+ * `loadOptions` prop. Each time the `query` changes, the previous request will
+ * be aborted through its `AbortSignal` and a new request will be made once the
+ * query hasn't changed for the `delay` amount of time.
+ *
+ * Since the previous request is always aborted before a new one is started,
+ * results from an older request will never replace the results of a newer one
+ * even if the `loadOptions` function does not support the `AbortSignal`.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function useAutoCompleteLoader({
+  query,
+  data,
+  delay,
+  disabled,
+  loadOptions,
+  onLoadOptionsError,
+}: AutoCompleteLoaderOptions): AutoCompleteLoaderReturnValue {
+  const [{ loading, results }, setState] = useState<AutoCompleteLoaderState>({
+    loading: false,
+    results: null,
+  });
+
+  // these are stored in refs so that inline functions do not trigger a new
+  // request each render
+  const loadOptionsRef = useRefCache(loadOptions);
+  const onErrorRef = useRefCache(onLoadOptionsError);
+  const enabled = !!loadOptions && !disabled;
+  useEffect(() => {
+    if (!enabled) {
+      setState({ loading: false, results: null });
+      return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    setState((prevState) =>
+      prevState.loading ? prevState : { ...prevState, loading: true }
+    );
+
+    const timeout = window.setTimeout(() => {
+      const load = loadOptionsRef.current;
+      if (!load) {
+        return;
+      }
+
+      // wrapped in a promise so that synchronous errors are handled the same
+      // way as rejections
+      new Promise<readonly AutoCompleteData[]>((resolve) => {
+        resolve(load(query, signal));
+      }).then(
+        (nextResults) => {
+          if (signal.aborted) {
+            return;
+          }
+
+          setState({ loading: false, results: nextResults });
+        },
+        (error: unknown) => {
+          if (signal.aborted) {
+            return;
+          }
+
+          setState((prevState) => ({ ...prevState, loading: false }));
+          onErrorRef.current?.(error);
+        }
+      );
+    }, delay);
+
+    return () => {
+      window.clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [enabled, query, delay, loadOptionsRef, onErrorRef]);
+
+  return {
+    loading: enabled && loading,
+    data: enabled && results ? results : data,
+  };
+}
@@ -1,6 +1,11 @@
 import { ReactNode } from "react";
-import { caseInsensitiveFilter, fuzzyFilter } from "@react-md/utils";
+import {
+  caseInsensitiveFilter,
+  fuzzyFilter,
+  SearchOptions,
+} from "@react-md/utils";
 
+import { CommandPaletteCommand } from "./CommandPaletteProvider";
 import {
   AutoCompleteData,
   AutoCompleteFilterFunction,
@@ -138,3 +143,99 @@ export function isResultOf<T extends {}>(
 ): datum is T {
   return !!datum && typeof datum === "object";
 }
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface CommandPaletteGroup {
+  /**
+   * The name of the group which will be an empty string for commands that do
+   * not have a `group`.
+   */
+  name: string;
+  commands: readonly CommandPaletteCommand[];
+}
+
+/**
+ * Recursively finds a command by id within a list of commands and their
+ * nested `commands`.
+ *
+ * @param commands - The list of commands to search
+ * @param id - The command id to find
+ * @returns the command or `undefined` if it does not exist
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function findCommand(
+  commands: readonly CommandPaletteCommand[],
+  id: string
+): CommandPaletteCommand | undefined {
+  for (const command of commands) {
+    if (command.id === id) {
+      return command;
+    }
+
+    const nested = command.commands && findCommand(command.commands, id);
+    if (nested) {
+      return nested;
+    }
+  }
+
+  return undefined;
+}
+
+const getCommandValue = ({
+  label,
+  keywords = [],
+}: CommandPaletteCommand): string => [label, ...keywords].join(" ");
+
+/**
+ * Filters the commands by the current query and groups them by the command's
+ * `group` in the order that each group first appears. When there is no query,
+ * the recent commands will be displayed first in their own group instead.
+ *
+ * @param commands - The commands for the current page
+ * @param query - The current search query
+ * @param recentCommands - The recently executed commands that should be
+ * displayed when there is no query
+ * @param recentLabel - The group name to use for the recent commands
+ * @param filterOptions - Any additional options for the `fuzzyFilter`
+ * @returns the list of groups that have at least one command
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function getCommandGroups(
+  commands: readonly CommandPaletteCommand[],
+  query: string,
+  recentCommands: readonly CommandPaletteCommand[],
+  recentLabel: string,
+  filterOptions: SearchOptions<CommandPaletteCommand> = {}
+): readonly CommandPaletteGroup[] {
+  const groups: CommandPaletteGroup[] = [];
+  let filtered = commands;
+  if (query) {
+    filtered = fuzzyFilter(query, commands, {
+      getItemValue: getCommandValue,
+      ...filterOptions,
+    });
+  } else if (recentCommands.length) {
+    groups.push({ name: recentLabel, commands: recentCommands });
+    filtered = commands.filter((command) => !recentCommands.includes(command));
+  }
+
+  const lookup = new Map<string, CommandPaletteCommand[]>();
+  filtered.forEach((command) => {
+    const name = command.group || "";
+    let grouped = lookup.get(name);
+    if (!grouped) {
+      grouped = [];
+      lookup.set(name, grouped);
+      groups.push({ name, commands: grouped });
+    }
+
+    grouped.push(command);
+  });
+
+  return groups;
+}
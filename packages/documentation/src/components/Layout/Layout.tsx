@@ -17,7 +17,9 @@ import {
   ArrowUpwardSVGIcon,
   CheckBoxSVGIcon,
   CheckSVGIcon,
+  CloseSVGIcon,
   ErrorOutlineSVGIcon,
+  EventSVGIcon,
   FileDownloadSVGIcon,
   KeyboardArrowDownSVGIcon,
   KeyboardArrowLeftSVGIcon,
@@ -26,6 +28,7 @@ import {
   NotificationsSVGIcon,
   RadioButtonCheckedSVGIcon,
   RemoveRedEyeSVGIcon,
+  ScheduleSVGIcon,
 } from "@react-md/material-icons";
 import { ENTER, useCrossFade } from "@react-md/transition";
 import { AppSizeListenerProps } from "@react-md/utils";
@@ -54,7 +57,10 @@ export interface LayoutProps
 
 const icons: ConfiguredIcons = {
   back: <KeyboardArrowLeftSVGIcon />,
+  calendar: <EventSVGIcon />,
   checkbox: <CheckBoxSVGIcon />,
+  clock: <ScheduleSVGIcon />,
+  close: <CloseSVGIcon />,
   dropdown: <ArrowDropDownSVGIcon />,
   download: <FileDownloadSVGIcon />,
   expander: <KeyboardArrowDownSVGIcon />,
@@ -1,5 +1,6 @@
 import React, { ReactElement } from "react";
-import { render, fireEvent } from "@testing-library/react";
+import { act, render, fireEvent } from "@testing-library/react";
+import { createHashHistoryAdapter } from "@react-md/utils";
 
 import { usePanels, UsePanelsOptions } from "../usePanels";
 import { ExpansionList } from "../ExpansionList";
@@ -11,6 +12,7 @@ function Test({
   multiple,
   preventAllClosed,
   defaultExpandedIndex,
+  historyAdapter,
 }: Partial<UsePanelsOptions>): ReactElement {
   const [panels, onKeyDown] = usePanels({
     idPrefix,
@@ -18,6 +20,7 @@ function Test({
     multiple,
     preventAllClosed,
     defaultExpandedIndex,
+    historyAdapter,
   });
 
   return (
@@ -428,4 +431,50 @@ describe("usePanels", () => {
     fireEvent.keyDown(panel1, { key: "A" });
     expect(document.activeElement).toBe(panel1);
   });
+
+  describe("history", () => {
+    const historyAdapter = createHashHistoryAdapter();
+
+    afterEach(() => {
+      window.history.replaceState(null, "", "/");
+    });
+
+    it("should restore the expanded panels from the URL and ignore invalid ids", () => {
+      window.history.replaceState(null, "", "/#panel=panel-1,panel-3,panel-4");
+      render(<Test historyAdapter={historyAdapter} multiple />);
+
+      expect(getById("panel-1")).toHaveAttribute("aria-expanded", "true");
+      expect(getById("panel-2")).not.toHaveAttribute("aria-expanded");
+      expect(getById("panel-3")).toHaveAttribute("aria-expanded", "true");
+    });
+
+    it("should update the URL when the expanded panels change and restore them on popstate", () => {
+      render(<Test historyAdapter={historyAdapter} defaultExpandedIndex={0} />);
+      const panel1 = getById("panel-1");
+      const panel2 = getById("panel-2");
+      expect(window.location.hash).toBe("");
+
+      fireEvent.click(panel2);
+      expect(window.location.hash).toBe("#panel=panel-2");
+
+      fireEvent.click(panel2);
+      expect(window.location.hash).toBe("#panel=");
+      expect(panel2).not.toHaveAttribute("aria-expanded");
+
+      act(() => {
+        window.history.replaceState(null, "", "/#panel=panel-2");
+        window.dispatchEvent(new PopStateEvent("popstate"));
+      });
+      expect(panel1).not.toHaveAttribute("aria-expanded");
+      expect(panel2).toHaveAttribute("aria-expanded", "true");
+
+      act(() => {
+        window.history.replaceState(null, "", "/");
+        window.dispatchEvent(new PopStateEvent("popstate"));
+      });
+      expect(panel1).toHaveAttribute("aria-expanded", "true");
+      expect(panel2).not.toHaveAttribute("aria-expanded");
+      expect(window.location.hash).toBe("");
+    });
+  });
 });
@@ -8,7 +8,7 @@ import {
   useMemo,
   useState,
 } from "react";
-import { loop } from "@react-md/utils";
+import { HistoryAdapter, loop, useHistorySync } from "@react-md/utils";
 
 export interface UsePanelsOptions {
   /**
@@ -47,6 +47,28 @@ export interface UsePanelsOptions {
    * default.
    */
   defaultExpandedIndex?: number | readonly number[];
+
+  /**
+   * An optional adapter to synchronize the expanded panel ids with the URL so
+   * that the expanded panels can be deep linked and restored with the
+   * browser's back and forward buttons. The expanded panels will be restored
+   * from the URL on mount and the `defaultExpandedIndex` will be used when the
+   * URL does not contain any expanded panels.
+   *
+   * @see {@link createHashHistoryAdapter}
+   * @see {@link createQueryHistoryAdapter}
+   * @remarks \@since 3.2.0
+   */
+  historyAdapter?: HistoryAdapter;
+
+  /**
+   * The key to use for the expanded panel ids within the URL when the
+   * `historyAdapter` option has been provided.
+   *
+   * @defaultValue `idPrefix`
+   * @remarks \@since 3.2.0
+   */
+  historyKey?: string;
 }
 
 /**
@@ -116,6 +138,36 @@ const attemptFocus = (index: number, panels: readonly PanelMemo[]): void => {
   }
 };
 
+/**
+ * @internal
+ */
+const getDefaultExpandedIds = (
+  panels: readonly PanelMemo[],
+  defaultExpandedIndex: number | readonly number[] | undefined,
+  preventAllClosed: boolean
+): ExpandedIds => {
+  if (typeof defaultExpandedIndex === "undefined") {
+    return preventAllClosed ? [panels[0].id] : [];
+  }
+
+  if (typeof defaultExpandedIndex === "number") {
+    return defaultExpandedIndex === -1
+      ? panels.map(({ id }) => id)
+      : [panels[Math.min(defaultExpandedIndex, panels.length)].id];
+  }
+
+  return panels
+    .filter((_, i) => defaultExpandedIndex.includes(i))
+    .map(({ id }) => id);
+};
+
+/**
+ * The separator to use for the expanded panel ids within the URL.
+ *
+ * @internal
+ */
+const HISTORY_SEPARATOR = ",";
+
 /**
  * This hook is used to control the expansion of a list of panels along with
  * providing some of the required props for each panel. This hook will provide
@@ -179,6 +231,8 @@ export function usePanels({
   multiple = false,
   preventAllClosed = false,
   defaultExpandedIndex,
+  historyAdapter,
+  historyKey = idPrefix,
 }: UsePanelsOptions): ReturnValue {
   if (process.env.NODE_ENV !== "production") {
     if (count < 1) {
@@ -226,20 +280,42 @@ export function usePanels({
     [idPrefix, count]
   );
 
-  const [expandedIds, setExpandedIds] = useState<ExpandedIds>(() => {
-    if (typeof defaultExpandedIndex === "undefined") {
-      return preventAllClosed ? [panels[0].id] : [];
-    }
+  const [expandedIds, setExpandedIds] = useState<ExpandedIds>(() =>
+    getDefaultExpandedIds(panels, defaultExpandedIndex, preventAllClosed)
+  );
 
-    if (typeof defaultExpandedIndex === "number") {
-      return defaultExpandedIndex === -1
-        ? panels.map(({ id }) => id)
-        : [panels[Math.min(defaultExpandedIndex, panels.length)].id];
-    }
+  useHistorySync({
+    adapter: historyAdapter,
+    key: historyKey,
+    value: expandedIds.join(HISTORY_SEPARATOR),
+    defaultValue: getDefaultExpandedIds(
+      panels,
+      defaultExpandedIndex,
+      preventAllClosed
+    ).join(HISTORY_SEPARATOR),
+    onRestore(value) {
+      if (value === null) {
+        setExpandedIds(
+          getDefaultExpandedIds(panels, defaultExpandedIndex, preventAllClosed)
+        );
+        return;
+      }
+
+      // ignore any invalid ids that might have been manually added to the URL
+      const ids = value.split(HISTORY_SEPARATOR);
+      let nextIds = panels
+        .filter(({ id }) => ids.includes(id))
+        .map(({ id }) => id);
+      if (!multiple) {
+        nextIds = nextIds.slice(0, 1);
+      }
+
+      if (preventAllClosed && nextIds.length === 0) {
+        nextIds = [panels[0].id];
+      }
 
-    return panels
-      .filter((_, i) => defaultExpandedIndex.includes(i))
-      .map(({ id }) => id);
+      setExpandedIds(nextIds);
+    },
   });
 
   const createExpandClick: CreateExpandById = (panelId) => () => {
@@ -1,5 +1,7 @@
 import React, { FormHTMLAttributes, forwardRef, useCallback } from "react";
 
+import { FormState, FormStateContext } from "./useFormState";
+
 export interface FormProps extends FormHTMLAttributes<HTMLFormElement> {
   /**
    * Boolean if the form should no longer prevent default submit behavior. If
@@ -7,15 +9,44 @@ export interface FormProps extends FormHTMLAttributes<HTMLFormElement> {
    * instead
    */
   disablePreventDefault?: boolean;
+
+  /**
+   * An optional form state created by the `useFormState` hook. When provided,
+   * all the fields within the form can register themselves with the form
+   * state, submitting the form will validate all the fields before calling
+   * the form state's `onSubmit`, and resetting the form will reset all the
+   * fields back to their default values.
+   *
+   * This will also disable the browser's native validation since the errors
+   * will be handled by the form state instead.
+   *
+   * Note: The `onSubmit` and `onReset` props will be called before the form
+   * state is submitted or reset. Calling `event.stopPropagation()` within
+   * those handlers will prevent the form state from being submitted or reset.
+   *
+   * @remarks \@since 3.2.0
+   */
+  formState?: FormState;
 }
 
 /**
  * This is probably one of the least useful components available as it doesn't
  * do much styling or logic. All this form component will do is add basic flex
  * behavior and prevent the default form submit behavior.
+ *
+ * When a `formState` prop is provided, this component will also manage
+ * validating and submitting all the registered fields.
  */
 export const Form = forwardRef<HTMLFormElement, FormProps>(function Form(
-  { children, disablePreventDefault = false, onSubmit, ...props },
+  {
+    children,
+    disablePreventDefault = false,
+    onSubmit,
+    onReset,
+    formState,
+    noValidate = !!formState,
+    ...props
+  },
   ref
 ) {
   const handleOnSubmit = useCallback<React.FormEventHandler<HTMLFormElement>>(
@@ -27,15 +58,47 @@ export const Form = forwardRef<HTMLFormElement, FormProps>(function Form(
       if (onSubmit) {
         onSubmit(event);
       }
+
+      if (formState && !event.isPropagationStopped()) {
+        formState.submit();
+      }
     },
-    [disablePreventDefault, onSubmit]
+    [disablePreventDefault, onSubmit, formState]
   );
+  const handleOnReset = useCallback<React.FormEventHandler<HTMLFormElement>>(
+    (event) => {
+      if (onReset) {
+        onReset(event);
+      }
 
-  return (
-    <form {...props} onSubmit={handleOnSubmit} ref={ref}>
+      if (formState && !event.isPropagationStopped()) {
+        formState.reset();
+      }
+    },
+    [onReset, formState]
+  );
+
+  const form = (
+    <form
+      {...props}
+      noValidate={noValidate}
+      onSubmit={handleOnSubmit}
+      onReset={handleOnReset}
+      ref={ref}
+    >
       {children}
     </form>
   );
+
+  if (!formState) {
+    return form;
+  }
+
+  return (
+    <FormStateContext.Provider value={formState}>
+      {form}
+    </FormStateContext.Provider>
+  );
 });
 
 /* istanbul ignore next */
@@ -46,7 +109,10 @@ if (process.env.NODE_ENV !== "production") {
     Form.propTypes = {
       children: PropTypes.node,
       onSubmit: PropTypes.func,
+      onReset: PropTypes.func,
+      noValidate: PropTypes.bool,
       disablePreventDefault: PropTypes.bool,
+      formState: PropTypes.object,
     };
   } catch (e) {}
 }
@@ -0,0 +1,474 @@
+import React, { ReactElement } from "react";
+import { act, fireEvent, render, waitFor } from "@testing-library/react";
+
+import { Form } from "../Form";
+import { TextField } from "../text-field/TextField";
+import { useNumberField } from "../text-field/useNumberField";
+import { useTextField } from "../text-field/useTextField";
+import { useChecked } from "../toggle/useChecked";
+import { useFormField } from "../useFormField";
+import {
+  FormState,
+  FormStateOptions,
+  FormValidator,
+  useFormState,
+} from "../useFormState";
+
+function Email(): ReactElement {
+  const [, { messageProps, ...props }] = useTextField({
+    id: "email",
+    name: "email",
+    required: true,
+    validate: (value) =>
+      value && !value.includes("@") ? "Invalid email" : undefined,
+  });
+
+  return (
+    <>
+      <TextField {...props} label="Email" />
+      <span data-testid="email-message">{messageProps.children}</span>
+    </>
+  );
+}
+
+function Username({ taken }: { taken: string }): ReactElement {
+  const [, { messageProps, ...props }] = useTextField({
+    id: "username",
+    name: "username",
+    defaultValue: "guest",
+    validate: (value) =>
+      Promise.resolve(value === taken ? "Username is taken" : undefined),
+  });
+
+  return (
+    <>
+      <TextField {...props} label="Username" />
+      <span data-testid="username-message">{messageProps.children}</span>
+    </>
+  );
+}
+
+function Age(): ReactElement {
+  const [, { messageProps: _messageProps, ...props }] = useNumberField({
+    id: "age",
+    name: "age",
+    defaultValue: 18,
+    min: 0,
+    validate: (value) =>
+      typeof value === "number" && value < 18 ? "Too young" : undefined,
+  });
+
+  return <TextField {...props} label="Age" />;
+}
+
+function Terms(): ReactElement {
+  const [checked, handleChange, _setChecked, { errorMessage }] = useChecked(
+    false,
+    undefined,
+    {
+      id: "terms",
+      name: "terms",
+      validate: (checked) => (!checked ? "Required" : undefined),
+    }
+  );
+
+  return (
+    <>
+      <input
+        id="terms"
+        type="checkbox"
+        checked={checked}
+        onChange={handleChange}
+      />
+      <span data-testid="terms-message">{errorMessage}</span>
+    </>
+  );
+}
+
+let formState: FormState;
+function Test({
+  taken = "admin",
+  ...options
+}: FormStateOptions & { taken?: string }): ReactElement {
+  formState = useFormState(options);
+
+  return (
+    <Form formState={formState}>
+      <Email />
+      <Username taken={taken} />
+      <Age />
+      <Terms />
+      <button type="submit">Submit</button>
+      <button type="reset">Reset</button>
+    </Form>
+  );
+}
+
+const getField = (id: string): HTMLInputElement => {
+  const field = document.getElementById(id);
+  if (!(field instanceof HTMLInputElement)) {
+    throw new Error();
+  }
+
+  return field;
+};
+
+const isErrored = (field: HTMLElement): boolean =>
+  !!field
+    .closest(".rmd-text-field-container")
+    ?.classList.contains("rmd-text-field-container--error");
+
+describe("useFormState", () => {
+  it("should register the fields with their default values and track the dirty state", async () => {
+    render(<Test />);
+    await waitFor(() => {
+      expect(formState.validating).toBe(false);
+    });
+
+    expect(formState.values).toEqual({
+      email: "",
+      username: "guest",
+      age: 18,
+      terms: false,
+    });
+    expect(formState.isDirty).toBe(false);
+
+    fireEvent.change(getField("email"), {
+      target: { value: "me@example.com" },
+    });
+    fireEvent.click(getField("terms"));
+    expect(formState.values).toEqual({
+      email: "me@example.com",
+      username: "guest",
+      age: 18,
+      terms: true,
+    });
+    expect(formState.dirty).toEqual({
+      email: true,
+      username: false,
+      age: false,
+      terms: true,
+    });
+    expect(formState.isDirty).toBe(true);
+  });
+
+  it("should only display the field errors once the field has been touched", async () => {
+    const { getByTestId } = render(<Test />);
+    const email = getField("email");
+
+    fireEvent.change(email, { target: { value: "invalid" } });
+    expect(formState.errors).toEqual({
+      email: "Invalid email",
+      terms: "Required",
+    });
+    expect(formState.isValid).toBe(false);
+    expect(isErrored(email)).toBe(false);
+    expect(getByTestId("email-message")).toHaveTextContent("");
+
+    fireEvent.blur(email);
+    expect(formState.touched).toEqual({ email: true });
+    expect(isErrored(email)).toBe(true);
+    expect(getByTestId("email-message")).toHaveTextContent("Invalid email");
+
+    const username = getField("username");
+    fireEvent.change(username, { target: { value: "admin" } });
+    fireEvent.blur(username);
+    expect(formState.validating).toBe(true);
+    await waitFor(() => {
+      expect(getByTestId("username-message")).toHaveTextContent(
+        "Username is taken"
+      );
+    });
+    expect(formState.validating).toBe(false);
+  });
+
+  it("should only use the result from the latest async validation", async () => {
+    const resolvers: ((message: string | undefined) => void)[] = [];
+    function AsyncField(): ReactElement {
+      const [, props] = useTextField({
+        id: "async",
+        name: "async",
+        disableMessage: true,
+        validate: () =>
+          new Promise<string | undefined>((resolve) => {
+            resolvers.push(resolve);
+          }),
+      });
+
+      return <TextField {...props} />;
+    }
+
+    function AsyncTest(): ReactElement {
+      formState = useFormState();
+      return (
+        <Form formState={formState}>
+          <AsyncField />
+        </Form>
+      );
+    }
+
+    render(<AsyncTest />);
+    const field = getField("async");
+    fireEvent.change(field, { target: { value: "a" } });
+    fireEvent.change(field, { target: { value: "ab" } });
+
+    // one validation while registering and then one for each change
+    expect(resolvers).toHaveLength(3);
+    await act(async () => {
+      resolvers[2](undefined);
+    });
+    await act(async () => {
+      resolvers[1]("Stale error");
+      resolvers[0]("Stale error");
+    });
+    expect(formState.errors).toEqual({});
+    expect(formState.validating).toBe(false);
+  });
+
+  it("should block submit until the form is valid and focus the first errored field", async () => {
+    const onSubmit = jest.fn();
+    const validate: FormValidator = ({ username, email }) => ({
+      username:
+        email === "guest@example.com" && username === "guest"
+          ? "Choose a different username"
+          : undefined,
+    });
+    const { getByRole, getByTestId } = render(
+      <Test onSubmit={onSubmit} validate={validate} />
+    );
+
+    fireEvent.click(getByRole("button", { name: "Submit" }));
+    await waitFor(() => {
+      expect(document.activeElement).toBe(getField("email"));
+    });
+    expect(onSubmit).not.toBeCalled();
+    expect(formState.submitted).toBe(true);
+    expect(formState.touched).toEqual({
+      email: true,
+      username: true,
+      age: true,
+      terms: true,
+    });
+    expect(getByTestId("email-message")).not.toHaveTextContent("");
+    expect(getByTestId("terms-message")).toHaveTextContent("Required");
+
+    fireEvent.change(getField("email"), {
+      target: { value: "guest@example.com" },
+    });
+    fireEvent.click(getField("terms"));
+    await waitFor(() => {
+      expect(getByTestId("terms-message")).toBeEmptyDOMElement();
+      expect(getByTestId("username-message")).toHaveTextContent(
+        "Choose a different username"
+      );
+    });
+
+    fireEvent.click(getByRole("button", { name: "Submit" }));
+    await waitFor(() => {
+      expect(document.activeElement).toBe(getField("username"));
+    });
+    expect(onSubmit).not.toBeCalled();
+
+    fireEvent.change(getField("username"), { target: { value: "me" } });
+    fireEvent.click(getByRole("button", { name: "Submit" }));
+    await waitFor(() => {
+      expect(onSubmit).toBeCalledWith({
+        email: "guest@example.com",
+        username: "me",
+        age: 18,
+        terms: true,
+      });
+    });
+  });
+
+  it("should track the submitting state while the onSubmit promise is pending", async () => {
+    let resolve = (): void => {};
+    const onSubmit = jest.fn(
+      () =>
+        new Promise<void>((r) => {
+          resolve = r;
+        })
+    );
+    const { getByRole } = render(<Test onSubmit={onSubmit} />);
+
+    fireEvent.change(getField("email"), {
+      target: { value: "me@example.com" },
+    });
+    fireEvent.click(getField("terms"));
+    fireEvent.click(getByRole("button", { name: "Submit" }));
+    await waitFor(() => {
+      expect(formState.submitting).toBe(true);
+    });
+
+    await act(async () => {
+      resolve();
+    });
+    expect(formState.submitting).toBe(false);
+  });
+
+  it("should store the error when the onSubmit function rejects", async () => {
+    const error = new Error("Network error");
+    const onSubmit = jest.fn(() => Promise.reject(error));
+    const { getByRole } = render(<Test onSubmit={onSubmit} />);
+
+    fireEvent.change(getField("email"), {
+      target: { value: "me@example.com" },
+    });
+    fireEvent.click(getField("terms"));
+    fireEvent.click(getByRole("button", { name: "Submit" }));
+    await waitFor(() => {
+      expect(formState.submitError).toBe(error);
+    });
+    expect(onSubmit).toBeCalledTimes(1);
+    expect(formState.submitting).toBe(false);
+
+    fireEvent.click(getByRole("button", { name: "Reset" }));
+    expect(formState.submitError).toBeUndefined();
+  });
+
+  it("should use the error message when a field validator rejects", async () => {
+    function Unavailable(): ReactElement {
+      const [, props] = useTextField({
+        id: "unavailable",
+        name: "unavailable",
+        disableMessage: true,
+        validate: () => Promise.reject(new Error("Service unavailable")),
+      });
+
+      return <TextField {...props} />;
+    }
+
+    function RejectTest(): ReactElement {
+      formState = useFormState();
+      return (
+        <Form formState={formState}>
+          <Unavailable />
+        </Form>
+      );
+    }
+
+    render(<RejectTest />);
+    await waitFor(() => {
+      expect(formState.errors).toEqual({ unavailable: "Service unavailable" });
+    });
+    expect(formState.validating).toBe(false);
+  });
+
+  it("should use the validity returned by the field's checkValidity function while submitting", async () => {
+    const onSubmit = jest.fn();
+    function Invalid(): ReactElement {
+      useFormField({
+        name: "invalid",
+        value: "",
+        defaultValue: "",
+        reset: () => {},
+        // the error is intentionally never reported to the form state
+        checkValidity: () => false,
+      });
+
+      return <></>;
+    }
+
+    function InvalidTest(): ReactElement {
+      formState = useFormState({ onSubmit });
+      return (
+        <Form formState={formState}>
+          <Invalid />
+        </Form>
+      );
+    }
+
+    render(<InvalidTest />);
+    await act(() => formState.submit());
+    expect(onSubmit).not.toBeCalled();
+  });
+
+  it("should reset all the fields back to their default values", async () => {
+    const onReset = jest.fn();
+    const { getByRole, getByTestId } = render(<Test onReset={onReset} />);
+
+    fireEvent.change(getField("email"), { target: { value: "invalid" } });
+    fireEvent.change(getField("username"), { target: { value: "me" } });
+    fireEvent.change(getField("age"), { target: { value: "21" } });
+    fireEvent.click(getField("terms"));
+    fireEvent.click(getByRole("button", { name: "Submit" }));
+    await waitFor(() => {
+      expect(getByTestId("email-message")).toHaveTextContent("Invalid email");
+    });
+
+    fireEvent.click(getByRole("button", { name: "Reset" }));
+    expect(onReset).toBeCalledTimes(1);
+    expect(getField("email")).toHaveValue("");
+    expect(getField("username")).toHaveValue("guest");
+    expect(getField("age")).toHaveValue(18);
+    expect(getField("terms")).not.toBeChecked();
+    expect(getByTestId("email-message")).toHaveTextContent("");
+    expect(formState.values).toEqual({
+      email: "",
+      username: "guest",
+      age: 18,
+      terms: false,
+    });
+    expect(formState.touched).toEqual({});
+    expect(formState.submitted).toBe(false);
+    expect(formState.isDirty).toBe(false);
+  });
+
+  it("should not register fields without a name or outside of a form state", () => {
+    function Standalone(): ReactElement {
+      const [value, props] = useTextField({
+        id: "standalone",
+        disableMessage: true,
+      });
+
+      return <TextField {...props} aria-label={value} />;
+    }
+
+    render(
+      <Form>
+        <Standalone />
+      </Form>
+    );
+
+    const field = getField("standalone");
+    fireEvent.change(field, { target: { value: "value" } });
+    fireEvent.blur(field);
+    expect(isErrored(field)).toBe(false);
+  });
+
+  it("should run the validate option once blurred when there is no form state", async () => {
+    const { getByTestId } = render(
+      <>
+        <Email />
+        <Username taken="admin" />
+      </>
+    );
+
+    const email = getField("email");
+    const emailMessage = getByTestId("email-message");
+    fireEvent.change(email, { target: { value: "invalid" } });
+    expect(emailMessage).toHaveTextContent("");
+
+    fireEvent.blur(email);
+    expect(emailMessage).toHaveTextContent("Invalid email");
+    expect(isErrored(email)).toBe(true);
+
+    fireEvent.change(email, { target: { value: "valid@example.com" } });
+    expect(emailMessage).toHaveTextContent("");
+    expect(isErrored(email)).toBe(false);
+
+    const username = getField("username");
+    const usernameMessage = getByTestId("username-message");
+    fireEvent.change(username, { target: { value: "admin" } });
+    fireEvent.blur(username);
+    await waitFor(() => {
+      expect(usernameMessage).toHaveTextContent("Username is taken");
+    });
+
+    fireEvent.change(username, { target: { value: "admin2" } });
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(usernameMessage).toHaveTextContent("");
+  });
+});
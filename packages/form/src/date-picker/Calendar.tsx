@@ -0,0 +1,449 @@
+import React, {
+  forwardRef,
+  HTMLAttributes,
+  ReactNode,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import cn from "classnames";
+import { Button } from "@react-md/button";
+import { useIcon } from "@react-md/icon";
+import {
+  bem,
+  getKeyboardConfig,
+  IncrementMovementKey,
+  JumpMovementKey,
+  KeyConfig,
+  transformKeys,
+  useDir,
+} from "@react-md/utils";
+
+import {
+  addDays,
+  addMonths,
+  clampDate,
+  DateConstraints,
+  DateRange,
+  getCalendarWeeks,
+  getWeekdayNames,
+  isDateDisabled,
+  isDateInRange,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  WeekStart,
+} from "./utils";
+
+type CalendarAttributes = Omit<
+  HTMLAttributes<HTMLDivElement>,
+  "defaultValue" | "onChange" | "children"
+>;
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface CalendarProps extends CalendarAttributes, DateConstraints {
+  /**
+   * The id for the calendar. This is required for a11y and will be used to
+   * generate ids for the title (`${id}-title`), the grid (`${id}-grid`), and
+   * each day within the grid (`${id}-day-YYYY-MM-DD`).
+   */
+  id: string;
+
+  /**
+   * The currently selected date.
+   */
+  value?: Date | null;
+
+  /**
+   * An optional range of dates to highlight. This is used for the
+   * `DateRangePicker`.
+   */
+  range?: DateRange;
+
+  /**
+   * The date that should be focusable when the calendar is first rendered.
+   * This defaults to the `value` or today.
+   */
+  defaultFocusedDate?: Date;
+
+  /**
+   * The function to call when a date is selected by clicking it or pressing
+   * the `Enter` or `Space` keys.
+   */
+  onDateSelect?(date: Date): void;
+
+  /**
+   * The locale to use for the month title and weekday names. This will
+   * default to the browser's locale.
+   */
+  locale?: string;
+
+  /**
+   * The day the week starts on.
+   */
+  weekStart?: WeekStart;
+
+  /**
+   * Boolean if the focusable date should be focused once the calendar has
+   * mounted.
+   */
+  autoFocus?: boolean;
+
+  /**
+   * The `aria-label` for the previous month button.
+   */
+  previousMonthLabel?: string;
+
+  /**
+   * The `aria-label` for the next month button.
+   */
+  nextMonthLabel?: string;
+
+  /**
+   * An optional icon to use for the previous month button. This defaults to
+   * the `back` icon from the `IconProvider` and will be swapped with the
+   * `nextMonthIcon` in RTL.
+   */
+  previousMonthIcon?: ReactNode;
+
+  /**
+   * An optional icon to use for the next month button. This defaults to the
+   * `forward` icon from the `IconProvider`.
+   */
+  nextMonthIcon?: ReactNode;
+}
+
+interface CalendarMovement {
+  keys: readonly KeyConfig[];
+  move(date: Date, keyConfig: KeyConfig, weekStart: WeekStart): Date;
+}
+
+const getMovements = (isRTL: boolean): readonly CalendarMovement[] => [
+  {
+    keys: [
+      ...transformKeys(
+        [
+          isRTL
+            ? IncrementMovementKey.ArrowLeft
+            : IncrementMovementKey.ArrowRight,
+        ],
+        "increment"
+      ),
+      ...transformKeys(
+        [
+          isRTL
+            ? IncrementMovementKey.ArrowRight
+            : IncrementMovementKey.ArrowLeft,
+        ],
+        "decrement"
+      ),
+    ],
+    move: (date, { type }) => addDays(date, type === "increment" ? 1 : -1),
+  },
+  {
+    keys: [
+      ...transformKeys([IncrementMovementKey.ArrowDown], "increment"),
+      ...transformKeys([IncrementMovementKey.ArrowUp], "decrement"),
+    ],
+    move: (date, { type }) => addDays(date, type === "increment" ? 7 : -7),
+  },
+  {
+    keys: [
+      ...transformKeys([IncrementMovementKey.PageDown], "increment"),
+      ...transformKeys([IncrementMovementKey.PageUp], "decrement"),
+    ],
+    move: (date, { type }) => addMonths(date, type === "increment" ? 1 : -1),
+  },
+  {
+    keys: [
+      ...transformKeys([IncrementMovementKey.ShiftPageDown], "increment"),
+      ...transformKeys([IncrementMovementKey.ShiftPageUp], "decrement"),
+    ],
+    move: (date, { type }) => addMonths(date, type === "increment" ? 12 : -12),
+  },
+  {
+    keys: [
+      ...transformKeys([JumpMovementKey.Home], "first"),
+      ...transformKeys([JumpMovementKey.End], "last"),
+    ],
+    move: (date, { type }, weekStart) => {
+      const start = startOfWeek(date, weekStart);
+      return type === "first" ? start : addDays(start, 6);
+    },
+  },
+];
+
+const pad = (value: number): string => `${value}`.padStart(2, "0");
+
+/**
+ * @param id - The calendar's id
+ * @param date - The date to get an id for
+ * @returns the id for the day within the calendar's grid
+ * @remarks \@since 3.2.0
+ */
+export const getCalendarDayId = (id: string, date: Date): string =>
+  `${id}-day-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+
+const block = bem("rmd-calendar");
+
+/**
+ * The `Calendar` component renders a month of dates in a grid that can be
+ * navigated with the keyboard following the WAI-ARIA date grid pattern:
+ *
+ * - `ArrowLeft`/`ArrowRight` - previous/next day (swapped in RTL)
+ * - `ArrowUp`/`ArrowDown` - previous/next week
+ * - `Home`/`End` - first/last day of the week
+ * - `PageUp`/`PageDown` - previous/next month
+ * - `Shift+PageUp`/`Shift+PageDown` - previous/next year
+ * - `Enter`/`Space` - select the focused date
+ *
+ * @remarks \@since 3.2.0
+ */
+export const Calendar = forwardRef<HTMLDivElement, CalendarProps>(
+  function Calendar(
+    {
+      id,
+      className,
+      value = null,
+      range,
+      defaultFocusedDate,
+      onDateSelect,
+      min,
+      max,
+      isDateDisabled: isCustomDateDisabled,
+      locale,
+      weekStart = 0,
+      autoFocus = false,
+      previousMonthLabel = "Previous month",
+      nextMonthLabel = "Next month",
+      previousMonthIcon: propPreviousMonthIcon,
+      nextMonthIcon: propNextMonthIcon,
+      ...props
+    },
+    ref
+  ) {
+    const constraints: DateConstraints = {
+      min,
+      max,
+      isDateDisabled: isCustomDateDisabled,
+    };
+    const [focusedDate, setFocusedDate] = useState(() =>
+      startOfDay(
+        clampDate(defaultFocusedDate || value || new Date(), constraints)
+      )
+    );
+    const isRTL = useDir().dir === "rtl";
+    const movements = useMemo(() => getMovements(isRTL), [isRTL]);
+    const backIcon = useIcon("back", propPreviousMonthIcon);
+    const forwardIcon = useIcon("forward", propNextMonthIcon);
+    const previousMonthIcon = isRTL ? forwardIcon : backIcon;
+    const nextMonthIcon = isRTL ? backIcon : forwardIcon;
+
+    const focusedDayId = getCalendarDayId(id, focusedDate);
+    const focusRequired = useRef(autoFocus);
+    useEffect(() => {
+      if (!focusRequired.current) {
+        return;
+      }
+
+      focusRequired.current = false;
+      document.getElementById(focusedDayId)?.focus();
+    }, [focusedDayId]);
+
+    const titleId = `${id}-title`;
+    const title = new Intl.DateTimeFormat(locale, {
+      month: "long",
+      year: "numeric",
+    }).format(focusedDate);
+    const dayFormatter = new Intl.DateTimeFormat(locale, { day: "numeric" });
+    const labelFormatter = new Intl.DateTimeFormat(locale, {
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+    const weekdays = getWeekdayNames(locale, weekStart);
+    const weekdayLabels = getWeekdayNames(locale, weekStart, "long");
+    const weeks = getCalendarWeeks(focusedDate, weekStart);
+    const today = new Date();
+
+    const month = startOfMonth(focusedDate);
+    const isPreviousDisabled = !!min && month <= startOfMonth(min);
+    const isNextDisabled = !!max && month >= startOfMonth(max);
+    const changeMonth = (amount: number): void => {
+      setFocusedDate(clampDate(addMonths(focusedDate, amount), constraints));
+    };
+
+    const select = (date: Date): void => {
+      if (!isDateDisabled(date, constraints)) {
+        onDateSelect?.(date);
+      }
+    };
+
+    return (
+      <div {...props} id={id} ref={ref} className={cn(block(), className)}>
+        <div className={block("header")}>
+          <Button
+            id={`${id}-previous`}
+            aria-label={previousMonthLabel}
+            buttonType="icon"
+            disabled={isPreviousDisabled}
+            onClick={() => changeMonth(-1)}
+          >
+            {previousMonthIcon}
+          </Button>
+          <span id={titleId} aria-live="polite" className={block("title")}>
+            {title}
+          </span>
+          <Button
+            id={`${id}-next`}
+            aria-label={nextMonthLabel}
+            buttonType="icon"
+            disabled={isNextDisabled}
+            onClick={() => changeMonth(1)}
+          >
+            {nextMonthIcon}
+          </Button>
+        </div>
+        <table
+          id={`${id}-grid`}
+          role="grid"
+          aria-labelledby={titleId}
+          className={block("grid")}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" || event.key === " ") {
+              event.preventDefault();
+              select(focusedDate);
+              return;
+            }
+
+            let nextDate: Date | undefined;
+            movements.some(({ keys, move }) => {
+              const keyConfig = getKeyboardConfig(event, keys);
+              if (keyConfig) {
+                nextDate = move(focusedDate, keyConfig, weekStart);
+              }
+
+              return !!keyConfig;
+            });
+
+            if (!nextDate) {
+              return;
+            }
+
+            event.preventDefault();
+            event.stopPropagation();
+            focusRequired.current = true;
+            setFocusedDate(clampDate(nextDate, constraints));
+          }}
+        >
+          <thead>
+            <tr>
+              {weekdays.map((weekday, i) => (
+                <th
+                  key={weekday}
+                  scope="col"
+                  abbr={weekdayLabels[i]}
+                  className={block("weekday")}
+                >
+                  {weekday}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {weeks.map((week) => (
+              <tr key={week[0].getTime()}>
+                {week.map((date) => {
+                  if (!isSameMonth(date, focusedDate)) {
+                    return (
+                      <td
+                        key={date.getTime()}
+                        role="gridcell"
+                        className={block("day", { outside: true })}
+                      />
+                    );
+                  }
+
+                  const dayId = getCalendarDayId(id, date);
+                  const disabled = isDateDisabled(date, constraints);
+                  const selected =
+                    isSameDay(date, value) ||
+                    (!!range &&
+                      (isSameDay(date, range.start) ||
+                        isSameDay(date, range.end)));
+                  const isToday = isSameDay(date, today);
+
+                  return (
+                    <td
+                      id={dayId}
+                      key={date.getTime()}
+                      role="gridcell"
+                      aria-label={labelFormatter.format(date)}
+                      aria-selected={selected}
+                      aria-disabled={disabled || undefined}
+                      aria-current={isToday ? "date" : undefined}
+                      tabIndex={dayId === focusedDayId ? 0 : -1}
+                      className={block("day", {
+                        selected,
+                        disabled,
+                        today: isToday,
+                        "in-range": !!range && isDateInRange(date, range),
+                        "range-start": !!range && isSameDay(date, range.start),
+                        "range-end": !!range && isSameDay(date, range.end),
+                      })}
+                      onClick={() => {
+                        setFocusedDate(date);
+                        select(date);
+                      }}
+                    >
+                      <span className={block("date")}>
+                        {dayFormatter.format(date)}
+                      </span>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+);
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    Calendar.propTypes = {
+      id: PropTypes.string.isRequired,
+      className: PropTypes.string,
+      value: PropTypes.instanceOf(Date),
+      range: PropTypes.shape({
+        start: PropTypes.instanceOf(Date),
+        end: PropTypes.instanceOf(Date),
+      }),
+      defaultFocusedDate: PropTypes.instanceOf(Date),
+      onDateSelect: PropTypes.func,
+      min: PropTypes.instanceOf(Date),
+      max: PropTypes.instanceOf(Date),
+      isDateDisabled: PropTypes.func,
+      locale: PropTypes.string,
+      weekStart: PropTypes.oneOf([0, 1, 2, 3, 4, 5, 6]),
+      autoFocus: PropTypes.bool,
+      previousMonthLabel: PropTypes.string,
+      nextMonthLabel: PropTypes.string,
+      previousMonthIcon: PropTypes.node,
+      nextMonthIcon: PropTypes.node,
+    };
+  } catch (e) {}
+}
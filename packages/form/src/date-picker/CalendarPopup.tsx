@@ -0,0 +1,60 @@
+/* eslint-disable jsx-a11y/no-autofocus */
+import React from "react";
+
+import { Calendar, CalendarProps } from "./Calendar";
+import { PickerPopup, PickerPopupProps } from "./PickerPopup";
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface CalendarPopupProps
+  extends Omit<PickerPopupProps, "children">,
+    Omit<
+      CalendarProps,
+      "id" | "aria-label" | "style" | "className" | "autoFocus"
+    > {}
+
+/**
+ * This component is used to render the `Calendar` within a temporary popup
+ * that is fixed to the date picker's text field.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function CalendarPopup({
+  id,
+  "aria-label": ariaLabel,
+  style,
+  className,
+  visible,
+  anchor,
+  fixedTo,
+  portal,
+  portalInto,
+  portalIntoId,
+  closeOnScroll,
+  closeOnResize,
+  onRequestClose,
+  ...props
+}: CalendarPopupProps): React.ReactElement {
+  return (
+    <PickerPopup
+      id={id}
+      aria-label={ariaLabel}
+      style={style}
+      className={className}
+      visible={visible}
+      anchor={anchor}
+      fixedTo={fixedTo}
+      portal={portal}
+      portalInto={portalInto}
+      portalIntoId={portalIntoId}
+      closeOnScroll={closeOnScroll}
+      closeOnResize={closeOnResize}
+      onRequestClose={onRequestClose}
+    >
+      <Calendar {...props} id={`${id}-calendar`} autoFocus />
+    </PickerPopup>
+  );
+}
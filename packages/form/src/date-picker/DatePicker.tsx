@@ -0,0 +1,418 @@
+import React, {
+  CSSProperties,
+  forwardRef,
+  ReactNode,
+  useEffect,
+  useState,
+} from "react";
+import cn from "classnames";
+import { Button } from "@react-md/button";
+import { useIcon } from "@react-md/icon";
+import { RenderConditionalPortalProps } from "@react-md/portal";
+import { bem, PositionAnchor, useEnsuredRef, useToggle } from "@react-md/utils";
+
+import { TextField, TextFieldProps } from "../text-field/TextField";
+import { CalendarProps } from "./Calendar";
+import { CalendarPopup } from "./CalendarPopup";
+import { useDefaultPickerAnchor } from "./PickerPopup";
+import {
+  DateConstraints,
+  formatDate,
+  isDateDisabled,
+  parseDate,
+} from "./utils";
+
+/**
+ * The props that are shared between the `DatePicker` and `DateRangePicker`.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface BaseDatePickerProps
+  extends DateConstraints,
+    RenderConditionalPortalProps,
+    Pick<
+      CalendarProps,
+      | "locale"
+      | "weekStart"
+      | "previousMonthLabel"
+      | "nextMonthLabel"
+      | "previousMonthIcon"
+      | "nextMonthIcon"
+    > {
+  /**
+   * The format options to use when displaying the date within the text field.
+   * The typed value will always be parsed using the numeric order of the
+   * `locale`'s date format.
+   */
+  formatOptions?: Intl.DateTimeFormatOptions;
+
+  /**
+   * The positioning configuration for how the calendar should be anchored to
+   * the text field. This will default to being below the text field and
+   * aligned to the start of the text field based on the current `dir`.
+   */
+  anchor?: PositionAnchor;
+
+  /**
+   * An optional icon to use for the button that toggles the calendar. This
+   * defaults to the `calendar` icon from the `IconProvider`.
+   */
+  calendarIcon?: ReactNode;
+
+  /**
+   * The `aria-label` for the calendar toggle button and popup.
+   */
+  calendarLabel?: string;
+
+  /**
+   * An optional style to apply to the calendar popup.
+   */
+  popupStyle?: CSSProperties;
+
+  /**
+   * An optional className to apply to the calendar popup.
+   */
+  popupClassName?: string;
+
+  /**
+   * Boolean if the calendar should be hidden when the page is scrolled.
+   */
+  closeOnScroll?: boolean;
+
+  /**
+   * Boolean if the calendar should be hidden when the browser is resized.
+   */
+  closeOnResize?: boolean;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface DatePickerProps
+  extends BaseDatePickerProps,
+    Omit<
+      TextFieldProps,
+      "value" | "defaultValue" | "onChange" | "type" | "min" | "max"
+    > {
+  /**
+   * The id for the text field. This is required for a11y and will also be
+   * used to generate ids for the calendar toggle button (`${id}-toggle`) and
+   * the calendar popup (`${id}-popup`).
+   */
+  id: string;
+
+  /**
+   * The currently selected date. The `DatePicker` **must be controlled**.
+   */
+  value: Date | null;
+
+  /**
+   * The function to call when a date has been selected from the calendar or a
+   * valid date has been typed in the text field. This will be called with
+   * `null` when the text field has been cleared.
+   */
+  onChange(date: Date | null): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export const datePickerBlock = bem("rmd-date-picker");
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface DateTextFieldOptions extends DateConstraints {
+  value: Date | null;
+  locale?: string;
+  formatOptions?: Intl.DateTimeFormatOptions;
+  onChange(date: Date | null): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface DateTextFieldState {
+  text: string;
+  invalid: boolean;
+  setText(text: string): void;
+
+  /**
+   * Parses the current text and calls `onChange` if it is a valid date that
+   * is not disabled. Otherwise, the `invalid` state will be enabled.
+   */
+  commit(): void;
+}
+
+/**
+ * Handles keeping the text field's value in sync with the current date and
+ * parsing the typed value.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function useDateTextField({
+  value,
+  locale,
+  formatOptions,
+  min,
+  max,
+  isDateDisabled: isCustomDateDisabled,
+  onChange,
+}: DateTextFieldOptions): DateTextFieldState {
+  const formatted = formatDate(value, locale, formatOptions);
+  const [text, setText] = useState(formatted);
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    setText(formatted);
+    setInvalid(false);
+  }, [formatted]);
+
+  const commit = (): void => {
+    if (text === formatted) {
+      setInvalid(false);
+      return;
+    }
+
+    if (!text.trim()) {
+      setInvalid(false);
+      onChange(null);
+      return;
+    }
+
+    const date = parseDate(text, locale);
+    if (
+      !date ||
+      isDateDisabled(date, { min, max, isDateDisabled: isCustomDateDisabled })
+    ) {
+      setInvalid(true);
+      return;
+    }
+
+    setInvalid(false);
+    setText(formatDate(date, locale, formatOptions));
+    onChange(date);
+  };
+
+  return { text, invalid, setText, commit };
+}
+
+/**
+ * The `DatePicker` renders a `TextField` that allows the user to type a date
+ * along with a button that will display a `Calendar` in a popup. The typed
+ * value will be parsed once the text field is blurred or the `Enter` key is
+ * pressed and will be formatted using the `Intl.DateTimeFormat` api.
+ *
+ * The calendar popup can also be opened by pressing `Alt+ArrowDown` while the
+ * text field is focused and closed with the `Escape` key.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const [date, setDate] = useState<Date | null>(null);
+ *
+ * return (
+ *   <DatePicker
+ *     id="start-date"
+ *     label="Start date"
+ *     value={date}
+ *     onChange={setDate}
+ *     min={new Date()}
+ *   />
+ * );
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export const DatePicker = forwardRef<HTMLInputElement, DatePickerProps>(
+  function DatePicker(
+    {
+      id,
+      className,
+      inputClassName,
+      value,
+      onChange,
+      onBlur,
+      onKeyDown,
+      error = false,
+      disabled = false,
+      min,
+      max,
+      isDateDisabled,
+      locale,
+      weekStart,
+      formatOptions,
+      anchor: propAnchor,
+      calendarIcon: propCalendarIcon,
+      calendarLabel = "Choose date",
+      previousMonthLabel,
+      nextMonthLabel,
+      previousMonthIcon,
+      nextMonthIcon,
+      popupStyle,
+      popupClassName,
+      portal,
+      portalInto,
+      portalIntoId,
+      closeOnScroll,
+      closeOnResize,
+      containerRef: propContainerRef,
+      ...props
+    },
+    ref
+  ) {
+    const calendarIcon = useIcon("calendar", propCalendarIcon);
+    const anchor = useDefaultPickerAnchor(propAnchor);
+    const [containerRef, containerRefHandler] = useEnsuredRef(propContainerRef);
+    const [visible, show, hide, toggle] = useToggle(false);
+    const { text, invalid, setText, commit } = useDateTextField({
+      value,
+      locale,
+      formatOptions,
+      min,
+      max,
+      isDateDisabled,
+      onChange,
+    });
+
+    const focusInput = (): void => {
+      document.getElementById(id)?.focus();
+    };
+
+    return (
+      <>
+        <TextField
+          {...props}
+          id={id}
+          ref={ref}
+          containerRef={containerRefHandler}
+          value={text}
+          error={error || invalid}
+          disabled={disabled}
+          autoComplete="off"
+          className={cn(datePickerBlock(), className)}
+          inputClassName={cn(datePickerBlock("input"), inputClassName)}
+          onChange={(event) => setText(event.currentTarget.value)}
+          onBlur={(event) => {
+            onBlur?.(event);
+            commit();
+          }}
+          onKeyDown={(event) => {
+            onKeyDown?.(event);
+            if (event.key === "Enter") {
+              commit();
+            } else if (event.key === "ArrowDown" && event.altKey) {
+              event.preventDefault();
+              show();
+            }
+          }}
+          isRightAddon={false}
+          rightChildren={
+            <Button
+              id={`${id}-toggle`}
+              aria-label={calendarLabel}
+              aria-haspopup="dialog"
+              aria-expanded={visible}
+              buttonType="icon"
+              disabled={disabled}
+              onClick={toggle}
+              className={datePickerBlock("toggle")}
+            >
+              {calendarIcon}
+            </Button>
+          }
+        />
+        <CalendarPopup
+          id={id}
+          aria-label={calendarLabel}
+          style={popupStyle}
+          className={popupClassName}
+          visible={visible}
+          anchor={anchor}
+          fixedTo={containerRef}
+          portal={portal}
+          portalInto={portalInto}
+          portalIntoId={portalIntoId}
+          closeOnScroll={closeOnScroll}
+          closeOnResize={closeOnResize}
+          onRequestClose={() => {
+            hide();
+            focusInput();
+          }}
+          value={value}
+          min={min}
+          max={max}
+          isDateDisabled={isDateDisabled}
+          locale={locale}
+          weekStart={weekStart}
+          previousMonthLabel={previousMonthLabel}
+          nextMonthLabel={nextMonthLabel}
+          previousMonthIcon={previousMonthIcon}
+          nextMonthIcon={nextMonthIcon}
+          onDateSelect={(date) => {
+            onChange(date);
+            hide();
+            focusInput();
+          }}
+        />
+      </>
+    );
+  }
+);
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    DatePicker.propTypes = {
+      id: PropTypes.string.isRequired,
+      className: PropTypes.string,
+      inputClassName: PropTypes.string,
+      value: PropTypes.instanceOf(Date),
+      onChange: PropTypes.func.isRequired,
+      onBlur: PropTypes.func,
+      onKeyDown: PropTypes.func,
+      error: PropTypes.bool,
+      disabled: PropTypes.bool,
+      min: PropTypes.instanceOf(Date),
+      max: PropTypes.instanceOf(Date),
+      isDateDisabled: PropTypes.func,
+      locale: PropTypes.string,
+      weekStart: PropTypes.oneOf([0, 1, 2, 3, 4, 5, 6]),
+      formatOptions: PropTypes.object,
+      anchor: PropTypes.shape({
+        x: PropTypes.oneOf([
+          "inner-left",
+          "inner-right",
+          "center",
+          "left",
+          "right",
+        ]),
+        y: PropTypes.oneOf(["above", "below", "center", "top", "bottom"]),
+      }),
+      calendarIcon: PropTypes.node,
+      calendarLabel: PropTypes.string,
+      previousMonthLabel: PropTypes.string,
+      nextMonthLabel: PropTypes.string,
+      previousMonthIcon: PropTypes.node,
+      nextMonthIcon: PropTypes.node,
+      popupStyle: PropTypes.object,
+      popupClassName: PropTypes.string,
+      portal: PropTypes.bool,
+      portalInto: PropTypes.oneOfType([
+        PropTypes.string,
+        PropTypes.object,
+        PropTypes.func,
+      ]),
+      portalIntoId: PropTypes.string,
+      closeOnScroll: PropTypes.bool,
+      closeOnResize: PropTypes.bool,
+      containerRef: PropTypes.oneOfType([PropTypes.func, PropTypes.object]),
+    };
+  } catch (e) {}
+}
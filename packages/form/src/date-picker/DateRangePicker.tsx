@@ -0,0 +1,313 @@
+import React, { forwardRef, HTMLAttributes, ReactNode, useState } from "react";
+import cn from "classnames";
+import { Button } from "@react-md/button";
+import { useIcon } from "@react-md/icon";
+import { bem, useEnsuredRef } from "@react-md/utils";
+
+import { TextField, TextFieldProps } from "../text-field/TextField";
+import { CalendarPopup } from "./CalendarPopup";
+import {
+  BaseDatePickerProps,
+  datePickerBlock,
+  useDateTextField,
+} from "./DatePicker";
+import { useDefaultPickerAnchor } from "./PickerPopup";
+import { DateRange } from "./utils";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface DateRangePickerProps
+  extends BaseDatePickerProps,
+    Omit<HTMLAttributes<HTMLDivElement>, "onChange" | "defaultValue">,
+    Pick<
+      TextFieldProps,
+      "theme" | "dense" | "error" | "disabled" | "required" | "inline"
+    > {
+  /**
+   * The id for the date range picker. This is required for a11y and will be
+   * used to generate ids for the start text field (`${id}-start`), the end
+   * text field (`${id}-end`), the calendar toggle button (`${id}-toggle`), and
+   * the calendar popup (`${id}-popup`).
+   */
+  id: string;
+
+  /**
+   * The current date range. The `DateRangePicker` **must be controlled**.
+   */
+  value: DateRange;
+
+  /**
+   * The function to call when the start or end date changes.
+   */
+  onChange(range: DateRange): void;
+
+  /**
+   * The label for the start date text field.
+   */
+  startLabel?: ReactNode;
+
+  /**
+   * The label for the end date text field.
+   */
+  endLabel?: ReactNode;
+}
+
+const block = bem("rmd-date-range-picker");
+
+/**
+ * The `DateRangePicker` renders two text fields for a start and end date
+ * along with a single `Calendar` popup to select the range. The first date
+ * selected in the calendar will be the start date and the next date will be
+ * the end date. Selecting a date before the start date will update the start
+ * date instead.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const [range, setRange] = useState<DateRange>({ start: null, end: null });
+ *
+ * return (
+ *   <DateRangePicker id="stay" value={range} onChange={setRange} />
+ * );
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export const DateRangePicker = forwardRef<HTMLDivElement, DateRangePickerProps>(
+  function DateRangePicker(
+    {
+      id,
+      className,
+      value,
+      onChange,
+      theme,
+      dense,
+      inline,
+      error = false,
+      disabled = false,
+      required,
+      min,
+      max,
+      isDateDisabled,
+      locale,
+      weekStart,
+      formatOptions,
+      anchor: propAnchor,
+      calendarIcon: propCalendarIcon,
+      calendarLabel = "Choose dates",
+      previousMonthLabel,
+      nextMonthLabel,
+      previousMonthIcon,
+      nextMonthIcon,
+      popupStyle,
+      popupClassName,
+      portal,
+      portalInto,
+      portalIntoId,
+      closeOnScroll,
+      closeOnResize,
+      startLabel = "Start date",
+      endLabel = "End date",
+      ...props
+    },
+    forwardedRef
+  ) {
+    const { start, end } = value;
+    const calendarIcon = useIcon("calendar", propCalendarIcon);
+    const anchor = useDefaultPickerAnchor(propAnchor);
+    const [ref, refHandler] = useEnsuredRef(forwardedRef);
+    const [visible, setVisible] = useState(false);
+    const [selecting, setSelecting] = useState<"start" | "end">("start");
+
+    const startField = useDateTextField({
+      value: start,
+      locale,
+      formatOptions,
+      min,
+      max: end || max,
+      isDateDisabled,
+      onChange: (date) => onChange({ start: date, end }),
+    });
+    const endField = useDateTextField({
+      value: end,
+      locale,
+      formatOptions,
+      min: start || min,
+      max,
+      isDateDisabled,
+      onChange: (date) => onChange({ start, end: date }),
+    });
+
+    const startId = `${id}-start`;
+    const endId = `${id}-end`;
+    const hide = (focusId: string): void => {
+      setVisible(false);
+      document.getElementById(focusId)?.focus();
+    };
+    const show = (): void => {
+      setSelecting(start && !end ? "end" : "start");
+      setVisible(true);
+    };
+
+    const fields = [
+      { fieldId: startId, label: startLabel, field: startField },
+      { fieldId: endId, label: endLabel, field: endField },
+    ];
+
+    return (
+      <div
+        {...props}
+        id={id}
+        ref={refHandler}
+        className={cn(block({ inline }), className)}
+      >
+        {fields.map(({ fieldId, label, field }) => {
+          const isEnd = fieldId === endId;
+
+          return (
+            <TextField
+              key={fieldId}
+              id={fieldId}
+              label={label}
+              theme={theme}
+              dense={dense}
+              inline={inline}
+              required={required}
+              disabled={disabled}
+              error={error || field.invalid}
+              autoComplete="off"
+              value={field.text}
+              onChange={(event) => field.setText(event.currentTarget.value)}
+              onBlur={field.commit}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  field.commit();
+                } else if (event.key === "ArrowDown" && event.altKey) {
+                  event.preventDefault();
+                  setSelecting(isEnd && start ? "end" : "start");
+                  setVisible(true);
+                }
+              }}
+              className={block("field")}
+              inputClassName={datePickerBlock("input")}
+              isRightAddon={!isEnd}
+              rightChildren={
+                isEnd && (
+                  <Button
+                    id={`${id}-toggle`}
+                    aria-label={calendarLabel}
+                    aria-haspopup="dialog"
+                    aria-expanded={visible}
+                    buttonType="icon"
+                    disabled={disabled}
+                    onClick={() => (visible ? setVisible(false) : show())}
+                    className={datePickerBlock("toggle")}
+                  >
+                    {calendarIcon}
+                  </Button>
+                )
+              }
+            />
+          );
+        })}
+        <CalendarPopup
+          id={id}
+          aria-label={calendarLabel}
+          style={popupStyle}
+          className={popupClassName}
+          visible={visible}
+          anchor={anchor}
+          fixedTo={ref}
+          portal={portal}
+          portalInto={portalInto}
+          portalIntoId={portalIntoId}
+          closeOnScroll={closeOnScroll}
+          closeOnResize={closeOnResize}
+          onRequestClose={() => hide(selecting === "start" ? startId : endId)}
+          range={value}
+          defaultFocusedDate={
+            (selecting === "end" && end) || start || undefined
+          }
+          min={min}
+          max={max}
+          isDateDisabled={isDateDisabled}
+          locale={locale}
+          weekStart={weekStart}
+          previousMonthLabel={previousMonthLabel}
+          nextMonthLabel={nextMonthLabel}
+          previousMonthIcon={previousMonthIcon}
+          nextMonthIcon={nextMonthIcon}
+          onDateSelect={(date) => {
+            if (selecting === "start" || !start || date < start) {
+              onChange({ start: date, end: end && end >= date ? end : null });
+              setSelecting("end");
+              return;
+            }
+
+            onChange({ start, end: date });
+            hide(endId);
+          }}
+        />
+      </div>
+    );
+  }
+);
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    DateRangePicker.propTypes = {
+      id: PropTypes.string.isRequired,
+      className: PropTypes.string,
+      value: PropTypes.shape({
+        start: PropTypes.instanceOf(Date),
+        end: PropTypes.instanceOf(Date),
+      }).isRequired,
+      onChange: PropTypes.func.isRequired,
+      theme: PropTypes.oneOf(["none", "underline", "filled", "outline"]),
+      dense: PropTypes.bool,
+      inline: PropTypes.bool,
+      error: PropTypes.bool,
+      disabled: PropTypes.bool,
+      required: PropTypes.bool,
+      min: PropTypes.instanceOf(Date),
+      max: PropTypes.instanceOf(Date),
+      isDateDisabled: PropTypes.func,
+      locale: PropTypes.string,
+      weekStart: PropTypes.oneOf([0, 1, 2, 3, 4, 5, 6]),
+      formatOptions: PropTypes.object,
+      anchor: PropTypes.shape({
+        x: PropTypes.oneOf([
+          "inner-left",
+          "inner-right",
+          "center",
+          "left",
+          "right",
+        ]),
+        y: PropTypes.oneOf(["above", "below", "center", "top", "bottom"]),
+      }),
+      calendarIcon: PropTypes.node,
+      calendarLabel: PropTypes.string,
+      previousMonthLabel: PropTypes.string,
+      nextMonthLabel: PropTypes.string,
+      previousMonthIcon: PropTypes.node,
+      nextMonthIcon: PropTypes.node,
+      popupStyle: PropTypes.object,
+      popupClassName: PropTypes.string,
+      portal: PropTypes.bool,
+      portalInto: PropTypes.oneOfType([
+        PropTypes.string,
+        PropTypes.object,
+        PropTypes.func,
+      ]),
+      portalIntoId: PropTypes.string,
+      closeOnScroll: PropTypes.bool,
+      closeOnResize: PropTypes.bool,
+      startLabel: PropTypes.node,
+      endLabel: PropTypes.node,
+    };
+  } catch (e) {}
+}
@@ -0,0 +1,131 @@
+/* eslint-disable jsx-a11y/no-noninteractive-element-interactions */
+import React, { CSSProperties, ReactNode, RefObject, useRef } from "react";
+import cn from "classnames";
+import { RenderConditionalPortalProps } from "@react-md/portal";
+import { ScaleTransition, useFixedPositioning } from "@react-md/transition";
+import {
+  BELOW_INNER_LEFT_ANCHOR,
+  BELOW_INNER_RIGHT_ANCHOR,
+  bem,
+  PositionAnchor,
+  useCloseOnOutsideClick,
+  useDir,
+} from "@react-md/utils";
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface PickerPopupProps extends RenderConditionalPortalProps {
+  id: string;
+  "aria-label": string;
+  style?: CSSProperties;
+  className?: string;
+  visible: boolean;
+  anchor: PositionAnchor;
+  fixedTo: RefObject<HTMLElement>;
+  closeOnScroll?: boolean;
+  closeOnResize?: boolean;
+  onRequestClose(): void;
+  children: ReactNode;
+}
+
+const block = bem("rmd-date-picker");
+
+/**
+ * Gets the default anchor for a picker popup based on the current direction.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function useDefaultPickerAnchor(
+  anchor?: PositionAnchor
+): PositionAnchor {
+  const isRTL = useDir().dir === "rtl";
+  if (anchor) {
+    return anchor;
+  }
+
+  return isRTL ? BELOW_INNER_RIGHT_ANCHOR : BELOW_INNER_LEFT_ANCHOR;
+}
+
+/**
+ * This component is used to render a temporary dialog that is fixed to a
+ * picker's text field and will be closed when the `Escape` key is pressed or
+ * an element outside of the dialog and text field is clicked. This is shared
+ * between the `DatePicker`, `DateRangePicker`, and `TimePicker`.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function PickerPopup({
+  id,
+  "aria-label": ariaLabel,
+  style: propStyle,
+  className,
+  visible,
+  anchor,
+  fixedTo,
+  portal = true,
+  portalInto,
+  portalIntoId,
+  closeOnScroll = false,
+  closeOnResize = false,
+  onRequestClose,
+  children,
+}: PickerPopupProps): React.ReactElement {
+  const popupRef = useRef<HTMLDivElement>(null);
+  useCloseOnOutsideClick({
+    enabled: visible,
+    element: popupRef,
+    onOutsideClick(_element, target) {
+      if (!fixedTo.current || !target || !fixedTo.current.contains(target)) {
+        onRequestClose();
+      }
+    },
+  });
+
+  const { style, onEnter, onEntering, onEntered, onExited } =
+    useFixedPositioning({
+      style: propStyle,
+      fixedTo: () => fixedTo.current,
+      anchor,
+      transformOrigin: true,
+      width: "auto",
+      onScroll: closeOnScroll ? onRequestClose : undefined,
+      onResize: closeOnResize ? onRequestClose : undefined,
+    });
+
+  return (
+    <ScaleTransition
+      portal={portal}
+      portalInto={portalInto}
+      portalIntoId={portalIntoId}
+      visible={visible}
+      vertical
+      mountOnEnter
+      unmountOnExit
+      onEnter={onEnter}
+      onEntering={onEntering}
+      onEntered={onEntered}
+      onExited={onExited}
+    >
+      <div
+        id={`${id}-popup`}
+        ref={popupRef}
+        role="dialog"
+        aria-label={ariaLabel}
+        style={style}
+        className={cn(block("popup"), className)}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") {
+            event.stopPropagation();
+            onRequestClose();
+          }
+        }}
+      >
+        {children}
+      </div>
+    </ScaleTransition>
+  );
+}
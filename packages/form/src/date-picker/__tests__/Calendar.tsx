@@ -0,0 +1,160 @@
+import React from "react";
+import { fireEvent, render } from "@testing-library/react";
+import { Dir } from "@react-md/utils";
+
+import { Calendar, CalendarProps, getCalendarDayId } from "../Calendar";
+
+const getDay = (date: Date): HTMLElement => {
+  const day = document.getElementById(getCalendarDayId("calendar", date));
+  if (!day) {
+    throw new Error();
+  }
+
+  return day;
+};
+
+function Test(props: Partial<CalendarProps>) {
+  return (
+    <Calendar
+      id="calendar"
+      defaultFocusedDate={new Date(2021, 1, 10)}
+      locale="en-US"
+      {...props}
+    />
+  );
+}
+
+describe("Calendar", () => {
+  it("should render a grid with the focused date as the only tabbable day", () => {
+    const { getByRole } = render(<Test />);
+
+    expect(getByRole("grid")).toHaveAttribute(
+      "aria-labelledby",
+      "calendar-title"
+    );
+    expect(document.getElementById("calendar-title")).toHaveTextContent(
+      "February 2021"
+    );
+    expect(getDay(new Date(2021, 1, 10))).toHaveAttribute("tabIndex", "0");
+    expect(getDay(new Date(2021, 1, 11))).toHaveAttribute("tabIndex", "-1");
+    expect(
+      document.getElementById(
+        getCalendarDayId("calendar", new Date(2021, 0, 31))
+      )
+    ).toBe(null);
+  });
+
+  it("should move focus with the keyboard", () => {
+    const { getByRole } = render(<Test />);
+    const grid = getByRole("grid");
+
+    getDay(new Date(2021, 1, 10)).focus();
+    fireEvent.keyDown(grid, { key: "ArrowRight" });
+    expect(document.activeElement).toBe(getDay(new Date(2021, 1, 11)));
+
+    fireEvent.keyDown(grid, { key: "ArrowDown" });
+    expect(document.activeElement).toBe(getDay(new Date(2021, 1, 18)));
+
+    fireEvent.keyDown(grid, { key: "Home" });
+    expect(document.activeElement).toBe(getDay(new Date(2021, 1, 14)));
+
+    fireEvent.keyDown(grid, { key: "End" });
+    expect(document.activeElement).toBe(getDay(new Date(2021, 1, 20)));
+
+    fireEvent.keyDown(grid, { key: "PageDown" });
+    expect(document.activeElement).toBe(getDay(new Date(2021, 2, 20)));
+    expect(document.getElementById("calendar-title")).toHaveTextContent(
+      "March 2021"
+    );
+
+    fireEvent.keyDown(grid, { key: "PageUp", shiftKey: true });
+    expect(document.activeElement).toBe(getDay(new Date(2020, 2, 20)));
+  });
+
+  it("should swap the left and right arrow keys in RTL", () => {
+    const { getByRole } = render(
+      <Dir defaultDir="rtl">
+        <Test />
+      </Dir>
+    );
+    const grid = getByRole("grid");
+
+    fireEvent.keyDown(grid, { key: "ArrowLeft" });
+    expect(document.activeElement).toBe(getDay(new Date(2021, 1, 11)));
+
+    fireEvent.keyDown(grid, { key: "ArrowRight" });
+    expect(document.activeElement).toBe(getDay(new Date(2021, 1, 10)));
+  });
+
+  it("should select the focused date with the Enter or Space keys", () => {
+    const onDateSelect = jest.fn();
+    const { getByRole } = render(<Test onDateSelect={onDateSelect} />);
+    const grid = getByRole("grid");
+
+    fireEvent.keyDown(grid, { key: "Enter" });
+    expect(onDateSelect).toBeCalledWith(new Date(2021, 1, 10));
+
+    fireEvent.keyDown(grid, { key: "ArrowRight" });
+    fireEvent.keyDown(grid, { key: " " });
+    expect(onDateSelect).toBeCalledWith(new Date(2021, 1, 11));
+
+    fireEvent.click(getDay(new Date(2021, 1, 20)));
+    expect(onDateSelect).toBeCalledWith(new Date(2021, 1, 20));
+    expect(onDateSelect).toBeCalledTimes(3);
+  });
+
+  it("should not allow disabled dates to be selected or focus to move outside of the min and max dates", () => {
+    const onDateSelect = jest.fn();
+    const { getByRole } = render(
+      <Test
+        onDateSelect={onDateSelect}
+        min={new Date(2021, 1, 8)}
+        max={new Date(2021, 1, 12)}
+        isDateDisabled={(date) => date.getDate() === 11}
+      />
+    );
+    const grid = getByRole("grid");
+
+    expect(getDay(new Date(2021, 1, 7))).toHaveAttribute(
+      "aria-disabled",
+      "true"
+    );
+    expect(getDay(new Date(2021, 1, 11))).toHaveAttribute(
+      "aria-disabled",
+      "true"
+    );
+    expect(document.getElementById("calendar-previous")).toBeDisabled();
+    expect(document.getElementById("calendar-next")).toBeDisabled();
+
+    fireEvent.click(getDay(new Date(2021, 1, 11)));
+    expect(onDateSelect).not.toBeCalled();
+
+    fireEvent.keyDown(grid, { key: "ArrowDown" });
+    expect(document.activeElement).toBe(getDay(new Date(2021, 1, 12)));
+
+    fireEvent.keyDown(grid, { key: "ArrowUp" });
+    expect(document.activeElement).toBe(getDay(new Date(2021, 1, 8)));
+  });
+
+  it("should apply the range class names", () => {
+    render(
+      <Test
+        range={{ start: new Date(2021, 1, 9), end: new Date(2021, 1, 11) }}
+      />
+    );
+
+    expect(getDay(new Date(2021, 1, 9))).toHaveClass(
+      "rmd-calendar__day--range-start",
+      "rmd-calendar__day--in-range"
+    );
+    expect(getDay(new Date(2021, 1, 10))).toHaveClass(
+      "rmd-calendar__day--in-range"
+    );
+    expect(getDay(new Date(2021, 1, 11))).toHaveClass(
+      "rmd-calendar__day--range-end"
+    );
+    expect(getDay(new Date(2021, 1, 12))).not.toHaveClass(
+      "rmd-calendar__day--in-range"
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import React, { useState } from "react";
+import { fireEvent, render } from "@testing-library/react";
+
+import { getCalendarDayId } from "../Calendar";
+import { DatePicker, DatePickerProps } from "../DatePicker";
+
+const getInput = (): HTMLInputElement => {
+  const input = document.getElementById("date-picker");
+  if (!input) {
+    throw new Error();
+  }
+
+  return input as HTMLInputElement;
+};
+
+function Test({
+  onChange,
+  defaultValue = null,
+  ...props
+}: Partial<DatePickerProps> & { defaultValue?: Date | null }) {
+  const [value, setValue] = useState(defaultValue);
+
+  return (
+    <DatePicker
+      {...props}
+      id="date-picker"
+      label="Date"
+      locale="en-US"
+      portal={false}
+      value={value}
+      onChange={(date) => {
+        onChange?.(date);
+        setValue(date);
+      }}
+    />
+  );
+}
+
+describe("DatePicker", () => {
+  it("should format the value with the locale", () => {
+    render(<Test defaultValue={new Date(2021, 1, 10)} />);
+    expect(getInput().value).toBe("02/10/2021");
+  });
+
+  it("should parse the typed value when blurred and mark invalid values as errored", () => {
+    const onChange = jest.fn();
+    const { container } = render(
+      <Test onChange={onChange} max={new Date(2021, 11, 31)} />
+    );
+    const input = getInput();
+    const textFieldContainer = container.querySelector(
+      ".rmd-text-field-container"
+    );
+
+    fireEvent.change(input, { target: { value: "3/4/2021" } });
+    fireEvent.blur(input);
+    expect(onChange).toBeCalledWith(new Date(2021, 2, 4));
+    expect(input.value).toBe("03/04/2021");
+
+    fireEvent.change(input, { target: { value: "3/4/2022" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(onChange).toBeCalledTimes(1);
+    expect(textFieldContainer).toHaveClass("rmd-text-field-container--error");
+
+    fireEvent.change(input, { target: { value: "" } });
+    fireEvent.blur(input);
+    expect(onChange).toBeCalledWith(null);
+    expect(textFieldContainer).not.toHaveClass(
+      "rmd-text-field-container--error"
+    );
+  });
+
+  it("should select a date from the calendar popup and return focus to the text field", () => {
+    const onChange = jest.fn();
+    render(<Test onChange={onChange} defaultValue={new Date(2021, 1, 10)} />);
+
+    const toggle = document.getElementById("date-picker-toggle");
+    if (!toggle) {
+      throw new Error();
+    }
+
+    expect(toggle).toHaveAttribute("aria-expanded", "false");
+    fireEvent.click(toggle);
+    expect(toggle).toHaveAttribute("aria-expanded", "true");
+    expect(document.getElementById("date-picker-popup")).toHaveAttribute(
+      "role",
+      "dialog"
+    );
+
+    const selected = document.getElementById(
+      getCalendarDayId("date-picker-calendar", new Date(2021, 1, 10))
+    );
+    expect(document.activeElement).toBe(selected);
+    expect(selected).toHaveAttribute("aria-selected", "true");
+
+    const day = document.getElementById(
+      getCalendarDayId("date-picker-calendar", new Date(2021, 1, 15))
+    );
+    if (!day) {
+      throw new Error();
+    }
+
+    fireEvent.click(day);
+    expect(onChange).toBeCalledWith(new Date(2021, 1, 15));
+    expect(getInput().value).toBe("02/15/2021");
+    expect(document.activeElement).toBe(getInput());
+    expect(toggle).toHaveAttribute("aria-expanded", "false");
+  });
+
+  it("should open the popup with Alt+ArrowDown and close it with Escape", () => {
+    render(<Test />);
+    const input = getInput();
+
+    fireEvent.keyDown(input, { key: "ArrowDown", altKey: true });
+    const popup = document.getElementById("date-picker-popup");
+    expect(popup).not.toBe(null);
+
+    fireEvent.keyDown(popup as HTMLElement, { key: "Escape" });
+    expect(document.activeElement).toBe(input);
+    expect(document.getElementById("date-picker-toggle")).toHaveAttribute(
+      "aria-expanded",
+      "false"
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { fireEvent, render } from "@testing-library/react";
+
+import { getCalendarDayId } from "../Calendar";
+import { DateRangePicker } from "../DateRangePicker";
+import { DateRange } from "../utils";
+
+const getElement = (id: string): HTMLElement => {
+  const element = document.getElementById(id);
+  if (!element) {
+    throw new Error();
+  }
+
+  return element;
+};
+
+const getDay = (date: Date): HTMLElement =>
+  getElement(getCalendarDayId("range-calendar", date));
+
+function Test({
+  onChange,
+  defaultValue = { start: null, end: null },
+}: {
+  onChange?: (range: DateRange) => void;
+  defaultValue?: DateRange;
+}) {
+  const [value, setValue] = useState(defaultValue);
+
+  return (
+    <DateRangePicker
+      id="range"
+      locale="en-US"
+      portal={false}
+      value={value}
+      onChange={(range) => {
+        onChange?.(range);
+        setValue(range);
+      }}
+    />
+  );
+}
+
+describe("DateRangePicker", () => {
+  it("should select the start and then the end date from the calendar", () => {
+    const onChange = jest.fn();
+    render(
+      <Test
+        onChange={onChange}
+        defaultValue={{ start: new Date(2021, 1, 5), end: null }}
+      />
+    );
+
+    fireEvent.click(getElement("range-toggle"));
+    expect(document.activeElement).toBe(getDay(new Date(2021, 1, 5)));
+
+    // selecting a date before the start date updates the start date instead
+    fireEvent.click(getDay(new Date(2021, 1, 2)));
+    expect(onChange).toBeCalledWith({
+      start: new Date(2021, 1, 2),
+      end: null,
+    });
+
+    fireEvent.click(getDay(new Date(2021, 1, 3)));
+    expect(onChange).toBeCalledWith({
+      start: new Date(2021, 1, 2),
+      end: new Date(2021, 1, 3),
+    });
+    expect(getElement("range-toggle")).toHaveAttribute(
+      "aria-expanded",
+      "false"
+    );
+    expect(document.activeElement).toBe(getElement("range-end"));
+    expect((getElement("range-start") as HTMLInputElement).value).toBe(
+      "02/02/2021"
+    );
+    expect((getElement("range-end") as HTMLInputElement).value).toBe(
+      "02/03/2021"
+    );
+  });
+
+  it("should restart the selection when a complete range exists", () => {
+    const onChange = jest.fn();
+    render(
+      <Test
+        onChange={onChange}
+        defaultValue={{
+          start: new Date(2021, 1, 1),
+          end: new Date(2021, 1, 5),
+        }}
+      />
+    );
+
+    fireEvent.click(getElement("range-toggle"));
+    expect(getDay(new Date(2021, 1, 3))).toHaveClass(
+      "rmd-calendar__day--in-range"
+    );
+
+    fireEvent.click(getDay(new Date(2021, 1, 10)));
+    expect(onChange).toBeCalledWith({
+      start: new Date(2021, 1, 10),
+      end: null,
+    });
+    expect(getDay(new Date(2021, 1, 3))).not.toHaveClass(
+      "rmd-calendar__day--in-range"
+    );
+  });
+
+  it("should not allow an end date to be typed before the start date", () => {
+    const onChange = jest.fn();
+    render(
+      <Test
+        onChange={onChange}
+        defaultValue={{ start: new Date(2021, 1, 10), end: null }}
+      />
+    );
+
+    const end = getElement("range-end");
+    fireEvent.change(end, { target: { value: "02/09/2021" } });
+    fireEvent.blur(end);
+    expect(onChange).not.toBeCalled();
+
+    fireEvent.change(end, { target: { value: "02/11/2021" } });
+    fireEvent.blur(end);
+    expect(onChange).toBeCalledWith({
+      start: new Date(2021, 1, 10),
+      end: new Date(2021, 1, 11),
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  addMonths,
+  getCalendarWeeks,
+  isDateDisabled,
+  isDateInRange,
+  parseDate,
+} from "../utils";
+
+describe("addMonths", () => {
+  it("should keep the day within the new month", () => {
+    expect(addMonths(new Date(2021, 0, 31), 1)).toEqual(new Date(2021, 1, 28));
+    expect(addMonths(new Date(2020, 0, 31), 1)).toEqual(new Date(2020, 1, 29));
+    expect(addMonths(new Date(2021, 2, 15), -12)).toEqual(
+      new Date(2020, 2, 15)
+    );
+  });
+});
+
+describe("getCalendarWeeks", () => {
+  it("should fill each week with days from the surrounding months", () => {
+    // February 2021 starts on a Monday and ends on a Sunday
+    const weeks = getCalendarWeeks(new Date(2021, 1, 10));
+    expect(weeks).toHaveLength(5);
+    expect(weeks[0][0]).toEqual(new Date(2021, 0, 31));
+    expect(weeks[4][6]).toEqual(new Date(2021, 2, 6));
+
+    const mondayWeeks = getCalendarWeeks(new Date(2021, 1, 10), 1);
+    expect(mondayWeeks).toHaveLength(4);
+    expect(mondayWeeks[0][0]).toEqual(new Date(2021, 1, 1));
+    expect(mondayWeeks[3][6]).toEqual(new Date(2021, 1, 28));
+  });
+});
+
+describe("isDateDisabled", () => {
+  it("should compare the min and max dates by day", () => {
+    const min = new Date(2021, 1, 10, 12);
+    const max = new Date(2021, 1, 20, 12);
+
+    expect(isDateDisabled(new Date(2021, 1, 10), { min, max })).toBe(false);
+    expect(isDateDisabled(new Date(2021, 1, 20, 18), { min, max })).toBe(false);
+    expect(isDateDisabled(new Date(2021, 1, 9), { min, max })).toBe(true);
+    expect(isDateDisabled(new Date(2021, 1, 21), { min, max })).toBe(true);
+  });
+
+  it("should call the isDateDisabled function", () => {
+    const isWeekend = (date: Date): boolean =>
+      date.getDay() === 0 || date.getDay() === 6;
+
+    expect(
+      isDateDisabled(new Date(2021, 1, 13), { isDateDisabled: isWeekend })
+    ).toBe(true);
+    expect(
+      isDateDisabled(new Date(2021, 1, 12), { isDateDisabled: isWeekend })
+    ).toBe(false);
+  });
+});
+
+describe("isDateInRange", () => {
+  it("should return false if the range is incomplete", () => {
+    const date = new Date(2021, 1, 10);
+    expect(isDateInRange(date, { start: date, end: null })).toBe(false);
+    expect(
+      isDateInRange(date, {
+        start: new Date(2021, 1, 1),
+        end: new Date(2021, 1, 10),
+      })
+    ).toBe(true);
+  });
+});
+
+describe("parseDate", () => {
+  it("should parse the date in the locale's order", () => {
+    expect(parseDate("02/01/2021", "en-US")).toEqual(new Date(2021, 1, 1));
+    expect(parseDate("02/01/2021", "en-GB")).toEqual(new Date(2021, 0, 2));
+    expect(parseDate("2021-02-01", "sv-SE")).toEqual(new Date(2021, 1, 1));
+  });
+
+  it("should return null for invalid dates", () => {
+    expect(parseDate("", "en-US")).toBe(null);
+    expect(parseDate("02/30/2021", "en-US")).toBe(null);
+    expect(parseDate("February 1st", "en-US")).toBe(null);
+  });
+});
@@ -0,0 +1,5 @@
+export * from "./Calendar";
+export * from "./DatePicker";
+export * from "./DateRangePicker";
+
+export * from "./utils";
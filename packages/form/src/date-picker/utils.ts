@@ -0,0 +1,286 @@
+/**
+ * The day that a week starts on where `0` is Sunday and `6` is Saturday.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type WeekStart = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface DateRange {
+  start: Date | null;
+  end: Date | null;
+}
+
+/**
+ * A function that can be used to disable specific dates like weekends or
+ * holidays.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type IsDateDisabled = (date: Date) => boolean;
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface DateConstraints {
+  /**
+   * The minimum date that can be selected.
+   */
+  min?: Date;
+
+  /**
+   * The maximum date that can be selected.
+   */
+  max?: Date;
+
+  /**
+   * An optional function to disable specific dates.
+   */
+  isDateDisabled?: IsDateDisabled;
+}
+
+/**
+ * The default format options for displaying a date within a text field.
+ *
+ * @remarks \@since 3.2.0
+ */
+export const DEFAULT_DATE_FORMAT_OPTIONS: Readonly<Intl.DateTimeFormatOptions> =
+  {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  };
+
+/**
+ * @param date - The date to get the start of the day for
+ * @returns a new date at midnight of the provided date
+ * @remarks \@since 3.2.0
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export function addDays(date: Date, amount: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + amount);
+}
+
+/**
+ * Adds months to a date while keeping the day within the new month. So adding
+ * a month to January 31st will be February 28th (or 29th) instead of March
+ * 3rd.
+ *
+ * @remarks \@since 3.2.0
+ */
+export function addMonths(date: Date, amount: number): Date {
+  const month = date.getMonth() + amount;
+  const lastDay = new Date(date.getFullYear(), month + 1, 0).getDate();
+
+  return new Date(date.getFullYear(), month, Math.min(date.getDate(), lastDay));
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export function isSameDay(a: Date | null, b: Date | null): boolean {
+  return (
+    !!a &&
+    !!b &&
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export function isSameMonth(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+}
+
+/**
+ * @param date - The date to check
+ * @param constraints - The {@link DateConstraints}
+ * @returns true if the date is before the min date, after the max date, or
+ * disabled by the `isDateDisabled` function.
+ * @remarks \@since 3.2.0
+ */
+export function isDateDisabled(
+  date: Date,
+  { min, max, isDateDisabled }: DateConstraints
+): boolean {
+  const day = startOfDay(date);
+  return (
+    (!!min && day < startOfDay(min)) ||
+    (!!max && day > startOfDay(max)) ||
+    !!isDateDisabled?.(day)
+  );
+}
+
+/**
+ * Ensures the date is within the min and max dates.
+ *
+ * @remarks \@since 3.2.0
+ */
+export function clampDate(date: Date, { min, max }: DateConstraints): Date {
+  if (min && date < startOfDay(min)) {
+    return startOfDay(min);
+  }
+
+  if (max && date > startOfDay(max)) {
+    return startOfDay(max);
+  }
+
+  return date;
+}
+
+/**
+ * @param date - The date to check
+ * @param range - The {@link DateRange}
+ * @returns true if the date is between the start and end dates (inclusive).
+ * @remarks \@since 3.2.0
+ */
+export function isDateInRange(date: Date, { start, end }: DateRange): boolean {
+  if (!start || !end) {
+    return false;
+  }
+
+  const day = startOfDay(date);
+  return day >= startOfDay(start) && day <= startOfDay(end);
+}
+
+/**
+ * Gets all the weeks to display for a month in a calendar grid. Each week will
+ * contain 7 dates starting from the `weekStart` and include the days from the
+ * previous and next months to fill the week.
+ *
+ * @param month - A date within the month to get the weeks for
+ * @param weekStart - The {@link WeekStart}
+ * @returns a list of weeks containing the dates for each day
+ * @remarks \@since 3.2.0
+ */
+export function getCalendarWeeks(
+  month: Date,
+  weekStart: WeekStart = 0
+): readonly (readonly Date[])[] {
+  const first = startOfMonth(month);
+  const offset = (first.getDay() - weekStart + 7) % 7;
+  const start = addDays(first, -offset);
+  const last = new Date(first.getFullYear(), first.getMonth() + 1, 0);
+  const total = Math.ceil((offset + last.getDate()) / 7) * 7;
+
+  const weeks: Date[][] = [];
+  for (let i = 0; i < total; i += 1) {
+    if (i % 7 === 0) {
+      weeks.push([]);
+    }
+
+    weeks[weeks.length - 1].push(addDays(start, i));
+  }
+
+  return weeks;
+}
+
+/**
+ * @param date - The date to get the first day of the week for
+ * @param weekStart - The {@link WeekStart}
+ * @returns the first day of the week containing the date
+ * @remarks \@since 3.2.0
+ */
+export function startOfWeek(date: Date, weekStart: WeekStart = 0): Date {
+  return addDays(date, -((date.getDay() - weekStart + 7) % 7));
+}
+
+/**
+ * Gets the weekday names for a locale starting from the `weekStart`.
+ *
+ * @param locale - The locale to use
+ * @param weekStart - The {@link WeekStart}
+ * @param weekday - The weekday format to use
+ * @returns a list of the weekday names
+ * @remarks \@since 3.2.0
+ */
+export function getWeekdayNames(
+  locale: string | undefined,
+  weekStart: WeekStart = 0,
+  weekday: "long" | "short" | "narrow" = "short"
+): readonly string[] {
+  const formatter = new Intl.DateTimeFormat(locale, { weekday });
+  // January 7th, 2018 was a Sunday
+  return Array.from({ length: 7 }, (_, i) =>
+    formatter.format(new Date(2018, 0, 7 + weekStart + i))
+  );
+}
+
+/**
+ * @param date - The date to format or `null`
+ * @param locale - The locale to use
+ * @param options - The format options to use
+ * @returns the formatted date or an empty string if the date was `null`
+ * @remarks \@since 3.2.0
+ */
+export function formatDate(
+  date: Date | null,
+  locale?: string,
+  options: Intl.DateTimeFormatOptions = DEFAULT_DATE_FORMAT_OPTIONS
+): string {
+  if (!date) {
+    return "";
+  }
+
+  return new Intl.DateTimeFormat(locale, options).format(date);
+}
+
+/**
+ * Parses a date string that was typed in the order of the locale's numeric
+ * date format. So `"02/01/2021"` will be February 1st in `en-US` and January
+ * 2nd in `en-GB`.
+ *
+ * @param value - The string to parse
+ * @param locale - The locale to use
+ * @returns the parsed date or `null` if the value is not a valid date
+ * @remarks \@since 3.2.0
+ */
+export function parseDate(value: string, locale?: string): Date | null {
+  const numbers = value
+    .trim()
+    .split(/[^0-9]+/)
+    .filter(Boolean);
+  if (numbers.length !== 3) {
+    return null;
+  }
+
+  const order = new Intl.DateTimeFormat(locale, DEFAULT_DATE_FORMAT_OPTIONS)
+    .formatToParts(new Date(2000, 0, 1))
+    .map(({ type }) => type)
+    .filter((type) => type === "year" || type === "month" || type === "day");
+
+  const parts: Record<string, number> = {};
+  order.forEach((type, i) => {
+    parts[type] = parseInt(numbers[i], 10);
+  });
+
+  const { year, month, day } = parts;
+  const date = new Date(year, month - 1, day);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+
+  return date;
+}
@@ -8,14 +8,18 @@ export * from "./FormMessage";
 export * from "./FormMessageContainer";
 export * from "./FormMessageCounter";
 
+export * from "./date-picker";
 export * from "./file-input";
 export * from "./label";
 export * from "./menu";
 export * from "./select";
 export * from "./slider";
 export * from "./text-field";
+export * from "./time-picker";
 export * from "./toggle";
 
 export * from "./useChoice";
 export * from "./useSelectState";
+export * from "./useFormState";
+export * from "./useFormField";
 export * from "./useIndeterminateChecked";
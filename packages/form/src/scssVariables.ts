@@ -45,6 +45,20 @@ export default {
     "text-placeholder-dense-height": "2.5rem",
     "textarea-padding": "0.5rem",
   },
+  "rmd-calendar-padding": "0.5rem",
+  "rmd-calendar-day-size": "2.5rem",
+  "rmd-calendar-selected-background-color":
+    "var(--rmd-theme-secondary, #f50057)",
+  "rmd-calendar-selected-color": "var(--rmd-theme-on-secondary, #000)",
+  "rmd-calendar-in-range-background-color": "rgba(245, 0, 87, 0.24)",
+  "rmd-date-picker-popup-elevation": 8,
+  "rmd-date-picker-popup-z-index": 30,
+  "rmd-time-picker-segment-focus-background-color":
+    "var(--rmd-theme-secondary, #f50057)",
+  "rmd-time-picker-segment-focus-color": "var(--rmd-theme-on-secondary, #000)",
+  "rmd-time-clock-dial-size": "16rem",
+  "rmd-time-clock-option-size": "2.5rem",
+  "rmd-time-clock-dial-background-color": "rgba(0, 0, 0, 0.07)",
   "rmd-label-font-size": "1em",
   "rmd-label-floating-font-size": "0.75em",
   "rmd-label-floating-padding": "0.25rem",
@@ -0,0 +1,126 @@
+import { applyMask, createMask, getMaskLength, TextFieldMask } from "../mask";
+
+const phone = createMask("(999) 999-9999");
+
+const createInput = (value: string, caret = value.length): HTMLInputElement => {
+  const input = document.createElement("input");
+  document.body.appendChild(input);
+  input.value = value;
+  input.focus();
+  input.setSelectionRange(caret, caret);
+
+  return input;
+};
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("createMask", () => {
+  it("should format the raw value without trailing literals", () => {
+    expect(phone.format("")).toBe("");
+    expect(phone.format("5")).toBe("(5");
+    expect(phone.format("555")).toBe("(555");
+    expect(phone.format("5551")).toBe("(555) 1");
+    expect(phone.format("5551234567")).toBe("(555) 123-4567");
+    expect(phone.format("555123456789")).toBe("(555) 123-4567");
+  });
+
+  it("should skip invalid characters while formatting", () => {
+    expect(phone.format("55a5-12")).toBe("(555) 12");
+  });
+
+  it("should parse formatted and partially formatted values", () => {
+    expect(phone.parse("(555) 123-4567")).toBe("5551234567");
+    expect(phone.parse("(555) 1")).toBe("5551");
+    expect(phone.parse("555-123-4567")).toBe("5551234567");
+    expect(phone.parse("5551234567")).toBe("5551234567");
+    expect(phone.parse("(555) abc123")).toBe("555123");
+  });
+
+  it("should support custom tokens and escaped literals", () => {
+    const postal = createMask("a9a 9a9");
+    expect(postal.format("k1a0b1")).toBe("k1a 0b1");
+    expect(postal.parse("k1a 0b1")).toBe("k1a0b1");
+
+    const hex = createMask("#hhhhhh", { h: /[0-9a-f]/i });
+    expect(hex.format("ff00aa")).toBe("#ff00aa");
+
+    const escaped = createMask("\\99-99");
+    expect(escaped.format("123")).toBe("91-23");
+    expect(escaped.parse("91-23")).toBe("123");
+  });
+});
+
+describe("getMaskLength", () => {
+  it("should return the number of token characters in the mask", () => {
+    expect(getMaskLength("(999) 999-9999")).toBe(10);
+    expect(getMaskLength("9999 9999 9999 9999")).toBe(16);
+    expect(getMaskLength("\\99-99")).toBe(3);
+  });
+});
+
+describe("applyMask", () => {
+  it("should format the input value and return the raw value", () => {
+    const input = createInput("5551");
+    expect(applyMask(input, phone, "(555")).toBe("5551");
+    expect(input.value).toBe("(555) 1");
+    expect(input.selectionStart).toBe(7);
+  });
+
+  it("should keep the caret after the same raw character when inserting", () => {
+    // typed a "9" after the "(5"
+    const input = createInput("(59551) 234", 3);
+    expect(applyMask(input, phone, "(555) 1234")).toBe("59551234");
+    expect(input.value).toBe("(595) 512-34");
+    expect(input.selectionStart).toBe(3);
+  });
+
+  it("should keep the caret at the end of pasted content", () => {
+    const input = createInput("(555) 123-4567", 10);
+    input.value = "(555) 12345674567";
+    input.setSelectionRange(13, 13);
+
+    expect(applyMask(input, phone, "(555) 4567")).toBe("5551234567");
+    expect(input.value).toBe("(555) 123-4567");
+    expect(input.selectionStart).toBe(14);
+  });
+
+  it("should remove the previous raw character when only a literal was deleted", () => {
+    // pressed backspace right after the "-"
+    const input = createInput("(555) 1234", 9);
+    expect(applyMask(input, phone, "(555) 123-4")).toBe("555124");
+    expect(input.value).toBe("(555) 124");
+    expect(input.selectionStart).toBe(8);
+  });
+
+  it("should remove the next raw character when a literal was deleted forward", () => {
+    const input = createInput("(555) 1234", 9);
+    expect(applyMask(input, phone, "(555) 123-4", "deleteContentForward")).toBe(
+      "555123"
+    );
+    expect(input.value).toBe("(555) 123");
+  });
+
+  it("should support custom format and parse functions", () => {
+    const card: TextFieldMask = {
+      format: (raw) => raw.replace(/(.{4})(?=.)/g, "$1 "),
+      parse: (value) => value.replace(/\D/g, "").slice(0, 16),
+    };
+
+    const input = createInput("4242 42424");
+    expect(applyMask(input, card, "4242 4242")).toBe("424242424");
+    expect(input.value).toBe("4242 4242 4");
+    expect(input.selectionStart).toBe(11);
+  });
+
+  it("should not update the selection when the input is not focused", () => {
+    const input = createInput("5551", 1);
+    input.blur();
+    const setSelectionRange = jest.spyOn(input, "setSelectionRange");
+
+    applyMask(input, phone, "");
+    expect(input.value).toBe("(555) 1");
+    expect(setSelectionRange).not.toBeCalled();
+  });
+});
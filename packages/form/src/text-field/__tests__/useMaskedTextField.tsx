@@ -0,0 +1,175 @@
+import React, { ReactElement } from "react";
+import { fireEvent, render } from "@testing-library/react";
+
+import { Form } from "../../Form";
+import { FormState, useFormState } from "../../useFormState";
+import { TextField } from "../TextField";
+import {
+  MaskedTextFieldHookOptions,
+  useMaskedTextField,
+} from "../useMaskedTextField";
+
+function MaskedField({
+  id = "field-id",
+  ...options
+}: Partial<MaskedTextFieldHookOptions>): ReactElement {
+  const [{ raw }, { messageProps, ...props }] = useMaskedTextField({
+    ...options,
+    id,
+  });
+
+  return (
+    <>
+      <TextField {...props} label="Label" />
+      <span data-testid="raw">{raw}</span>
+      <span data-testid="message">{messageProps.children}</span>
+      <span data-testid="counter">
+        {messageProps.length}/{messageProps.maxLength}
+      </span>
+    </>
+  );
+}
+
+describe("useMaskedTextField", () => {
+  it("should format the default value", () => {
+    const { getByRole, getByTestId } = render(
+      <MaskedField mask="(999) 999-9999" defaultValue="5551234567" />
+    );
+
+    expect(getByRole("textbox")).toHaveValue("(555) 123-4567");
+    expect(getByTestId("raw")).toHaveTextContent("5551234567");
+  });
+
+  it("should format the value while typing and pasting", () => {
+    const { getByRole, getByTestId } = render(
+      <MaskedField mask="(999) 999-9999" />
+    );
+    const field = getByRole("textbox");
+
+    fireEvent.change(field, { target: { value: "5" } });
+    expect(field).toHaveValue("(5");
+    expect(getByTestId("raw")).toHaveTextContent("5");
+
+    fireEvent.change(field, { target: { value: "(5551" } });
+    expect(field).toHaveValue("(555) 1");
+
+    fireEvent.change(field, { target: { value: "555.123.4567" } });
+    expect(field).toHaveValue("(555) 123-4567");
+    expect(getByTestId("raw")).toHaveTextContent("5551234567");
+  });
+
+  it("should remove trailing literals when deleting", () => {
+    const { getByRole } = render(
+      <MaskedField mask="(999) 999-9999" defaultValue="5551234" />
+    );
+    const field = getByRole("textbox");
+    expect(field).toHaveValue("(555) 123-4");
+
+    fireEvent.change(field, { target: { value: "(555) 123-" } });
+    expect(field).toHaveValue("(555) 123");
+  });
+
+  it("should still call the onChange function", () => {
+    const onChange = jest.fn();
+    const { getByRole } = render(
+      <MaskedField mask="9999" onChange={onChange} />
+    );
+
+    fireEvent.change(getByRole("textbox"), { target: { value: "1" } });
+    expect(onChange).toBeCalledTimes(1);
+  });
+
+  it("should use the raw value for the counter", () => {
+    const { getByRole, getByTestId, rerender } = render(
+      <MaskedField mask="(999) 999-9999" counter />
+    );
+    const counter = getByTestId("counter");
+    expect(counter).toHaveTextContent("0/10");
+
+    fireEvent.change(getByRole("textbox"), { target: { value: "5551" } });
+    expect(counter).toHaveTextContent("4/10");
+
+    rerender(<MaskedField mask="(999) 999-9999" counter maxLength={7} />);
+    expect(counter).toHaveTextContent("4/7");
+  });
+
+  it("should use the raw value for the minLength and maxLength validation", () => {
+    const { getByRole } = render(
+      <MaskedField
+        format={(raw) => raw.replace(/(.{4})(?=.)/g, "$1 ")}
+        parse={(value) => value.replace(/\s/g, "")}
+        minLength={8}
+        maxLength={12}
+      />
+    );
+    const field = getByRole("textbox");
+    const container = field.parentElement as HTMLElement;
+
+    fireEvent.change(field, { target: { value: "1234567" } });
+    expect(field).toHaveValue("1234 567");
+    fireEvent.blur(field);
+    expect(container.className).toContain("--error");
+
+    fireEvent.change(field, { target: { value: "1234 5678" } });
+    fireEvent.blur(field);
+    expect(container.className).not.toContain("--error");
+
+    fireEvent.change(field, { target: { value: "1234 5678 9012" } });
+    expect(container.className).not.toContain("--error");
+
+    fireEvent.change(field, { target: { value: "1234 5678 90123" } });
+    expect(container.className).toContain("--error");
+  });
+
+  it("should store the raw value in the form state and validate it", () => {
+    let formState: FormState | undefined;
+    const validate = jest.fn((value: string) =>
+      value.length < 10 ? "Invalid phone number" : undefined
+    );
+
+    function Test(): ReactElement {
+      formState = useFormState();
+      return (
+        <Form formState={formState}>
+          <MaskedField
+            name="phone"
+            mask="(999) 999-9999"
+            defaultValue="555"
+            validate={validate}
+          />
+        </Form>
+      );
+    }
+
+    const { getByRole, getByTestId } = render(<Test />);
+    const field = getByRole("textbox");
+    expect(formState?.values).toEqual({ phone: "555" });
+
+    fireEvent.change(field, { target: { value: "(555) 1234" } });
+    fireEvent.blur(field);
+    expect(formState?.values).toEqual({ phone: "5551234" });
+    expect(validate).toHaveBeenLastCalledWith("5551234", { phone: "5551234" });
+    expect(getByTestId("message")).toHaveTextContent("Invalid phone number");
+
+    fireEvent.change(field, { target: { value: "(555) 123-4567" } });
+    expect(getByTestId("message")).toHaveTextContent("");
+  });
+
+  it("should validate the raw value when there is no form state", () => {
+    const validate = jest.fn((value: string) =>
+      value.length < 10 ? "Invalid phone number" : undefined
+    );
+    const { getByRole, getByTestId } = render(
+      <MaskedField name="phone" mask="(999) 999-9999" validate={validate} />
+    );
+    const field = getByRole("textbox");
+
+    fireEvent.change(field, { target: { value: "5551234" } });
+    fireEvent.blur(field);
+    expect(validate).toHaveBeenLastCalledWith("5551234", { phone: "5551234" });
+    expect(getByTestId("message")).toHaveTextContent("Invalid phone number");
+
+    fireEvent.change(field, { target: { value: "(555) 123-4567" } });
+    expect(getByTestId("message")).toHaveTextContent("");
+  });
+});
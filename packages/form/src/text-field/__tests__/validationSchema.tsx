@@ -0,0 +1,191 @@
+import React, { ReactElement } from "react";
+import { fireEvent, render } from "@testing-library/react";
+
+import { Form } from "../../Form";
+import { useFormState } from "../../useFormState";
+import { TextField } from "../TextField";
+import { useTextField } from "../useTextField";
+import {
+  createSchemaValidator,
+  getSchemaFieldError,
+  getSchemaFieldOptions,
+  ValidationMessages,
+  ValidationSchema,
+  validateSchema,
+} from "../validationSchema";
+
+const schema: ValidationSchema = {
+  username: {
+    required: true,
+    minLength: 3,
+    maxLength: { value: 8, message: "Too long" },
+    pattern: "[a-z]+",
+  },
+  password: { required: { value: true, message: "Enter a password" } },
+  confirmPassword: { equals: "password" },
+  nickname: {
+    rules: [
+      {
+        validate: (value, { username }) =>
+          value === username
+            ? "Must be different than the username"
+            : undefined,
+        dependencies: ["username"],
+      },
+    ],
+  },
+};
+
+const frenchMessages: Partial<ValidationMessages> = {
+  required: "Ce champ est obligatoire",
+  minLength: ({ minLength }) => `Au moins ${minLength} caractères`,
+};
+
+describe("getSchemaFieldError", () => {
+  it("should return the first error message for the field", () => {
+    const { username } = schema;
+    expect(getSchemaFieldError("username", "", username)).toBe(
+      "This field is required"
+    );
+    expect(getSchemaFieldError("username", "ab", username)).toBe(
+      "Must be at least 3 characters"
+    );
+    expect(getSchemaFieldError("username", "abcdefghi", username)).toBe(
+      "Too long"
+    );
+    expect(getSchemaFieldError("username", "abc1", username)).toBe(
+      "Invalid format"
+    );
+    expect(getSchemaFieldError("username", "abc", username)).toBeUndefined();
+  });
+
+  it("should not be affected by the global or sticky flags", () => {
+    const code = { pattern: /^[a-z]+$/gy };
+    expect(getSchemaFieldError("code", "abc", code)).toBeUndefined();
+    expect(getSchemaFieldError("code", "abc", code)).toBeUndefined();
+    expect(getSchemaFieldError("code", "abc1", code)).toBe("Invalid format");
+  });
+
+  it("should skip the other constraints when the value is empty and not required", () => {
+    expect(
+      getSchemaFieldError("confirmPassword", "", schema.confirmPassword, {
+        password: "secret",
+      })
+    ).toBeUndefined();
+    expect(
+      getSchemaFieldError("field", "", { required: false, minLength: 3 })
+    ).toBeUndefined();
+  });
+
+  it("should support localized messages", () => {
+    const { username } = schema;
+    expect(
+      getSchemaFieldError("username", "", username, {}, frenchMessages)
+    ).toBe("Ce champ est obligatoire");
+    expect(
+      getSchemaFieldError("username", "ab", username, {}, frenchMessages)
+    ).toBe("Au moins 3 caractères");
+  });
+});
+
+describe("validateSchema", () => {
+  it("should validate all the fields including cross-field rules", () => {
+    expect(
+      validateSchema(schema, {
+        username: "abc",
+        password: "secret",
+        confirmPassword: "secrets",
+        nickname: "abc",
+      })
+    ).toEqual({
+      confirmPassword: "Must match password",
+      nickname: "Must be different than the username",
+    });
+    expect(validateSchema(schema, {})).toEqual({
+      username: "This field is required",
+      password: "Enter a password",
+    });
+    expect(
+      createSchemaValidator(schema, frenchMessages)({ password: "secret" })
+    ).toEqual({ username: "Ce champ est obligatoire" });
+  });
+});
+
+describe("getSchemaFieldOptions", () => {
+  it("should re-validate the field when a field it depends on changes", () => {
+    expect(
+      getSchemaFieldOptions(schema, "confirmPassword").dependencies
+    ).toEqual(["password"]);
+    expect(getSchemaFieldOptions(schema, "nickname").dependencies).toEqual([
+      "username",
+    ]);
+
+    function Field({ name }: { name: string }): ReactElement {
+      const [, { messageProps, ...props }] = useTextField({
+        id: name,
+        ...getSchemaFieldOptions(schema, name),
+      });
+
+      return (
+        <>
+          <TextField {...props} />
+          <span id={`${name}-error`}>{messageProps.children}</span>
+        </>
+      );
+    }
+
+    function Test(): ReactElement {
+      const formState = useFormState();
+      return (
+        <Form formState={formState}>
+          <Field name="password" />
+          <Field name="confirmPassword" />
+        </Form>
+      );
+    }
+
+    const { container } = render(<Test />);
+    const password = container.querySelector("#password") as HTMLInputElement;
+    const confirm = container.querySelector(
+      "#confirmPassword"
+    ) as HTMLInputElement;
+    const confirmError = container.querySelector("#confirmPassword-error");
+
+    fireEvent.change(password, { target: { value: "secret" } });
+    fireEvent.change(confirm, { target: { value: "secret" } });
+    fireEvent.blur(confirm);
+    expect(confirmError).toHaveTextContent("");
+
+    fireEvent.change(password, { target: { value: "secrets" } });
+    expect(confirmError).toHaveTextContent("Must match password");
+
+    fireEvent.change(confirm, { target: { value: "secrets" } });
+    expect(confirmError).toHaveTextContent("");
+  });
+  it("should validate the field without a form state", () => {
+    function Username(): ReactElement {
+      const [, { messageProps, ...props }] = useTextField({
+        id: "username",
+        ...getSchemaFieldOptions(schema, "username"),
+      });
+
+      return (
+        <>
+          <TextField {...props} />
+          <span id="username-error">{messageProps.children}</span>
+        </>
+      );
+    }
+
+    const { container } = render(<Username />);
+    const field = container.querySelector("#username") as HTMLInputElement;
+    const error = container.querySelector("#username-error");
+
+    fireEvent.change(field, { target: { value: "abc1" } });
+    fireEvent.blur(field);
+    expect(error).toHaveTextContent("Invalid format");
+
+    fireEvent.change(field, { target: { value: "abc" } });
+    expect(error).toHaveTextContent("");
+  });
+});
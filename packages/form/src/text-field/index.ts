@@ -13,3 +13,6 @@ export * from "./getErrorIcon";
 export * from "./getErrorMessage";
 export * from "./useTextField";
 export * from "./useNumberField";
+export * from "./validationSchema";
+export * from "./mask";
+export * from "./useMaskedTextField";
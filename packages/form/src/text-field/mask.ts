@@ -0,0 +1,237 @@
+/**
+ * An object of mask pattern characters to a `RegExp` that will be used to
+ * verify a single character typed by the user. Any other character within the
+ * mask pattern will be treated as a literal that is automatically inserted.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type MaskTokens = Readonly<Record<string, RegExp>>;
+
+/**
+ * The default mask tokens where:
+ *
+ * - `9` - a digit
+ * - `a` - a letter
+ * - `*` - a letter or digit
+ *
+ * A token can be used as a literal by escaping it with a backslash. So
+ * `"\\9999"` would be the literal `9` followed by three digits.
+ *
+ * @remarks \@since 3.2.0
+ */
+export const DEFAULT_MASK_TOKENS: MaskTokens = {
+  "9": /\d/,
+  a: /[a-z]/i,
+  "*": /[a-z0-9]/i,
+};
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TextFieldMask {
+  /**
+   * A function that converts the raw value into the formatted value that will
+   * be displayed in the text field.
+   */
+  format(raw: string): string;
+
+  /**
+   * A function that converts the formatted (or partially formatted) value from
+   * the text field back into the raw value. This will also be called with the
+   * text before the caret to determine where the caret should be placed after
+   * formatting, so it must only depend on the characters it receives.
+   */
+  parse(value: string): string;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TextFieldMaskOptions extends Partial<TextFieldMask> {
+  /**
+   * A mask pattern string using the {@link MaskTokens} like
+   * `"(999) 999-9999"` for a US phone number or `"9999 9999 9999 9999"` for a
+   * credit card number. The `format` and `parse` options can be used instead
+   * of (or to override) the mask pattern for more complex formatting.
+   */
+  mask?: string;
+
+  /**
+   * The tokens to use for the `mask` pattern.
+   */
+  maskTokens?: MaskTokens;
+}
+
+interface MaskSlot {
+  token?: RegExp;
+  literal?: string;
+}
+
+const getMaskSlots = (
+  pattern: string,
+  tokens: MaskTokens
+): readonly MaskSlot[] => {
+  const slots: MaskSlot[] = [];
+  for (let i = 0; i < pattern.length; i += 1) {
+    let char = pattern.charAt(i);
+    if (char === "\\" && i + 1 < pattern.length) {
+      i += 1;
+      char = pattern.charAt(i);
+      slots.push({ literal: char });
+    } else if (tokens[char]) {
+      slots.push({ token: tokens[char] });
+    } else {
+      slots.push({ literal: char });
+    }
+  }
+
+  return slots;
+};
+
+/**
+ * @param pattern - The mask pattern string
+ * @param tokens - The {@link MaskTokens} to use
+ * @returns the max number of raw characters that can be entered for the mask
+ * @remarks \@since 3.2.0
+ */
+export function getMaskLength(
+  pattern: string,
+  tokens: MaskTokens = DEFAULT_MASK_TOKENS
+): number {
+  return getMaskSlots(pattern, tokens).filter(({ token }) => !!token).length;
+}
+
+/**
+ * Creates the `format` and `parse` functions for a mask pattern string.
+ *
+ * Example:
+ *
+ * ```ts
+ * const { format, parse } = createMask("(999) 999-9999");
+ *
+ * format("5551234"); // "(555) 123-4"
+ * parse("(555) 123-4"); // "5551234"
+ * ```
+ *
+ * @param pattern - The mask pattern string
+ * @param tokens - The {@link MaskTokens} to use
+ * @returns the {@link TextFieldMask}
+ * @remarks \@since 3.2.0
+ */
+export function createMask(
+  pattern: string,
+  tokens: MaskTokens = DEFAULT_MASK_TOKENS
+): TextFieldMask {
+  const slots = getMaskSlots(pattern, tokens);
+
+  return {
+    format(raw) {
+      let formatted = "";
+      let i = 0;
+      for (const { token, literal } of slots) {
+        // only add literals when there are more raw characters so that
+        // deleting characters doesn't get stuck behind a literal
+        if (i >= raw.length) {
+          break;
+        }
+
+        if (typeof literal === "string") {
+          formatted += literal;
+          continue;
+        }
+
+        while (i < raw.length && !token?.test(raw.charAt(i))) {
+          i += 1;
+        }
+
+        if (i < raw.length) {
+          formatted += raw.charAt(i);
+          i += 1;
+        }
+      }
+
+      return formatted;
+    },
+    parse(value) {
+      let raw = "";
+      let slot = 0;
+      for (const char of value) {
+        let isLiteral = false;
+        while (slot < slots.length && typeof slots[slot].literal === "string") {
+          slot += 1;
+          if (slots[slot - 1].literal === char) {
+            isLiteral = true;
+            break;
+          }
+        }
+
+        if (slot >= slots.length) {
+          break;
+        }
+
+        if (!isLiteral && slots[slot].token?.test(char)) {
+          raw += char;
+          slot += 1;
+        }
+      }
+
+      return raw;
+    },
+  };
+}
+
+/**
+ * Formats the current value of an input with the mask and updates the caret
+ * position so that it stays after the same raw character it was after before
+ * formatting. This allows for characters to be inserted, deleted, or pasted
+ * anywhere within the text field without the caret jumping to the end.
+ *
+ * When only a literal was removed (e.g. pressing `Backspace` after the `-` in
+ * a phone number), the raw character before the literal will be removed
+ * instead so that the literal is not immediately re-added.
+ *
+ * @param input - The input element that was changed
+ * @param mask - The {@link TextFieldMask}
+ * @param previousValue - The formatted value before the change
+ * @param inputType - The `InputEvent.inputType` for the change, if available
+ * @returns the new raw value
+ * @remarks \@since 3.2.0
+ */
+export function applyMask(
+  input: HTMLInputElement | HTMLTextAreaElement,
+  { format, parse }: TextFieldMask,
+  previousValue: string,
+  inputType = ""
+): string {
+  const { value } = input;
+  const caret = input.selectionStart ?? value.length;
+  let raw = parse(value);
+  let rawCaret = parse(value.slice(0, caret)).length;
+  if (value.length < previousValue.length && raw === parse(previousValue)) {
+    if (inputType === "deleteContentForward") {
+      raw = raw.slice(0, rawCaret) + raw.slice(rawCaret + 1);
+    } else if (rawCaret > 0) {
+      raw = raw.slice(0, rawCaret - 1) + raw.slice(rawCaret);
+      rawCaret -= 1;
+    }
+  }
+
+  const formatted = format(raw);
+  let position = 0;
+  if (rawCaret > 0) {
+    position = formatted.length;
+    for (let i = 1; i <= formatted.length; i += 1) {
+      if (parse(formatted.slice(0, i)).length >= rawCaret) {
+        position = i;
+        break;
+      }
+    }
+  }
+
+  input.value = formatted;
+  if (document.activeElement === input) {
+    input.setSelectionRange(position, position);
+  }
+
+  return raw;
+}
@@ -0,0 +1,336 @@
+import { ChangeEvent, FocusEvent, useCallback, useMemo, useRef } from "react";
+
+import { useFormField } from "../useFormField";
+import { FormFieldValidator, useFormStateContext } from "../useFormState";
+import { defaultGetErrorMessage, GetErrorMessage } from "./getErrorMessage";
+import { defaultIsErrored, IsErrored } from "./isErrored";
+import {
+  applyMask,
+  createMask,
+  DEFAULT_MASK_TOKENS,
+  getMaskLength,
+  TextFieldMask,
+  TextFieldMaskOptions,
+} from "./mask";
+import {
+  ProvidedTextFieldMessageProps,
+  ProvidedTextFieldProps,
+  TextFieldHookControls,
+  TextFieldHookOptions,
+  useTextField,
+} from "./useTextField";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface MaskedTextFieldHookOptions
+  extends TextFieldHookOptions,
+    TextFieldMaskOptions {}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface MaskedTextFieldValue {
+  /**
+   * The value without any of the mask's literal characters. This is the value
+   * that will be used for the `minLength`, `maxLength`, and `validate` options
+   * as well as the value stored in the form state.
+   */
+  raw: string;
+
+  /**
+   * The formatted value that is displayed in the text field.
+   */
+  formatted: string;
+}
+
+/**
+ * An ordered list containing:
+ * - the {@link MaskedTextFieldValue}
+ * - the props that should be passed to the `TextField`
+ * - the controls for the text field
+ *
+ * @remarks \@since 3.2.0
+ */
+export type MaskedTextFieldHookReturnType = [
+  MaskedTextFieldValue,
+  ProvidedTextFieldProps | ProvidedTextFieldMessageProps,
+  TextFieldHookControls
+];
+
+const identity = (value: string): string => value;
+
+export function useMaskedTextField(
+  options: MaskedTextFieldHookOptions & { disableMessage: true }
+): [MaskedTextFieldValue, ProvidedTextFieldProps, TextFieldHookControls];
+export function useMaskedTextField(
+  options: MaskedTextFieldHookOptions & { disableMessage: false }
+): [MaskedTextFieldValue, ProvidedTextFieldMessageProps, TextFieldHookControls];
+export function useMaskedTextField(
+  options: MaskedTextFieldHookOptions & { disableMessage?: boolean }
+): [MaskedTextFieldValue, ProvidedTextFieldMessageProps, TextFieldHookControls];
+
+/**
+ * This hook works the same as the {@link useTextField} hook but will also
+ * format the value as the user types or pastes with a mask pattern or custom
+ * `format` and `parse` functions. The caret position will be maintained while
+ * editing so that characters can be inserted or removed anywhere within the
+ * text field.
+ *
+ * The `defaultValue`, `minLength`, `maxLength`, `validate`, `isErrored`, and
+ * `getErrorMessage` options will all use the **raw** value while the `pattern`
+ * option will still be verified against the formatted value through the
+ * constraint validation api. When the `counter` option is enabled, the
+ * `maxLength` will default to the number of characters allowed by the `mask`.
+ *
+ * Phone number example:
+ *
+ * ```tsx
+ * const [{ raw }, fieldProps] = useMaskedTextField({
+ *   id: "phone",
+ *   mask: "(999) 999-9999",
+ *   minLength: 10,
+ *   counter: true,
+ * });
+ *
+ * return (
+ *   <TextFieldWithMessage
+ *     {...fieldProps}
+ *     label="Phone"
+ *     type="tel"
+ *     placeholder="(555) 555-5555"
+ *   />
+ * );
+ * ```
+ *
+ * Custom formatter example:
+ *
+ * ```tsx
+ * const [{ raw }, fieldProps] = useMaskedTextField({
+ *   id: "iban",
+ *   maxLength: 34,
+ *   format: (raw) => raw.replace(/(.{4})(?=.)/g, "$1 "),
+ *   parse: (value) => value.replace(/[^a-z0-9]/gi, "").toUpperCase(),
+ * });
+ *
+ * return <TextFieldWithMessage {...fieldProps} label="IBAN" />;
+ * ```
+ *
+ * @see {@link useTextField}
+ * @param options - All the options used to control the functionality of this
+ * hook.
+ * @returns @see {@link MaskedTextFieldHookReturnType}
+ * @remarks \@since 3.2.0
+ */
+export function useMaskedTextField({
+  id,
+  name,
+  validate,
+  dependencies,
+  defaultValue = "",
+  theme,
+  pattern,
+  required,
+  minLength,
+  maxLength,
+  onBlur,
+  onChange,
+  helpText,
+  errorIcon,
+  counter = false,
+  disableMessage = false,
+  validateOnChange = "recommended",
+  isErrored = defaultIsErrored,
+  onErrorChange,
+  getErrorIcon,
+  getErrorMessage = defaultGetErrorMessage,
+  mask: maskPattern,
+  maskTokens = DEFAULT_MASK_TOKENS,
+  format: propFormat,
+  parse: propParse,
+}: MaskedTextFieldHookOptions): MaskedTextFieldHookReturnType {
+  const mask = useMemo<TextFieldMask>(() => {
+    const defaults = maskPattern
+      ? createMask(maskPattern, maskTokens)
+      : { format: identity, parse: identity };
+
+    return {
+      format: propFormat ?? defaults.format,
+      parse: propParse ?? defaults.parse,
+    };
+  }, [maskPattern, maskTokens, propFormat, propParse]);
+  const { format, parse } = mask;
+
+  const initial = useRef("");
+  const formatted = useRef("");
+  // the form field is registered after the text field so that the raw value
+  // can be used, so the touched handler is stored in a ref for the blur event
+  const setTouched = useRef<() => void>();
+  const formState = useFormStateContext();
+  const isRegistered = !!name && !!formState;
+
+  // the `useTextField` hook runs the `validate` option when there is no form
+  // state, so it needs to be provided the raw value instead
+  const validateRaw = useCallback<FormFieldValidator<string>>(
+    (value) => {
+      const raw = parse(value);
+      return validate?.(raw, name ? { [name]: raw } : {});
+    },
+    [name, parse, validate]
+  );
+
+  const isMaskedErrored = useCallback<IsErrored>(
+    (options) =>
+      isErrored({
+        ...options,
+        value: parse(options.value),
+        minLength,
+        maxLength,
+      }),
+    [isErrored, maxLength, minLength, parse]
+  );
+  const getMaskedErrorMessage = useCallback<GetErrorMessage>(
+    (options) =>
+      getErrorMessage({
+        ...options,
+        value: parse(options.value),
+        minLength,
+        maxLength,
+      }),
+    [getErrorMessage, maxLength, minLength, parse]
+  );
+
+  const handleBlur = useCallback(
+    (event: FocusEvent<HTMLInputElement>) => {
+      if (onBlur) {
+        onBlur(event);
+      }
+
+      if (!event.isPropagationStopped()) {
+        setTouched.current?.();
+      }
+    },
+    [onBlur]
+  );
+  const handleChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      if (onChange) {
+        onChange(event);
+      }
+
+      if (event.isPropagationStopped()) {
+        return;
+      }
+
+      // the `useTextField` hook will read the formatted value from the input
+      // once this handler has finished
+      applyMask(
+        event.currentTarget,
+        mask,
+        formatted.current,
+        (event.nativeEvent as InputEvent).inputType
+      );
+    },
+    [onChange, mask]
+  );
+
+  const [value, textFieldProps, controls] = useTextField({
+    id,
+    defaultValue: () => {
+      const raw =
+        typeof defaultValue === "function" ? defaultValue() : defaultValue;
+
+      initial.current = format(parse(raw));
+      return initial.current;
+    },
+    theme,
+    pattern,
+    required,
+    validate: !isRegistered && validate ? validateRaw : undefined,
+    onBlur: handleBlur,
+    onChange: handleChange,
+    helpText,
+    errorIcon,
+    counter: false,
+    disableMessage,
+    validateOnChange,
+    isErrored: isMaskedErrored,
+    onErrorChange,
+    getErrorIcon,
+    getErrorMessage: getMaskedErrorMessage,
+  });
+  formatted.current = value;
+  const raw = parse(value);
+  const { reset, setState } = controls;
+
+  const formField = useFormField({
+    name,
+    id,
+    value: raw,
+    defaultValue: parse(initial.current),
+    validate,
+    dependencies,
+    error: textFieldProps.error,
+    reset() {
+      setState({
+        value: initial.current,
+        error: false,
+        errorMessage: "",
+      });
+    },
+    checkValidity() {
+      const field = document.getElementById(id);
+      if (
+        !(field instanceof HTMLInputElement) &&
+        !(field instanceof HTMLTextAreaElement)
+      ) {
+        return true;
+      }
+
+      field.setCustomValidity("");
+      field.checkValidity();
+      const options = {
+        value: field.value,
+        pattern,
+        required,
+        isBlurEvent: true,
+        validity: field.validity,
+        validationMessage: field.validationMessage,
+        validateOnChange,
+      };
+      const errorMessage = getMaskedErrorMessage(options);
+      const error = isMaskedErrored({ ...options, errorMessage });
+      setState({ value: field.value, error, errorMessage });
+
+      return !error;
+    },
+  });
+  setTouched.current = formField.setTouched;
+
+  let props = textFieldProps;
+  const error = textFieldProps.error || formField.error;
+  if ("messageProps" in textFieldProps) {
+    const { messageProps } = textFieldProps;
+    const counterMaxLength =
+      maxLength ??
+      (maskPattern ? getMaskLength(maskPattern, maskTokens) : undefined);
+
+    props = {
+      ...textFieldProps,
+      error,
+      messageProps: {
+        ...messageProps,
+        error,
+        length: counter ? raw.length : undefined,
+        maxLength: counter ? counterMaxLength : undefined,
+        children:
+          (!textFieldProps.error && formField.errorMessage) ||
+          messageProps.children,
+      },
+    };
+  } else if (error) {
+    props = { ...textFieldProps, error };
+  }
+
+  return [{ raw, formatted: value }, props, { reset, setState }];
+}
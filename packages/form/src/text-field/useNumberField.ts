@@ -9,6 +9,7 @@ import {
 } from "react";
 import { withinRange } from "@react-md/utils";
 
+import { FormFieldOptions, useFormField } from "../useFormField";
 import {
   ProvidedTextFieldMessageProps,
   ProvidedTextFieldProps,
@@ -75,7 +76,8 @@ export interface ProvidedNumberFieldMessageProps
  * @remarks \@since 2.5.0
  */
 export interface NumberFieldHookOptions
-  extends Omit<TextFieldHookOptions, "defaultValue">,
+  extends Omit<TextFieldHookOptions, "defaultValue" | "validate">,
+    Pick<FormFieldOptions<number | undefined>, "validate">,
     NumberFieldConstraints {
   /**
    * The default **number** value to use which can be a `number` or `undefined`.
@@ -211,6 +213,9 @@ export function useNumberField(
  */
 export function useNumberField({
   id,
+  name,
+  validate,
+  dependencies,
   defaultValue,
   theme,
   pattern,
@@ -237,6 +242,10 @@ export function useNumberField({
 }: NumberFieldHookOptions): NumberFieldHookReturnType {
   const [number, setNumber] = useState(defaultValue);
   const initial = useRef(number);
+  // the form field is registered after the text field so that the constraint
+  // validation error can be reported, so the touched handler is stored in a
+  // ref for the blur event
+  const setTouched = useRef<() => void>();
 
   const handleBlur = useCallback(
     (event: FocusEvent<HTMLInputElement>) => {
@@ -248,6 +257,7 @@ export function useNumberField({
         return;
       }
 
+      setTouched.current?.();
       const input = event.currentTarget;
       input.setCustomValidity("");
       input.checkValidity();
@@ -310,7 +320,7 @@ export function useNumberField({
     [onChange, updateOnChange, min, max]
   );
 
-  const [, props, { setState }] = useTextField({
+  const [, textFieldProps, { setState }] = useTextField({
     id,
     defaultValue: `${number ?? ""}`,
     theme,
@@ -367,6 +377,48 @@ export function useNumberField({
     [setState]
   );
 
+  const formField = useFormField({
+    name,
+    id,
+    value: number,
+    defaultValue: initial.current,
+    validate,
+    dependencies,
+    error: textFieldProps.error,
+    reset,
+    checkValidity() {
+      const input = document.getElementById(id);
+      if (!(input instanceof HTMLInputElement)) {
+        return true;
+      }
+
+      const valid = input.checkValidity();
+      setState({
+        value: input.value,
+        error: !valid,
+        errorMessage: input.validationMessage,
+      });
+
+      return valid;
+    },
+  });
+  setTouched.current = formField.setTouched;
+
+  let props = textFieldProps;
+  if (formField.error && !textFieldProps.error) {
+    props = { ...textFieldProps, error: true };
+    if ("messageProps" in textFieldProps) {
+      props = {
+        ...props,
+        messageProps: {
+          ...textFieldProps.messageProps,
+          error: true,
+          children: formField.errorMessage,
+        },
+      };
+    }
+  }
+
   return [
     number,
     { ...props, min, max, step, type: "number" },
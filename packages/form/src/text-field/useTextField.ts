@@ -15,6 +15,12 @@ import {
   FormMessageInputLengthCounterProps,
   FormMessageProps,
 } from "../FormMessage";
+import { FormFieldOptions, useFormField } from "../useFormField";
+import {
+  isPromise,
+  runFieldValidator,
+  useFormStateContext,
+} from "../useFormState";
 import { defaultGetErrorIcon, GetErrorIcon } from "./getErrorIcon";
 import {
   ChangeValidationBehavior,
@@ -66,6 +72,7 @@ export type ErrorChangeHandler = (id: string, error: boolean) => void;
 export interface TextFieldHookOptions
   extends TextConstraints,
     TextFieldChangeHandlers,
+    Omit<FormFieldOptions<string>, "id">,
     Pick<TextFieldProps, "id" | "theme"> {
   /**
    * Boolean if the `FormMessage` should also display a counter for the
@@ -224,6 +231,10 @@ export interface TextFieldHookControls {
    *   errorMessage: "",
    * }
    * ```
+   *
+   * Note: When the text field has been registered with a form state through
+   * the `name` option, resetting the form will restore the `defaultValue`
+   * instead.
    */
   reset(): void;
   setState: Dispatch<SetStateAction<TextFieldHookState>>;
@@ -254,9 +265,12 @@ export function useTextField(
  * api/constraint validation. This also provides props that can be passed to the
  * `FormMessage` component to display error messages or help text.
  *
- * Note: Even though this hook exists, it is highly recommended to use a form
- * helper library like [react-hook-form](https://react-hook-form.com/) for more
- * complex forms
+ * When the `name` option is provided and the text field is rendered within a
+ * `Form` that was provided a `formState`, the text field will also be
+ * registered with the form state so that the `validate` option and any
+ * form-level errors will be displayed once the field has been touched.
+ * Otherwise, the `validate` option will be run alongside the constraint
+ * validation once the field has been blurred.
  *
  * @see https://developer.mozilla.org/en-US/docs/Web/Guide/HTML/HTML5/Constraint_validation
  * @param options - All the options used to control the functionality of this
@@ -266,6 +280,9 @@ export function useTextField(
  */
 export function useTextField({
   id,
+  name,
+  validate,
+  dependencies,
   defaultValue = "",
   theme,
   pattern,
@@ -296,8 +313,13 @@ export function useTextField({
     };
   });
   const { value, error, errorMessage } = state;
+  const initialValue = useRef(value);
   const errored = useRef(false);
+  const touched = useRef(false);
+  const validationId = useRef(0);
   const fieldRef = useRef<HTMLInputElement | HTMLTextAreaElement | null>(null);
+  const formState = useFormStateContext();
+  const isRegistered = !!name && !!formState;
 
   const messageId = `${id}-message`;
   const isCounting = counter && typeof maxLength === "number";
@@ -307,6 +329,8 @@ export function useTextField({
       fieldRef.current.setCustomValidity("");
     }
 
+    touched.current = false;
+    validationId.current += 1;
     setState({
       value: "",
       error: false,
@@ -315,7 +339,10 @@ export function useTextField({
   }, []);
 
   const updateState = useCallback(
-    (field: HTMLInputElement | HTMLTextAreaElement, isBlurEvent: boolean) => {
+    (
+      field: HTMLInputElement | HTMLTextAreaElement,
+      isBlurEvent: boolean
+    ): boolean => {
       fieldRef.current = field;
 
       // need to temporarily set the `maxLength` back so it can be "verified"
@@ -347,8 +374,43 @@ export function useTextField({
         validationMessage: field.validationMessage,
         validateOnChange,
       };
-      const errorMessage = getErrorMessage(options);
-      const error = isErrored({ ...options, errorMessage });
+      let errorMessage = getErrorMessage(options);
+      let error = isErrored({ ...options, errorMessage });
+
+      // the form state will run the `validate` option for registered fields,
+      // so it only needs to be run here when there is no form state
+      validationId.current += 1;
+      touched.current = touched.current || isBlurEvent;
+      if (!isRegistered && validate && touched.current && !errorMessage) {
+        const validation = runFieldValidator(
+          validate,
+          value,
+          name ? { [name]: value } : {}
+        );
+
+        if (isPromise<string | undefined>(validation)) {
+          const currentId = validationId.current;
+          validation.then((message) => {
+            if (!message || currentId !== validationId.current) {
+              return;
+            }
+
+            if (!errored.current) {
+              errored.current = true;
+              onErrorChange(id, true);
+            }
+
+            setState((prevState) => ({
+              ...prevState,
+              error: true,
+              errorMessage: message,
+            }));
+          });
+        } else if (validation) {
+          errorMessage = validation;
+          error = true;
+        }
+      }
 
       if (errored.current !== error) {
         errored.current = error;
@@ -361,21 +423,63 @@ export function useTextField({
       }
 
       setState({ value, error, errorMessage });
+      return error;
     },
     [
       disableMaxLength,
       getErrorMessage,
       id,
       isErrored,
+      isRegistered,
       maxLength,
       minLength,
       onErrorChange,
+      name,
       pattern,
       required,
+      validate,
       validateOnChange,
     ]
   );
 
+  const formField = useFormField({
+    name,
+    id,
+    value,
+    defaultValue: initialValue.current,
+    validate,
+    dependencies,
+    error,
+    errorMessage,
+    reset() {
+      /* istanbul ignore next */
+      if (fieldRef.current) {
+        fieldRef.current.setCustomValidity("");
+      }
+
+      errored.current = false;
+      touched.current = false;
+      validationId.current += 1;
+      setState({
+        value: initialValue.current,
+        error: false,
+        errorMessage: "",
+      });
+    },
+    checkValidity() {
+      const field = document.getElementById(id);
+      if (
+        field instanceof HTMLInputElement ||
+        field instanceof HTMLTextAreaElement
+      ) {
+        return !updateState(field, true);
+      }
+
+      return true;
+    },
+  });
+  const { setTouched } = formField;
+
   const handleBlur = useCallback(
     (event: FocusEvent<HTMLInputElement>) => {
       if (onBlur) {
@@ -386,9 +490,10 @@ export function useTextField({
         return;
       }
 
+      setTouched();
       updateState(event.currentTarget, true);
     },
-    [onBlur, updateState]
+    [onBlur, setTouched, updateState]
   );
   const handleChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
@@ -417,18 +522,20 @@ export function useTextField({
   );
 
   const errorIcon = useIcon("error", propErrorIcon);
+  const fieldError = error || formField.error;
+  const fieldErrorMessage = errorMessage || formField.errorMessage;
   const props: ProvidedTextFieldProps & {
     messageProps?: ProvidedFormMessageProps;
   } = {
     id,
     value,
     theme,
-    error,
+    error: fieldError,
     required,
     pattern,
     minLength,
     maxLength: disableMaxLength ? undefined : maxLength,
-    rightChildren: getErrorIcon(errorMessage, error, errorIcon),
+    rightChildren: getErrorIcon(fieldErrorMessage, fieldError, errorIcon),
     onBlur: handleBlur,
     onChange: handleChange,
   };
@@ -436,11 +543,11 @@ export function useTextField({
     props["aria-describedby"] = messageId;
     props.messageProps = {
       id: messageId,
-      error,
+      error: fieldError,
       theme,
       length: counter ? value.length : undefined,
       maxLength: isCounting ? maxLength : undefined,
-      children: errorMessage || helpText,
+      children: fieldErrorMessage || helpText,
     };
   }
 
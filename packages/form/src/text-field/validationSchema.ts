@@ -0,0 +1,358 @@
+import { FormErrors, FormValidator, FormValues } from "../useFormState";
+import { FormFieldOptions } from "../useFormField";
+
+/**
+ * A schema constraint can either be the constraint's value or an object
+ * containing the value along with a custom error message for this specific
+ * field.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type SchemaConstraint<T> = T | { value: T; message: string };
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface ValidationMessageParams {
+  /**
+   * The name of the field that is being validated.
+   */
+  name: string;
+
+  /**
+   * The current value of the field that is being validated.
+   */
+  value: string;
+}
+
+/**
+ * An error message for a schema constraint. This can either be a string or a
+ * function that creates the message from the constraint's params so that the
+ * messages can be localized.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type ValidationMessage<P = {}> =
+  | string
+  | ((params: ValidationMessageParams & P) => string);
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface ValidationMessages {
+  required: ValidationMessage;
+  minLength: ValidationMessage<{ minLength: number }>;
+  maxLength: ValidationMessage<{ maxLength: number }>;
+  pattern: ValidationMessage<{ pattern: string }>;
+  equals: ValidationMessage<{ field: string }>;
+}
+
+/**
+ * A custom validation rule for a field within the schema.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface ValidationRule {
+  /**
+   * A function that returns an error message when the value is invalid.
+   */
+  validate(value: string, values: FormValues): string | undefined;
+
+  /**
+   * An optional list of other field names that this rule depends on so that
+   * the field can be re-validated when they change.
+   */
+  dependencies?: readonly string[];
+}
+
+/**
+ * The validation schema for a single field. All the constraints other than
+ * `required` will be skipped while the value is empty.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface FieldValidationSchema {
+  required?: SchemaConstraint<boolean>;
+  minLength?: SchemaConstraint<number>;
+  maxLength?: SchemaConstraint<number>;
+
+  /**
+   * A regular expression the value must match. When this is a string, it
+   * will behave like the native `pattern` attribute and must match the entire
+   * value.
+   */
+  pattern?: SchemaConstraint<string | RegExp>;
+
+  /**
+   * The name of another field that this field's value must be equal to. This
+   * is useful for confirming a password or email.
+   */
+  equals?: SchemaConstraint<string>;
+
+  /**
+   * An optional list of custom rules that will be run in order after all the
+   * other constraints pass.
+   */
+  rules?: readonly ValidationRule[];
+}
+
+/**
+ * A map of field names to their validation schema. Since the schema is just
+ * an object (excluding custom `rules`), it can be shared between the client
+ * and server.
+ *
+ * Example:
+ *
+ * ```ts
+ * const schema: ValidationSchema = {
+ *   username: { required: true, minLength: 3, pattern: "[a-z0-9_]+" },
+ *   password: {
+ *     required: true,
+ *     minLength: { value: 8, message: "Use at least 8 characters" },
+ *   },
+ *   confirmPassword: { required: true, equals: "password" },
+ * };
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export type ValidationSchema = Record<string, FieldValidationSchema>;
+
+/**
+ * The default english validation messages.
+ *
+ * @remarks \@since 3.2.0
+ */
+export const DEFAULT_VALIDATION_MESSAGES: Readonly<ValidationMessages> = {
+  required: "This field is required",
+  minLength: ({ minLength }) => `Must be at least ${minLength} characters`,
+  maxLength: ({ maxLength }) => `Must be at most ${maxLength} characters`,
+  pattern: "Invalid format",
+  equals: ({ field }) => `Must match ${field}`,
+};
+
+const getConstraint = <T>(
+  constraint: SchemaConstraint<T>
+): { value: T; message?: string } => {
+  if (
+    typeof constraint === "object" &&
+    constraint !== null &&
+    !(constraint instanceof RegExp)
+  ) {
+    return constraint as { value: T; message: string };
+  }
+
+  return { value: constraint as T };
+};
+
+const getMessage = <P>(
+  message: ValidationMessage<P>,
+  params: ValidationMessageParams & P
+): string => (typeof message === "function" ? message(params) : message);
+
+/**
+ * Validates a single value against a field's schema.
+ *
+ * @param name - The name of the field
+ * @param value - The field's current value
+ * @param schema - The {@link FieldValidationSchema}
+ * @param values - All the current values in the form for cross-field rules
+ * @param messages - Any messages that should override the
+ * {@link DEFAULT_VALIDATION_MESSAGES}
+ * @returns the first error message or `undefined` if the value is valid
+ * @remarks \@since 3.2.0
+ */
+export function getSchemaFieldError(
+  name: string,
+  value: string,
+  schema: FieldValidationSchema,
+  values: FormValues = {},
+  messages: Partial<ValidationMessages> = {}
+): string | undefined {
+  const {
+    required,
+    minLength,
+    maxLength,
+    pattern,
+    equals,
+    rules = [],
+  } = schema;
+  const allMessages = { ...DEFAULT_VALIDATION_MESSAGES, ...messages };
+  const params: ValidationMessageParams = { name, value };
+
+  if (!value) {
+    if (typeof required === "undefined") {
+      return undefined;
+    }
+
+    const constraint = getConstraint(required);
+    return constraint.value
+      ? constraint.message || getMessage(allMessages.required, params)
+      : undefined;
+  }
+
+  if (typeof minLength !== "undefined") {
+    const constraint = getConstraint(minLength);
+    if (value.length < constraint.value) {
+      return (
+        constraint.message ||
+        getMessage(allMessages.minLength, {
+          ...params,
+          minLength: constraint.value,
+        })
+      );
+    }
+  }
+
+  if (typeof maxLength !== "undefined") {
+    const constraint = getConstraint(maxLength);
+    if (value.length > constraint.value) {
+      return (
+        constraint.message ||
+        getMessage(allMessages.maxLength, {
+          ...params,
+          maxLength: constraint.value,
+        })
+      );
+    }
+  }
+
+  if (typeof pattern !== "undefined") {
+    const constraint = getConstraint(pattern);
+    // the global and sticky flags are removed since they would make `test`
+    // start from the previous match's `lastIndex`
+    const regExp =
+      typeof constraint.value === "string"
+        ? new RegExp(`^(?:${constraint.value})$`)
+        : new RegExp(
+            constraint.value.source,
+            constraint.value.flags.replace(/[gy]/g, "")
+          );
+    if (!regExp.test(value)) {
+      return (
+        constraint.message ||
+        getMessage(allMessages.pattern, {
+          ...params,
+          pattern: regExp.source,
+        })
+      );
+    }
+  }
+
+  if (typeof equals !== "undefined") {
+    const constraint = getConstraint(equals);
+    if (values[constraint.value] !== value) {
+      return (
+        constraint.message ||
+        getMessage(allMessages.equals, { ...params, field: constraint.value })
+      );
+    }
+  }
+
+  for (const rule of rules) {
+    const message = rule.validate(value, values);
+    if (message) {
+      return message;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates all the values against the schema. This does not depend on any
+ * browser apis so it can also be used to validate the values on the server.
+ *
+ * @param schema - The {@link ValidationSchema}
+ * @param values - The values to validate
+ * @param messages - Any messages that should override the
+ * {@link DEFAULT_VALIDATION_MESSAGES}
+ * @returns the {@link FormErrors} which will only contain the fields that
+ * have an error
+ * @remarks \@since 3.2.0
+ */
+export function validateSchema(
+  schema: ValidationSchema,
+  values: FormValues,
+  messages?: Partial<ValidationMessages>
+): FormErrors {
+  return Object.keys(schema).reduce<FormErrors>((errors, name) => {
+    const value = values[name];
+    const message = getSchemaFieldError(
+      name,
+      typeof value === "string" ? value : `${value ?? ""}`,
+      schema[name],
+      values,
+      messages
+    );
+    if (message) {
+      errors[name] = message;
+    }
+
+    return errors;
+  }, {});
+}
+
+/**
+ * Creates a form-level validator that can be provided to the `useFormState`
+ * hook.
+ *
+ * @param schema - The {@link ValidationSchema}
+ * @param messages - Any messages that should override the
+ * {@link DEFAULT_VALIDATION_MESSAGES}
+ * @returns a {@link FormValidator}
+ * @remarks \@since 3.2.0
+ */
+export function createSchemaValidator(
+  schema: ValidationSchema,
+  messages?: Partial<ValidationMessages>
+): FormValidator {
+  return (values) => validateSchema(schema, values, messages);
+}
+
+/**
+ * Gets the `name`, `validate`, and `dependencies` options for a field in the
+ * schema that can be provided to the `useTextField` hook. This will validate
+ * the field while the user types and re-validate it when any fields it depends
+ * on change.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const [, fieldProps] = useTextField({
+ *   id: "confirm-password",
+ *   ...getSchemaFieldOptions(schema, "confirmPassword", messages),
+ * });
+ *
+ * return <PasswordWithMessage {...fieldProps} label="Confirm Password" />;
+ * ```
+ *
+ * @param schema - The {@link ValidationSchema}
+ * @param name - The field's name within the schema
+ * @param messages - Any messages that should override the
+ * {@link DEFAULT_VALIDATION_MESSAGES}
+ * @returns the field options for the `useTextField` hook
+ * @remarks \@since 3.2.0
+ */
+export function getSchemaFieldOptions(
+  schema: ValidationSchema,
+  name: string,
+  messages?: Partial<ValidationMessages>
+): Required<Omit<FormFieldOptions<string>, "id">> {
+  const fieldSchema = schema[name] || {};
+  const dependencies: string[] = [];
+  if (typeof fieldSchema.equals !== "undefined") {
+    dependencies.push(getConstraint(fieldSchema.equals).value);
+  }
+
+  fieldSchema.rules?.forEach((rule) => {
+    dependencies.push(...(rule.dependencies || []));
+  });
+
+  return {
+    name,
+    validate: (value, values) =>
+      getSchemaFieldError(name, value, fieldSchema, values, messages),
+    dependencies,
+  };
+}
@@ -0,0 +1,378 @@
+/* eslint-disable jsx-a11y/no-noninteractive-element-interactions */
+import React, {
+  forwardRef,
+  HTMLAttributes,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import cn from "classnames";
+import { Button } from "@react-md/button";
+import { bem, loop } from "@react-md/utils";
+
+import {
+  clampTime,
+  DEFAULT_TIME_STEP,
+  getDayPeriodLabels,
+  getSegmentStep,
+  getSegmentValue,
+  getTimeInSeconds,
+  isTimeDisabled,
+  setSegmentValue,
+  TimeConstraints,
+  TimeSegment,
+  TimeValue,
+} from "./utils";
+
+/**
+ * The segments that can be chosen with the clock dial.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TimeClockMode = "hours" | "minutes";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TimeClockProps
+  extends Omit<HTMLAttributes<HTMLDivElement>, "onChange" | "defaultValue">,
+    TimeConstraints {
+  /**
+   * The id for the clock. This is required for a11y and will be used to
+   * generate ids for each segment button and option within the dial.
+   */
+  id: string;
+
+  /**
+   * The currently selected time.
+   */
+  value: TimeValue | null;
+
+  /**
+   * The function to call when an hour, minute, or period has been chosen. The
+   * dial will automatically switch to the minutes after an hour has been
+   * chosen.
+   */
+  onTimeSelect(time: TimeValue, segment: TimeSegment): void;
+
+  /**
+   * Boolean if the dial should display a 12-hour clock along with the AM/PM
+   * buttons. Otherwise, a 24-hour clock will be displayed with the hours from
+   * `12` to `23` in an inner ring.
+   */
+  hour12?: boolean;
+
+  /**
+   * The locale to use for the AM/PM labels.
+   */
+  locale?: string;
+
+  /**
+   * The `aria-label` to apply to the dial while choosing hours.
+   */
+  hoursLabel?: string;
+
+  /**
+   * The `aria-label` to apply to the dial while choosing minutes.
+   */
+  minutesLabel?: string;
+
+  /**
+   * Boolean if the current option within the dial should be focused on
+   * mount.
+   */
+  autoFocus?: boolean;
+}
+
+interface ClockOption {
+  id: string;
+  label: string;
+  time: TimeValue;
+  angle: number;
+  inner: boolean;
+  selected: boolean;
+  disabled: boolean;
+}
+
+const block = bem("rmd-time-clock");
+const pad = (value: number): string => `${value}`.padStart(2, "0");
+
+const isHourDisabled = (
+  hours: number,
+  { min, max }: TimeConstraints
+): boolean =>
+  (!!min && hours * 3600 + 3599 < getTimeInSeconds(min)) ||
+  (!!max && hours * 3600 > getTimeInSeconds(max));
+
+function getOptions(
+  id: string,
+  mode: TimeClockMode,
+  time: TimeValue,
+  value: TimeValue | null,
+  hour12: boolean,
+  { min, max, step = DEFAULT_TIME_STEP }: TimeConstraints
+): readonly ClockOption[] {
+  if (mode === "hours") {
+    const hours = hour12
+      ? [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+      : Array.from({ length: 24 }, (_, i) => i);
+
+    return hours.map((hour) => {
+      const option = setSegmentValue(time, "hours", hour, hour12);
+      return {
+        id: `${id}-hours-${option.hours}`,
+        label: hour12 || hour >= 12 ? `${hour}` : pad(hour),
+        time: option,
+        angle: (hour % 12) * 30,
+        inner: !hour12 && hour >= 12,
+        selected: !!value && value.hours === option.hours,
+        disabled: isHourDisabled(option.hours, { min, max }),
+      };
+    });
+  }
+
+  const interval = Math.max(5, getSegmentStep("minutes", step));
+  return Array.from({ length: Math.ceil(60 / interval) }, (_, i) => {
+    const minutes = i * interval;
+    const option = { ...time, minutes, seconds: 0 };
+    return {
+      id: `${id}-minutes-${minutes}`,
+      label: pad(minutes),
+      time: option,
+      angle: minutes * 6,
+      inner: false,
+      selected: !!value && value.minutes === minutes,
+      disabled: isTimeDisabled(option, {
+        min,
+        max,
+        step: step >= 60 ? step : 1,
+      }),
+    };
+  });
+}
+
+/**
+ * The `TimeClock` renders an analog clock dial that allows the user to choose
+ * the hours and then the minutes for a time. This is mostly used internally
+ * by the `TimePicker` when the `clock` prop is enabled, but can also be used
+ * by itself.
+ *
+ * The options within the dial use a roving tab index so that only a single
+ * option is focusable at a time and the arrow keys can be used to move between
+ * options.
+ *
+ * @remarks \@since 3.2.0
+ */
+export const TimeClock = forwardRef<HTMLDivElement, TimeClockProps>(
+  function TimeClock(
+    {
+      id,
+      className,
+      value,
+      onTimeSelect,
+      min,
+      max,
+      step,
+      hour12 = false,
+      locale,
+      hoursLabel = "Hours",
+      minutesLabel = "Minutes",
+      autoFocus = false,
+      ...props
+    },
+    ref
+  ) {
+    const constraints: TimeConstraints = { min, max, step };
+    const [mode, setMode] = useState<TimeClockMode>("hours");
+    const [focusedId, setFocusedId] = useState("");
+    const time =
+      value || clampTime({ hours: 0, minutes: 0, seconds: 0 }, constraints);
+    const options = getOptions(id, mode, time, value, hour12, constraints);
+    const enabled = options.filter((option) => !option.disabled);
+    const tabbableId =
+      (
+        enabled.find((option) => option.id === focusedId) ||
+        enabled.find((option) => option.selected) ||
+        enabled[0]
+      )?.id || "";
+
+    const focusRequired = useRef(autoFocus);
+    useEffect(() => {
+      if (!focusRequired.current) {
+        return;
+      }
+
+      focusRequired.current = false;
+      document.getElementById(tabbableId)?.focus();
+      // only want to focus when the mode changes or on mount
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [mode]);
+
+    const changeMode = (nextMode: TimeClockMode): void => {
+      focusRequired.current = true;
+      setFocusedId("");
+      setMode(nextMode);
+    };
+
+    const [am, pm] = getDayPeriodLabels(locale);
+    const isPM = time.hours >= 12;
+    const hoursText = value
+      ? pad(getSegmentValue(value, "hours", hour12))
+      : "--";
+    const minutesText = value ? pad(value.minutes) : "--";
+
+    return (
+      <div {...props} id={id} ref={ref} className={cn(block(), className)}>
+        <div className={block("header")}>
+          <Button
+            id={`${id}-hours`}
+            aria-pressed={mode === "hours"}
+            onClick={() => changeMode("hours")}
+            className={block("segment", { active: mode === "hours" })}
+          >
+            {hoursText}
+          </Button>
+          <span aria-hidden className={block("separator")}>
+            :
+          </span>
+          <Button
+            id={`${id}-minutes`}
+            aria-pressed={mode === "minutes"}
+            onClick={() => changeMode("minutes")}
+            className={block("segment", { active: mode === "minutes" })}
+          >
+            {minutesText}
+          </Button>
+          {hour12 && (
+            <div className={block("periods")}>
+              {[am, pm].map((label, period) => (
+                <Button
+                  key={label}
+                  id={`${id}-${period === 0 ? "am" : "pm"}`}
+                  aria-pressed={isPM === (period === 1)}
+                  disabled={isHourDisabled(
+                    setSegmentValue(time, "period", period, true).hours,
+                    constraints
+                  )}
+                  onClick={() =>
+                    onTimeSelect(
+                      setSegmentValue(time, "period", period, true),
+                      "period"
+                    )
+                  }
+                  className={block("period", {
+                    active: isPM === (period === 1),
+                  })}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div
+          id={`${id}-dial`}
+          role="group"
+          aria-label={mode === "hours" ? hoursLabel : minutesLabel}
+          className={block("dial")}
+          onKeyDown={(event) => {
+            let increment: boolean;
+            switch (event.key) {
+              case "ArrowUp":
+              case "ArrowRight":
+                increment = true;
+                break;
+              case "ArrowDown":
+              case "ArrowLeft":
+                increment = false;
+                break;
+              default:
+                return;
+            }
+
+            event.preventDefault();
+            const index = enabled.findIndex(
+              (option) => option.id === tabbableId
+            );
+            const next =
+              enabled[
+                loop({ value: index, max: enabled.length - 1, increment })
+              ];
+            if (next) {
+              setFocusedId(next.id);
+              document.getElementById(next.id)?.focus();
+            }
+          }}
+        >
+          {options.map(
+            ({
+              id: optionId,
+              label,
+              time,
+              angle,
+              inner,
+              selected,
+              disabled,
+            }) => {
+              const radius = inner ? 26 : 40;
+              const radians = (angle * Math.PI) / 180;
+
+              return (
+                <button
+                  key={optionId}
+                  id={optionId}
+                  type="button"
+                  aria-pressed={selected}
+                  disabled={disabled}
+                  tabIndex={optionId === tabbableId ? 0 : -1}
+                  style={{
+                    left: `${50 + radius * Math.sin(radians)}%`,
+                    top: `${50 - radius * Math.cos(radians)}%`,
+                  }}
+                  className={block("option", { selected, inner })}
+                  onFocus={() => setFocusedId(optionId)}
+                  onClick={() => {
+                    onTimeSelect(time, mode);
+                    if (mode === "hours") {
+                      changeMode("minutes");
+                    }
+                  }}
+                >
+                  {label}
+                </button>
+              );
+            }
+          )}
+        </div>
+      </div>
+    );
+  }
+);
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    const time = PropTypes.shape({
+      hours: PropTypes.number.isRequired,
+      minutes: PropTypes.number.isRequired,
+      seconds: PropTypes.number.isRequired,
+    });
+
+    TimeClock.propTypes = {
+      id: PropTypes.string.isRequired,
+      className: PropTypes.string,
+      value: time,
+      onTimeSelect: PropTypes.func.isRequired,
+      min: time,
+      max: time,
+      step: PropTypes.number,
+      hour12: PropTypes.bool,
+      locale: PropTypes.string,
+      hoursLabel: PropTypes.string,
+      minutesLabel: PropTypes.string,
+      autoFocus: PropTypes.bool,
+    };
+  } catch (e) {}
+}
@@ -0,0 +1,634 @@
+/* eslint-disable jsx-a11y/no-autofocus */
+import React, {
+  CSSProperties,
+  forwardRef,
+  HTMLAttributes,
+  KeyboardEvent,
+  ReactNode,
+  useRef,
+} from "react";
+import cn from "classnames";
+import { Button } from "@react-md/button";
+import { useIcon } from "@react-md/icon";
+import { RenderConditionalPortalProps } from "@react-md/portal";
+import {
+  bem,
+  PositionAnchor,
+  useDir,
+  useEnsuredRef,
+  useToggle,
+} from "@react-md/utils";
+
+import {
+  PickerPopup,
+  useDefaultPickerAnchor,
+} from "../date-picker/PickerPopup";
+import { useFormTheme } from "../FormThemeProvider";
+import { FloatingLabel } from "../label/FloatingLabel";
+import {
+  TextFieldContainer,
+  TextFieldContainerOptions,
+} from "../text-field/TextFieldContainer";
+import { useFocusState } from "../useFocusState";
+import { TimeClock, TimeClockProps } from "./TimeClock";
+import {
+  clampTime,
+  DEFAULT_TIME_STEP,
+  formatTime,
+  getDayPeriodLabels,
+  getSegmentRange,
+  getSegmentStep,
+  getSegmentValue,
+  incrementTimeSegment,
+  isHour12Locale,
+  isTimeDisabled,
+  setSegmentValue,
+  TimeConstraints,
+  TimeSegment,
+  TimeValue,
+} from "./utils";
+
+type TimePickerAttributes = Omit<
+  HTMLAttributes<HTMLDivElement>,
+  "onChange" | "defaultValue" | "children"
+>;
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TimePickerProps
+  extends TimePickerAttributes,
+    TextFieldContainerOptions,
+    TimeConstraints,
+    RenderConditionalPortalProps,
+    Pick<TimeClockProps, "hoursLabel" | "minutesLabel"> {
+  /**
+   * The id for the time picker. This is required for a11y and will be used to
+   * generate ids for each segment (`${id}-hours`, `${id}-minutes`,
+   * `${id}-seconds`, and `${id}-period`), the clock toggle button
+   * (`${id}-toggle`), and the clock popup (`${id}-popup`).
+   */
+  id: string;
+
+  /**
+   * The current time. The `TimePicker` **must be controlled**.
+   */
+  value: TimeValue | null;
+
+  /**
+   * The function to call when any segment has been changed or a time has been
+   * chosen from the clock. The time will always be within the `min` and `max`
+   * times.
+   */
+  onChange(time: TimeValue): void;
+
+  /**
+   * An optional floating label to use with the time picker.
+   */
+  label?: ReactNode;
+
+  /**
+   * An optional className to apply to the label.
+   */
+  labelClassName?: string;
+
+  /**
+   * An optional name to apply to a hidden input that will have the
+   * `"HH:mm"` or `"HH:mm:ss"` value so the time can be submitted in a native
+   * form.
+   */
+  name?: string;
+
+  /**
+   * Boolean if the time picker is currently disabled.
+   */
+  disabled?: boolean;
+
+  /**
+   * The locale to use for the AM/PM labels and to determine if a 12-hour
+   * clock should be used by default.
+   */
+  locale?: string;
+
+  /**
+   * Boolean if the time should be displayed with a 12-hour clock. This will
+   * default to the clock used by the `locale`.
+   */
+  hour12?: boolean;
+
+  /**
+   * Boolean if the seconds segment should be displayed. This will default to
+   * `true` when the `step` is not divisible by `60`.
+   */
+  showSeconds?: boolean;
+
+  /**
+   * The `aria-label` to apply to the seconds segment.
+   */
+  secondsLabel?: string;
+
+  /**
+   * The `aria-label` to apply to the AM/PM segment.
+   */
+  periodLabel?: string;
+
+  /**
+   * Boolean if a button should be rendered that shows an analog clock dial in
+   * a popup to choose the time.
+   */
+  clock?: boolean;
+
+  /**
+   * An optional icon to use for the button that toggles the clock. This
+   * defaults to the `clock` icon from the `IconProvider`.
+   */
+  clockIcon?: ReactNode;
+
+  /**
+   * The `aria-label` for the clock toggle button and popup.
+   */
+  clockLabel?: string;
+
+  /**
+   * The positioning configuration for how the clock should be anchored to the
+   * time picker.
+   */
+  anchor?: PositionAnchor;
+
+  /**
+   * An optional style to apply to the clock popup.
+   */
+  popupStyle?: CSSProperties;
+
+  /**
+   * An optional className to apply to the clock popup.
+   */
+  popupClassName?: string;
+
+  /**
+   * Boolean if the clock should be hidden when the page is scrolled.
+   */
+  closeOnScroll?: boolean;
+
+  /**
+   * Boolean if the clock should be hidden when the browser is resized.
+   */
+  closeOnResize?: boolean;
+}
+
+interface TypedValue {
+  segment: TimeSegment | null;
+  text: string;
+}
+
+const block = bem("rmd-time-picker");
+const pad = (value: number): string => `${value}`.padStart(2, "0");
+
+/**
+ * The `TimePicker` renders a time within a text field container where each of
+ * the hours, minutes, seconds, and AM/PM segments are a `role="spinbutton"`
+ * that can be updated with the keyboard:
+ *
+ * - `ArrowUp`/`ArrowDown` - increment/decrement the segment by the `step`
+ * - `Home`/`End` - set the segment to the min/max value
+ * - `ArrowLeft`/`ArrowRight` - move to the previous/next segment (swapped in
+ *   RTL)
+ * - `0-9` - type a value for the segment and move to the next segment once it
+ *   is complete
+ * - `A`/`P` - switch between AM and PM
+ *
+ * An analog clock dial can also be displayed in a popup by enabling the
+ * `clock` prop.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const [time, setTime] = useState<TimeValue | null>(null);
+ *
+ * return (
+ *   <TimePicker
+ *     id="meeting-time"
+ *     label="Meeting time"
+ *     value={time}
+ *     onChange={setTime}
+ *     min={{ hours: 9, minutes: 0, seconds: 0 }}
+ *     max={{ hours: 17, minutes: 0, seconds: 0 }}
+ *     step={900}
+ *     clock
+ *   />
+ * );
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export const TimePicker = forwardRef<HTMLDivElement, TimePickerProps>(
+  function TimePicker(
+    {
+      id,
+      className,
+      value,
+      onChange,
+      onFocus,
+      onBlur,
+      label,
+      labelClassName,
+      name,
+      theme: propTheme,
+      dense = false,
+      inline = false,
+      error = false,
+      disabled = false,
+      underlineDirection: propUnderlineDirection,
+      leftChildren,
+      isLeftAddon,
+      rightChildren,
+      isRightAddon,
+      min,
+      max,
+      step = DEFAULT_TIME_STEP,
+      locale,
+      hour12: propHour12,
+      showSeconds = step % 60 !== 0,
+      hoursLabel = "Hours",
+      minutesLabel = "Minutes",
+      secondsLabel = "Seconds",
+      periodLabel = "AM/PM",
+      clock = false,
+      clockIcon: propClockIcon,
+      clockLabel = "Choose time",
+      anchor: propAnchor,
+      popupStyle,
+      popupClassName,
+      portal,
+      portalInto,
+      portalIntoId,
+      closeOnScroll,
+      closeOnResize,
+      ...props
+    },
+    forwardedRef
+  ) {
+    const { theme, underlineDirection } = useFormTheme({
+      theme: propTheme,
+      underlineDirection: propUnderlineDirection,
+    });
+    const [focused, handleFocus, handleBlur] = useFocusState({
+      onFocus,
+      onBlur,
+    });
+    const [ref, refHandler] = useEnsuredRef(forwardedRef);
+    const [visible, show, hide, toggle] = useToggle(false);
+    const clockIcon = useIcon("clock", propClockIcon);
+    const anchor = useDefaultPickerAnchor(propAnchor);
+    const isRTL = useDir().dir === "rtl";
+    const typed = useRef<TypedValue>({ segment: null, text: "" });
+
+    const hour12 = propHour12 ?? isHour12Locale(locale);
+    const periods = getDayPeriodLabels(locale);
+    const constraints: TimeConstraints = { min, max, step };
+    const time =
+      value || clampTime({ hours: 0, minutes: 0, seconds: 0 }, constraints);
+    const valued = !!value;
+    const invalid = valued && isTimeDisabled(value, constraints);
+
+    const segments: TimeSegment[] = ["hours", "minutes"];
+    if (showSeconds) {
+      segments.push("seconds");
+    }
+    if (hour12) {
+      segments.push("period");
+    }
+
+    const labels: Record<TimeSegment, string> = {
+      hours: hoursLabel,
+      minutes: minutesLabel,
+      seconds: secondsLabel,
+      period: periodLabel,
+    };
+
+    const change = (nextTime: TimeValue): void => {
+      onChange(clampTime(nextTime, constraints));
+    };
+    const focusSegment = (segment: TimeSegment | undefined): void => {
+      if (segment) {
+        document.getElementById(`${id}-${segment}`)?.focus();
+      }
+    };
+    const closeClock = (): void => {
+      hide();
+      focusSegment("hours");
+    };
+
+    const handleTypedDigit = (segment: TimeSegment, digit: string): void => {
+      const [rangeMin, rangeMax] = getSegmentRange(segment, hour12);
+      let text =
+        typed.current.segment === segment
+          ? `${typed.current.text}${digit}`
+          : digit;
+      let number = parseInt(text, 10);
+      if (number > rangeMax) {
+        text = digit;
+        number = parseInt(digit, 10);
+      }
+
+      const complete = text.length === 2 || number * 10 > rangeMax;
+      if (number < rangeMin && !complete) {
+        // a 12-hour clock should wait for the next digit after a leading 0
+        typed.current = { segment, text };
+        return;
+      }
+
+      change(
+        setSegmentValue(time, segment, Math.max(rangeMin, number), hour12)
+      );
+      if (complete) {
+        typed.current = { segment: null, text: "" };
+        focusSegment(segments[segments.indexOf(segment) + 1]);
+      } else {
+        typed.current = { segment, text };
+      }
+    };
+
+    const handleKeyDown = (
+      event: KeyboardEvent<HTMLSpanElement>,
+      segment: TimeSegment
+    ): void => {
+      const index = segments.indexOf(segment);
+      const [rangeMin, rangeMax] = getSegmentRange(segment, hour12);
+      const amount = getSegmentStep(segment, step);
+      switch (event.key) {
+        case "ArrowUp":
+          change(incrementTimeSegment(time, segment, amount, hour12));
+          break;
+        case "ArrowDown":
+          change(incrementTimeSegment(time, segment, -amount, hour12));
+          break;
+        case "Home":
+          change(setSegmentValue(time, segment, rangeMin, hour12));
+          break;
+        case "End":
+          change(setSegmentValue(time, segment, rangeMax, hour12));
+          break;
+        case "ArrowLeft":
+          focusSegment(segments[index + (isRTL ? 1 : -1)]);
+          break;
+        case "ArrowRight":
+          focusSegment(segments[index + (isRTL ? -1 : 1)]);
+          break;
+        default: {
+          const key = event.key.toLowerCase();
+          if (segment !== "period" && /^[0-9]$/.test(key)) {
+            handleTypedDigit(segment, key);
+          } else if (segment === "period") {
+            const period = periods.findIndex(
+              (label) => label.charAt(0).toLowerCase() === key
+            );
+            if (period === -1) {
+              return;
+            }
+
+            change(setSegmentValue(time, segment, period, hour12));
+          } else {
+            return;
+          }
+        }
+      }
+
+      event.preventDefault();
+      event.stopPropagation();
+    };
+
+    const labelId = `${id}-label`;
+
+    return (
+      <>
+        <TextFieldContainer
+          {...props}
+          id={id}
+          ref={refHandler}
+          role="group"
+          aria-labelledby={label ? labelId : undefined}
+          theme={theme}
+          dense={dense}
+          inline={inline}
+          error={error || invalid}
+          active={focused || visible}
+          label={!!label}
+          disabled={disabled}
+          underlineDirection={underlineDirection}
+          leftChildren={leftChildren}
+          isLeftAddon={isLeftAddon}
+          isRightAddon={clock ? false : isRightAddon}
+          rightChildren={
+            clock ? (
+              <Button
+                id={`${id}-toggle`}
+                aria-label={clockLabel}
+                aria-haspopup="dialog"
+                aria-expanded={visible}
+                buttonType="icon"
+                disabled={disabled}
+                onClick={toggle}
+                className={block("toggle")}
+              >
+                {clockIcon}
+              </Button>
+            ) : (
+              rightChildren
+            )
+          }
+          className={cn(block({ disabled }), className)}
+          onFocus={handleFocus}
+          onBlur={handleBlur}
+        >
+          <FloatingLabel
+            id={labelId}
+            className={cn(block("label"), labelClassName)}
+            htmlFor={`${id}-hours`}
+            error={error || invalid}
+            active={valued && (focused || visible)}
+            valued={valued}
+            floating={focused || valued || visible}
+            dense={dense}
+            disabled={disabled}
+            component="span"
+          >
+            {label}
+          </FloatingLabel>
+          <span
+            className={block("segments", {
+              hidden: !!label && !valued && !focused && !visible,
+            })}
+          >
+            {segments.map((segment, i) => {
+              const [rangeMin, rangeMax] = getSegmentRange(segment, hour12);
+              const segmentValue = getSegmentValue(time, segment, hour12);
+              let text = "--";
+              if (valued) {
+                text =
+                  segment === "period"
+                    ? periods[segmentValue]
+                    : pad(segmentValue);
+              }
+
+              return (
+                <React.Fragment key={segment}>
+                  {i > 0 && (
+                    <span
+                      aria-hidden
+                      className={block("separator", {
+                        period: segment === "period",
+                      })}
+                    >
+                      {segment === "period" ? " " : ":"}
+                    </span>
+                  )}
+                  <span
+                    id={`${id}-${segment}`}
+                    role="spinbutton"
+                    aria-label={labels[segment]}
+                    aria-valuemin={rangeMin}
+                    aria-valuemax={rangeMax}
+                    aria-valuenow={valued ? segmentValue : undefined}
+                    aria-valuetext={valued ? text : undefined}
+                    aria-disabled={disabled || undefined}
+                    tabIndex={disabled ? -1 : 0}
+                    className={block("segment")}
+                    onBlur={() => {
+                      typed.current = { segment: null, text: "" };
+                    }}
+                    onKeyDown={(event) => {
+                      if (disabled) {
+                        return;
+                      }
+
+                      if (clock && event.key === "ArrowDown" && event.altKey) {
+                        event.preventDefault();
+                        show();
+                        return;
+                      }
+
+                      handleKeyDown(event, segment);
+                    }}
+                  >
+                    {text}
+                  </span>
+                </React.Fragment>
+              );
+            })}
+          </span>
+          <input
+            type="hidden"
+            name={name}
+            value={formatTime(value, showSeconds)}
+          />
+        </TextFieldContainer>
+        {clock && (
+          <PickerPopup
+            id={id}
+            aria-label={clockLabel}
+            style={popupStyle}
+            className={popupClassName}
+            visible={visible}
+            anchor={anchor}
+            fixedTo={ref}
+            portal={portal}
+            portalInto={portalInto}
+            portalIntoId={portalIntoId}
+            closeOnScroll={closeOnScroll}
+            closeOnResize={closeOnResize}
+            onRequestClose={closeClock}
+          >
+            <TimeClock
+              id={`${id}-clock`}
+              value={value}
+              min={min}
+              max={max}
+              step={step}
+              hour12={hour12}
+              locale={locale}
+              hoursLabel={hoursLabel}
+              minutesLabel={minutesLabel}
+              autoFocus
+              onTimeSelect={(nextTime, segment) => {
+                change(nextTime);
+                if (segment === "minutes") {
+                  closeClock();
+                }
+              }}
+            />
+          </PickerPopup>
+        )}
+      </>
+    );
+  }
+);
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    const time = PropTypes.shape({
+      hours: PropTypes.number.isRequired,
+      minutes: PropTypes.number.isRequired,
+      seconds: PropTypes.number.isRequired,
+    });
+
+    TimePicker.propTypes = {
+      id: PropTypes.string.isRequired,
+      className: PropTypes.string,
+      value: time,
+      onChange: PropTypes.func.isRequired,
+      onFocus: PropTypes.func,
+      onBlur: PropTypes.func,
+      label: PropTypes.node,
+      labelClassName: PropTypes.string,
+      name: PropTypes.string,
+      theme: PropTypes.oneOf(["none", "underline", "filled", "outline"]),
+      dense: PropTypes.bool,
+      inline: PropTypes.bool,
+      error: PropTypes.bool,
+      disabled: PropTypes.bool,
+      underlineDirection: PropTypes.oneOf(["left", "center", "right"]),
+      leftChildren: PropTypes.node,
+      isLeftAddon: PropTypes.bool,
+      rightChildren: PropTypes.node,
+      isRightAddon: PropTypes.bool,
+      min: time,
+      max: time,
+      step: PropTypes.number,
+      locale: PropTypes.string,
+      hour12: PropTypes.bool,
+      showSeconds: PropTypes.bool,
+      hoursLabel: PropTypes.string,
+      minutesLabel: PropTypes.string,
+      secondsLabel: PropTypes.string,
+      periodLabel: PropTypes.string,
+      clock: PropTypes.bool,
+      clockIcon: PropTypes.node,
+      clockLabel: PropTypes.string,
+      anchor: PropTypes.shape({
+        x: PropTypes.oneOf([
+          "inner-left",
+          "inner-right",
+          "center",
+          "left",
+          "right",
+        ]),
+        y: PropTypes.oneOf(["above", "below", "center", "top", "bottom"]),
+      }),
+      popupStyle: PropTypes.object,
+      popupClassName: PropTypes.string,
+      portal: PropTypes.bool,
+      portalInto: PropTypes.oneOfType([
+        PropTypes.string,
+        PropTypes.object,
+        PropTypes.func,
+      ]),
+      portalIntoId: PropTypes.string,
+      closeOnScroll: PropTypes.bool,
+      closeOnResize: PropTypes.bool,
+    };
+  } catch (e) {}
+}
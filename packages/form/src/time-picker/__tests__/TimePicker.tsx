@@ -0,0 +1,218 @@
+import React, { useState } from "react";
+import { fireEvent, render } from "@testing-library/react";
+
+import { TimePicker, TimePickerProps } from "../TimePicker";
+import { TimeValue } from "../utils";
+
+const getSegment = (segment: string): HTMLElement => {
+  const element = document.getElementById(`time-${segment}`);
+  if (!element) {
+    throw new Error();
+  }
+
+  return element;
+};
+
+function Test({
+  onChange,
+  defaultValue = null,
+  ...props
+}: Partial<TimePickerProps> & { defaultValue?: TimeValue | null }) {
+  const [value, setValue] = useState(defaultValue);
+
+  return (
+    <TimePicker
+      id="time"
+      label="Time"
+      name="time"
+      hour12={false}
+      portal={false}
+      {...props}
+      value={value}
+      onChange={(time) => {
+        onChange?.(time);
+        setValue(time);
+      }}
+    />
+  );
+}
+
+describe("TimePicker", () => {
+  it("should render each segment as a spinbutton", () => {
+    const { getAllByRole, container } = render(
+      <Test defaultValue={{ hours: 9, minutes: 5, seconds: 0 }} />
+    );
+
+    expect(getAllByRole("spinbutton")).toHaveLength(2);
+    expect(getSegment("hours")).toHaveAttribute("aria-valuenow", "9");
+    expect(getSegment("hours")).toHaveAttribute("aria-valuemax", "23");
+    expect(getSegment("minutes")).toHaveTextContent("05");
+    expect(container.querySelector("input[name='time']")).toHaveValue("09:05");
+  });
+
+  it("should increment the segments with the arrow keys using the step", () => {
+    const onChange = jest.fn();
+    render(
+      <Test
+        onChange={onChange}
+        defaultValue={{ hours: 9, minutes: 0, seconds: 0 }}
+        step={900}
+      />
+    );
+
+    const minutes = getSegment("minutes");
+    fireEvent.keyDown(minutes, { key: "ArrowUp" });
+    expect(onChange).toBeCalledWith({ hours: 9, minutes: 15, seconds: 0 });
+
+    fireEvent.keyDown(minutes, { key: "ArrowDown" });
+    fireEvent.keyDown(minutes, { key: "ArrowDown" });
+    expect(minutes).toHaveTextContent("45");
+    expect(getSegment("hours")).toHaveTextContent("09");
+
+    fireEvent.keyDown(getSegment("hours"), { key: "End" });
+    expect(getSegment("hours")).toHaveTextContent("23");
+  });
+
+  it("should keep the time within the min and max times", () => {
+    const onChange = jest.fn();
+    render(
+      <Test
+        onChange={onChange}
+        min={{ hours: 9, minutes: 0, seconds: 0 }}
+        max={{ hours: 17, minutes: 30, seconds: 0 }}
+      />
+    );
+
+    const hours = getSegment("hours");
+    expect(hours).toHaveTextContent("--");
+    fireEvent.keyDown(hours, { key: "ArrowDown" });
+    expect(onChange).toBeCalledWith({ hours: 9, minutes: 0, seconds: 0 });
+
+    fireEvent.keyDown(hours, { key: "End" });
+    expect(onChange).toBeCalledWith({ hours: 17, minutes: 30, seconds: 0 });
+  });
+
+  it("should allow the segments to be typed and move focus once complete", () => {
+    const onChange = jest.fn();
+    render(<Test onChange={onChange} showSeconds />);
+
+    const hours = getSegment("hours");
+    hours.focus();
+    fireEvent.keyDown(hours, { key: "1" });
+    expect(document.activeElement).toBe(hours);
+    fireEvent.keyDown(hours, { key: "4" });
+    expect(hours).toHaveTextContent("14");
+    expect(document.activeElement).toBe(getSegment("minutes"));
+
+    fireEvent.keyDown(getSegment("minutes"), { key: "7" });
+    expect(getSegment("minutes")).toHaveTextContent("07");
+    expect(document.activeElement).toBe(getSegment("seconds"));
+
+    fireEvent.keyDown(getSegment("seconds"), { key: "ArrowLeft" });
+    expect(document.activeElement).toBe(getSegment("minutes"));
+  });
+
+  it("should support 12-hour times with a period segment", () => {
+    const onChange = jest.fn();
+    render(
+      <Test
+        hour12
+        locale="en-US"
+        onChange={onChange}
+        defaultValue={{ hours: 9, minutes: 0, seconds: 0 }}
+      />
+    );
+
+    const hours = getSegment("hours");
+    const period = getSegment("period");
+    expect(hours).toHaveAttribute("aria-valuemin", "1");
+    expect(period).toHaveAttribute("aria-valuetext", "AM");
+
+    fireEvent.keyDown(period, { key: "p" });
+    expect(onChange).toBeCalledWith({ hours: 21, minutes: 0, seconds: 0 });
+    expect(period).toHaveTextContent("PM");
+
+    fireEvent.keyDown(hours, { key: "ArrowUp" });
+    fireEvent.keyDown(hours, { key: "ArrowUp" });
+    fireEvent.keyDown(hours, { key: "ArrowUp" });
+    expect(hours).toHaveTextContent("12");
+    expect(onChange).toBeCalledWith({ hours: 12, minutes: 0, seconds: 0 });
+  });
+
+  it("should choose a time from the clock dial", () => {
+    const onChange = jest.fn();
+    render(<Test clock onChange={onChange} />);
+
+    const toggle = document.getElementById("time-toggle");
+    if (!toggle) {
+      throw new Error();
+    }
+
+    fireEvent.click(toggle);
+    expect(toggle).toHaveAttribute("aria-expanded", "true");
+    expect(document.getElementById("time-clock-dial")).toHaveAttribute(
+      "aria-label",
+      "Hours"
+    );
+
+    const hour = document.getElementById("time-clock-hours-14");
+    if (!hour) {
+      throw new Error();
+    }
+
+    fireEvent.click(hour);
+    expect(onChange).toBeCalledWith({ hours: 14, minutes: 0, seconds: 0 });
+    expect(document.getElementById("time-clock-dial")).toHaveAttribute(
+      "aria-label",
+      "Minutes"
+    );
+    expect(document.activeElement).toBe(
+      document.getElementById("time-clock-minutes-0")
+    );
+
+    const minute = document.getElementById("time-clock-minutes-45");
+    if (!minute) {
+      throw new Error();
+    }
+
+    fireEvent.click(minute);
+    expect(onChange).toBeCalledWith({ hours: 14, minutes: 45, seconds: 0 });
+    expect(toggle).toHaveAttribute("aria-expanded", "false");
+    expect(document.activeElement).toBe(getSegment("hours"));
+  });
+
+  it("should disable clock options outside of the min and max times", () => {
+    render(
+      <Test
+        clock
+        step={900}
+        min={{ hours: 9, minutes: 0, seconds: 0 }}
+        max={{ hours: 17, minutes: 0, seconds: 0 }}
+        defaultValue={{ hours: 9, minutes: 0, seconds: 0 }}
+      />
+    );
+
+    fireEvent.keyDown(getSegment("hours"), { key: "ArrowDown", altKey: true });
+    expect(document.getElementById("time-clock-hours-8")).toBeDisabled();
+    expect(document.getElementById("time-clock-hours-9")).not.toBeDisabled();
+    expect(document.activeElement).toBe(
+      document.getElementById("time-clock-hours-9")
+    );
+
+    fireEvent.keyDown(
+      document.getElementById("time-clock-dial") as HTMLElement,
+      {
+        key: "ArrowRight",
+      }
+    );
+    expect(document.activeElement).toBe(
+      document.getElementById("time-clock-hours-10")
+    );
+
+    fireEvent.click(
+      document.getElementById("time-clock-minutes") as HTMLElement
+    );
+    expect(document.getElementById("time-clock-minutes-5")).toBe(null);
+    expect(document.getElementById("time-clock-minutes-15")).not.toBeDisabled();
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  formatTime,
+  getDayPeriodLabels,
+  getSegmentStep,
+  incrementTimeSegment,
+  isHour12Locale,
+  isTimeDisabled,
+  parseTime,
+  setSegmentValue,
+} from "../utils";
+
+const time = (hours: number, minutes = 0, seconds = 0) => ({
+  hours,
+  minutes,
+  seconds,
+});
+
+describe("parseTime", () => {
+  it("should parse native time input values", () => {
+    expect(parseTime("09:30")).toEqual(time(9, 30));
+    expect(parseTime("23:59:58")).toEqual(time(23, 59, 58));
+    expect(parseTime("24:00")).toBe(null);
+    expect(parseTime("9:3")).toBe(null);
+  });
+});
+
+describe("formatTime", () => {
+  it("should format the time as a native time input value", () => {
+    expect(formatTime(null)).toBe("");
+    expect(formatTime(time(9, 5, 7))).toBe("09:05");
+    expect(formatTime(time(9, 5, 7), true)).toBe("09:05:07");
+  });
+});
+
+describe("isTimeDisabled", () => {
+  it("should check the min, max, and step relative to the min time", () => {
+    const constraints = { min: time(9, 10), max: time(17), step: 900 };
+
+    expect(isTimeDisabled(time(9, 10), constraints)).toBe(false);
+    expect(isTimeDisabled(time(9, 25), constraints)).toBe(false);
+    expect(isTimeDisabled(time(9, 30), constraints)).toBe(true);
+    expect(isTimeDisabled(time(9), constraints)).toBe(true);
+    expect(isTimeDisabled(time(17, 10), constraints)).toBe(true);
+  });
+});
+
+describe("getSegmentStep", () => {
+  it("should only apply the step to the smallest segment", () => {
+    expect(getSegmentStep("hours", 900)).toBe(1);
+    expect(getSegmentStep("minutes", 900)).toBe(15);
+    expect(getSegmentStep("seconds", 15)).toBe(15);
+    expect(getSegmentStep("minutes", 15)).toBe(1);
+    expect(getSegmentStep("minutes", 7200)).toBe(1);
+  });
+});
+
+describe("incrementTimeSegment", () => {
+  it("should wrap the segment without changing the other segments", () => {
+    expect(incrementTimeSegment(time(9, 59), "minutes", 1, false)).toEqual(
+      time(9, 0)
+    );
+    expect(incrementTimeSegment(time(0, 30), "hours", -1, false)).toEqual(
+      time(23, 30)
+    );
+    expect(incrementTimeSegment(time(11, 30), "hours", 1, true)).toEqual(
+      time(0, 30)
+    );
+    expect(incrementTimeSegment(time(12, 30), "hours", -1, true)).toEqual(
+      time(23, 30)
+    );
+    expect(incrementTimeSegment(time(9), "period", 1, true)).toEqual(time(21));
+  });
+});
+
+describe("setSegmentValue", () => {
+  it("should keep the period for 12-hour clocks", () => {
+    expect(setSegmentValue(time(15), "hours", 12, true)).toEqual(time(12));
+    expect(setSegmentValue(time(3), "hours", 12, true)).toEqual(time(0));
+    expect(setSegmentValue(time(15), "hours", 12, false)).toEqual(time(12));
+  });
+});
+
+describe("locale helpers", () => {
+  it("should use the locale's clock and day period labels", () => {
+    expect(isHour12Locale("en-US")).toBe(true);
+    expect(isHour12Locale("en-GB")).toBe(false);
+    expect(getDayPeriodLabels("en-US")).toEqual(["AM", "PM"]);
+  });
+});
@@ -0,0 +1,4 @@
+export * from "./TimePicker";
+export * from "./TimeClock";
+
+export * from "./utils";
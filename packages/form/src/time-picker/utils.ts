@@ -0,0 +1,346 @@
+/**
+ * A time of day using the 24-hour clock.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface TimeValue {
+  /**
+   * The hours between `0` and `23`.
+   */
+  hours: number;
+
+  /**
+   * The minutes between `0` and `59`.
+   */
+  minutes: number;
+
+  /**
+   * The seconds between `0` and `59`.
+   */
+  seconds: number;
+}
+
+/**
+ * The editable segments within the `TimePicker`. The `"period"` segment is
+ * only rendered for 12-hour times and is used to switch between AM and PM.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TimeSegment = "hours" | "minutes" | "seconds" | "period";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TimeConstraints {
+  /**
+   * The minimum time that can be selected.
+   */
+  min?: TimeValue;
+
+  /**
+   * The maximum time that can be selected.
+   */
+  max?: TimeValue;
+
+  /**
+   * The step interval in seconds that works the same as the `step` attribute
+   * for a native `<input type="time" />`. A step of `900` will only allow
+   * times in 15 minute intervals while a step of `1` will allow any second.
+   *
+   * Note: The `min` and `max` values must be divisible by this value when any
+   * are defined.
+   */
+  step?: number;
+}
+
+/**
+ * The default step for a time in seconds which allows any minute to be
+ * selected.
+ *
+ * @remarks \@since 3.2.0
+ */
+export const DEFAULT_TIME_STEP = 60;
+
+const SECONDS_IN_DAY = 24 * 60 * 60;
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export function getTimeInSeconds({
+  hours,
+  minutes,
+  seconds,
+}: TimeValue): number {
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * @param value - The number of seconds since midnight. This will be wrapped
+ * to be within a single day.
+ * @returns the {@link TimeValue}
+ * @remarks \@since 3.2.0
+ */
+export function getTimeFromSeconds(value: number): TimeValue {
+  const total = ((value % SECONDS_IN_DAY) + SECONDS_IN_DAY) % SECONDS_IN_DAY;
+
+  return {
+    hours: Math.floor(total / 3600),
+    minutes: Math.floor((total % 3600) / 60),
+    seconds: total % 60,
+  };
+}
+
+/**
+ * Parses a `"HH:mm"` or `"HH:mm:ss"` string that matches the value of a native
+ * `<input type="time" />`.
+ *
+ * @param value - The string to parse
+ * @returns the {@link TimeValue} or `null` if it was not a valid time
+ * @remarks \@since 3.2.0
+ */
+export function parseTime(value: string): TimeValue | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3] || "0", 10);
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+
+  return { hours, minutes, seconds };
+}
+
+const pad = (value: number): string => `${value}`.padStart(2, "0");
+
+/**
+ * Formats the time as a `"HH:mm"` or `"HH:mm:ss"` string that matches the
+ * value of a native `<input type="time" />`.
+ *
+ * @param time - The time to format or `null`
+ * @param seconds - Boolean if the seconds should be included
+ * @returns the formatted time or an empty string if the time was `null`
+ * @remarks \@since 3.2.0
+ */
+export function formatTime(time: TimeValue | null, seconds = false): string {
+  if (!time) {
+    return "";
+  }
+
+  const formatted = `${pad(time.hours)}:${pad(time.minutes)}`;
+  return seconds ? `${formatted}:${pad(time.seconds)}` : formatted;
+}
+
+/**
+ * @param time - The time to check
+ * @param constraints - The {@link TimeConstraints}
+ * @returns true if the time is before the min time, after the max time, or
+ * does not match the step interval.
+ * @remarks \@since 3.2.0
+ */
+export function isTimeDisabled(
+  time: TimeValue,
+  { min, max, step = DEFAULT_TIME_STEP }: TimeConstraints
+): boolean {
+  const value = getTimeInSeconds(time);
+  const start = min ? getTimeInSeconds(min) : 0;
+
+  return (
+    value < start ||
+    (!!max && value > getTimeInSeconds(max)) ||
+    (value - start) % step !== 0
+  );
+}
+
+/**
+ * Ensures the time is within the min and max times.
+ *
+ * @remarks \@since 3.2.0
+ */
+export function clampTime(
+  time: TimeValue,
+  { min, max }: TimeConstraints
+): TimeValue {
+  const value = getTimeInSeconds(time);
+  if (min && value < getTimeInSeconds(min)) {
+    return min;
+  }
+
+  if (max && value > getTimeInSeconds(max)) {
+    return max;
+  }
+
+  return time;
+}
+
+/**
+ * @param locale - The locale to use
+ * @returns true if the locale uses a 12-hour clock
+ * @remarks \@since 3.2.0
+ */
+export function isHour12Locale(locale?: string): boolean {
+  // the `hourCycle` option isn't part of the typescript lib yet
+  const { hourCycle, hour12 } = new Intl.DateTimeFormat(locale, {
+    hour: "numeric",
+  }).resolvedOptions() as Intl.ResolvedDateTimeFormatOptions & {
+    hourCycle?: string;
+  };
+
+  if (hourCycle) {
+    return hourCycle === "h11" || hourCycle === "h12";
+  }
+
+  return !!hour12;
+}
+
+/**
+ * @param locale - The locale to use
+ * @returns the AM and PM labels for the locale
+ * @remarks \@since 3.2.0
+ */
+export function getDayPeriodLabels(locale?: string): readonly [string, string] {
+  const formatter = new Intl.DateTimeFormat(locale, {
+    hour: "numeric",
+    hour12: true,
+  });
+  const getLabel = (hours: number, fallback: string): string =>
+    formatter
+      .formatToParts(new Date(2000, 0, 1, hours))
+      .find(({ type }) => type === "dayPeriod")?.value || fallback;
+
+  return [getLabel(1, "AM"), getLabel(13, "PM")];
+}
+
+/**
+ * Gets the amount a segment should be incremented by for the provided step.
+ * The step will only be applied to the smallest segment that can be changed
+ * so a `step` of `900` will increment the minutes by `15` while the hours
+ * will still be incremented by `1`.
+ *
+ * @param segment - The {@link TimeSegment}
+ * @param step - The step in seconds
+ * @returns the amount to increment the segment by
+ * @remarks \@since 3.2.0
+ */
+export function getSegmentStep(
+  segment: TimeSegment,
+  step: number = DEFAULT_TIME_STEP
+): number {
+  if (segment === "seconds" && step < 60) {
+    return step;
+  }
+
+  if (segment === "minutes" && step >= 60 && step < 3600) {
+    return Math.floor(step / 60);
+  }
+
+  return 1;
+}
+
+/**
+ * @param segment - The {@link TimeSegment}
+ * @param hour12 - Boolean if the time is displayed with a 12-hour clock
+ * @returns the min and max value for the segment
+ * @remarks \@since 3.2.0
+ */
+export function getSegmentRange(
+  segment: TimeSegment,
+  hour12: boolean
+): readonly [number, number] {
+  switch (segment) {
+    case "hours":
+      return hour12 ? [1, 12] : [0, 23];
+    case "period":
+      return [0, 1];
+    default:
+      return [0, 59];
+  }
+}
+
+/**
+ * @param time - The time to get a segment value from
+ * @param segment - The {@link TimeSegment}
+ * @param hour12 - Boolean if the time is displayed with a 12-hour clock
+ * @returns the value for the segment that should be displayed
+ * @remarks \@since 3.2.0
+ */
+export function getSegmentValue(
+  { hours, minutes, seconds }: TimeValue,
+  segment: TimeSegment,
+  hour12: boolean
+): number {
+  switch (segment) {
+    case "hours":
+      return hour12 ? hours % 12 || 12 : hours;
+    case "minutes":
+      return minutes;
+    case "seconds":
+      return seconds;
+    default:
+      return hours < 12 ? 0 : 1;
+  }
+}
+
+/**
+ * Updates a single segment within the time. When the `hour12` flag is
+ * enabled, the `"hours"` value should be between `1` and `12` and the current
+ * period will be kept.
+ *
+ * @param time - The time to update
+ * @param segment - The {@link TimeSegment} to update
+ * @param value - The new segment value
+ * @param hour12 - Boolean if the time is displayed with a 12-hour clock
+ * @returns the updated time
+ * @remarks \@since 3.2.0
+ */
+export function setSegmentValue(
+  time: TimeValue,
+  segment: TimeSegment,
+  value: number,
+  hour12: boolean
+): TimeValue {
+  const isPM = time.hours >= 12;
+  switch (segment) {
+    case "hours":
+      return {
+        ...time,
+        hours: hour12 ? (value % 12) + (isPM ? 12 : 0) : value,
+      };
+    case "minutes":
+      return { ...time, minutes: value };
+    case "seconds":
+      return { ...time, seconds: value };
+    default:
+      return { ...time, hours: (time.hours % 12) + (value === 1 ? 12 : 0) };
+  }
+}
+
+/**
+ * Increments or decrements a single segment within the time. The segment's
+ * value will wrap around within its own range like a native
+ * `<input type="time" />` so incrementing `59` minutes will become `0`
+ * minutes without changing the hours.
+ *
+ * @param time - The time to update
+ * @param segment - The {@link TimeSegment} to update
+ * @param amount - The amount to increment (or decrement when negative) by
+ * @param hour12 - Boolean if the time is displayed with a 12-hour clock
+ * @returns the updated time
+ * @remarks \@since 3.2.0
+ */
+export function incrementTimeSegment(
+  time: TimeValue,
+  segment: TimeSegment,
+  amount: number,
+  hour12: boolean
+): TimeValue {
+  const [min, max] = getSegmentRange(segment, hour12);
+  const size = max - min + 1;
+  const current = getSegmentValue(time, segment, hour12) - min;
+  const next = (((current + amount) % size) + size) % size;
+
+  return setSegmentValue(time, segment, next + min, hour12);
+}
@@ -1,4 +1,10 @@
-import { Dispatch, SetStateAction, useCallback, useState } from "react";
+import { Dispatch, SetStateAction, useCallback, useRef, useState } from "react";
+
+import {
+  FormFieldOptions,
+  FormFieldState,
+  useFormField,
+} from "../useFormField";
 
 type ChangeEventHandler = React.ChangeEventHandler<HTMLInputElement>;
 type SetChecked = Dispatch<SetStateAction<boolean>>;
@@ -11,25 +17,38 @@ type SetChecked = Dispatch<SetStateAction<boolean>>;
  * Changing this value will not update the state after initial render.
  * @param onChange - An optional change event handler to also call when the
  * checked state changes.
- * @returns a list containing the checked state, a change event handler, and
- * then a manual set checked action.
+ * @param fieldOptions - An optional `name`, `id`, and `validate` function
+ * to register the checked state with the parent form state.
+ * @returns a list containing the checked state, a change event handler, a
+ * manual set checked action, and then the {@link FormFieldState} which can be
+ * used to display the field's error message from the parent form state.
  */
 export function useChecked(
   defaultChecked: boolean | (() => boolean),
-  onChange?: ChangeEventHandler
-): [boolean, ChangeEventHandler, SetChecked] {
+  onChange?: ChangeEventHandler,
+  fieldOptions: FormFieldOptions<boolean> = {}
+): [boolean, ChangeEventHandler, SetChecked, FormFieldState] {
   const [checked, setChecked] = useState(defaultChecked);
+  const initialChecked = useRef(checked);
+  const fieldState = useFormField({
+    ...fieldOptions,
+    value: checked,
+    defaultValue: initialChecked.current,
+    reset: () => setChecked(initialChecked.current),
+  });
 
+  const { setTouched } = fieldState;
   const handleChange = useCallback<ChangeEventHandler>(
     (event) => {
       if (onChange) {
         onChange(event);
       }
 
+      setTouched();
       setChecked(event.currentTarget.checked);
     },
-    [onChange]
+    [onChange, setTouched]
   );
 
-  return [checked, handleChange, setChecked];
+  return [checked, handleChange, setChecked, fieldState];
 }
@@ -0,0 +1,202 @@
+import { useCallback, useEffect } from "react";
+import { useRefCache } from "@react-md/utils";
+
+import { FormFieldValidator, useFormStateContext } from "./useFormState";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface FormFieldOptions<V = unknown> {
+  /**
+   * The name of the field within the form's values. The field will only be
+   * registered with the parent form state when this is provided.
+   */
+  name?: string;
+
+  /**
+   * The id of the field's element so that it can be focused when it is the
+   * first field with an error after submitting.
+   */
+  id?: string;
+
+  /**
+   * An optional validator for the field. This can return a promise to
+   * validate the value asynchronously.
+   */
+  validate?: FormFieldValidator<V>;
+
+  /**
+   * An optional list of other field names that should re-run the `validate`
+   * function whenever their values change. This is useful for validators that
+   * depend on other values in the form like confirming a password.
+   */
+  dependencies?: readonly string[];
+}
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface FormFieldRegistrationOptions<V> extends FormFieldOptions<V> {
+  /**
+   * The current value for the field.
+   */
+  value: V;
+
+  /**
+   * The value to reset the field to.
+   */
+  defaultValue: V;
+
+  /**
+   * A function to reset the field's own state.
+   */
+  reset(): void;
+
+  /**
+   * An optional function that should run the field's own validation before
+   * submitting and return `true` if the field is valid.
+   */
+  checkValidity?(): boolean;
+
+  /**
+   * Boolean if the field has reported its own error. This is normally the
+   * constraint validation error for text fields.
+   */
+  error?: boolean;
+
+  /**
+   * The error message reported by the field itself.
+   */
+  errorMessage?: string;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface FormFieldState {
+  /**
+   * Boolean if the field has an error in the form state. This will always be
+   * `false` until the field has been touched.
+   */
+  error: boolean;
+
+  /**
+   * The error message from the form state. This will always be an empty
+   * string until the field has been touched.
+   */
+  errorMessage: string;
+  touched: boolean;
+  dirty: boolean;
+
+  /**
+   * Marks the field as touched. This should normally be called when the field
+   * is blurred.
+   */
+  setTouched(): void;
+}
+
+const noop = (): void => {
+  // do nothing
+};
+
+/**
+ * This hook is used to register a field with the form state from the nearest
+ * `Form` that was provided a `formState` prop. This is already used by the
+ * `useTextField`, `useNumberField`, `useChecked`, and `useSelectState` hooks,
+ * so you'll only need this hook for custom fields.
+ *
+ * Nothing will be registered if the `name` option was not provided or there
+ * is no parent form state.
+ *
+ * @param options - The {@link FormFieldRegistrationOptions}
+ * @returns the {@link FormFieldState}
+ * @remarks \@since 3.2.0
+ */
+export function useFormField<V>({
+  name,
+  id,
+  value,
+  defaultValue,
+  validate,
+  dependencies,
+  reset,
+  checkValidity,
+  error = false,
+  errorMessage = "",
+}: FormFieldRegistrationOptions<V>): FormFieldState {
+  const formState = useFormStateContext();
+  const register = formState?.register;
+  const setValue = formState?.setValue;
+  const setFieldError = formState?.setFieldError;
+  const cache = useRefCache({
+    defaultValue,
+    validate,
+    dependencies,
+    reset,
+    checkValidity,
+    error,
+  });
+
+  useEffect(() => {
+    if (!name || !register) {
+      return;
+    }
+
+    return register(name, {
+      id,
+      get defaultValue() {
+        return cache.current.defaultValue;
+      },
+      get dependencies() {
+        return cache.current.dependencies;
+      },
+      validate: (value, values) => cache.current.validate?.(value as V, values),
+      reset: () => cache.current.reset(),
+      checkValidity: () =>
+        cache.current.checkValidity?.() ?? !cache.current.error,
+    });
+    // disabled since useRefCache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [name, id, register]);
+
+  useEffect(() => {
+    if (name && setValue) {
+      setValue(name, value);
+    }
+  }, [name, value, setValue]);
+
+  useEffect(() => {
+    if (name && setFieldError) {
+      setFieldError(name, error, errorMessage);
+    }
+  }, [name, error, errorMessage, setFieldError]);
+
+  const formSetTouched = formState?.setTouched;
+  const setTouched = useCallback(() => {
+    if (name && formSetTouched) {
+      formSetTouched(name);
+    }
+  }, [name, formSetTouched]);
+
+  if (!name || !formState) {
+    return {
+      error: false,
+      errorMessage: "",
+      touched: false,
+      dirty: false,
+      setTouched: noop,
+    };
+  }
+
+  const touched = !!formState.touched[name];
+  const message = (touched && formState.errors[name]) || "";
+
+  return {
+    error: !!message,
+    errorMessage: message,
+    touched,
+    dirty: !!formState.dirty[name],
+    setTouched,
+  };
+}
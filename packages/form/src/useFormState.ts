@@ -0,0 +1,683 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useRefCache } from "@react-md/utils";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export type FormValues = Record<string, unknown>;
+
+/**
+ * A map of field names to error messages. A field is considered valid when
+ * its message is `undefined` or an empty string.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type FormErrors = Record<string, string | undefined>;
+
+/**
+ * A function that validates a single field's value and returns an error
+ * message. Async validators can return a promise that resolves with the error
+ * message instead.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type FormFieldValidator<V = unknown> = (
+  value: V,
+  values: FormValues
+) => string | undefined | Promise<string | undefined>;
+
+/**
+ * A function that validates all the values within the form at once. This is
+ * useful for validations that depend on multiple fields like confirming a
+ * password.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type FormValidator = (
+  values: FormValues
+) => FormErrors | Promise<FormErrors>;
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface FormFieldRegistration {
+  /**
+   * The id of the field's element so that it can be focused when it is the
+   * first field with an error after submitting.
+   */
+  id?: string;
+  defaultValue: unknown;
+  validate?: FormFieldValidator;
+
+  /**
+   * An optional list of other field names that should re-run this field's
+   * validator whenever their values change.
+   */
+  dependencies?: readonly string[];
+
+  /**
+   * A function that should reset the field's own state back to the default
+   * value.
+   */
+  reset(): void;
+
+  /**
+   * An optional function that should run the field's own validation (like the
+   * constraint validation api) before the form is submitted. This should
+   * return `false` when the field is invalid since the field's reported error
+   * will not be available until the next render.
+   */
+  checkValidity?(): boolean;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface FormStateOptions {
+  /**
+   * An optional form-level validator that will be run while submitting and
+   * after each change once the form has been submitted.
+   */
+  validate?: FormValidator;
+
+  /**
+   * The function to call with all the values once the form has been submitted
+   * and there are no errors. The `submitting` state will be `true` until the
+   * returned promise resolves. If this throws or the returned promise rejects,
+   * the error will be available as the `submitError`.
+   */
+  onSubmit?(values: FormValues): void | Promise<void>;
+
+  /**
+   * An optional function to call after the form has been reset.
+   */
+  onReset?(): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface FormState {
+  values: FormValues;
+
+  /**
+   * All the current error messages for each field. This will include errors
+   * reported by the field itself, the field's validator, and the form-level
+   * validator in that order.
+   */
+  errors: FormErrors;
+  touched: Readonly<Record<string, boolean>>;
+  dirty: Readonly<Record<string, boolean>>;
+
+  /**
+   * Boolean if any field's value is different than its default value.
+   */
+  isDirty: boolean;
+
+  /**
+   * Boolean if there are no errors within the form.
+   */
+  isValid: boolean;
+
+  /**
+   * Boolean if there are any pending async validators.
+   */
+  validating: boolean;
+
+  /**
+   * Boolean if the `onSubmit` promise is pending.
+   */
+  submitting: boolean;
+
+  /**
+   * Boolean if the form has attempted to be submitted at least once since the
+   * last reset.
+   */
+  submitted: boolean;
+
+  /**
+   * The error that was thrown by the `onSubmit` or form-level `validate`
+   * options after the form has been submitted. This will be cleared when the
+   * form is submitted again or reset.
+   */
+  submitError: unknown;
+
+  /**
+   * Registers a field with the form and returns a function to unregister it.
+   * You'll normally want to use the `useFormField` hook instead.
+   */
+  register(name: string, registration: FormFieldRegistration): () => void;
+  setValue(name: string, value: unknown): void;
+  setTouched(name: string, touched?: boolean): void;
+
+  /**
+   * Sets the error reported by the field itself. The field is considered
+   * invalid while the `error` is `true` even if there is no error message yet.
+   */
+  setFieldError(name: string, error: boolean, errorMessage?: string): void;
+
+  /**
+   * Runs all the validators and resolves with `true` if the form is valid. The
+   * returned promise will reject if the form-level validator throws.
+   */
+  validate(): Promise<boolean>;
+
+  /**
+   * Marks all the fields as touched and validates the form. If the form is
+   * valid, the `onSubmit` option will be called. Otherwise, the first field
+   * with an error will be focused.
+   *
+   * The returned promise will never reject since any errors will be stored as
+   * the `submitError` instead.
+   */
+  submit(): Promise<void>;
+
+  /**
+   * Resets all the fields back to their default values and clears all the
+   * errors and touched states.
+   */
+  reset(): void;
+}
+
+interface FieldError {
+  error: boolean;
+  errorMessage: string;
+}
+
+interface ValidationState {
+  fieldErrors: Record<string, FieldError>;
+  validatorErrors: FormErrors;
+  formErrors: FormErrors;
+}
+
+const INITIAL_VALIDATION_STATE: ValidationState = {
+  fieldErrors: {},
+  validatorErrors: {},
+  formErrors: {},
+};
+
+/**
+ * @internal
+ */
+export const isPromise = <T>(value: unknown): value is Promise<T> =>
+  !!value && typeof (value as Promise<T>).then === "function";
+
+const noop = (): void => {
+  // do nothing
+};
+
+/**
+ * Converts an error thrown by a field's validator into an error message so
+ * that the field is considered invalid.
+ */
+const getThrownMessage = (error: unknown): string =>
+  (error instanceof Error && error.message) || `${error}`;
+
+/**
+ * Runs a field's validator and converts any thrown errors or rejected
+ * promises into an error message.
+ *
+ * @internal
+ * @remarks \@since 3.2.0
+ */
+export function runFieldValidator<V>(
+  validate: FormFieldValidator<V>,
+  value: V,
+  values: FormValues
+): string | undefined | Promise<string | undefined> {
+  try {
+    const validation = validate(value, values);
+    return isPromise<string | undefined>(validation)
+      ? validation.then(undefined, getThrownMessage)
+      : validation;
+  } catch (error) {
+    return getThrownMessage(error);
+  }
+}
+
+/**
+ * @internal
+ */
+export const FormStateContext = createContext<FormState | null>(null);
+
+/**
+ * Gets the `FormState` from the nearest `Form` that was provided a
+ * `formState` prop. This will be `null` if there is no parent form state.
+ *
+ * @returns the {@link FormState} or null
+ * @remarks \@since 3.2.0
+ */
+export function useFormStateContext(): FormState | null {
+  return useContext(FormStateContext);
+}
+
+/**
+ * Orders the field names by their element's position in the DOM so that the
+ * first errored field can be focused.
+ */
+const getDocumentOrder = (
+  names: readonly string[],
+  fields: ReadonlyMap<string, FormFieldRegistration>
+): readonly string[] => {
+  const getElement = (name: string): HTMLElement | null => {
+    const { id } = fields.get(name) || {};
+    return id ? document.getElementById(id) : null;
+  };
+
+  return names.slice().sort((a, b) => {
+    const elementA = getElement(a);
+    const elementB = getElement(b);
+    if (!elementA || !elementB) {
+      return 0;
+    }
+
+    return elementA.compareDocumentPosition(elementB) &
+      Node.DOCUMENT_POSITION_FOLLOWING
+      ? -1
+      : 1;
+  });
+};
+
+/**
+ * This hook is used to manage the state of an entire form by registering the
+ * fields created with the `useTextField`, `useNumberField`, `useChecked`, and
+ * `useSelectState` hooks (with a `name` option) or the `useFormField` hook.
+ * The returned state should be provided to the `Form` component's `formState`
+ * prop so that the fields can register themselves.
+ *
+ * Example:
+ *
+ * ```tsx
+ * function SignUp(): ReactElement {
+ *   const formState = useFormState({
+ *     validate: ({ password, confirm }) => ({
+ *       confirm: password !== confirm ? "Passwords do not match" : undefined,
+ *     }),
+ *     onSubmit: (values) => api.signUp(values),
+ *   });
+ *
+ *   return (
+ *     <Form formState={formState}>
+ *       <EmailField />
+ *       <PasswordFields />
+ *       <Button type="submit" disabled={formState.submitting}>
+ *         Sign Up
+ *       </Button>
+ *     </Form>
+ *   );
+ * }
+ * ```
+ *
+ * @param options - The {@link FormStateOptions}
+ * @returns the {@link FormState}
+ * @remarks \@since 3.2.0
+ */
+export function useFormState({
+  validate: formValidator,
+  onSubmit = noop,
+  onReset = noop,
+}: FormStateOptions = {}): FormState {
+  const fields = useRef(new Map<string, FormFieldRegistration>());
+  const valuesRef = useRef<FormValues>({});
+  const [values, setValues] = useState<FormValues>({});
+  const [touched, setTouchedState] = useState<Record<string, boolean>>({});
+  const [validation, setValidation] = useState(INITIAL_VALIDATION_STATE);
+  const [pending, setPending] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [submitError, setSubmitError] = useState<unknown>();
+  const submittedRef = useRef(false);
+  const validationIds = useRef<Record<string, number>>({});
+  const cache = useRefCache({ formValidator, onSubmit, onReset });
+
+  const trackPending = useCallback(<T>(promise: Promise<T>): Promise<T> => {
+    setPending((prevPending) => prevPending + 1);
+    const done = (): void => setPending((prevPending) => prevPending - 1);
+    promise.then(done, done);
+
+    return promise;
+  }, []);
+
+  /**
+   * Runs the validator for a single field and resolves with the error message.
+   * Only the latest validation result will be stored for each field so that
+   * slow async validators can't override newer results.
+   */
+  const validateField = useCallback(
+    async (name: string): Promise<string | undefined> => {
+      const field = fields.current.get(name);
+      if (!field?.validate) {
+        return undefined;
+      }
+
+      const validationId = (validationIds.current[name] || 0) + 1;
+      validationIds.current[name] = validationId;
+
+      const validation = runFieldValidator(
+        field.validate,
+        valuesRef.current[name],
+        valuesRef.current
+      );
+      const result = isPromise<string | undefined>(validation)
+        ? await trackPending(validation)
+        : validation;
+
+      if (validationIds.current[name] === validationId) {
+        setValidation((prevValidation) => ({
+          ...prevValidation,
+          validatorErrors: {
+            ...prevValidation.validatorErrors,
+            [name]: result || undefined,
+          },
+        }));
+      }
+
+      return result || undefined;
+    },
+    [trackPending]
+  );
+
+  const validateForm = useCallback(async (): Promise<FormErrors> => {
+    const { formValidator } = cache.current;
+    if (!formValidator) {
+      return {};
+    }
+
+    const validationId = (validationIds.current[""] || 0) + 1;
+    validationIds.current[""] = validationId;
+
+    const validation = formValidator(valuesRef.current);
+    const formErrors = isPromise<FormErrors>(validation)
+      ? await trackPending(validation)
+      : validation;
+
+    if (validationIds.current[""] === validationId) {
+      setValidation((prevValidation) => ({
+        ...prevValidation,
+        formErrors,
+      }));
+    }
+
+    return formErrors;
+    // disabled since useRefCache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trackPending]);
+
+  const register = useCallback(
+    (name: string, registration: FormFieldRegistration) => {
+      fields.current.set(name, registration);
+      valuesRef.current = {
+        ...valuesRef.current,
+        [name]: registration.defaultValue,
+      };
+      setValues(valuesRef.current);
+      validateField(name);
+
+      return () => {
+        if (fields.current.get(name) !== registration) {
+          return;
+        }
+
+        fields.current.delete(name);
+        const { [name]: _value, ...remainingValues } = valuesRef.current;
+        valuesRef.current = remainingValues;
+        setValues(remainingValues);
+        setValidation((prevValidation) => {
+          const { [name]: _fieldError, ...fieldErrors } =
+            prevValidation.fieldErrors;
+          const { [name]: _validatorError, ...validatorErrors } =
+            prevValidation.validatorErrors;
+
+          return { ...prevValidation, fieldErrors, validatorErrors };
+        });
+      };
+    },
+    [validateField]
+  );
+
+  const setValue = useCallback(
+    (name: string, value: unknown) => {
+      if (valuesRef.current[name] === value) {
+        return;
+      }
+
+      valuesRef.current = { ...valuesRef.current, [name]: value };
+      setValues(valuesRef.current);
+      validateField(name);
+      fields.current.forEach(({ dependencies }, fieldName) => {
+        if (dependencies?.includes(name)) {
+          validateField(fieldName);
+        }
+      });
+      if (submittedRef.current) {
+        validateForm().catch(setSubmitError);
+      }
+    },
+    [validateField, validateForm]
+  );
+
+  const setTouched = useCallback((name: string, nextTouched = true) => {
+    setTouchedState((prevTouched) => {
+      if (!!prevTouched[name] === nextTouched) {
+        return prevTouched;
+      }
+
+      return { ...prevTouched, [name]: nextTouched };
+    });
+  }, []);
+
+  const setFieldError = useCallback(
+    (name: string, error: boolean, errorMessage = "") => {
+      setValidation((prevValidation) => {
+        const prevError = prevValidation.fieldErrors[name];
+        if (
+          prevError?.error === error &&
+          prevError.errorMessage === errorMessage
+        ) {
+          return prevValidation;
+        }
+
+        return {
+          ...prevValidation,
+          fieldErrors: {
+            ...prevValidation.fieldErrors,
+            [name]: { error, errorMessage },
+          },
+        };
+      });
+    },
+    []
+  );
+
+  const { fieldErrors, validatorErrors, formErrors } = validation;
+  const errors = useMemo(() => {
+    const errors: FormErrors = {};
+    const names = new Set([
+      ...Object.keys(fieldErrors),
+      ...Object.keys(validatorErrors),
+      ...Object.keys(formErrors),
+    ]);
+    names.forEach((name) => {
+      const message =
+        fieldErrors[name]?.errorMessage ||
+        validatorErrors[name] ||
+        formErrors[name];
+      if (message) {
+        errors[name] = message;
+      }
+    });
+
+    return errors;
+  }, [fieldErrors, validatorErrors, formErrors]);
+
+  const dirty = useMemo(() => {
+    const dirty: Record<string, boolean> = {};
+    fields.current.forEach(({ defaultValue }, name) => {
+      dirty[name] = values[name] !== defaultValue;
+    });
+
+    return dirty;
+  }, [values]);
+
+  const isValid =
+    !Object.keys(errors).length &&
+    !Object.values(fieldErrors).some(({ error }) => error);
+
+  // the field errors are reported through state updates, so a ref is required
+  // for fields that do not implement `checkValidity`
+  const fieldErrorsRef = useRef(fieldErrors);
+  fieldErrorsRef.current = fieldErrors;
+
+  /**
+   * Runs all the validators and resolves with the names of the fields that
+   * have errors.
+   */
+  const getErroredFields = useCallback(async (): Promise<string[]> => {
+    const names = Array.from(fields.current.keys());
+    // the field's own error will not be reported until the next render, so the
+    // returned validity must be used instead
+    const invalid = names.map((name) => {
+      const field = fields.current.get(name);
+      return field?.checkValidity
+        ? !field.checkValidity()
+        : !!fieldErrorsRef.current[name]?.error;
+    });
+
+    const [results, formErrors] = await Promise.all([
+      Promise.all(names.map((name) => validateField(name))),
+      validateForm(),
+    ]);
+
+    const erroredFields = names.filter(
+      (name, i) => invalid[i] || results[i] || formErrors[name]
+    );
+    Object.keys(formErrors).forEach((name) => {
+      if (formErrors[name] && !erroredFields.includes(name)) {
+        erroredFields.push(name);
+      }
+    });
+
+    return erroredFields;
+  }, [validateField, validateForm]);
+
+  const validate = useCallback(
+    async (): Promise<boolean> => !(await getErroredFields()).length,
+    [getErroredFields]
+  );
+
+  const submit = useCallback(async (): Promise<void> => {
+    submittedRef.current = true;
+    setSubmitted(true);
+    setSubmitError(undefined);
+    setTouchedState(
+      Array.from(fields.current.keys()).reduce<Record<string, boolean>>(
+        (allTouched, name) => {
+          allTouched[name] = true;
+          return allTouched;
+        },
+        {}
+      )
+    );
+
+    let erroredFields: string[];
+    try {
+      erroredFields = await getErroredFields();
+    } catch (error) {
+      setSubmitError(error);
+      return;
+    }
+
+    if (erroredFields.length) {
+      const [firstName] = getDocumentOrder(erroredFields, fields.current);
+      const id = fields.current.get(firstName)?.id;
+      if (id) {
+        document.getElementById(id)?.focus();
+      }
+
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await cache.current.onSubmit(valuesRef.current);
+    } catch (error) {
+      setSubmitError(error);
+    } finally {
+      setSubmitting(false);
+    }
+    // disabled since useRefCache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [getErroredFields]);
+
+  const reset = useCallback(() => {
+    fields.current.forEach((field) => field.reset());
+    const defaultValues: FormValues = {};
+    fields.current.forEach(({ defaultValue }, name) => {
+      defaultValues[name] = defaultValue;
+    });
+
+    validationIds.current = {};
+    valuesRef.current = defaultValues;
+    submittedRef.current = false;
+    setValues(defaultValues);
+    setTouchedState({});
+    setValidation(INITIAL_VALIDATION_STATE);
+    setSubmitted(false);
+    setSubmitError(undefined);
+    cache.current.onReset();
+    // disabled since useRefCache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return useMemo(
+    () => ({
+      values,
+      errors,
+      touched,
+      dirty,
+      isDirty: Object.values(dirty).some(Boolean),
+      isValid,
+      validating: pending > 0,
+      submitting,
+      submitted,
+      submitError,
+      register,
+      setValue,
+      setTouched,
+      setFieldError,
+      validate,
+      submit,
+      reset,
+    }),
+    [
+      values,
+      errors,
+      touched,
+      dirty,
+      isValid,
+      pending,
+      submitting,
+      submitted,
+      submitError,
+      register,
+      setValue,
+      setTouched,
+      setFieldError,
+      validate,
+      submit,
+      reset,
+    ]
+  );
+}
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  FormStateContext.displayName = "FormState";
+}
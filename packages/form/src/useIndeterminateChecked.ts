@@ -191,6 +191,47 @@ export interface CombinedIndeterminateCheckedHookReturnValue<V extends string>
   getProps(value: V): ProvidedCombinedIndeterminateControlledProps<V>;
 }
 
+/**
+ * @param checkedValues - The values that are currently checked. This should
+ * only contain values from the `values` list.
+ * @param values - All the values that can be checked.
+ * @returns the checked and indeterminate states for the root checkbox
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function getIndeterminateState<V>(
+  checkedValues: readonly V[],
+  values: readonly V[]
+): Pick<BaseProvidedIndeterminateCheckboxProps, "checked" | "indeterminate"> {
+  const checked = checkedValues.length > 0;
+
+  return {
+    checked,
+    indeterminate: checked && checkedValues.length < values.length,
+  };
+}
+
+/**
+ * @param checkedValues - The values that are currently checked. This should
+ * only contain values from the `values` list.
+ * @param values - All the values that can be checked.
+ * @returns every value when the root checkbox is unchecked or indeterminate,
+ * otherwise an empty list
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function getNextIndeterminateValues<V>(
+  checkedValues: readonly V[],
+  values: readonly V[]
+): readonly V[] {
+  const { checked, indeterminate } = getIndeterminateState(
+    checkedValues,
+    values
+  );
+
+  return !checked || indeterminate ? values : [];
+}
+
 export function useIndeterminateChecked<V extends string>(
   values: readonly V[],
   options?: IndeterminateCheckedHookOptions<V> & { menu?: false }
@@ -338,8 +379,10 @@ export function useIndeterminateChecked<V extends string>(
 ): CombinedIndeterminateCheckedHookReturnValue<V> {
   const [checkedValues, setCheckedValues] =
     useState<readonly V[]>(defaultCheckedValues);
-  const checked = checkedValues.length > 0;
-  const indeterminate = checked && checkedValues.length < values.length;
+  const { checked, indeterminate } = getIndeterminateState(
+    checkedValues,
+    values
+  );
   const updateCheckedValues = (values: readonly V[]): void => {
     propOnChange?.(values);
     setCheckedValues(values);
@@ -350,9 +393,7 @@ export function useIndeterminateChecked<V extends string>(
     checked,
     indeterminate,
     [menu ? "onCheckedChange" : "onChange"]: () => {
-      updateCheckedValues(
-        checkedValues.length === 0 || indeterminate ? values : []
-      );
+      updateCheckedValues(getNextIndeterminateValues(checkedValues, values));
     },
   };
 
@@ -1,23 +1,45 @@
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
+
+import { FormFieldOptions, FormFieldState, useFormField } from "./useFormField";
 
 type DefaultValue<T extends string> = T | (() => T);
-type ReturnValue<T extends string> = [T, (nextValue: string) => void];
+type ReturnValue<T extends string> = [
+  T,
+  (nextValue: string) => void,
+  FormFieldState
+];
 
 /**
  * This is a simple hook that will allow you to "strongly" type a `Select`
  * component's value since the `onChange` handler only returns a `string`.
  *
  * @param defaultValue - The default value to use
- * @returns an ordered list containing the current value followed by the
- * dispatch function to update the state.
+ * @param fieldOptions - An optional `name`, `id`, and `validate` function
+ * to register the value with the parent form state.
+ * @returns an ordered list containing the current value, the dispatch function
+ * to update the state, and then the {@link FormFieldState} which can be used
+ * to display the field's error message from the parent form state.
  */
 export function useSelectState<T extends string>(
-  defaultValue: DefaultValue<T>
+  defaultValue: DefaultValue<T>,
+  fieldOptions: FormFieldOptions<T> = {}
 ): ReturnValue<T> {
   const [value, setValue] = useState<T>(defaultValue);
-  const setTypedValue = useCallback((nextValue: string) => {
-    setValue(nextValue as T);
-  }, []);
+  const initialValue = useRef(value);
+  const fieldState = useFormField({
+    ...fieldOptions,
+    value,
+    defaultValue: initialValue.current,
+    reset: () => setValue(initialValue.current),
+  });
+  const { setTouched } = fieldState;
+  const setTypedValue = useCallback(
+    (nextValue: string) => {
+      setTouched();
+      setValue(nextValue as T);
+    },
+    [setTouched]
+  );
 
-  return [value, setTypedValue];
+  return [value, setTypedValue, fieldState];
 }
@@ -14,11 +14,33 @@ export interface ConfigurableIcons {
    */
   back?: ReactNode;
 
+  /**
+   * The general icon to use for date pickers.
+   *
+   * @remarks \@since 3.2.0
+   */
+  calendar?: ReactNode;
+
   /**
    * The general icon to use for checkboxes.
    */
   checkbox?: ReactNode;
 
+  /**
+   * The general icon to use for time pickers.
+   *
+   * @remarks \@since 3.2.0
+   */
+  clock?: ReactNode;
+
+  /**
+   * The general icon to use for closing or removing content like closable
+   * tabs.
+   *
+   * @remarks \@since 3.2.0
+   */
+  close?: ReactNode;
+
   /**
    * The general icon to use for dropdown menus or content that expands
    * vertically in a new material instead of inline like the `expander` icon.
@@ -88,7 +110,10 @@ export type ConfiguredIcons = Required<ConfigurableIcons>;
 
 const DEFAULT_ICONS: ConfiguredIcons = {
   back: <FontIcon>keyboard_arrow_left</FontIcon>,
+  calendar: <FontIcon>event</FontIcon>,
   checkbox: <FontIcon>check_box</FontIcon>,
+  clock: <FontIcon>schedule</FontIcon>,
+  close: <FontIcon>close</FontIcon>,
   download: <FontIcon>file_download</FontIcon>,
   dropdown: <FontIcon>arrow_drop_down</FontIcon>,
   error: <FontIcon>error_outline</FontIcon>,
@@ -148,7 +173,10 @@ export interface IconProviderProps extends ConfigurableIcons {
 export function IconProvider({
   children,
   back = DEFAULT_ICONS.back,
+  calendar = DEFAULT_ICONS.calendar,
   checkbox = DEFAULT_ICONS.checkbox,
+  clock = DEFAULT_ICONS.clock,
+  close = DEFAULT_ICONS.close,
   download = DEFAULT_ICONS.download,
   dropdown = DEFAULT_ICONS.dropdown,
   expander = DEFAULT_ICONS.expander,
@@ -164,7 +192,10 @@ export function IconProvider({
   const value = useMemo(
     () => ({
       back,
+      calendar,
       checkbox,
+      clock,
+      close,
       download,
       dropdown,
       error,
@@ -179,7 +210,10 @@ export function IconProvider({
     }),
     [
       back,
+      calendar,
       checkbox,
+      clock,
+      close,
       download,
       dropdown,
       error,
@@ -205,7 +239,10 @@ if (process.env.NODE_ENV !== "production") {
     IconProvider.propTypes = {
       children: PropTypes.node,
       back: PropTypes.node,
+      calendar: PropTypes.node,
       checkbox: PropTypes.node,
+      clock: PropTypes.node,
+      close: PropTypes.node,
       download: PropTypes.node,
       dropdown: PropTypes.node,
       error: PropTypes.node,
@@ -166,7 +166,10 @@ if (process.env.NODE_ENV !== "production") {
       disableProgrammaticRipple: PropTypes.bool,
       icons: PropTypes.shape({
         back: PropTypes.node,
+        calendar: PropTypes.node,
         checkbox: PropTypes.node,
+        clock: PropTypes.node,
+        close: PropTypes.node,
         expander: PropTypes.node,
         dropdown: PropTypes.node,
         download: PropTypes.node,
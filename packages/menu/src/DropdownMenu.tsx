@@ -58,6 +58,9 @@ export interface BaseDropdownMenuProps
   /**
    * A list of menu items to render. Each item will be passed to the
    * `menuItemRenderer` function.
+   *
+   * Any item that is an object with its own `items` will be rendered as a
+   * `DropdownMenuItem` so that menus can be nested declaratively.
    */
   items: readonly ValidMenuItem[];
 
@@ -160,7 +163,9 @@ export const DropdownMenu = forwardRef<HTMLButtonElement, DropdownMenuProps>(
             visible,
             defaultFocus,
             onRequestClose: hide,
-            children: items.map((item, i) => itemRenderer(item, `item-${i}`)),
+            children: items.map((item, i) =>
+              itemRenderer(item, `item-${i}`, `${id}-item-${i + 1}`)
+            ),
             portal,
             portalInto,
             portalIntoId,
@@ -1,11 +1,19 @@
 import React, { forwardRef, ReactNode } from "react";
 import { IconRotator, useIcon } from "@react-md/icon";
-import { BELOW_INNER_RIGHT_ANCHOR, TOP_RIGHT_ANCHOR } from "@react-md/utils";
+import {
+  BELOW_INNER_LEFT_ANCHOR,
+  BELOW_INNER_RIGHT_ANCHOR,
+  TOP_LEFT_ANCHOR,
+  TOP_RIGHT_ANCHOR,
+  useDir,
+} from "@react-md/utils";
 
 import { defaultMenuItemRenderer } from "./defaultMenuItemRenderer";
 import { defaultMenuRenderer } from "./defaultMenuRenderer";
 import { BaseDropdownMenuProps } from "./DropdownMenu";
 import { MenuItem, MenuItemProps } from "./MenuItem";
+import { useOrientation } from "./Orientation";
+import { useHoverIntent } from "./useHoverIntent";
 import { useItemVisibility } from "./useItemVisibility";
 
 export interface DropdownMenuItemProps
@@ -31,10 +39,41 @@ export interface DropdownMenuItemProps
    * be closed.
    */
   disableEscapeCascade?: boolean;
+
+  /**
+   * The amount of time in milliseconds the menu item must be hovered before
+   * the nested menu becomes visible.
+   *
+   * @remarks \@since 3.2.0
+   */
+  hoverTimeout?: number;
+
+  /**
+   * The amount of time in milliseconds to wait before hiding the nested menu
+   * while the pointer is moving over other menu items towards the nested menu.
+   * The nested menu will be hidden immediately once the pointer moves away
+   * from the nested menu.
+   *
+   * @remarks \@since 3.2.0
+   */
+  leaveTimeout?: number;
+
+  /**
+   * Boolean if the nested menu should no longer become visible by hovering
+   * the menu item and only be toggled by clicks or the keyboard.
+   *
+   * @remarks \@since 3.2.0
+   */
+  disableHoverIntent?: boolean;
 }
 
 /**
  * The `DropdownMenuItem` component is used to be able to render nested dropdown menus.
+ *
+ * The nested menu can be opened by clicking the menu item, hovering the menu
+ * item for the `hoverTimeout`, or pressing the arrow key that points towards
+ * the nested menu (`ArrowRight`, or `ArrowLeft` in RTL). The opposite arrow
+ * key will close the nested menu and return focus to this menu item.
  */
 export const DropdownMenuItem = forwardRef<
   HTMLLIElement,
@@ -43,6 +82,8 @@ export const DropdownMenuItem = forwardRef<
   {
     onClick: propOnClick,
     onKeyDown: propOnKeyDown,
+    onMouseEnter: propOnMouseEnter,
+    onMouseLeave: propOnMouseLeave,
     children,
     anchor: propAnchor,
     menuLabel,
@@ -62,20 +103,54 @@ export const DropdownMenuItem = forwardRef<
     closeOnResize = false,
     disableEscapeCascade = false,
     disableDropdownIcon = false,
+    hoverTimeout = 150,
+    leaveTimeout = 300,
+    disableHoverIntent = false,
     ...props
   },
   ref
 ) {
-  const { id } = props;
+  const { id, disabled = false } = props;
+  const menuId = `${id}-menu`;
   const dropdownIcon = useIcon("forward", propDropdownIcon);
+  const isRTL = useDir().dir === "rtl";
+  const isParentHorizontal = useOrientation() === "horizontal";
 
-  const { visible, hide, onClick, onKeyDown, defaultFocus } = useItemVisibility(
-    {
-      onClick: propOnClick,
-      onKeyDown: propOnKeyDown,
-      onVisibilityChange,
-    }
-  );
+  const {
+    visible,
+    show,
+    hide,
+    onClick: handleClick,
+    onKeyDown: handleKeyDown,
+    defaultFocus,
+  } = useItemVisibility({
+    horizontal: isParentHorizontal,
+    onClick: propOnClick,
+    onKeyDown: propOnKeyDown,
+    onVisibilityChange,
+  });
+
+  const { onMouseEnter, onMouseLeave, cancel } = useHoverIntent({
+    id,
+    menuId,
+    visible,
+    disabled: disabled || disableHoverIntent,
+    horizontal: isParentHorizontal,
+    hoverTimeout,
+    leaveTimeout,
+    show,
+    hide,
+    onMouseEnter: propOnMouseEnter,
+    onMouseLeave: propOnMouseLeave,
+  });
+  const onClick = (event: React.MouseEvent<HTMLLIElement>): void => {
+    cancel();
+    handleClick?.(event);
+  };
+  const onKeyDown = (event: React.KeyboardEvent<HTMLLIElement>): void => {
+    cancel();
+    handleKeyDown?.(event);
+  };
 
   let labelledBy = menuLabelledBy;
   if (!menuLabel && !menuLabelledBy) {
@@ -88,7 +163,9 @@ export const DropdownMenuItem = forwardRef<
   }
 
   let anchor = propAnchor;
-  if (!anchor) {
+  if (!anchor && isRTL) {
+    anchor = horizontal ? BELOW_INNER_LEFT_ANCHOR : TOP_LEFT_ANCHOR;
+  } else if (!anchor) {
     anchor = horizontal ? BELOW_INNER_RIGHT_ANCHOR : TOP_RIGHT_ANCHOR;
   }
 
@@ -102,6 +179,8 @@ export const DropdownMenuItem = forwardRef<
         role="button"
         onClick={onClick}
         onKeyDown={onKeyDown}
+        onMouseEnter={onMouseEnter}
+        onMouseLeave={onMouseLeave}
         rightAddon={rightAddon}
       >
         {children}
@@ -112,7 +191,7 @@ export const DropdownMenuItem = forwardRef<
           // ok to typecast since one of these two should be a string by this
           // line
           "aria-labelledby": labelledBy as string,
-          id: `${id}-menu`,
+          id: menuId,
           controlId: id,
           anchor,
           positionOptions,
@@ -122,7 +201,9 @@ export const DropdownMenuItem = forwardRef<
           visible,
           defaultFocus,
           onRequestClose: hide,
-          children: items.map((item, i) => itemRenderer(item, `item-${i}`)),
+          children: items.map((item, i) =>
+            itemRenderer(item, `item-${i}`, `${id}-item-${i + 1}`)
+          ),
           portal,
           portalInto,
           portalIntoId,
@@ -132,8 +213,13 @@ export const DropdownMenuItem = forwardRef<
               event.stopPropagation();
             }
 
-            if (!horizontal && event.key === "ArrowLeft") {
+            if (
+              !horizontal &&
+              event.key === (isRTL ? "ArrowRight" : "ArrowLeft")
+            ) {
+              event.preventDefault();
               hide();
+              document.getElementById(id)?.focus();
             }
           },
         },
@@ -160,6 +246,8 @@ if (process.env.NODE_ENV !== "production") {
       portalIntoId: PropTypes.string,
       onClick: PropTypes.func,
       onKeyDown: PropTypes.func,
+      onMouseEnter: PropTypes.func,
+      onMouseLeave: PropTypes.func,
       children: PropTypes.node,
       anchor: PropTypes.shape({
         x: PropTypes.oneOf([
@@ -199,6 +287,9 @@ if (process.env.NODE_ENV !== "production") {
       onVisibilityChange: PropTypes.func,
       disableDropdownIcon: PropTypes.bool,
       disableEscapeCascade: PropTypes.bool,
+      hoverTimeout: PropTypes.number,
+      leaveTimeout: PropTypes.number,
+      disableHoverIntent: PropTypes.bool,
       closeOnScroll: PropTypes.bool,
       closeOnResize: PropTypes.bool,
     };
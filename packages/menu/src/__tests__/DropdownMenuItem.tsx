@@ -0,0 +1,291 @@
+import React from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import { Dir } from "@react-md/utils";
+
+import { DropdownMenu } from "../DropdownMenu";
+import { isInSafeArea } from "../useHoverIntent";
+
+jest.useFakeTimers();
+
+const items = [
+  "Item 1",
+  {
+    children: "Share",
+    items: ["Email", { children: "More", items: ["Link", "QR Code"] }],
+  },
+  "Item 3",
+];
+
+const getMenu = (id: string): HTMLElement => {
+  const menu = document.getElementById(id);
+  if (!menu) {
+    throw new Error();
+  }
+
+  return menu;
+};
+
+// the menu items are focused in an animation frame
+const flushFocus = (): void => {
+  act(() => {
+    jest.runOnlyPendingTimers();
+  });
+};
+
+const menuRect = { left: 200, right: 300, top: 0, bottom: 100 } as DOMRect;
+
+describe("DropdownMenuItem", () => {
+  it("should render items with nested items as nested dropdown menus", () => {
+    const { getByRole } = render(
+      <DropdownMenu id="dropdown" items={items}>
+        Dropdown
+      </DropdownMenu>
+    );
+
+    fireEvent.click(getByRole("button", { name: "Dropdown" }));
+    const share = getByRole("button", { name: "Share" });
+    expect(share).toHaveAttribute("id", "dropdown-item-2");
+    expect(share).toHaveAttribute("aria-haspopup", "menu");
+
+    fireEvent.click(share);
+    expect(share).toHaveAttribute("aria-expanded", "true");
+    expect(getMenu("dropdown-item-2-menu")).toHaveAttribute(
+      "aria-labelledby",
+      "dropdown-item-2"
+    );
+    expect(getByRole("button", { name: "More" })).toHaveAttribute(
+      "id",
+      "dropdown-item-2-item-2"
+    );
+  });
+
+  it("should open and close the nested menus with the arrow keys and return focus to the parent item", () => {
+    const { getByRole } = render(
+      <DropdownMenu id="dropdown" items={items}>
+        Dropdown
+      </DropdownMenu>
+    );
+
+    fireEvent.click(getByRole("button", { name: "Dropdown" }));
+    const share = getByRole("button", { name: "Share" });
+    share.focus();
+
+    // the ArrowLeft key should not open the nested menu in LTR
+    fireEvent.keyDown(share, { key: "ArrowLeft" });
+    expect(share).not.toHaveAttribute("aria-expanded");
+
+    fireEvent.keyDown(share, { key: "ArrowRight" });
+    expect(share).toHaveAttribute("aria-expanded", "true");
+    flushFocus();
+    const email = getByRole("menuitem", { name: "Email" });
+    expect(document.activeElement).toBe(email);
+
+    fireEvent.keyDown(email, { key: "ArrowLeft" });
+    expect(share).not.toHaveAttribute("aria-expanded");
+    expect(document.activeElement).toBe(share);
+  });
+
+  it("should swap the arrow keys in RTL", () => {
+    const { getByRole } = render(
+      <Dir defaultDir="rtl">
+        <div>
+          <DropdownMenu id="dropdown" items={items}>
+            Dropdown
+          </DropdownMenu>
+        </div>
+      </Dir>
+    );
+
+    fireEvent.click(getByRole("button", { name: "Dropdown" }));
+    const share = getByRole("button", { name: "Share" });
+    share.focus();
+
+    fireEvent.keyDown(share, { key: "ArrowRight" });
+    expect(share).not.toHaveAttribute("aria-expanded");
+
+    fireEvent.keyDown(share, { key: "ArrowLeft" });
+    expect(share).toHaveAttribute("aria-expanded", "true");
+
+    const more = getByRole("button", { name: "More" });
+    more.focus();
+    fireEvent.keyDown(more, { key: "ArrowLeft" });
+    expect(more).toHaveAttribute("aria-expanded", "true");
+
+    fireEvent.keyDown(getByRole("menuitem", { name: "Link" }), {
+      key: "ArrowRight",
+    });
+    expect(more).not.toHaveAttribute("aria-expanded");
+    expect(share).toHaveAttribute("aria-expanded", "true");
+    expect(document.activeElement).toBe(more);
+  });
+
+  it("should open the nested menu after hovering for the hoverTimeout", () => {
+    const { getByRole } = render(
+      <DropdownMenu id="dropdown" items={items}>
+        Dropdown
+      </DropdownMenu>
+    );
+
+    fireEvent.click(getByRole("button", { name: "Dropdown" }));
+    const share = getByRole("button", { name: "Share" });
+
+    fireEvent.mouseEnter(share);
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(share).not.toHaveAttribute("aria-expanded");
+
+    fireEvent.mouseLeave(share);
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(share).not.toHaveAttribute("aria-expanded");
+
+    fireEvent.mouseEnter(share);
+    act(() => {
+      jest.advanceTimersByTime(150);
+    });
+    expect(share).toHaveAttribute("aria-expanded", "true");
+    flushFocus();
+    expect(document.activeElement).toBe(
+      getByRole("menuitem", { name: "Email" })
+    );
+  });
+
+  it("should not open the nested menu on hover when disableHoverIntent is enabled", () => {
+    const { getByRole } = render(
+      <DropdownMenu
+        id="dropdown"
+        items={[
+          { children: "Share", items: ["Email"], disableHoverIntent: true },
+        ]}
+      >
+        Dropdown
+      </DropdownMenu>
+    );
+
+    fireEvent.click(getByRole("button", { name: "Dropdown" }));
+    const share = getByRole("button", { name: "Share" });
+    fireEvent.mouseEnter(share);
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(share).not.toHaveAttribute("aria-expanded");
+  });
+
+  it("should keep the nested menu visible while the pointer moves within the safe area", () => {
+    const { getByRole } = render(
+      <DropdownMenu id="dropdown" items={items}>
+        Dropdown
+      </DropdownMenu>
+    );
+
+    fireEvent.click(getByRole("button", { name: "Dropdown" }));
+    const share = getByRole("button", { name: "Share" });
+    fireEvent.click(share);
+    expect(share).toHaveAttribute("aria-expanded", "true");
+
+    const menu = getMenu("dropdown-item-2-menu");
+    menu.getBoundingClientRect = () => menuRect;
+
+    const item3 = getByRole("menuitem", { name: "Item 3" });
+    fireEvent.mouseMove(share, { clientX: 100, clientY: 40 });
+    fireEvent.mouseMove(item3, { clientX: 150, clientY: 50 });
+    expect(share).toHaveAttribute("aria-expanded", "true");
+
+    // moving into the nested menu should cancel the leave timer
+    fireEvent.mouseMove(menu, { clientX: 210, clientY: 50 });
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(share).toHaveAttribute("aria-expanded", "true");
+
+    fireEvent.mouseMove(share, { clientX: 100, clientY: 40 });
+    fireEvent.mouseMove(item3, { clientX: 150, clientY: 50 });
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(share).not.toHaveAttribute("aria-expanded");
+  });
+
+  it("should hide the nested menu immediately when the pointer moves away from the safe area", () => {
+    const { getByRole } = render(
+      <DropdownMenu id="dropdown" items={items}>
+        Dropdown
+      </DropdownMenu>
+    );
+
+    fireEvent.click(getByRole("button", { name: "Dropdown" }));
+    const share = getByRole("button", { name: "Share" });
+    fireEvent.click(share);
+
+    const menu = getMenu("dropdown-item-2-menu");
+    menu.getBoundingClientRect = () => menuRect;
+
+    fireEvent.mouseMove(share, { clientX: 100, clientY: 40 });
+    fireEvent.mouseMove(getByRole("menuitem", { name: "Item 1" }), {
+      clientX: 90,
+      clientY: 10,
+    });
+    expect(share).not.toHaveAttribute("aria-expanded");
+  });
+
+  it("should keep the nested menu visible while the pointer is within it when it is not portalled", () => {
+    const { getByRole } = render(
+      <DropdownMenu
+        id="dropdown"
+        items={[
+          "Item 1",
+          { children: "Share", items: ["Email", "Link"], portal: false },
+        ]}
+      >
+        Dropdown
+      </DropdownMenu>
+    );
+
+    fireEvent.click(getByRole("button", { name: "Dropdown" }));
+    const share = getByRole("button", { name: "Share" });
+    fireEvent.click(share);
+
+    const menu = getMenu("dropdown-item-2-menu");
+    menu.getBoundingClientRect = () => menuRect;
+    expect(menu.parentElement?.closest('[role="menu"]')).toBe(
+      getMenu("dropdown-menu")
+    );
+
+    fireEvent.mouseMove(share, { clientX: 100, clientY: 40 });
+    fireEvent.mouseMove(getByRole("menuitem", { name: "Link" }), {
+      clientX: 90,
+      clientY: 10,
+    });
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(share).toHaveAttribute("aria-expanded", "true");
+  });
+});
+
+describe("isInSafeArea", () => {
+  it("should check if the point is within the triangle between the previous point and the nearest edge of the menu", () => {
+    const previous = { x: 100, y: 40 };
+    expect(isInSafeArea({ x: 150, y: 50 }, previous, menuRect, false)).toBe(
+      true
+    );
+    expect(isInSafeArea({ x: 90, y: 50 }, previous, menuRect, false)).toBe(
+      false
+    );
+
+    const rtlPrevious = { x: 400, y: 40 };
+    expect(isInSafeArea({ x: 350, y: 50 }, rtlPrevious, menuRect, false)).toBe(
+      true
+    );
+
+    const belowRect = { left: 0, right: 200, top: 100, bottom: 200 } as DOMRect;
+    expect(
+      isInSafeArea({ x: 100, y: 80 }, { x: 100, y: 50 }, belowRect, true)
+    ).toBe(true);
+    expect(
+      isInSafeArea({ x: 100, y: 40 }, { x: 100, y: 50 }, belowRect, true)
+    ).toBe(false);
+  });
+});
@@ -1,17 +1,55 @@
 import React, { cloneElement, isValidElement, ReactNode } from "react";
 
+import { DropdownMenuItem, DropdownMenuItemProps } from "./DropdownMenuItem";
 import { MenuItem, MenuItemProps } from "./MenuItem";
 import { MenuItemLink, MenuItemLinkWithComponentProps } from "./MenuItemLink";
 import { MenuItemSeparator, MenuItemSeparatorProps } from "./MenuItemSeparator";
 
+/**
+ * A menu item that will render a nested menu with its `items` by using the
+ * `DropdownMenuItem` component. The `id` is optional since one will be
+ * generated from the parent menu if it was omitted.
+ *
+ * Example:
+ *
+ * ```tsx
+ * <DropdownMenu
+ *   id="file-menu"
+ *   items={[
+ *     "New",
+ *     {
+ *       children: "Share",
+ *       items: ["Email", "Copy link"],
+ *     },
+ *   ]}
+ * >
+ *   File
+ * </DropdownMenu>
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface NestedMenuItemProps extends Omit<DropdownMenuItemProps, "id"> {
+  id?: string;
+}
+
 export type ValidMenuItem =
   | ReactNode
   | MenuItemProps
+  | NestedMenuItemProps
   | (MenuItemSeparatorProps & { role: "separator" });
 
+/**
+ * @param item - The item to render
+ * @param key - The key to use for the item
+ * @param id - An id that can be used for items that require an id but did not
+ * provide one. This is currently only used for nested menus.
+ * @returns the rendered menu item
+ */
 export function defaultMenuItemRenderer(
   item: ValidMenuItem,
-  key: string
+  key: string,
+  id: string = key
 ): ReactNode {
   if (item !== 0 && !item) {
     return null;
@@ -34,6 +72,13 @@ export function defaultMenuItemRenderer(
     return <MenuItemSeparator {...separatorProps} key={key} />;
   }
 
+  const nestedProps = item as NestedMenuItemProps;
+  if (nestedProps.items) {
+    return (
+      <DropdownMenuItem key={key} {...nestedProps} id={nestedProps.id || id} />
+    );
+  }
+
   const linkProps = item as MenuItemLinkWithComponentProps;
   if (linkProps.to || linkProps.href || linkProps.component) {
     return <MenuItemLink key={key} {...linkProps} />;
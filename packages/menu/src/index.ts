@@ -17,6 +17,7 @@ export {
 } from "./defaultMenuRenderer";
 export {
   defaultMenuItemRenderer,
+  NestedMenuItemProps,
   ValidMenuItem,
   MenuItemRenderer,
 } from "./defaultMenuItemRenderer";
@@ -0,0 +1,257 @@
+import { HTMLAttributes, useCallback, useEffect, useRef } from "react";
+import { useRefCache } from "@react-md/utils";
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * @param point - The point to check
+ * @param a - The first corner of the triangle
+ * @param b - The second corner of the triangle
+ * @param c - The third corner of the triangle
+ * @returns true if the point is within or on the edge of the triangle
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function isPointInTriangle(
+  point: Point,
+  a: Point,
+  b: Point,
+  c: Point
+): boolean {
+  const sign = (p1: Point, p2: Point, p3: Point): number =>
+    (p1.x - p3.x) * (p2.y - p3.y) - (p2.x - p3.x) * (p1.y - p3.y);
+
+  const d1 = sign(point, a, b);
+  const d2 = sign(point, b, c);
+  const d3 = sign(point, c, a);
+  const negative = d1 < 0 || d2 < 0 || d3 < 0;
+  const positive = d1 > 0 || d2 > 0 || d3 > 0;
+
+  return !(negative && positive);
+}
+
+/**
+ * Checks if the pointer is still within the "safe area" while moving from the
+ * menu item towards its submenu. The safe area is a triangle created between
+ * the previous pointer position and the nearest edge of the submenu so that
+ * the pointer can move diagonally over other menu items without closing the
+ * submenu.
+ *
+ * @param point - The current pointer position
+ * @param previous - The previous pointer position
+ * @param menu - The submenu's bounding rect
+ * @param horizontal - Boolean if the submenu is displayed above or below the
+ * menu item instead of to the left or right.
+ * @returns true if the point is within the safe area
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function isInSafeArea(
+  point: Point,
+  previous: Point,
+  menu: DOMRect,
+  horizontal: boolean
+): boolean {
+  if (horizontal) {
+    const y = menu.top >= previous.y ? menu.top : menu.bottom;
+
+    return isPointInTriangle(
+      point,
+      previous,
+      { x: menu.left, y },
+      { x: menu.right, y }
+    );
+  }
+
+  const x = menu.left >= previous.x ? menu.left : menu.right;
+  return isPointInTriangle(
+    point,
+    previous,
+    { x, y: menu.top },
+    { x, y: menu.bottom }
+  );
+}
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface HoverIntentOptions
+  extends Pick<HTMLAttributes<HTMLLIElement>, "onMouseEnter" | "onMouseLeave"> {
+  /**
+   * The id of the menu item that controls the submenu.
+   */
+  id: string;
+
+  /**
+   * The id of the submenu.
+   */
+  menuId: string;
+  visible: boolean;
+  disabled: boolean;
+  horizontal: boolean;
+
+  /**
+   * The amount of time in milliseconds the menu item must be hovered before
+   * the submenu becomes visible.
+   */
+  hoverTimeout: number;
+
+  /**
+   * The amount of time in milliseconds to wait before closing the submenu
+   * while the pointer is moving within the safe area over other menu items.
+   */
+  leaveTimeout: number;
+  show: () => void;
+  hide: () => void;
+}
+
+interface ReturnValue
+  extends Required<
+    Pick<HTMLAttributes<HTMLLIElement>, "onMouseEnter" | "onMouseLeave">
+  > {
+  /**
+   * Cancels any pending hover timers. This should be called when the submenu
+   * visibility is changed by a click or keyboard event.
+   */
+  cancel: () => void;
+}
+
+/**
+ * This hook is used to show a submenu after a menu item has been hovered for
+ * the `hoverTimeout` and hide the submenu once the pointer moves onto another
+ * item in the parent menu. The submenu will not be hidden immediately while
+ * the pointer is moving within the safe area towards the submenu.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function useHoverIntent({
+  id,
+  menuId,
+  visible,
+  disabled,
+  horizontal,
+  hoverTimeout,
+  leaveTimeout,
+  show,
+  hide,
+  onMouseEnter: propOnMouseEnter,
+  onMouseLeave: propOnMouseLeave,
+}: HoverIntentOptions): ReturnValue {
+  const cache = useRefCache({
+    visible,
+    disabled,
+    horizontal,
+    hoverTimeout,
+    leaveTimeout,
+    show,
+    hide,
+    onMouseEnter: propOnMouseEnter,
+    onMouseLeave: propOnMouseLeave,
+  });
+  const timeout = useRef<number>();
+  const cancel = useCallback(() => {
+    window.clearTimeout(timeout.current);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  useEffect(() => {
+    const item = document.getElementById(id);
+    if (!visible || disabled || !item) {
+      return;
+    }
+
+    const parentMenu = item.closest('[role="menu"]') || item.parentElement;
+    let previous: Point | null = null;
+    const handleMouseMove = (event: MouseEvent): void => {
+      const { horizontal, leaveTimeout, hide } = cache.current;
+      const target = event.target as Node;
+      const point = { x: event.clientX, y: event.clientY };
+      const menu = document.getElementById(menuId);
+      if (
+        !menu ||
+        item.contains(target) ||
+        menu.contains(target) ||
+        !parentMenu ||
+        !parentMenu.contains(target)
+      ) {
+        // the pointer is over the menu item, the submenu, or somewhere outside
+        // of the parent menu so the submenu should stay visible
+        cancel();
+        previous = point;
+        return;
+      }
+
+      if (
+        previous &&
+        isInSafeArea(point, previous, menu.getBoundingClientRect(), horizontal)
+      ) {
+        previous = point;
+        cancel();
+        timeout.current = window.setTimeout(hide, leaveTimeout);
+        return;
+      }
+
+      cancel();
+      hide();
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+    };
+    // disabled since useRefCache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, disabled, id, menuId, cancel]);
+
+  const onMouseEnter = useCallback(
+    (event: React.MouseEvent<HTMLLIElement>) => {
+      const { onMouseEnter, visible, disabled, hoverTimeout, show } =
+        cache.current;
+      if (onMouseEnter) {
+        onMouseEnter(event);
+      }
+
+      cancel();
+      if (visible || disabled) {
+        return;
+      }
+
+      const item = event.currentTarget;
+      timeout.current = window.setTimeout(() => {
+        // focus the menu item first so that focus will be returned to the menu
+        // item once the submenu has been hidden
+        item.focus();
+        show();
+      }, hoverTimeout);
+    },
+    // disabled since useRefCache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [cancel]
+  );
+
+  const onMouseLeave = useCallback(
+    (event: React.MouseEvent<HTMLLIElement>) => {
+      const { onMouseLeave } = cache.current;
+      if (onMouseLeave) {
+        onMouseLeave(event);
+      }
+
+      cancel();
+    },
+    // disabled since useRefCache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [cancel]
+  );
+
+  return { onMouseEnter, onMouseLeave, cancel };
+}
@@ -1,5 +1,5 @@
 import { HTMLAttributes, useCallback } from "react";
-import { useRefCache } from "@react-md/utils";
+import { useDir, useRefCache } from "@react-md/utils";
 
 import { FocusType, useVisibility, VisibilityOptions } from "./useVisibility";
 
@@ -13,6 +13,7 @@ interface ReturnValue
   extends Pick<HTMLAttributes<HTMLLIElement>, "onClick" | "onKeyDown"> {
   visible: boolean;
   defaultFocus: FocusType;
+  show: () => void;
   hide: () => void;
 }
 
@@ -24,16 +25,19 @@ export function useItemVisibility({
   defaultFocus: propDefaultFocus,
   onVisibilityChange,
 }: ItemVisibilityOptions = {}): ReturnValue {
+  const isRTL = useDir().dir === "rtl";
   const cache = useRefCache({
     horizontal,
+    isRTL,
     onClick: propOnClick,
     onKeyDown: propOnKeyDown,
   });
-  const { visible, defaultFocus, hide, showWithFocus, toggle } = useVisibility({
-    defaultVisible,
-    defaultFocus: propDefaultFocus,
-    onVisibilityChange,
-  });
+  const { visible, defaultFocus, show, hide, showWithFocus, toggle } =
+    useVisibility({
+      defaultVisible,
+      defaultFocus: propDefaultFocus,
+      onVisibilityChange,
+    });
 
   const onClick = useCallback(
     (event: React.MouseEvent<HTMLLIElement>) => {
@@ -51,13 +55,20 @@ export function useItemVisibility({
 
   const onKeyDown = useCallback(
     (event: React.KeyboardEvent<HTMLLIElement>) => {
-      const { onKeyDown, horizontal } = cache.current;
+      const { onKeyDown, horizontal, isRTL } = cache.current;
       if (onKeyDown) {
         onKeyDown(event);
       }
 
-      const firstKey = horizontal ? "ArrowDown" : "ArrowRight";
-      const lastKey = horizontal ? "ArrowUp" : "ArrowLeft";
+      // vertical menus should only open the submenu with the arrow key that
+      // points towards it since the other direction closes the current menu
+      let firstKey = isRTL ? "ArrowLeft" : "ArrowRight";
+      let lastKey = "";
+      if (horizontal) {
+        firstKey = "ArrowDown";
+        lastKey = "ArrowUp";
+      }
+
       if (event.key !== firstKey && event.key !== lastKey) {
         return;
       }
@@ -77,6 +88,7 @@ export function useItemVisibility({
   return {
     visible,
     defaultFocus,
+    show,
     hide,
     onClick,
     onKeyDown,
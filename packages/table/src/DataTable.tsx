@@ -0,0 +1,452 @@
+import React, { forwardRef, ReactNode, useMemo } from "react";
+import cn from "classnames";
+
+import { Caption } from "./Caption";
+import { getTableColumnValue, TableColumn } from "./columns";
+import { TableColumnLayout, useTableColumnLayout } from "./layout";
+import { sortTableData, TableSortOptions, useTableSort } from "./sort";
+import {
+  TableSelectionOptions,
+  TableSelectionReturnValue,
+  useTableSelection,
+} from "./selection";
+import { Table, TableProps } from "./Table";
+import { TableBody } from "./TableBody";
+import { TableCell } from "./TableCell";
+import { TableCheckbox } from "./TableCheckbox";
+import { TableColumnResizeHandle } from "./TableColumnResizeHandle";
+import { TableHeader } from "./TableHeader";
+import { TableRow, TableRowProps } from "./TableRow";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface DataTableProps<T>
+  extends Omit<TableProps, "children">,
+    TableSortOptions,
+    TableSelectionOptions {
+  /**
+   * The column definitions for the table.
+   */
+  columns: readonly TableColumn<T>[];
+
+  /**
+   * The rows to render in the table. These will be sorted automatically based
+   * on the current sort state.
+   */
+  data: readonly T[];
+
+  /**
+   * An optional function to get a unique key for each row. The default
+   * behavior is to use the row's index in the unsorted data. The `index`
+   * provided to this function and `getRowProps` will always be the row's index
+   * in the unsorted data.
+   */
+  getRowId?(row: T, index: number): string;
+
+  /**
+   * An optional function to get additional props for each row.
+   */
+  getRowProps?(row: T, index: number): TableRowProps | undefined;
+
+  /**
+   * Boolean if a checkbox column should be rendered to allow rows to be
+   * selected. The row ids from `getRowId` will be used for the selection state
+   * and the `id` prop will be used as a prefix for each checkbox's id
+   * (defaulting to `"data-table"`).
+   *
+   * @defaultValue `false`
+   */
+  selectable?: boolean;
+
+  /**
+   * An optional function to render a bulk-action toolbar above the header row
+   * while at least one row is selected. This is useful for rendering buttons
+   * that act on every selected row.
+   *
+   * Example:
+   *
+   * ```tsx
+   * bulkActions={({ selectedIds, clearSelection }) => (
+   *   <>
+   *     {`${selectedIds.length} selected`}
+   *     <Button onClick={clearSelection}>Clear</Button>
+   *   </>
+   * )}
+   * ```
+   */
+  bulkActions?(selection: TableSelectionReturnValue): ReactNode;
+
+  /**
+   * Boolean if each column should render a resize handle in the header cell
+   * that can be dragged or controlled with the left and right arrow keys.
+   * Columns can opt out by enabling {@link TableColumn.disableResize}.
+   *
+   * @defaultValue `false`
+   */
+  resizableColumns?: boolean;
+
+  /**
+   * Boolean if the header cells can be dragged to reorder the columns.
+   * Columns can opt out by enabling {@link TableColumn.disableReorder} which
+   * is recommended for sticky columns.
+   *
+   * @defaultValue `false`
+   */
+  reorderableColumns?: boolean;
+
+  /**
+   * The current column layout that can be provided to make the column widths
+   * and order controlled. This should be used along with the
+   * `onColumnLayoutChange` prop.
+   */
+  columnLayout?: TableColumnLayout;
+
+  /**
+   * The column layout to use when it is not controlled. This is useful for
+   * restoring a persisted layout.
+   */
+  defaultColumnLayout?: TableColumnLayout;
+
+  /**
+   * An optional function to call whenever a column has been resized or
+   * reordered. The layout is serializable so that it can be persisted.
+   */
+  onColumnLayoutChange?(layout: TableColumnLayout): void;
+
+  /**
+   * An optional caption to render for the table.
+   */
+  caption?: ReactNode;
+
+  /**
+   * Boolean if the header should be rendered as a sticky header.
+   */
+  stickyHeader?: boolean;
+
+  /**
+   * Any additional content to render after the table body. This is useful for
+   * rendering a `TableFooter`.
+   */
+  children?: ReactNode;
+}
+
+/**
+ * Renders a table from a list of column definitions and rows that supports
+ * sorting by one or multiple columns. Sortable header cells will be rendered
+ * as buttons with the correct `aria-sort` attribute and the sort state can be
+ * controlled with the `sort` and `onSortChange` props.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const columns: readonly TableColumn<Dessert>[] = [
+ *   { id: "name", header: "Dessert", sortable: true },
+ *   {
+ *     id: "calories",
+ *     header: "Calories",
+ *     sortable: true,
+ *     cellProps: { hAlign: "right" },
+ *   },
+ * ];
+ *
+ * <DataTable columns={columns} data={desserts} getRowId={(row) => row.name} />
+ * ```
+ *
+ * Rows can also be selected by enabling the `selectable` prop which will render
+ * a checkbox column along with a "select all" checkbox in the header. The
+ * columns can be resized and reordered by enabling the `resizableColumns` and
+ * `reorderableColumns` props.
+ *
+ * @remarks \@since 3.2.0
+ */
+export const DataTable = forwardRef<HTMLTableElement, DataTableProps<any>>( // eslint-disable-line @typescript-eslint/no-explicit-any
+  function DataTable(
+    {
+      columns,
+      data,
+      getRowId,
+      id,
+      getRowProps,
+      selectable = false,
+      selectedIds,
+      defaultSelectedIds,
+      onSelectedIdsChange,
+      selectOnRowClick = false,
+      bulkActions,
+      caption,
+      stickyHeader = false,
+      sort: propSort,
+      defaultSort,
+      onSortChange,
+      multiSort = false,
+      resizableColumns = false,
+      reorderableColumns = false,
+      columnLayout,
+      defaultColumnLayout,
+      onColumnLayoutChange,
+      fixedLayout = false,
+      children,
+      ...props
+    },
+    ref
+  ) {
+    const { sort, toggleSort } = useTableSort({
+      sort: propSort,
+      defaultSort,
+      onSortChange,
+      multiSort,
+    });
+
+    const rows = useMemo(
+      () => sortTableData(data, columns, sort),
+      [columns, data, sort]
+    );
+    const indexes = useMemo(
+      () => new Map(data.map((row, index) => [row, index])),
+      [data]
+    );
+    const rowIds = useMemo(
+      () =>
+        rows.map((row, rowIndex) => {
+          const index = indexes.get(row) ?? rowIndex;
+          return getRowId ? getRowId(row, index) : `${index}`;
+        }),
+      [getRowId, indexes, rows]
+    );
+
+    const selection = useTableSelection(rowIds, {
+      selectedIds,
+      defaultSelectedIds,
+      onSelectedIdsChange,
+      selectOnRowClick,
+    });
+    const { headerCheckboxProps, getCheckboxProps } = selection;
+    const columnCount = columns.length + (selectable ? 1 : 0);
+    const idPrefix = id ?? "data-table";
+
+    const layoutColumns = useMemo(
+      () =>
+        reorderableColumns
+          ? columns
+          : columns.map((column) => ({ ...column, disableReorder: true })),
+      [columns, reorderableColumns]
+    );
+    const { columnIds, colStyles, getHeaderProps, getResizeHandleProps } =
+      useTableColumnLayout(layoutColumns, {
+        layout: columnLayout,
+        defaultLayout: defaultColumnLayout,
+        onLayoutChange: onColumnLayoutChange,
+      });
+    const orderedColumns = useMemo(() => {
+      const order = new Map(columnIds.map((columnId, i) => [columnId, i]));
+      return columns
+        .slice()
+        .sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+    }, [columnIds, columns]);
+
+    return (
+      <Table
+        {...props}
+        id={id}
+        ref={ref}
+        fixedLayout={fixedLayout || !!colStyles}
+      >
+        {caption && <Caption>{caption}</Caption>}
+        {colStyles && (
+          <colgroup>
+            {selectable && <col className="rmd-table__checkbox-col" />}
+            {columnIds.map((columnId) => (
+              <col key={columnId} style={colStyles[columnId]} />
+            ))}
+          </colgroup>
+        )}
+        <TableHeader sticky={stickyHeader}>
+          {selectable && bulkActions && selection.selectedIds.length > 0 && (
+            <TableRow id={`${idPrefix}-bulk-actions`} disableHover>
+              <TableCell header={false} colSpan={columnCount}>
+                {bulkActions(selection)}
+              </TableCell>
+            </TableRow>
+          )}
+          <TableRow>
+            {selectable && (
+              <TableCheckbox
+                id={`${idPrefix}-select-all`}
+                aria-label="Toggle All Rows"
+                {...headerCheckboxProps}
+              />
+            )}
+            {orderedColumns.map((column) => {
+              const { id, header, sortable, headerProps, disableResize } =
+                column;
+              const index = sort.findIndex((item) => item.columnId === id);
+              const item = sort[index];
+              const { className: layoutClassName, ...layoutProps } =
+                getHeaderProps(id);
+              const headerId = headerProps?.id ?? `${idPrefix}-header-${id}`;
+              let resizeHandle: ReactNode;
+              if (resizableColumns && !disableResize) {
+                resizeHandle = (
+                  <TableColumnResizeHandle
+                    {...getResizeHandleProps(id)}
+                    id={`${headerId}-resize`}
+                    aria-label="Resize"
+                    aria-labelledby={`${headerId}-resize ${headerId}`}
+                  />
+                );
+              }
+
+              return (
+                <TableCell
+                  key={id}
+                  {...headerProps}
+                  {...layoutProps}
+                  id={resizeHandle ? headerId : headerProps?.id}
+                  className={cn(headerProps?.className, layoutClassName)}
+                  resizeHandle={resizeHandle}
+                  aria-sort={sortable ? item?.order ?? "none" : undefined}
+                  sortPriority={
+                    sortable && item && sort.length > 1 ? index + 1 : undefined
+                  }
+                  onClick={
+                    sortable
+                      ? (event) => {
+                          headerProps?.onClick?.(event);
+                          toggleSort(id, event.shiftKey);
+                        }
+                      : headerProps?.onClick
+                  }
+                >
+                  {header}
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, rowIndex) => {
+            const index = indexes.get(row) ?? rowIndex;
+            const rowId = rowIds[rowIndex];
+            const rowProps = getRowProps?.(row, index);
+            let selectionProps: TableRowProps | undefined;
+            if (selectable) {
+              const { onClick, onKeyDown, ...remaining } =
+                selection.getRowProps(rowId);
+              selectionProps = remaining;
+              if (onClick && onKeyDown) {
+                selectionProps.onClick = (event) => {
+                  rowProps?.onClick?.(event);
+                  onClick(event);
+                };
+                selectionProps.onKeyDown = (event) => {
+                  rowProps?.onKeyDown?.(event);
+                  onKeyDown(event);
+                };
+              }
+            }
+
+            return (
+              <TableRow key={rowId} {...rowProps} {...selectionProps}>
+                {selectable && (
+                  <TableCheckbox
+                    id={`${idPrefix}-checkbox-${rowIndex + 1}`}
+                    {...getCheckboxProps(rowId)}
+                  />
+                )}
+                {orderedColumns.map((column) => {
+                  const { id, cell, cellProps } = column;
+                  let content: ReactNode;
+                  if (cell) {
+                    content = cell(row, rowIndex);
+                  } else {
+                    const value = getTableColumnValue(row, column);
+                    content =
+                      value === null || typeof value === "undefined"
+                        ? null
+                        : String(value);
+                  }
+
+                  return (
+                    <TableCell key={id} {...cellProps}>
+                      {content}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+        {children}
+      </Table>
+    );
+  }
+);
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    DataTable.propTypes = {
+      columns: PropTypes.arrayOf(
+        PropTypes.shape({
+          id: PropTypes.string.isRequired,
+          header: PropTypes.node,
+          accessor: PropTypes.oneOfType([PropTypes.string, PropTypes.func]),
+          cell: PropTypes.func,
+          sortable: PropTypes.bool,
+          comparator: PropTypes.func,
+          headerProps: PropTypes.object,
+          cellProps: PropTypes.object,
+          minWidth: PropTypes.number,
+          maxWidth: PropTypes.number,
+          disableResize: PropTypes.bool,
+          disableReorder: PropTypes.bool,
+        })
+      ).isRequired,
+      data: PropTypes.arrayOf(PropTypes.object).isRequired,
+      getRowId: PropTypes.func,
+      id: PropTypes.string,
+      getRowProps: PropTypes.func,
+      selectable: PropTypes.bool,
+      selectedIds: PropTypes.arrayOf(PropTypes.string),
+      defaultSelectedIds: PropTypes.oneOfType([
+        PropTypes.arrayOf(PropTypes.string),
+        PropTypes.func,
+      ]),
+      onSelectedIdsChange: PropTypes.func,
+      selectOnRowClick: PropTypes.bool,
+      bulkActions: PropTypes.func,
+      caption: PropTypes.node,
+      stickyHeader: PropTypes.bool,
+      sort: PropTypes.arrayOf(
+        PropTypes.shape({
+          columnId: PropTypes.string.isRequired,
+          order: PropTypes.oneOf(["ascending", "descending"]).isRequired,
+        })
+      ),
+      defaultSort: PropTypes.arrayOf(
+        PropTypes.shape({
+          columnId: PropTypes.string.isRequired,
+          order: PropTypes.oneOf(["ascending", "descending"]).isRequired,
+        })
+      ),
+      onSortChange: PropTypes.func,
+      multiSort: PropTypes.bool,
+      resizableColumns: PropTypes.bool,
+      reorderableColumns: PropTypes.bool,
+      columnLayout: PropTypes.shape({
+        order: PropTypes.arrayOf(PropTypes.string).isRequired,
+        widths: PropTypes.objectOf(PropTypes.number).isRequired,
+      }),
+      defaultColumnLayout: PropTypes.shape({
+        order: PropTypes.arrayOf(PropTypes.string).isRequired,
+        widths: PropTypes.objectOf(PropTypes.number).isRequired,
+      }),
+      onColumnLayoutChange: PropTypes.func,
+      fixedLayout: PropTypes.bool,
+      children: PropTypes.node,
+    };
+  } catch (e) {}
+}
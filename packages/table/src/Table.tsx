@@ -10,7 +10,17 @@ import { TableConfigProvider, TableConfiguration } from "./config";
  */
 export interface TableProps
   extends TableHTMLAttributes<HTMLTableElement>,
-    TableConfiguration {}
+    TableConfiguration {
+  /**
+   * Boolean if the table should use `table-layout: fixed` so that the column
+   * widths are determined by a `<colgroup>` instead of the cell contents. This
+   * is used for resizable columns along with the `useTableColumnLayout` hook.
+   *
+   * @defaultValue `false`
+   * @remarks \@since 3.2.0
+   */
+  fixedLayout?: boolean;
+}
 
 const block = bem("rmd-table");
 
@@ -36,6 +46,7 @@ export const Table = forwardRef<HTMLTableElement, TableProps>(function Table(
     vAlign = "middle",
     lineWrap = false,
     fullWidth = false,
+    fixedLayout = false,
     disableHover = false,
     disableBorders = false,
     ...props
@@ -62,6 +73,7 @@ export const Table = forwardRef<HTMLTableElement, TableProps>(function Table(
         className={cn(
           block({
             dense,
+            fixed: fixedLayout,
             "full-width": fullWidth,
           }),
           className
@@ -83,6 +95,7 @@ if (process.env.NODE_ENV !== "production") {
       className: PropTypes.string,
       dense: PropTypes.bool,
       fullWidth: PropTypes.bool,
+      fixedLayout: PropTypes.bool,
       disableHover: PropTypes.bool,
       disableBorders: PropTypes.bool,
       hAlign: PropTypes.oneOf(["left", "center", "right"]),
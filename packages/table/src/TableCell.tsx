@@ -100,6 +100,27 @@ export interface TableCellProps extends TableCellAttributes, TableCellOptions {
    */
   sortIconRotated?: boolean;
 
+  /**
+   * The priority of this column when a table is sorted by multiple columns
+   * starting from `1`. The priority will be rendered after the children and
+   * the `aria-sort` attribute will only be applied to the primary sort column
+   * (priority `1`) since only one header should have the `aria-sort`
+   * attribute at a time. The sort icon will still be rendered for the other
+   * sorted columns.
+   *
+   * @remarks \@since 3.2.0
+   */
+  sortPriority?: number;
+
+  /**
+   * An optional `TableColumnResizeHandle` to render after the cell's content.
+   * This is rendered outside of the sort button so that it can be focused
+   * separately.
+   *
+   * @remarks \@since 3.2.0
+   */
+  resizeHandle?: ReactNode;
+
   /**
    * Boolean if cell should no longer have any padding since you want a child
    * element to span the entire size of the cell instead. This is helpful when
@@ -141,6 +162,8 @@ export const TableCell = forwardRef<TableCellElement, TableCellProps>(
       sortIcon: propSortIcon,
       sortIconAfter = false,
       sortIconRotated,
+      sortPriority,
+      resizeHandle,
       disablePadding,
       colSpan: propColSpan,
       ...props
@@ -187,7 +210,11 @@ export const TableCell = forwardRef<TableCellElement, TableCellProps>(
         {...props}
         ref={ref}
         id={id}
-        aria-sort={sortOrder === "none" ? undefined : sortOrder}
+        aria-sort={
+          sortOrder === "none" || (sortPriority ?? 1) > 1
+            ? undefined
+            : sortOrder
+        }
         colSpan={colSpan}
         className={cn(
           block({
@@ -207,6 +234,7 @@ export const TableCell = forwardRef<TableCellElement, TableCellProps>(
             "no-wrap": !lineWrap,
             padded: !isNoPadding && lineWrap === "padded",
             "no-padding": isNoPadding,
+            resizable: !!resizeHandle,
           }),
           className
         )}
@@ -218,9 +246,11 @@ export const TableCell = forwardRef<TableCellElement, TableCellProps>(
           iconAfter={sortIconAfter}
           sortOrder={sortOrder}
           rotated={sortIconRotated}
+          sortPriority={sortPriority}
         >
           {children}
         </TableCellContent>
+        {resizeHandle}
       </Component>
     );
   }
@@ -256,6 +286,8 @@ if (process.env.NODE_ENV !== "production") {
       sortIcon: PropTypes.node,
       sortIconAfter: PropTypes.bool,
       sortIconRotated: PropTypes.bool,
+      sortPriority: PropTypes.number,
+      resizeHandle: PropTypes.node,
       disablePadding: PropTypes.bool,
       children: PropTypes.node,
       sticky: PropTypes.oneOfType([
@@ -31,6 +31,14 @@ export interface TableCellContentProps extends TextIconSpacingProps {
    * Boolean if the icon should be rotated.
    */
   rotated?: boolean;
+
+  /**
+   * An optional sort priority to display after the children when the table is
+   * sorted by multiple columns.
+   *
+   * @remarks \@since 3.2.0
+   */
+  sortPriority?: number;
 }
 
 const block = bem("rmd-table-cell");
@@ -53,6 +61,7 @@ export const TableCellContent = forwardRef<
     sortOrder,
     children,
     rotated: propRotated,
+    sortPriority,
     ...props
   },
   ref
@@ -77,6 +86,9 @@ export const TableCellContent = forwardRef<
     >
       <TextIconSpacing {...props} icon={icon}>
         {children}
+        {typeof sortPriority === "number" && (
+          <span className={block("sort-priority")}>{sortPriority}</span>
+        )}
       </TextIconSpacing>
     </UnstyledButton>
   );
@@ -94,6 +106,7 @@ if (process.env.NODE_ENV !== "production") {
       icon: PropTypes.node,
       sortOrder: PropTypes.oneOf(["ascending", "descending", "none", "other"]),
       rotated: PropTypes.bool,
+      sortPriority: PropTypes.number,
       children: PropTypes.node,
     };
   } catch (e) {}
@@ -121,7 +121,7 @@ export const TableCheckbox = forwardRef<
       <Checkbox
         id={id}
         aria-label={
-          ariaLabel ?? ariaLabelledBy ? undefined : DEFAULT_ARIA_LABEL
+          ariaLabel ?? (ariaLabelledBy ? undefined : DEFAULT_ARIA_LABEL)
         }
         aria-labelledby={ariaLabelledBy}
         aria-checked={ariaChecked}
@@ -0,0 +1,88 @@
+/* eslint-disable jsx-a11y/click-events-have-key-events, jsx-a11y/no-noninteractive-element-interactions, jsx-a11y/no-noninteractive-tabindex */
+// a focusable separator is an interactive widget, but the lint rules only
+// consider the non-focusable version
+import React, { forwardRef, HTMLAttributes } from "react";
+import cn from "classnames";
+import { bem } from "@react-md/utils";
+
+import { ProvidedTableColumnResizeHandleProps } from "./layout";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableColumnResizeHandleProps
+  extends Omit<
+      HTMLAttributes<HTMLSpanElement>,
+      keyof ProvidedTableColumnResizeHandleProps
+    >,
+    ProvidedTableColumnResizeHandleProps {
+  /**
+   * A label describing which column will be resized. Either this or the
+   * `aria-labelledby` prop are required for a11y.
+   */
+  "aria-label"?: string;
+
+  /**
+   * An optional id or space-delimited list of ids that describe which column
+   * will be resized. Either this or the `aria-label` prop are required for
+   * a11y.
+   */
+  "aria-labelledby"?: string;
+}
+
+const block = bem("rmd-table-cell");
+
+/**
+ * Renders a focusable separator at the end of a header cell that allows the
+ * column to be resized by dragging with a mouse or touch, or by using the left
+ * and right arrow keys. This should be used along with the
+ * `useTableColumnLayout` hook and provided to a `TableCell` with the
+ * `resizeHandle` prop.
+ *
+ * @remarks \@since 3.2.0
+ */
+export const TableColumnResizeHandle = forwardRef<
+  HTMLSpanElement,
+  TableColumnResizeHandleProps
+>(function TableColumnResizeHandle(
+  { className, active, onClick, ...props },
+  ref
+) {
+  return (
+    <span
+      {...props}
+      ref={ref}
+      onClick={(event) => {
+        onClick?.(event);
+
+        // prevent the header cell's click handler from sorting the column
+        event.stopPropagation();
+      }}
+      role="separator"
+      aria-orientation="vertical"
+      tabIndex={0}
+      className={cn(block("resize-handle", { active }), className)}
+    />
+  );
+});
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    TableColumnResizeHandle.propTypes = {
+      "aria-label": PropTypes.string,
+      "aria-labelledby": PropTypes.string,
+      "aria-valuenow": PropTypes.number,
+      "aria-valuemin": PropTypes.number.isRequired,
+      "aria-valuemax": PropTypes.number,
+      className: PropTypes.string,
+      onClick: PropTypes.func,
+      active: PropTypes.bool.isRequired,
+      onMouseDown: PropTypes.func.isRequired,
+      onTouchStart: PropTypes.func.isRequired,
+      onKeyDown: PropTypes.func.isRequired,
+    };
+  } catch (e) {}
+}
@@ -0,0 +1,215 @@
+import React, { forwardRef, HTMLAttributes, ReactNode } from "react";
+import cn from "classnames";
+import { Button } from "@react-md/button";
+import { Select } from "@react-md/form";
+import { useIcon } from "@react-md/icon";
+import { bem } from "@react-md/utils";
+
+import { ProvidedTablePaginationProps } from "./pagination";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TablePaginationRange {
+  /**
+   * The row number of the first row on the current page starting from `1`.
+   * This will be `0` when there are no rows.
+   */
+  start: number;
+
+  /**
+   * The row number of the last row on the current page.
+   */
+  end: number;
+
+  /**
+   * The total number of rows across every page.
+   */
+  total: number;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TablePaginationProps
+  extends HTMLAttributes<HTMLDivElement>,
+    ProvidedTablePaginationProps {
+  /**
+   * An id for the pagination that will be used as a prefix for the page size
+   * select and the previous and next buttons. This is required for a11y.
+   */
+  id: string;
+
+  /**
+   * The page sizes that can be selected.
+   *
+   * @defaultValue `[10, 25, 50, 100]`
+   */
+  pageSizes?: readonly number[];
+
+  /**
+   * The label to display before the page size select.
+   *
+   * @defaultValue `"Rows per page"`
+   */
+  pageSizeLabel?: ReactNode;
+
+  /**
+   * A function to get the label describing the rows that are currently
+   * visible. The default label will be in the format of `"1–10 of 240"`.
+   */
+  getRangeLabel?(range: TablePaginationRange): ReactNode;
+
+  /**
+   * The accessible label for the previous page button.
+   *
+   * @defaultValue `"Previous page"`
+   */
+  previousLabel?: string;
+
+  /**
+   * An optional icon to use for the previous page button that defaults to the
+   * `back` icon from the `IconProvider`.
+   */
+  previousIcon?: ReactNode;
+
+  /**
+   * The accessible label for the next page button.
+   *
+   * @defaultValue `"Next page"`
+   */
+  nextLabel?: string;
+
+  /**
+   * An optional icon to use for the next page button that defaults to the
+   * `forward` icon from the `IconProvider`.
+   */
+  nextIcon?: ReactNode;
+}
+
+const block = bem("rmd-table-pagination");
+
+const DEFAULT_PAGE_SIZES: readonly number[] = [10, 25, 50, 100];
+
+const getDefaultRangeLabel = ({
+  start,
+  end,
+  total,
+}: TablePaginationRange): ReactNode => `${start}–${end} of ${total}`;
+
+/**
+ * Renders the page size select, a label describing the visible rows, and the
+ * previous and next page buttons for a table. This is normally used along with
+ * the `useTablePagination` hook and rendered after a `Table` or within a
+ * `TableFooter`.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const { rows, paginationProps } = useTablePagination({ data: desserts });
+ *
+ * <TablePagination id="desserts-pagination" {...paginationProps} />
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export const TablePagination = forwardRef<HTMLDivElement, TablePaginationProps>(
+  function TablePagination(
+    {
+      id,
+      className,
+      page,
+      pageSize,
+      total,
+      onPageChange,
+      onPageSizeChange,
+      pageSizes = DEFAULT_PAGE_SIZES,
+      pageSizeLabel = "Rows per page",
+      getRangeLabel = getDefaultRangeLabel,
+      previousLabel = "Previous page",
+      previousIcon: propPreviousIcon,
+      nextLabel = "Next page",
+      nextIcon: propNextIcon,
+      ...props
+    },
+    ref
+  ) {
+    const previousIcon = useIcon("back", propPreviousIcon);
+    const nextIcon = useIcon("forward", propNextIcon);
+    const start = total > 0 ? (page - 1) * pageSize + 1 : 0;
+    const end = Math.min(page * pageSize, total);
+    const pageSizeId = `${id}-page-size`;
+
+    return (
+      <div {...props} id={id} ref={ref} className={cn(block(), className)}>
+        {onPageSizeChange && pageSizes.length > 0 && (
+          <>
+            <span id={`${pageSizeId}-description`} className={block("label")}>
+              {pageSizeLabel}
+            </span>
+            <Select
+              id={pageSizeId}
+              aria-labelledby={`${pageSizeId}-description ${pageSizeId}-display-value`}
+              theme="none"
+              dense
+              inline
+              options={pageSizes.map(String)}
+              value={`${pageSize}`}
+              onChange={(nextPageSize) => {
+                onPageSizeChange(Number(nextPageSize));
+              }}
+              className={block("select")}
+            />
+          </>
+        )}
+        <span className={block("range")} aria-live="polite">
+          {getRangeLabel({ start, end, total })}
+        </span>
+        <Button
+          id={`${id}-previous`}
+          aria-label={previousLabel}
+          buttonType="icon"
+          disabled={page <= 1}
+          onClick={() => onPageChange(page - 1)}
+          className={block("button")}
+        >
+          {previousIcon}
+        </Button>
+        <Button
+          id={`${id}-next`}
+          aria-label={nextLabel}
+          buttonType="icon"
+          disabled={end >= total}
+          onClick={() => onPageChange(page + 1)}
+          className={block("button")}
+        >
+          {nextIcon}
+        </Button>
+      </div>
+    );
+  }
+);
+
+/* istanbul ignore next */
+if (process.env.NODE_ENV !== "production") {
+  try {
+    const PropTypes = require("prop-types");
+
+    TablePagination.propTypes = {
+      id: PropTypes.string.isRequired,
+      className: PropTypes.string,
+      page: PropTypes.number.isRequired,
+      pageSize: PropTypes.number.isRequired,
+      total: PropTypes.number.isRequired,
+      onPageChange: PropTypes.func.isRequired,
+      onPageSizeChange: PropTypes.func,
+      pageSizes: PropTypes.arrayOf(PropTypes.number),
+      pageSizeLabel: PropTypes.node,
+      getRangeLabel: PropTypes.func,
+      previousLabel: PropTypes.string,
+      previousIcon: PropTypes.node,
+      nextLabel: PropTypes.string,
+      nextIcon: PropTypes.node,
+    };
+  } catch (e) {}
+}
@@ -0,0 +1,313 @@
+import React from "react";
+import { fireEvent, render } from "@testing-library/react";
+
+import { TableColumn } from "../columns";
+import { DataTable } from "../DataTable";
+
+interface Dessert {
+  name: string;
+  calories: number;
+  type: string;
+}
+
+const desserts: readonly Dessert[] = [
+  { name: "Frozen yogurt", calories: 159, type: "Ice cream" },
+  { name: "Ice cream sandwich", calories: 237, type: "Ice cream" },
+  { name: "Eclair", calories: 262, type: "Pastry" },
+  { name: "Cupcake", calories: 305, type: "Pastry" },
+];
+
+const columns: readonly TableColumn<Dessert>[] = [
+  { id: "name", header: "Dessert", sortable: true },
+  { id: "calories", header: "Calories", sortable: true },
+  { id: "type", header: "Type", sortable: true },
+  {
+    id: "label",
+    header: "Label",
+    cell: (row) => <span data-testid="label">{row.name.toUpperCase()}</span>,
+  },
+];
+
+const getColumn = (container: HTMLElement, index: number): string[] =>
+  Array.from(container.querySelectorAll("tbody tr")).map(
+    (row) => row.children[index].textContent ?? ""
+  );
+
+describe("DataTable", () => {
+  it("should render the rows with the accessor values and cell renderers", () => {
+    const { container, getAllByTestId, getByRole } = render(
+      <DataTable columns={columns} data={desserts} />
+    );
+
+    expect(getColumn(container, 1)).toEqual(["159", "237", "262", "305"]);
+    expect(getAllByTestId("label")[0]).toHaveTextContent("FROZEN YOGURT");
+    expect(getByRole("columnheader", { name: "Label" })).not.toHaveAttribute(
+      "aria-sort"
+    );
+  });
+
+  it("should cycle through the sort orders when a sortable header is clicked", () => {
+    const { container, getByRole } = render(
+      <DataTable columns={columns} data={desserts} />
+    );
+
+    const header = getByRole("columnheader", { name: "Dessert" });
+    expect(header).not.toHaveAttribute("aria-sort");
+
+    fireEvent.click(getByRole("button", { name: "Dessert" }));
+    expect(header).toHaveAttribute("aria-sort", "ascending");
+    expect(getColumn(container, 0)).toEqual([
+      "Cupcake",
+      "Eclair",
+      "Frozen yogurt",
+      "Ice cream sandwich",
+    ]);
+
+    fireEvent.click(getByRole("button", { name: "Dessert" }));
+    expect(header).toHaveAttribute("aria-sort", "descending");
+    expect(getColumn(container, 0)).toEqual([
+      "Ice cream sandwich",
+      "Frozen yogurt",
+      "Eclair",
+      "Cupcake",
+    ]);
+
+    fireEvent.click(getByRole("button", { name: "Dessert" }));
+    expect(header).not.toHaveAttribute("aria-sort");
+    expect(getColumn(container, 0)).toEqual(desserts.map(({ name }) => name));
+  });
+
+  it("should support multiple sorted columns with shift+click when multiSort is enabled", () => {
+    const { container, getByRole } = render(
+      <DataTable columns={columns} data={desserts} multiSort />
+    );
+
+    fireEvent.click(getByRole("button", { name: "Type" }));
+    fireEvent.click(getByRole("button", { name: "Calories" }));
+    fireEvent.click(getByRole("button", { name: "Calories" }), {
+      shiftKey: true,
+    });
+    // the regular click replaced the type sort
+    expect(getColumn(container, 1)).toEqual(["305", "262", "237", "159"]);
+
+    fireEvent.click(getByRole("button", { name: "Type" }), { shiftKey: true });
+    const type = getByRole("columnheader", { name: "Type 2" });
+    const calories = getByRole("columnheader", { name: "Calories 1" });
+    expect(calories).toHaveAttribute("aria-sort", "descending");
+    expect(type).not.toHaveAttribute("aria-sort");
+  });
+
+  it("should allow the sort state to be controlled", () => {
+    const onSortChange = jest.fn();
+    const { container, getByRole, rerender } = render(
+      <DataTable
+        columns={columns}
+        data={desserts}
+        sort={[{ columnId: "calories", order: "descending" }]}
+        onSortChange={onSortChange}
+      />
+    );
+
+    expect(getColumn(container, 1)).toEqual(["305", "262", "237", "159"]);
+    fireEvent.click(getByRole("button", { name: "Dessert" }));
+    expect(onSortChange).toBeCalledWith([
+      { columnId: "name", order: "ascending" },
+    ]);
+    expect(getColumn(container, 1)).toEqual(["305", "262", "237", "159"]);
+
+    rerender(
+      <DataTable
+        columns={columns}
+        data={desserts}
+        sort={[{ columnId: "name", order: "ascending" }]}
+        onSortChange={onSortChange}
+      />
+    );
+    expect(getColumn(container, 0)[0]).toBe("Cupcake");
+  });
+
+  describe("selection", () => {
+    const getRowId = (row: Dessert): string => row.name;
+
+    it("should render a checkbox column with a select all checkbox", () => {
+      const { getByRole, getAllByRole } = render(
+        <DataTable
+          id="desserts"
+          columns={columns}
+          data={desserts}
+          getRowId={getRowId}
+          selectable
+        />
+      );
+
+      const selectAll = getByRole("checkbox", { name: "Toggle All Rows" });
+      const [first, , third] = getAllByRole("checkbox", {
+        name: "Toggle Row Selection",
+      });
+      expect(selectAll).toHaveAttribute("id", "desserts-select-all");
+      expect(first).toHaveAttribute("id", "desserts-checkbox-1");
+
+      fireEvent.click(first);
+      expect(first).toBeChecked();
+      expect(selectAll).toHaveAttribute("aria-checked", "mixed");
+      expect(first.closest("tr")).toHaveAttribute("aria-selected", "true");
+
+      fireEvent.click(third, { shiftKey: true });
+      expect(
+        getAllByRole("checkbox", { name: "Toggle Row Selection" }).map(
+          (checkbox) => (checkbox as HTMLInputElement).checked
+        )
+      ).toEqual([true, true, true, false]);
+
+      fireEvent.click(selectAll);
+      expect(selectAll).toBeChecked();
+      expect(selectAll).not.toHaveAttribute("aria-checked");
+    });
+
+    it("should render the bulk actions while rows are selected", () => {
+      const { getByRole, getAllByRole, queryByText } = render(
+        <DataTable
+          columns={columns}
+          data={desserts}
+          getRowId={getRowId}
+          selectable
+          bulkActions={({ selectedIds, clearSelection }) => (
+            <button type="button" onClick={clearSelection}>
+              {`Clear ${selectedIds.length}`}
+            </button>
+          )}
+        />
+      );
+
+      expect(queryByText("Clear 1")).toBeNull();
+      fireEvent.click(getAllByRole("checkbox")[1]);
+      fireEvent.click(getByRole("button", { name: "Clear 1" }));
+      expect(queryByText("Clear 1")).toBeNull();
+      expect(getAllByRole("checkbox")[1]).not.toBeChecked();
+    });
+
+    it("should toggle rows with the keyboard when selectOnRowClick is enabled", () => {
+      const onSelectedIdsChange = jest.fn();
+      const { container, getAllByRole } = render(
+        <DataTable
+          columns={columns}
+          data={desserts}
+          getRowId={getRowId}
+          selectable
+          selectOnRowClick
+          onSelectedIdsChange={onSelectedIdsChange}
+        />
+      );
+
+      const rows = container.querySelectorAll("tbody tr");
+      fireEvent.keyDown(rows[1], { key: " " });
+      expect(onSelectedIdsChange).toBeCalledWith(["Ice cream sandwich"]);
+      expect(rows[1]).toHaveAttribute("aria-selected", "true");
+
+      fireEvent.click(rows[2].children[1]);
+      expect(onSelectedIdsChange).toBeCalledWith([
+        "Ice cream sandwich",
+        "Eclair",
+      ]);
+
+      // clicking the checkbox should not also trigger the row's click handler
+      fireEvent.click(getAllByRole("checkbox")[1]);
+      expect(onSelectedIdsChange).toBeCalledWith([
+        "Ice cream sandwich",
+        "Eclair",
+        "Frozen yogurt",
+      ]);
+      expect(onSelectedIdsChange).toBeCalledTimes(3);
+    });
+  });
+
+  describe("column layout", () => {
+    it("should resize columns with the pointer and keyboard", () => {
+      const onColumnLayoutChange = jest.fn();
+      const { container, getByRole } = render(
+        <DataTable
+          id="desserts"
+          columns={columns}
+          data={desserts}
+          resizableColumns
+          onColumnLayoutChange={onColumnLayoutChange}
+        />
+      );
+
+      const table = getByRole("table");
+      expect(table).not.toHaveClass("rmd-table--fixed");
+      expect(container.querySelector("colgroup")).toBeNull();
+
+      const handle = getByRole("separator", { name: "Resize Dessert" });
+      fireEvent.mouseDown(handle, { clientX: 100 });
+      fireEvent.mouseMove(window, { clientX: 120 });
+      fireEvent.mouseMove(window, { clientX: 150 });
+      expect(handle).toHaveAttribute("aria-valuenow", "98");
+      expect(onColumnLayoutChange).not.toBeCalled();
+
+      fireEvent.mouseUp(window);
+      expect(onColumnLayoutChange).toBeCalledTimes(1);
+      expect(onColumnLayoutChange).toHaveBeenLastCalledWith({
+        order: ["name", "calories", "type", "label"],
+        widths: { name: 98, calories: 48, type: 48, label: 48 },
+      });
+      expect(table).toHaveClass("rmd-table--fixed");
+      expect(container.querySelectorAll("col")[0]).toHaveStyle("width: 98px");
+
+      fireEvent.click(handle);
+      expect(
+        container.querySelector("#desserts-header-name")
+      ).not.toHaveAttribute("aria-sort");
+
+      fireEvent.keyDown(handle, { key: "ArrowLeft" });
+      expect(handle).toHaveAttribute("aria-valuenow", "82");
+      expect(onColumnLayoutChange).toBeCalledTimes(2);
+
+      // no longer resizing after the mouseup
+      fireEvent.mouseMove(window, { clientX: 300 });
+      expect(handle).toHaveAttribute("aria-valuenow", "82");
+    });
+
+    it("should reorder columns by dragging the header cells", () => {
+      const { container, getByRole } = render(
+        <DataTable
+          columns={columns.map((column) =>
+            column.id === "name" ? { ...column, disableReorder: true } : column
+          )}
+          data={desserts}
+          reorderableColumns
+        />
+      );
+
+      const dessert = getByRole("columnheader", { name: "Dessert" });
+      const calories = getByRole("columnheader", { name: "Calories" });
+      const label = getByRole("columnheader", { name: "Label" });
+      expect(dessert).not.toHaveAttribute("draggable");
+      expect(label).toHaveAttribute("draggable", "true");
+
+      fireEvent.dragStart(label);
+      expect(label).toHaveClass("rmd-table-cell--dragging");
+
+      // the dragged column can only be dropped on other reorderable columns
+      fireEvent.dragOver(dessert);
+      expect(dessert).not.toHaveClass("rmd-table-cell--drop-after");
+
+      // jsdom has no layout so the pointer is always at the end of the cell
+      fireEvent.dragOver(calories);
+      expect(calories).toHaveClass("rmd-table-cell--drop-after");
+      fireEvent.drop(calories);
+
+      expect(
+        Array.from(container.querySelectorAll("thead th")).map(
+          (cell) => cell.textContent
+        )
+      ).toEqual(["Dessert", "Calories", "Label", "Type"]);
+      expect(getColumn(container, 3)).toEqual([
+        "Ice cream",
+        "Ice cream",
+        "Pastry",
+        "Pastry",
+      ]);
+    });
+  });
+});
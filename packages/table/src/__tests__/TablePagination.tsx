@@ -0,0 +1,72 @@
+import React from "react";
+import { fireEvent, render } from "@testing-library/react";
+
+import { TablePagination } from "../TablePagination";
+
+describe("TablePagination", () => {
+  it("should render the range label and disable the buttons at each end", () => {
+    const onPageChange = jest.fn();
+    const { getByRole, getByText, rerender } = render(
+      <TablePagination
+        id="pagination"
+        page={1}
+        pageSize={10}
+        total={240}
+        onPageChange={onPageChange}
+      />
+    );
+
+    expect(getByText("1–10 of 240")).toBeInTheDocument();
+    expect(getByRole("button", { name: "Previous page" })).toBeDisabled();
+
+    fireEvent.click(getByRole("button", { name: "Next page" }));
+    expect(onPageChange).toBeCalledWith(2);
+
+    rerender(
+      <TablePagination
+        id="pagination"
+        page={24}
+        pageSize={10}
+        total={235}
+        onPageChange={onPageChange}
+      />
+    );
+    expect(getByText("231–235 of 235")).toBeInTheDocument();
+    expect(getByRole("button", { name: "Next page" })).toBeDisabled();
+
+    fireEvent.click(getByRole("button", { name: "Previous page" }));
+    expect(onPageChange).toBeCalledWith(23);
+  });
+
+  it("should only render the page size select when onPageSizeChange is provided", () => {
+    const onPageSizeChange = jest.fn();
+    const { getByRole, queryByText, rerender } = render(
+      <TablePagination
+        id="pagination"
+        page={1}
+        pageSize={10}
+        total={0}
+        onPageChange={jest.fn()}
+      />
+    );
+
+    expect(queryByText("Rows per page")).toBeNull();
+    expect(queryByText("0–0 of 0")).toBeInTheDocument();
+
+    rerender(
+      <TablePagination
+        id="pagination"
+        page={1}
+        pageSize={10}
+        total={0}
+        onPageChange={jest.fn()}
+        onPageSizeChange={onPageSizeChange}
+      />
+    );
+
+    const select = getByRole("button", { name: "Rows per page 10" });
+    fireEvent.click(select);
+    fireEvent.click(getByRole("option", { name: "25" }));
+    expect(onPageSizeChange).toBeCalledWith(25);
+  });
+});
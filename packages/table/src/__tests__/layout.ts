@@ -0,0 +1,163 @@
+import { fireEvent } from "@testing-library/react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+import {
+  getTableColumnOrder,
+  moveTableColumn,
+  TableColumnLayoutConfig,
+  useTableColumnLayout,
+} from "../layout";
+
+const columns: readonly TableColumnLayoutConfig[] = [
+  { id: "name", disableReorder: true },
+  { id: "calories", minWidth: 100, maxWidth: 200 },
+  { id: "fat" },
+];
+
+describe("getTableColumnOrder", () => {
+  it("should remove columns that no longer exist and add new columns to the end", () => {
+    expect(
+      getTableColumnOrder(
+        ["fat", "removed", "name"],
+        ["name", "calories", "fat"]
+      )
+    ).toEqual(["fat", "name", "calories"]);
+  });
+});
+
+describe("moveTableColumn", () => {
+  it("should move the column before or after the target", () => {
+    const order = ["a", "b", "c", "d"];
+    expect(moveTableColumn(order, "a", "c", "before")).toEqual([
+      "b",
+      "a",
+      "c",
+      "d",
+    ]);
+    expect(moveTableColumn(order, "a", "c", "after")).toEqual([
+      "b",
+      "c",
+      "a",
+      "d",
+    ]);
+    expect(moveTableColumn(order, "d", "a", "before")).toEqual([
+      "d",
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("should return the same order if the move is invalid", () => {
+    const order = ["a", "b"];
+    expect(moveTableColumn(order, "a", "a", "after")).toBe(order);
+    expect(moveTableColumn(order, "z", "a", "after")).toBe(order);
+    expect(moveTableColumn(order, "a", "z", "after")).toBe(order);
+  });
+});
+
+describe("useTableColumnLayout", () => {
+  it("should restore the default layout and only provide drag handlers for reorderable columns", () => {
+    const { result } = renderHook(() =>
+      useTableColumnLayout(columns, {
+        defaultLayout: { order: ["fat", "name"], widths: {} },
+      })
+    );
+
+    expect(result.current.columnIds).toEqual(["fat", "name", "calories"]);
+    expect(result.current.colStyles).toBeUndefined();
+    expect(Object.keys(result.current.getHeaderProps("name"))).toEqual(["ref"]);
+    expect(result.current.getHeaderProps("fat").draggable).toBe(true);
+  });
+
+  it("should clamp the width and measure every column once a column is resized", () => {
+    const onLayoutChange = jest.fn();
+    const { result } = renderHook(() =>
+      useTableColumnLayout(columns, { onLayoutChange })
+    );
+
+    act(() => {
+      result.current.resizeColumn("calories", 500);
+    });
+    expect(onLayoutChange).toBeCalledWith({
+      order: ["name", "calories", "fat"],
+      widths: { name: 48, calories: 200, fat: 48 },
+    });
+    expect(result.current.colStyles).toEqual({
+      name: { width: 48 },
+      calories: { width: 200 },
+      fat: { width: 48 },
+    });
+
+    act(() => {
+      result.current.resetLayout();
+    });
+    expect(result.current.layout).toEqual({ order: [], widths: {} });
+  });
+
+  it("should only call onLayoutChange once a drag has ended", () => {
+    const onLayoutChange = jest.fn();
+    const layout = { order: [], widths: {} };
+    const { result } = renderHook(() =>
+      useTableColumnLayout(columns, { layout, onLayoutChange })
+    );
+
+    act(() => {
+      result.current.getResizeHandleProps("calories").onMouseDown({
+        button: 0,
+        clientX: 0,
+        preventDefault: jest.fn(),
+        stopPropagation: jest.fn(),
+      } as unknown as React.MouseEvent<HTMLElement>);
+    });
+    act(() => {
+      fireEvent.mouseMove(window, { clientX: 10 });
+      fireEvent.mouseMove(window, { clientX: 20 });
+    });
+    expect(result.current.layout.widths.calories).toBe(120);
+    expect(onLayoutChange).not.toBeCalled();
+
+    act(() => {
+      fireEvent.mouseUp(window);
+    });
+    expect(onLayoutChange).toBeCalledTimes(1);
+    expect(onLayoutChange).toBeCalledWith({
+      order: ["name", "calories", "fat"],
+      widths: { name: 48, calories: 120, fat: 48 },
+    });
+    expect(result.current.layout).toBe(layout);
+  });
+
+  it("should resize with the keyboard", () => {
+    const { result } = renderHook(() =>
+      useTableColumnLayout(columns, { resizeStep: 10 })
+    );
+
+    const press = (key: string): void => {
+      act(() => {
+        result.current.getResizeHandleProps("calories").onKeyDown({
+          key,
+          preventDefault: jest.fn(),
+          stopPropagation: jest.fn(),
+        } as unknown as React.KeyboardEvent<HTMLElement>);
+      });
+    };
+
+    press("ArrowRight");
+    expect(result.current.layout.widths.calories).toBe(110);
+    press("ArrowLeft");
+    press("ArrowLeft");
+    expect(result.current.layout.widths.calories).toBe(100);
+    press("End");
+    expect(result.current.layout.widths.calories).toBe(200);
+    expect(result.current.getResizeHandleProps("calories")).toEqual(
+      expect.objectContaining({
+        "aria-valuenow": 200,
+        "aria-valuemin": 100,
+        "aria-valuemax": 200,
+      })
+    );
+    press("Home");
+    expect(result.current.layout.widths.calories).toBe(100);
+  });
+});
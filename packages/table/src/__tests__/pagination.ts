@@ -0,0 +1,80 @@
+import { act, renderHook } from "@testing-library/react-hooks";
+
+import {
+  getTablePageCount,
+  paginateTableData,
+  useTablePagination,
+} from "../pagination";
+
+const data = Array.from({ length: 24 }, (_, i) => i + 1);
+
+describe("getTablePageCount", () => {
+  it("should always return at least one page", () => {
+    expect(getTablePageCount(0, 10)).toBe(1);
+    expect(getTablePageCount(10, 10)).toBe(1);
+    expect(getTablePageCount(11, 10)).toBe(2);
+  });
+});
+
+describe("paginateTableData", () => {
+  it("should return the rows for the page", () => {
+    expect(paginateTableData(data, { page: 1, pageSize: 5 })).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(paginateTableData(data, { page: 5, pageSize: 5 })).toEqual([
+      21, 22, 23, 24,
+    ]);
+  });
+});
+
+describe("useTablePagination", () => {
+  it("should slice the data client-side and clamp the page", () => {
+    const { result } = renderHook(() => useTablePagination({ data }));
+    expect(result.current.rows).toEqual(data.slice(0, 10));
+    expect(result.current.pageCount).toBe(3);
+    expect(result.current.total).toBe(24);
+
+    act(() => {
+      result.current.setPage(10);
+    });
+    expect(result.current.page).toBe(3);
+    expect(result.current.rows).toEqual([21, 22, 23, 24]);
+
+    act(() => {
+      result.current.setPage(0);
+    });
+    expect(result.current.page).toBe(1);
+  });
+
+  it("should keep the first visible row when the page size changes", () => {
+    const { result } = renderHook(() =>
+      useTablePagination({ data, defaultPageSize: 5, defaultPage: 3 })
+    );
+    expect(result.current.rows[0]).toBe(11);
+
+    act(() => {
+      result.current.setPageSize(10);
+    });
+    expect(result.current.page).toBe(2);
+    expect(result.current.rows[0]).toBe(11);
+  });
+
+  it("should report the pagination state for server-side paging", () => {
+    const onPaginationChange = jest.fn();
+    const { result } = renderHook(() =>
+      useTablePagination({ total: 240, onPaginationChange })
+    );
+    expect(result.current.rows).toEqual([]);
+    expect(result.current.pageCount).toBe(24);
+
+    act(() => {
+      result.current.paginationProps.onPageChange(2);
+    });
+    expect(onPaginationChange).toBeCalledWith({ page: 2, pageSize: 10 });
+
+    act(() => {
+      result.current.paginationProps.onPageSizeChange?.(25);
+    });
+    expect(onPaginationChange).toBeCalledWith({ page: 1, pageSize: 25 });
+  });
+});
@@ -0,0 +1,134 @@
+import { act, renderHook } from "@testing-library/react-hooks";
+
+import { getTableSelectionRange, useTableSelection } from "../selection";
+
+const rowIds = ["a", "b", "c", "d", "e"];
+
+describe("getTableSelectionRange", () => {
+  it("should return every row id between the anchor and row id", () => {
+    expect(getTableSelectionRange(rowIds, "b", "d")).toEqual(["b", "c", "d"]);
+    expect(getTableSelectionRange(rowIds, "d", "b")).toEqual(["b", "c", "d"]);
+  });
+
+  it("should only return the row id if the anchor does not exist", () => {
+    expect(getTableSelectionRange(rowIds, null, "c")).toEqual(["c"]);
+    expect(getTableSelectionRange(rowIds, "z", "c")).toEqual(["c"]);
+  });
+});
+
+describe("useTableSelection", () => {
+  it("should update the header checkbox state based on the selected rows", () => {
+    const { result } = renderHook(() => useTableSelection(rowIds));
+    expect(result.current.headerCheckboxProps).toEqual({
+      "aria-checked": undefined,
+      checked: false,
+      indeterminate: false,
+      onChange: expect.any(Function),
+    });
+
+    act(() => {
+      result.current.toggleRow("a");
+    });
+    expect(result.current.selectedIds).toEqual(["a"]);
+    expect(result.current.headerCheckboxProps).toEqual({
+      "aria-checked": "mixed",
+      checked: true,
+      indeterminate: true,
+      onChange: expect.any(Function),
+    });
+
+    act(() => {
+      result.current.headerCheckboxProps.onChange();
+    });
+    expect(result.current.selectedIds).toEqual(rowIds);
+    expect(result.current.allSelected).toBe(true);
+    expect(result.current.headerCheckboxProps.indeterminate).toBe(false);
+
+    act(() => {
+      result.current.headerCheckboxProps.onChange();
+    });
+    expect(result.current.selectedIds).toEqual([]);
+  });
+
+  it("should only update the current row ids when toggling all the rows", () => {
+    const { result, rerender } = renderHook(
+      ({ pageIds }) => useTableSelection(pageIds),
+      { initialProps: { pageIds: ["a", "b"] } }
+    );
+
+    act(() => {
+      result.current.toggleAll();
+    });
+    expect(result.current.selectedIds).toEqual(["a", "b"]);
+
+    rerender({ pageIds: ["c", "d"] });
+    act(() => {
+      result.current.toggleRow("c");
+    });
+    act(() => {
+      result.current.toggleAll();
+    });
+    expect(result.current.selectedIds).toEqual(["a", "b", "c", "d"]);
+
+    act(() => {
+      result.current.toggleAll();
+    });
+    expect(result.current.selectedIds).toEqual(["a", "b"]);
+  });
+
+  it("should update a range of rows to the next selection state", () => {
+    const { result } = renderHook(() => useTableSelection(rowIds));
+
+    act(() => {
+      result.current.toggleRow("b");
+    });
+    act(() => {
+      result.current.toggleRow("d", true);
+    });
+    expect(result.current.selectedIds).toEqual(["b", "c", "d"]);
+
+    act(() => {
+      result.current.toggleRow("c", true);
+    });
+    expect(result.current.selectedIds).toEqual(["b"]);
+  });
+
+  it("should call the onSelectedIdsChange option and use the controlled selectedIds", () => {
+    const onSelectedIdsChange = jest.fn();
+    const { result } = renderHook(() =>
+      useTableSelection(rowIds, {
+        selectedIds: ["e"],
+        onSelectedIdsChange,
+      })
+    );
+
+    expect(result.current.isSelected("e")).toBe(true);
+    act(() => {
+      result.current.toggleRow("a");
+    });
+    expect(onSelectedIdsChange).toBeCalledWith(["e", "a"]);
+    expect(result.current.selectedIds).toEqual(["e"]);
+  });
+
+  it("should only provide row click handlers when selectOnRowClick is enabled", () => {
+    const { result, rerender } = renderHook(
+      ({ selectOnRowClick }) => useTableSelection(rowIds, { selectOnRowClick }),
+      { initialProps: { selectOnRowClick: false } }
+    );
+
+    expect(result.current.getRowProps("a")).toEqual({
+      "aria-selected": false,
+      selected: false,
+    });
+
+    rerender({ selectOnRowClick: true });
+    expect(result.current.getRowProps("a")).toEqual({
+      "aria-selected": false,
+      selected: false,
+      clickable: true,
+      tabIndex: 0,
+      onClick: expect.any(Function),
+      onKeyDown: expect.any(Function),
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  defaultTableComparator,
+  getNextTableSort,
+  sortTableData,
+} from "../sort";
+
+describe("defaultTableComparator", () => {
+  it("should sort empty values last and compare numbers, dates, and strings", () => {
+    expect(defaultTableComparator(null, 1)).toBeGreaterThan(0);
+    expect(defaultTableComparator(1, undefined)).toBeLessThan(0);
+    expect(defaultTableComparator(null, undefined)).toBe(0);
+    expect(defaultTableComparator(2, 10)).toBeLessThan(0);
+    expect(
+      defaultTableComparator(new Date(2020, 1, 1), new Date(2019, 1, 1))
+    ).toBeGreaterThan(0);
+    expect(defaultTableComparator("Item 2", "Item 10")).toBeLessThan(0);
+  });
+});
+
+describe("getNextTableSort", () => {
+  it("should replace the sort state unless the multi argument is enabled", () => {
+    const sort = [{ columnId: "a", order: "ascending" as const }];
+
+    expect(getNextTableSort(sort, "b")).toEqual([
+      { columnId: "b", order: "ascending" },
+    ]);
+    expect(getNextTableSort(sort, "a")).toEqual([
+      { columnId: "a", order: "descending" },
+    ]);
+    expect(
+      getNextTableSort([{ columnId: "a", order: "descending" }], "a")
+    ).toEqual([]);
+
+    const multi = getNextTableSort(sort, "b", true);
+    expect(multi).toEqual([
+      { columnId: "a", order: "ascending" },
+      { columnId: "b", order: "ascending" },
+    ]);
+    expect(getNextTableSort(multi, "a", true)).toEqual([
+      { columnId: "a", order: "descending" },
+      { columnId: "b", order: "ascending" },
+    ]);
+    expect(
+      getNextTableSort(getNextTableSort(multi, "a", true), "a", true)
+    ).toEqual([{ columnId: "b", order: "ascending" }]);
+  });
+});
+
+describe("sortTableData", () => {
+  it("should use the column comparator and keep the original order for equal rows", () => {
+    const data = [
+      { id: "1", value: "b" },
+      { id: "2", value: "a" },
+      { id: "3", value: "b" },
+    ];
+    const columns = [
+      { id: "value", header: "Value" },
+      {
+        id: "id",
+        header: "Id",
+        comparator: (a: typeof data[0], b: typeof data[0]) =>
+          Number(b.id) - Number(a.id),
+      },
+    ];
+
+    expect(sortTableData(data, columns, [])).toBe(data);
+    expect(
+      sortTableData(data, columns, [{ columnId: "value", order: "descending" }])
+    ).toEqual([data[0], data[2], data[1]]);
+    expect(
+      sortTableData(data, columns, [{ columnId: "id", order: "ascending" }])
+    ).toEqual([data[2], data[1], data[0]]);
+  });
+
+  it("should sort empty values last in both directions", () => {
+    const data = [
+      { id: "1", value: 2 },
+      { id: "2", value: null },
+      { id: "3", value: 3 },
+      { id: "4", value: undefined },
+      { id: "5", value: 1 },
+    ];
+    const columns = [{ id: "value", header: "Value" }];
+
+    expect(
+      sortTableData(data, columns, [{ columnId: "value", order: "ascending" }])
+    ).toEqual([data[4], data[0], data[2], data[1], data[3]]);
+    expect(
+      sortTableData(data, columns, [{ columnId: "value", order: "descending" }])
+    ).toEqual([data[2], data[0], data[4], data[1], data[3]]);
+  });
+});
@@ -0,0 +1,86 @@
+import { ReactNode } from "react";
+
+import { TableColumnLayoutConfig } from "./layout";
+import { TableCellProps } from "./TableCell";
+
+/**
+ * Either a key of the row or a function that returns the value for a column.
+ * The value will be used for the default cell renderer and the default sort
+ * comparator.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TableColumnAccessor<T> = keyof T | ((row: T) => unknown);
+
+/**
+ * A function that compares two rows for a column. This should return a number
+ * less than `0` if `a` should be sorted before `b`, a number greater than `0` if
+ * `b` should be sorted before `a`, or `0` if they are equal. The result will
+ * automatically be reversed when the column is sorted in descending order.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TableColumnComparator<T> = (a: T, b: T) => number;
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableColumn<T> extends TableColumnLayoutConfig {
+  /**
+   * The content to render in the column's header cell.
+   */
+  header: ReactNode;
+
+  /**
+   * An optional accessor to get the value for the column from a row. When this
+   * is omitted, the `id` will be used as the key of the row.
+   */
+  accessor?: TableColumnAccessor<T>;
+
+  /**
+   * An optional function to render the content for each of the column's cells.
+   * The default behavior is to render the accessor's value.
+   */
+  cell?(row: T, rowIndex: number): ReactNode;
+
+  /**
+   * Boolean if the column can be sorted by clicking the header cell.
+   */
+  sortable?: boolean;
+
+  /**
+   * An optional comparator to use when sorting the column instead of comparing
+   * the accessor's values with the `defaultTableComparator`.
+   */
+  comparator?: TableColumnComparator<T>;
+
+  /**
+   * Any additional props to pass to the header cell.
+   */
+  headerProps?: Omit<TableCellProps, "aria-sort" | "children">;
+
+  /**
+   * Any additional props to pass to each of the column's cells.
+   */
+  cellProps?: Omit<TableCellProps, "children">;
+}
+
+/**
+ * Gets the value for a column from a row based on the column's `accessor` or
+ * `id`.
+ *
+ * @param row - The row to get a value from
+ * @param column - The column definition
+ * @returns the value for the column
+ * @remarks \@since 3.2.0
+ */
+export function getTableColumnValue<T>(
+  row: T,
+  { id, accessor }: Pick<TableColumn<T>, "id" | "accessor">
+): unknown {
+  if (typeof accessor === "function") {
+    return accessor(row);
+  }
+
+  return row[(accessor ?? id) as keyof T];
+}
@@ -11,6 +11,14 @@ export * from "./TableCell";
 export * from "./TableCellContent";
 export * from "./Caption";
 export * from "./TableCheckbox";
+export * from "./DataTable";
+export * from "./TablePagination";
+export * from "./TableColumnResizeHandle";
+export * from "./columns";
+export * from "./sort";
+export * from "./selection";
+export * from "./pagination";
+export * from "./layout";
 
 export {
   TableCellConfiguration,
@@ -0,0 +1,674 @@
+import {
+  CSSProperties,
+  DragEvent,
+  KeyboardEvent,
+  MouseEvent,
+  TouchEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import cn from "classnames";
+import { useDir, useRefCache } from "@react-md/utils";
+
+/**
+ * A serializable description of the column order and widths for a table that
+ * can be persisted and restored later.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface TableColumnLayout {
+  /**
+   * The column ids in the order they should be displayed.
+   */
+  order: readonly string[];
+
+  /**
+   * The width in pixels for each column id. This will be empty until a column
+   * has been resized, and then will contain the width of every column so that
+   * the table can switch to a fixed layout.
+   */
+  widths: Readonly<Record<string, number>>;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableColumnLayoutConfig {
+  /**
+   * A unique id for the column. This is used for the sort state, the column
+   * layout, and the column's React `key`.
+   */
+  id: string;
+
+  /**
+   * The minimum width in pixels the column can be resized to. This defaults
+   * to the `minWidth` option from the {@link useTableColumnLayout} hook.
+   */
+  minWidth?: number;
+
+  /**
+   * The maximum width in pixels the column can be resized to.
+   *
+   * @defaultValue `Infinity`
+   */
+  maxWidth?: number;
+
+  /**
+   * Boolean if the column should not be resizable.
+   */
+  disableResize?: boolean;
+
+  /**
+   * Boolean if the column should not be reordered. This should normally be
+   * enabled for sticky columns so that they remain at the start or end of the
+   * table.
+   */
+  disableReorder?: boolean;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableColumnLayoutOptions {
+  /**
+   * The current layout that can be provided to make the layout controlled.
+   * This should be used along with the `onLayoutChange` option.
+   */
+  layout?: TableColumnLayout;
+
+  /**
+   * The layout to use when the layout is not controlled. This is useful for
+   * restoring a persisted layout. Columns that no longer exist will be
+   * ignored and new columns will be added to the end.
+   */
+  defaultLayout?: TableColumnLayout;
+
+  /**
+   * An optional function to call whenever a column has been resized or
+   * reordered. This will only be called once a column has finished being
+   * resized by a mouse or touch drag instead of each time the pointer moves.
+   */
+  onLayoutChange?(layout: TableColumnLayout): void;
+
+  /**
+   * The default minimum width in pixels for each column.
+   *
+   * @defaultValue `48`
+   */
+  minWidth?: number;
+
+  /**
+   * The number of pixels to resize a column by when using the arrow keys on a
+   * resize handle.
+   *
+   * @defaultValue `16`
+   */
+  resizeStep?: number;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export type TableColumnDropPosition = "before" | "after";
+
+/**
+ * The props that should be provided to a column's header cell.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface ProvidedTableColumnHeaderProps {
+  ref(instance: HTMLElement | null): void;
+  className?: string;
+  draggable?: boolean;
+  onDragStart?(event: DragEvent<HTMLElement>): void;
+  onDragOver?(event: DragEvent<HTMLElement>): void;
+  onDragLeave?(event: DragEvent<HTMLElement>): void;
+  onDrop?(event: DragEvent<HTMLElement>): void;
+  onDragEnd?(event: DragEvent<HTMLElement>): void;
+}
+
+/**
+ * The props that should be provided to the `TableColumnResizeHandle`
+ * component.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface ProvidedTableColumnResizeHandleProps {
+  "aria-valuenow"?: number;
+  "aria-valuemin": number;
+  "aria-valuemax"?: number;
+  active: boolean;
+  onMouseDown(event: MouseEvent<HTMLElement>): void;
+  onTouchStart(event: TouchEvent<HTMLElement>): void;
+  onKeyDown(event: KeyboardEvent<HTMLElement>): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableColumnLayoutReturnValue {
+  /**
+   * The current column layout.
+   */
+  layout: TableColumnLayout;
+
+  /**
+   * The column ids in the order they should be rendered.
+   */
+  columnIds: readonly string[];
+
+  /**
+   * The `<col>` styles for each column once a column has been resized. This
+   * will be `undefined` while the table is using the automatic layout.
+   */
+  colStyles: Readonly<Record<string, CSSProperties>> | undefined;
+
+  /**
+   * The column id that is currently being resized.
+   */
+  resizingId: string | null;
+
+  /**
+   * The column id that is currently being dragged to a new position.
+   */
+  draggedId: string | null;
+
+  /**
+   * Updates the width for a column. The width will be clamped between the
+   * column's min and max widths.
+   */
+  resizeColumn(columnId: string, width: number): void;
+
+  /**
+   * Moves a column before or after another column.
+   */
+  moveColumn(
+    columnId: string,
+    targetId: string,
+    position: TableColumnDropPosition
+  ): void;
+
+  /**
+   * Resets the layout back to the column definition order and the automatic
+   * widths.
+   */
+  resetLayout(): void;
+
+  /**
+   * Gets the props to pass to a column's header cell.
+   */
+  getHeaderProps(columnId: string): ProvidedTableColumnHeaderProps;
+
+  /**
+   * Gets the props to pass to a column's `TableColumnResizeHandle`.
+   */
+  getResizeHandleProps(columnId: string): ProvidedTableColumnResizeHandleProps;
+}
+
+/**
+ * Gets the column order from a layout by removing any columns that no longer
+ * exist and adding new columns to the end.
+ *
+ * @param order - The column order from a {@link TableColumnLayout}
+ * @param columnIds - The column ids from the column definitions
+ * @returns the column order
+ * @remarks \@since 3.2.0
+ */
+export function getTableColumnOrder(
+  order: readonly string[],
+  columnIds: readonly string[]
+): readonly string[] {
+  const ids = new Set(columnIds);
+  const ordered = order.filter((columnId) => ids.has(columnId));
+  const remaining = columnIds.filter((columnId) => !ordered.includes(columnId));
+
+  return [...ordered, ...remaining];
+}
+
+/**
+ * Moves a column before or after another column.
+ *
+ * @param order - The current column order
+ * @param columnId - The column to move
+ * @param targetId - The column to move next to
+ * @param position - Where the column should be placed relative to the target
+ * @returns the next column order
+ * @remarks \@since 3.2.0
+ */
+export function moveTableColumn(
+  order: readonly string[],
+  columnId: string,
+  targetId: string,
+  position: TableColumnDropPosition
+): readonly string[] {
+  if (columnId === targetId || !order.includes(columnId)) {
+    return order;
+  }
+
+  const nextOrder = order.filter((id) => id !== columnId);
+  const targetIndex = nextOrder.indexOf(targetId);
+  if (targetIndex === -1) {
+    return order;
+  }
+
+  nextOrder.splice(targetIndex + (position === "after" ? 1 : 0), 0, columnId);
+  return nextOrder;
+}
+
+/**
+ * @internal
+ */
+interface ResizeState {
+  columnId: string;
+  startX: number;
+  startWidth: number;
+  by: "mouse" | "touch";
+}
+
+/**
+ * @internal
+ */
+interface ColumnDropTarget {
+  columnId: string;
+  position: TableColumnDropPosition;
+}
+
+const EMPTY_LAYOUT: TableColumnLayout = { order: [], widths: {} };
+
+/**
+ * This hook implements resizing columns with a pointer or the keyboard and
+ * reordering columns with drag and drop. The layout is a serializable object
+ * that can be persisted and provided again through the `defaultLayout` option.
+ *
+ * Until a column has been resized, the table will use the automatic layout.
+ * Once a column starts resizing, the current width of every column will be
+ * measured and stored in the layout so that the `colStyles` can be applied to
+ * a `<colgroup>` along with a fixed table layout.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const columns = [{ id: "name" }, { id: "calories" }];
+ * const {
+ *   columnIds,
+ *   colStyles,
+ *   getHeaderProps,
+ *   getResizeHandleProps,
+ * } = useTableColumnLayout(columns);
+ *
+ * return (
+ *   <Table fixedLayout={!!colStyles}>
+ *     {colStyles && (
+ *       <colgroup>
+ *         {columnIds.map((id) => (
+ *           <col key={id} style={colStyles[id]} />
+ *         ))}
+ *       </colgroup>
+ *     )}
+ *     <TableHeader>
+ *       <TableRow>
+ *         {columnIds.map((id) => (
+ *           <TableCell
+ *             key={id}
+ *             {...getHeaderProps(id)}
+ *             resizeHandle={
+ *               <TableColumnResizeHandle
+ *                 {...getResizeHandleProps(id)}
+ *                 aria-label={`Resize ${LABELS[id]}`}
+ *               />
+ *             }
+ *           >
+ *             {LABELS[id]}
+ *           </TableCell>
+ *         ))}
+ *       </TableRow>
+ *     </TableHeader>
+ *   </Table>
+ * );
+ * ```
+ *
+ * @param columns - The column configurations in the default order
+ * @param options - The {@link TableColumnLayoutOptions}
+ * @returns the {@link TableColumnLayoutReturnValue}
+ * @remarks \@since 3.2.0
+ */
+export function useTableColumnLayout(
+  columns: readonly TableColumnLayoutConfig[],
+  {
+    layout: propLayout,
+    defaultLayout = EMPTY_LAYOUT,
+    onLayoutChange,
+    minWidth: defaultMinWidth = 48,
+    resizeStep = 16,
+  }: TableColumnLayoutOptions = {}
+): TableColumnLayoutReturnValue {
+  const [localLayout, setLayout] = useState(defaultLayout);
+  const [resizing, setResizing] = useState<ResizeState | null>(null);
+
+  // the local layout is used while a column is being dragged so that the
+  // `onLayoutChange` option only needs to be called once the drag has ended
+  const layout = (!resizing && propLayout) || localLayout;
+  const cache = useRefCache({ layout, onLayoutChange });
+  const isRtl = useDir().dir === "rtl";
+
+  const configs = useMemo(
+    () => new Map(columns.map((column) => [column.id, column])),
+    [columns]
+  );
+  const columnIds = useMemo(
+    () =>
+      getTableColumnOrder(
+        layout.order,
+        columns.map(({ id }) => id)
+      ),
+    [columns, layout.order]
+  );
+
+  const cells = useRef(new Map<string, HTMLElement>());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ColumnDropTarget | null>(null);
+
+  const updateLayout = useCallback(
+    (nextLayout: TableColumnLayout) => {
+      if (onLayoutChange) {
+        onLayoutChange(nextLayout);
+      }
+
+      setLayout(nextLayout);
+    },
+    [onLayoutChange]
+  );
+
+  const getMinWidth = useCallback(
+    (columnId: string) => configs.get(columnId)?.minWidth ?? defaultMinWidth,
+    [configs, defaultMinWidth]
+  );
+  const getMaxWidth = useCallback(
+    (columnId: string) => configs.get(columnId)?.maxWidth ?? Infinity,
+    [configs]
+  );
+  const clampWidth = useCallback(
+    (columnId: string, width: number) =>
+      Math.round(
+        Math.min(getMaxWidth(columnId), Math.max(getMinWidth(columnId), width))
+      ),
+    [getMaxWidth, getMinWidth]
+  );
+
+  // once a column is resized, every column needs a width for the fixed table
+  // layout so measure the current widths for any columns that are missing
+  const getWidths = useCallback((): Record<string, number> => {
+    const widths = { ...layout.widths };
+    columnIds.forEach((columnId) => {
+      if (typeof widths[columnId] === "undefined") {
+        const cell = cells.current.get(columnId);
+        widths[columnId] = clampWidth(
+          columnId,
+          cell ? cell.getBoundingClientRect().width : 0
+        );
+      }
+    });
+
+    return widths;
+  }, [clampWidth, columnIds, layout.widths]);
+
+  const getResizedLayout = useCallback(
+    (columnId: string, width: number): TableColumnLayout => ({
+      order: columnIds,
+      widths: {
+        ...getWidths(),
+        [columnId]: clampWidth(columnId, width),
+      },
+    }),
+    [clampWidth, columnIds, getWidths]
+  );
+  const resizeColumn = useCallback(
+    (columnId: string, width: number) => {
+      updateLayout(getResizedLayout(columnId, width));
+    },
+    [getResizedLayout, updateLayout]
+  );
+
+  const moveColumn = useCallback(
+    (columnId: string, targetId: string, position: TableColumnDropPosition) => {
+      const order = moveTableColumn(columnIds, columnId, targetId, position);
+      if (order !== columnIds) {
+        updateLayout({ order, widths: layout.widths });
+      }
+    },
+    [columnIds, layout.widths, updateLayout]
+  );
+
+  const resetLayout = useCallback(() => {
+    updateLayout(EMPTY_LAYOUT);
+  }, [updateLayout]);
+
+  const colStyles = useMemo(() => {
+    if (!Object.keys(layout.widths).length) {
+      return undefined;
+    }
+
+    return columnIds.reduce<Record<string, CSSProperties>>(
+      (styles, columnId) => {
+        styles[columnId] = {
+          width: layout.widths[columnId] ?? getMinWidth(columnId),
+        };
+        return styles;
+      },
+      {}
+    );
+  }, [columnIds, getMinWidth, layout.widths]);
+
+  useEffect(() => {
+    if (!resizing) {
+      return;
+    }
+
+    const { columnId, startX, startWidth, by } = resizing;
+    const move = (
+      event: globalThis.MouseEvent | globalThis.TouchEvent
+    ): void => {
+      const { clientX } =
+        "changedTouches" in event ? event.changedTouches[0] : event;
+      const delta = (clientX - startX) * (isRtl ? -1 : 1);
+      setLayout(getResizedLayout(columnId, startWidth + delta));
+    };
+    const stop = (): void => {
+      const { layout, onLayoutChange } = cache.current;
+      if (onLayoutChange && layout.widths[columnId] !== startWidth) {
+        onLayoutChange(layout);
+      }
+
+      setResizing(null);
+    };
+
+    const moveEvent = by === "mouse" ? "mousemove" : "touchmove";
+    const stopEvent = by === "mouse" ? "mouseup" : "touchend";
+    window.addEventListener(moveEvent, move);
+    window.addEventListener(stopEvent, stop);
+    return () => {
+      window.removeEventListener(moveEvent, move);
+      window.removeEventListener(stopEvent, stop);
+    };
+    // disabled since useRefCache
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [getResizedLayout, isRtl, resizing]);
+
+  const canReorder = useCallback(
+    (columnId: string) =>
+      configs.has(columnId) && !configs.get(columnId)?.disableReorder,
+    [configs]
+  );
+
+  const getHeaderProps = useCallback(
+    (columnId: string): ProvidedTableColumnHeaderProps => {
+      const ref = (instance: HTMLElement | null): void => {
+        if (instance) {
+          cells.current.set(columnId, instance);
+        } else {
+          cells.current.delete(columnId);
+        }
+      };
+
+      if (!canReorder(columnId)) {
+        return { ref };
+      }
+
+      const isDropTarget = dropTarget?.columnId === columnId;
+      return {
+        ref,
+        className: cn({
+          "rmd-table-cell--dragging": draggedId === columnId,
+          "rmd-table-cell--drop-before":
+            isDropTarget && dropTarget?.position === "before",
+          "rmd-table-cell--drop-after":
+            isDropTarget && dropTarget?.position === "after",
+        }),
+        draggable: !resizing,
+        onDragStart(event) {
+          if (event.dataTransfer) {
+            event.dataTransfer.effectAllowed = "move";
+            event.dataTransfer.setData("text/plain", columnId);
+          }
+
+          setDraggedId(columnId);
+        },
+        onDragOver(event) {
+          if (!draggedId || draggedId === columnId) {
+            return;
+          }
+
+          event.preventDefault();
+          if (event.dataTransfer) {
+            event.dataTransfer.dropEffect = "move";
+          }
+
+          const { left, width } = event.currentTarget.getBoundingClientRect();
+          const isStart = event.clientX - left < width / 2;
+          const position = isStart !== isRtl ? "before" : "after";
+          if (
+            dropTarget?.columnId !== columnId ||
+            dropTarget.position !== position
+          ) {
+            setDropTarget({ columnId, position });
+          }
+        },
+        onDragLeave(event) {
+          const related = event.relatedTarget as Node | null;
+          if (
+            isDropTarget &&
+            (!related || !event.currentTarget.contains(related))
+          ) {
+            setDropTarget(null);
+          }
+        },
+        onDrop(event) {
+          event.preventDefault();
+          if (draggedId && dropTarget) {
+            moveColumn(draggedId, dropTarget.columnId, dropTarget.position);
+          }
+
+          setDraggedId(null);
+          setDropTarget(null);
+        },
+        onDragEnd() {
+          setDraggedId(null);
+          setDropTarget(null);
+        },
+      };
+    },
+    [canReorder, draggedId, dropTarget, isRtl, moveColumn, resizing]
+  );
+
+  const getResizeHandleProps = useCallback(
+    (columnId: string): ProvidedTableColumnResizeHandleProps => {
+      const maxWidth = getMaxWidth(columnId);
+      const startResizing = (clientX: number, by: ResizeState["by"]): void => {
+        const widths = getWidths();
+        setLayout({ order: columnIds, widths });
+        setResizing({
+          columnId,
+          startX: clientX,
+          startWidth: widths[columnId],
+          by,
+        });
+      };
+
+      return {
+        "aria-valuenow": layout.widths[columnId],
+        "aria-valuemin": getMinWidth(columnId),
+        "aria-valuemax": Number.isFinite(maxWidth) ? maxWidth : undefined,
+        active: resizing?.columnId === columnId,
+        onMouseDown(event) {
+          if (event.button !== 0) {
+            return;
+          }
+
+          // prevent the header cell from starting a drag event or sorting
+          event.preventDefault();
+          event.stopPropagation();
+          startResizing(event.clientX, "mouse");
+        },
+        onTouchStart(event) {
+          event.stopPropagation();
+          startResizing(event.changedTouches[0].clientX, "touch");
+        },
+        onKeyDown(event) {
+          const width = getWidths()[columnId];
+          let nextWidth: number;
+          switch (event.key) {
+            case "ArrowLeft":
+            case "ArrowRight": {
+              const increase = (event.key === "ArrowRight") !== isRtl;
+              nextWidth = width + (increase ? resizeStep : -resizeStep);
+              break;
+            }
+            case "Home":
+              nextWidth = getMinWidth(columnId);
+              break;
+            case "End":
+              if (!Number.isFinite(maxWidth)) {
+                return;
+              }
+
+              nextWidth = maxWidth;
+              break;
+            default:
+              return;
+          }
+
+          event.preventDefault();
+          event.stopPropagation();
+          resizeColumn(columnId, nextWidth);
+        },
+      };
+    },
+    [
+      columnIds,
+      getMaxWidth,
+      getMinWidth,
+      getWidths,
+      isRtl,
+      layout.widths,
+      resizeColumn,
+      resizeStep,
+      resizing,
+    ]
+  );
+
+  return {
+    layout,
+    columnIds,
+    colStyles,
+    resizingId: resizing?.columnId ?? null,
+    draggedId,
+    resizeColumn,
+    moveColumn,
+    resetLayout,
+    getHeaderProps,
+    getResizeHandleProps,
+  };
+}
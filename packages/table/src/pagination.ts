@@ -0,0 +1,263 @@
+import { useCallback, useMemo, useState } from "react";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TablePaginationState {
+  /**
+   * The current page number starting from `1`.
+   */
+  page: number;
+
+  /**
+   * The number of rows to display on each page.
+   */
+  pageSize: number;
+}
+
+/**
+ * The props provided by the {@link useTablePagination} hook that can be passed
+ * to the `TablePagination` component.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface ProvidedTablePaginationProps extends TablePaginationState {
+  /**
+   * The total number of rows across every page.
+   */
+  total: number;
+
+  /**
+   * A function to call when the previous or next page buttons are clicked.
+   */
+  onPageChange(page: number): void;
+
+  /**
+   * An optional function to call when a new page size is selected. The page
+   * size select will not be rendered when this is omitted.
+   */
+  onPageSizeChange?(pageSize: number): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TablePaginationOptions<T> {
+  /**
+   * The full list of rows that should be sliced client-side for the current
+   * page. This can be omitted when paging on the server and the `total` option
+   * should be provided instead.
+   */
+  data?: readonly T[];
+
+  /**
+   * The total number of rows across every page. This defaults to the length of
+   * the `data` option and should be provided when paging on the server.
+   */
+  total?: number;
+
+  /**
+   * The current page that can be provided to make the page controlled. This
+   * should be used along with the `onPaginationChange` option.
+   */
+  page?: number;
+
+  /**
+   * The page to use when the page is not controlled.
+   *
+   * @defaultValue `1`
+   */
+  defaultPage?: number;
+
+  /**
+   * The current page size that can be provided to make the page size
+   * controlled. This should be used along with the `onPaginationChange`
+   * option.
+   */
+  pageSize?: number;
+
+  /**
+   * The page size to use when the page size is not controlled.
+   *
+   * @defaultValue `10`
+   */
+  defaultPageSize?: number;
+
+  /**
+   * An optional function to call when the page or page size changes. This
+   * can be used to fetch the next page of data from the server.
+   */
+  onPaginationChange?(pagination: TablePaginationState): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TablePaginationReturnValue<T> extends TablePaginationState {
+  /**
+   * The rows for the current page. This will be an empty list when the `data`
+   * option was not provided.
+   */
+  rows: readonly T[];
+
+  /**
+   * The total number of rows across every page.
+   */
+  total: number;
+
+  /**
+   * The total number of pages. This will always be at least `1`.
+   */
+  pageCount: number;
+
+  /**
+   * Updates the current page. The page will be clamped between `1` and the
+   * {@link pageCount}.
+   */
+  setPage(page: number): void;
+
+  /**
+   * Updates the page size while keeping the first row of the current page
+   * visible.
+   */
+  setPageSize(pageSize: number): void;
+
+  /**
+   * The props that should be passed to the `TablePagination` component.
+   */
+  paginationProps: ProvidedTablePaginationProps;
+}
+
+/**
+ * Gets the total number of pages for a table. This will always be at least `1`
+ * so that an empty table still renders the first page.
+ *
+ * @param total - The total number of rows
+ * @param pageSize - The number of rows on each page
+ * @returns the total number of pages
+ * @remarks \@since 3.2.0
+ */
+export function getTablePageCount(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+/**
+ * Gets the rows that should be displayed for a page.
+ *
+ * @param data - The full list of rows
+ * @param pagination - The current {@link TablePaginationState}
+ * @returns the rows for the page
+ * @remarks \@since 3.2.0
+ */
+export function paginateTableData<T>(
+  data: readonly T[],
+  { page, pageSize }: TablePaginationState
+): readonly T[] {
+  const start = (page - 1) * pageSize;
+
+  return data.slice(start, start + pageSize);
+}
+
+/**
+ * This hook implements the pagination state for a table that can either slice
+ * the `data` client-side or report the current page and page size so that the
+ * rows can be fetched from the server.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const { rows, paginationProps } = useTablePagination({ data: desserts });
+ *
+ * return (
+ *   <>
+ *     <Table>
+ *       <TableBody>
+ *         {rows.map((dessert) => (
+ *           <TableRow key={dessert.name}>
+ *             <TableCell>{dessert.name}</TableCell>
+ *           </TableRow>
+ *         ))}
+ *       </TableBody>
+ *     </Table>
+ *     <TablePagination id="desserts-pagination" {...paginationProps} />
+ *   </>
+ * );
+ * ```
+ *
+ * @param options - The {@link TablePaginationOptions}
+ * @returns the {@link TablePaginationReturnValue}
+ * @remarks \@since 3.2.0
+ */
+export function useTablePagination<T = unknown>({
+  data,
+  total = data?.length ?? 0,
+  page: propPage,
+  defaultPage = 1,
+  pageSize: propPageSize,
+  defaultPageSize = 10,
+  onPaginationChange,
+}: TablePaginationOptions<T> = {}): TablePaginationReturnValue<T> {
+  const [localPagination, setPagination] = useState<TablePaginationState>({
+    page: defaultPage,
+    pageSize: defaultPageSize,
+  });
+  const pageSize = propPageSize ?? localPagination.pageSize;
+  const pageCount = getTablePageCount(total, pageSize);
+  const page = Math.min(
+    pageCount,
+    Math.max(1, propPage ?? localPagination.page)
+  );
+
+  const updatePagination = useCallback(
+    (nextPagination: TablePaginationState) => {
+      if (onPaginationChange) {
+        onPaginationChange(nextPagination);
+      }
+
+      setPagination(nextPagination);
+    },
+    [onPaginationChange]
+  );
+
+  const setPage = useCallback(
+    (nextPage: number) => {
+      updatePagination({
+        page: Math.min(pageCount, Math.max(1, nextPage)),
+        pageSize,
+      });
+    },
+    [pageCount, pageSize, updatePagination]
+  );
+
+  const setPageSize = useCallback(
+    (nextPageSize: number) => {
+      updatePagination({
+        page: Math.floor(((page - 1) * pageSize) / nextPageSize) + 1,
+        pageSize: nextPageSize,
+      });
+    },
+    [page, pageSize, updatePagination]
+  );
+
+  const rows = useMemo(
+    () => (data ? paginateTableData(data, { page, pageSize }) : []),
+    [data, page, pageSize]
+  );
+
+  return {
+    rows,
+    page,
+    pageSize,
+    pageCount,
+    total,
+    setPage,
+    setPageSize,
+    paginationProps: {
+      page,
+      pageSize,
+      total,
+      onPageChange: setPage,
+      onPageSizeChange: setPageSize,
+    },
+  };
+}
@@ -27,6 +27,13 @@ export default {
     "var(--rmd-states-selected-color, rgba(0, 0, 0, 0.16))",
   "rmd-table-footer-sticky-position": 0,
   "rmd-table-checkbox-padding": "0.5rem",
+  "rmd-table-cell-sort-priority-font-size": "0.75em",
+  "rmd-table-checkbox-column-width": "4rem",
+  "rmd-table-resize-handle-width": "0.5rem",
+  "rmd-table-resize-handle-color": "#2196f3",
+  "rmd-table-cell-dragging-opacity": 0.5,
+  "rmd-table-pagination-height": "3.5rem",
+  "rmd-table-pagination-spacing": "1.5rem",
   "rmd-table-theme-values": {
     "border-color": "#e0e0e0",
     "cell-color": "var(--rmd-theme-text-primary-on-background, #212121)",
@@ -0,0 +1,396 @@
+import {
+  ChangeEvent,
+  KeyboardEvent,
+  MouseEvent,
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableSelectionOptions {
+  /**
+   * The current selected row ids that can be provided to make the selection
+   * behavior controlled. This should be used along with the
+   * `onSelectedIdsChange` prop.
+   */
+  selectedIds?: readonly string[];
+
+  /**
+   * The selected row ids to use when the selection behavior is not controlled.
+   *
+   * @defaultValue `[]`
+   */
+  defaultSelectedIds?: readonly string[] | (() => readonly string[]);
+
+  /**
+   * An optional function to call when the selected row ids change.
+   */
+  onSelectedIdsChange?(selectedIds: readonly string[]): void;
+
+  /**
+   * Boolean if clicking anywhere within a row should toggle the row's
+   * selection state. When this is enabled, each row will also become
+   * focusable so that the selection can be toggled with the space or enter
+   * keys.
+   *
+   * @defaultValue `false`
+   */
+  selectOnRowClick?: boolean;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface ProvidedTableSelectionHeaderCheckboxProps {
+  /**
+   * This will only be provided when some, but not all, rows are selected.
+   */
+  "aria-checked"?: "mixed";
+
+  /**
+   * Boolean if at least one row is selected.
+   */
+  checked: boolean;
+
+  /**
+   * Boolean if some, but not all, rows are selected.
+   */
+  indeterminate: boolean;
+
+  /**
+   * Selects every row if the checkbox is unchecked or indeterminate, otherwise
+   * deselects every row.
+   */
+  onChange(): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface ProvidedTableSelectionCheckboxProps {
+  /**
+   * Boolean if the row is currently selected.
+   */
+  checked: boolean;
+
+  /**
+   * Toggles the row's selection state. A range of rows will be updated
+   * instead if the shift key was held while clicking the checkbox.
+   */
+  onChange(event: ChangeEvent<HTMLInputElement>): void;
+
+  /**
+   * Allows a range of rows to be toggled by pressing the space key while
+   * holding the shift key.
+   */
+  onKeyDown(event: KeyboardEvent<HTMLTableDataCellElement>): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface ProvidedTableSelectionRowProps {
+  "aria-selected": boolean;
+  selected: boolean;
+  clickable?: boolean;
+  tabIndex?: number;
+  onClick?(event: MouseEvent<HTMLTableRowElement>): void;
+  onKeyDown?(event: KeyboardEvent<HTMLTableRowElement>): void;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableSelectionReturnValue {
+  /**
+   * The current selected row ids.
+   */
+  selectedIds: readonly string[];
+
+  /**
+   * Boolean if every row is currently selected.
+   */
+  allSelected: boolean;
+
+  /**
+   * Checks if a row is currently selected.
+   */
+  isSelected(rowId: string): boolean;
+
+  /**
+   * Toggles the selection state for a row.
+   *
+   * @param rowId - The row to toggle
+   * @param range - Boolean if every row between the last toggled row and this
+   * row should be updated to the row's next selection state.
+   */
+  toggleRow(rowId: string, range?: boolean): void;
+
+  /**
+   * Selects every row if some rows are not selected, otherwise deselects every
+   * row. Only the provided `rowIds` will be updated so that rows selected on
+   * other pages remain selected.
+   */
+  toggleAll(): void;
+
+  /**
+   * Deselects every row.
+   */
+  clearSelection(): void;
+
+  /**
+   * The props to pass to a `TableCheckbox` within the header that can
+   * select or deselect every row.
+   */
+  headerCheckboxProps: ProvidedTableSelectionHeaderCheckboxProps;
+
+  /**
+   * Gets the props to pass to a row's `TableCheckbox`.
+   */
+  getCheckboxProps(rowId: string): ProvidedTableSelectionCheckboxProps;
+
+  /**
+   * Gets the props to pass to a `TableRow`.
+   */
+  getRowProps(rowId: string): ProvidedTableSelectionRowProps;
+}
+
+const INTERACTIVE_SELECTOR = "a,button,input,select,textarea,[role='button']";
+
+/**
+ * Checks if an event originated from an interactive element within the row so
+ * that clicking a checkbox or button does not also toggle the row.
+ *
+ * @internal
+ */
+const isInteractiveTarget = (event: MouseEvent<HTMLElement>): boolean => {
+  const target = event.target as HTMLElement;
+  const interactive = target.closest(INTERACTIVE_SELECTOR);
+
+  return !!interactive && event.currentTarget.contains(interactive);
+};
+
+/**
+ * Gets the row ids between the `anchorId` and `rowId` (inclusive) in the
+ * provided order. Only the `rowId` will be returned if the `anchorId` is
+ * `null` or no longer exists.
+ *
+ * @param rowIds - Every row id in the rendered order
+ * @param anchorId - The last toggled row id
+ * @param rowId - The row id that is being toggled
+ * @returns a list of row ids
+ * @remarks \@since 3.2.0
+ */
+export function getTableSelectionRange(
+  rowIds: readonly string[],
+  anchorId: string | null,
+  rowId: string
+): readonly string[] {
+  const anchorIndex = anchorId === null ? -1 : rowIds.indexOf(anchorId);
+  const rowIndex = rowIds.indexOf(rowId);
+  if (anchorIndex === -1 || rowIndex === -1) {
+    return [rowId];
+  }
+
+  return rowIds.slice(
+    Math.min(anchorIndex, rowIndex),
+    Math.max(anchorIndex, rowIndex) + 1
+  );
+}
+
+/**
+ * This hook implements the row selection behavior for a table with a "select
+ * all" header checkbox, shift+click range selection, and keyboard toggling.
+ * The selection can either be controlled through the `selectedIds` and
+ * `onSelectedIdsChange` options or uncontrolled with the `defaultSelectedIds`
+ * option.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const rowIds = desserts.map(({ name }) => name);
+ * const { selectedIds, headerCheckboxProps, getCheckboxProps, getRowProps } =
+ *   useTableSelection(rowIds);
+ *
+ * return (
+ *   <Table>
+ *     <TableHeader>
+ *       <TableRow>
+ *         <TableCheckbox id="select-all" {...headerCheckboxProps} />
+ *         <TableCell>Dessert</TableCell>
+ *       </TableRow>
+ *     </TableHeader>
+ *     <TableBody>
+ *       {desserts.map(({ name }, i) => (
+ *         <TableRow key={name} {...getRowProps(name)}>
+ *           <TableCheckbox
+ *             id={`dessert-${i + 1}`}
+ *             {...getCheckboxProps(name)}
+ *           />
+ *           <TableCell>{name}</TableCell>
+ *         </TableRow>
+ *       ))}
+ *     </TableBody>
+ *   </Table>
+ * );
+ * ```
+ *
+ * @param rowIds - Every row id in the rendered order. This is used for
+ * selecting every row and determining range selections.
+ * @param options - The {@link TableSelectionOptions}
+ * @returns the {@link TableSelectionReturnValue}
+ * @remarks \@since 3.2.0
+ */
+export function useTableSelection(
+  rowIds: readonly string[],
+  {
+    selectedIds: propSelectedIds,
+    defaultSelectedIds = [],
+    onSelectedIdsChange,
+    selectOnRowClick = false,
+  }: TableSelectionOptions = {}
+): TableSelectionReturnValue {
+  const [localSelectedIds, setSelectedIds] = useState(defaultSelectedIds);
+  const selectedIds = propSelectedIds ?? localSelectedIds;
+  const anchorId = useRef<string | null>(null);
+
+  const selected = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const selectedCount = rowIds.filter((rowId) => selected.has(rowId)).length;
+  const allSelected = rowIds.length > 0 && selectedCount === rowIds.length;
+  const indeterminate = selectedCount > 0 && !allSelected;
+
+  const updateSelectedIds = useCallback(
+    (nextSelectedIds: readonly string[]) => {
+      if (onSelectedIdsChange) {
+        onSelectedIdsChange(nextSelectedIds);
+      }
+
+      setSelectedIds(nextSelectedIds);
+    },
+    [onSelectedIdsChange]
+  );
+
+  const isSelected = useCallback(
+    (rowId: string) => selected.has(rowId),
+    [selected]
+  );
+
+  const toggleRow = useCallback(
+    (rowId: string, range = false) => {
+      const nextSelected = !selected.has(rowId);
+      const rowIdsToUpdate = range
+        ? getTableSelectionRange(rowIds, anchorId.current, rowId)
+        : [rowId];
+      anchorId.current = rowId;
+
+      const nextSelectedIds = new Set(selectedIds);
+      rowIdsToUpdate.forEach((id) => {
+        if (nextSelected) {
+          nextSelectedIds.add(id);
+        } else {
+          nextSelectedIds.delete(id);
+        }
+      });
+
+      updateSelectedIds(Array.from(nextSelectedIds));
+    },
+    [rowIds, selected, selectedIds, updateSelectedIds]
+  );
+
+  const toggleAll = useCallback(() => {
+    anchorId.current = null;
+    const nextSelectedIds = new Set(selectedIds);
+    const nextSelected = selectedCount === 0 || indeterminate;
+    rowIds.forEach((rowId) => {
+      if (nextSelected) {
+        nextSelectedIds.add(rowId);
+      } else {
+        nextSelectedIds.delete(rowId);
+      }
+    });
+
+    updateSelectedIds(Array.from(nextSelectedIds));
+  }, [indeterminate, rowIds, selectedCount, selectedIds, updateSelectedIds]);
+
+  const clearSelection = useCallback(() => {
+    anchorId.current = null;
+    updateSelectedIds([]);
+  }, [updateSelectedIds]);
+
+  const getCheckboxProps = useCallback(
+    (rowId: string): ProvidedTableSelectionCheckboxProps => ({
+      checked: selected.has(rowId),
+      onChange(event) {
+        // checkbox change events are triggered by a click event so the shift
+        // key can be checked through the native event
+        const { shiftKey = false } = event.nativeEvent as globalThis.MouseEvent;
+        toggleRow(rowId, shiftKey);
+      },
+      onKeyDown(event) {
+        if (event.key === " " && event.shiftKey) {
+          // prevent the native click so the row is not toggled twice
+          event.preventDefault();
+          toggleRow(rowId, true);
+        }
+      },
+    }),
+    [selected, toggleRow]
+  );
+
+  const getRowProps = useCallback(
+    (rowId: string): ProvidedTableSelectionRowProps => {
+      const rowSelected = selected.has(rowId);
+      if (!selectOnRowClick) {
+        return {
+          "aria-selected": rowSelected,
+          selected: rowSelected,
+        };
+      }
+
+      return {
+        "aria-selected": rowSelected,
+        selected: rowSelected,
+        clickable: true,
+        tabIndex: 0,
+        onClick(event) {
+          if (!isInteractiveTarget(event)) {
+            toggleRow(rowId, event.shiftKey);
+          }
+        },
+        onKeyDown(event) {
+          if (
+            event.target !== event.currentTarget ||
+            (event.key !== " " && event.key !== "Enter")
+          ) {
+            return;
+          }
+
+          event.preventDefault();
+          toggleRow(rowId, event.shiftKey);
+        },
+      };
+    },
+    [selectOnRowClick, selected, toggleRow]
+  );
+
+  return {
+    selectedIds,
+    allSelected,
+    isSelected,
+    toggleRow,
+    toggleAll,
+    clearSelection,
+    headerCheckboxProps: {
+      "aria-checked": indeterminate ? "mixed" : undefined,
+      checked: selectedCount > 0,
+      indeterminate,
+      onChange: toggleAll,
+    },
+    getCheckboxProps,
+    getRowProps,
+  };
+}
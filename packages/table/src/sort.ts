@@ -0,0 +1,251 @@
+import { useCallback, useState } from "react";
+
+import {
+  getTableColumnValue,
+  TableColumn,
+  TableColumnComparator,
+} from "./columns";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableSortItem {
+  /**
+   * The {@link TableColumn.id} that is sorted.
+   */
+  columnId: string;
+
+  /**
+   * The current sort order for the column.
+   */
+  order: "ascending" | "descending";
+}
+
+/**
+ * The sort state for a table. The first item is the primary sort column and
+ * each additional item will only be used when the previous columns are equal.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TableSortState = readonly TableSortItem[];
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableSortOptions {
+  /**
+   * The current sort state that can be provided to make the sorting behavior
+   * controlled. This should be used along with the `onSortChange` prop.
+   */
+  sort?: TableSortState;
+
+  /**
+   * The sort state to use when the sorting behavior is not controlled.
+   *
+   * @defaultValue `[]`
+   */
+  defaultSort?: TableSortState;
+
+  /**
+   * An optional function to call when the sort state changes by clicking a
+   * sortable column's header cell.
+   */
+  onSortChange?(sort: TableSortState): void;
+
+  /**
+   * Boolean if multiple columns can be sorted at once. When this is enabled,
+   * clicking a header cell while holding the shift key will add the column to
+   * the existing sort state instead of replacing it.
+   *
+   * @defaultValue `false`
+   */
+  multiSort?: boolean;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TableSortReturnValue {
+  /**
+   * The current sort state.
+   */
+  sort: TableSortState;
+
+  /**
+   * Updates the sort state for a column. The column will cycle through
+   * `"ascending"`, `"descending"`, and unsorted.
+   *
+   * @param columnId - The column to update
+   * @param multi - Boolean if the column should be added to the existing sort
+   * state instead of replacing it. This is ignored unless `multiSort` is
+   * enabled.
+   */
+  toggleSort(columnId: string, multi?: boolean): void;
+}
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || typeof value === "undefined";
+
+/**
+ * The default comparator used for sorting table columns. `null` and `undefined`
+ * values will always be sorted last (even when the column is sorted in
+ * descending order by the {@link sortTableData}), numbers and dates are compared
+ * numerically, and everything else is compared as strings with numeric
+ * collation so that `"Item 2"` is sorted before `"Item 10"`.
+ *
+ * @param a - The first value
+ * @param b - The second value
+ * @returns a number that can be used to sort the values
+ * @remarks \@since 3.2.0
+ */
+export function defaultTableComparator(a: unknown, b: unknown): number {
+  const isAEmpty = isEmptyValue(a);
+  const isBEmpty = isEmptyValue(b);
+  if (isAEmpty || isBEmpty) {
+    return Number(isAEmpty) - Number(isBEmpty);
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+/**
+ * Creates the next sort state after a column's header cell has been clicked.
+ *
+ * @param sort - The current sort state
+ * @param columnId - The column that was clicked
+ * @param multi - Boolean if the column should be added to the existing sort
+ * state instead of replacing it
+ * @returns the next sort state
+ * @remarks \@since 3.2.0
+ */
+export function getNextTableSort(
+  sort: TableSortState,
+  columnId: string,
+  multi = false
+): TableSortState {
+  const current = sort.find((item) => item.columnId === columnId);
+  let order: TableSortItem["order"] | null = "ascending";
+  if (current) {
+    order = current.order === "ascending" ? "descending" : null;
+  }
+
+  if (!multi) {
+    return order ? [{ columnId, order }] : [];
+  }
+
+  if (!current) {
+    return [...sort, { columnId, order: "ascending" }];
+  }
+
+  if (!order) {
+    return sort.filter((item) => item.columnId !== columnId);
+  }
+
+  return sort.map((item) =>
+    item.columnId === columnId ? { columnId, order: "descending" } : item
+  );
+}
+
+/**
+ * Creates a sorted copy of the table data based on the current sort state.
+ * Columns that do not exist will be ignored and rows that are equal for every
+ * sorted column will keep their original order.
+ *
+ * @param data - The table data to sort
+ * @param columns - The column definitions
+ * @param sort - The current sort state
+ * @returns a sorted copy of the data or the original data if there are no
+ * sorted columns.
+ * @remarks \@since 3.2.0
+ */
+export function sortTableData<T>(
+  data: readonly T[],
+  columns: readonly TableColumn<T>[],
+  sort: TableSortState
+): readonly T[] {
+  const comparators = sort.reduce<TableColumnComparator<T>[]>(
+    (comparators, { columnId, order }) => {
+      const column = columns.find((column) => column.id === columnId);
+      if (!column) {
+        return comparators;
+      }
+
+      const { comparator } = column;
+      const direction = order === "descending" ? -1 : 1;
+      comparators.push((a, b) => {
+        if (comparator) {
+          return comparator(a, b) * direction;
+        }
+
+        const valueA = getTableColumnValue(a, column);
+        const valueB = getTableColumnValue(b, column);
+        if (isEmptyValue(valueA) || isEmptyValue(valueB)) {
+          // the direction is not applied so empty values are always last
+          return defaultTableComparator(valueA, valueB);
+        }
+
+        return defaultTableComparator(valueA, valueB) * direction;
+      });
+
+      return comparators;
+    },
+    []
+  );
+
+  if (!comparators.length) {
+    return data;
+  }
+
+  return data.slice().sort((a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) {
+        return result;
+      }
+    }
+
+    return 0;
+  });
+}
+
+/**
+ * This hook implements the sort state for a table that can either be
+ * controlled through the `sort` and `onSortChange` options or uncontrolled
+ * with the `defaultSort` option.
+ *
+ * @param options - The {@link TableSortOptions}
+ * @returns the current sort state and a function to update a column's sort
+ * order
+ * @remarks \@since 3.2.0
+ */
+export function useTableSort({
+  sort: propSort,
+  defaultSort = [],
+  onSortChange,
+  multiSort = false,
+}: TableSortOptions = {}): TableSortReturnValue {
+  const [localSort, setSort] = useState(defaultSort);
+  const sort = propSort ?? localSort;
+
+  const toggleSort = useCallback(
+    (columnId: string, multi = false) => {
+      const nextSort = getNextTableSort(sort, columnId, multiSort && multi);
+      if (onSortChange) {
+        onSortChange(nextSort);
+      }
+
+      setSort(nextSort);
+    },
+    [multiSort, onSortChange, sort]
+  );
+
+  return { sort, toggleSort };
+}
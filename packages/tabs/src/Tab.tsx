@@ -1,6 +1,12 @@
-import React, { forwardRef, HTMLAttributes } from "react";
+import React, {
+  forwardRef,
+  HTMLAttributes,
+  KeyboardEvent,
+  MouseEvent,
+  ReactNode,
+} from "react";
 import cn from "classnames";
-import { TextIconSpacing } from "@react-md/icon";
+import { TextIconSpacing, useIcon } from "@react-md/icon";
 import {
   InteractionStatesOptions,
   useInteractionStates,
@@ -37,6 +43,21 @@ export interface TabProps
    * exist in the DOM until then and will be invalid.
    */
   panelId?: string;
+
+  /**
+   * A function to call when a `closable` tab should be closed.
+   *
+   * @remarks \@since 3.2.0
+   */
+  onClose?(): void;
+
+  /**
+   * The icon to use for the close button when the tab is `closable`. This
+   * will default to the `close` icon from the `IconProvider`.
+   *
+   * @remarks \@since 3.2.0
+   */
+  closeIcon?: ReactNode;
 }
 
 const block = bem("rmd-tab");
@@ -57,6 +78,12 @@ export const Tab = forwardRef<HTMLButtonElement, TabProps>(function Tab(
     children,
     active,
     panelId,
+    closable = false,
+    onClose,
+    closeIcon: propCloseIcon,
+    onAuxClick,
+    onMouseDown,
+    onKeyDown,
     disableRipple,
     disableProgrammaticRipple,
     rippleTimeout,
@@ -68,8 +95,45 @@ export const Tab = forwardRef<HTMLButtonElement, TabProps>(function Tab(
   },
   propRef
 ) {
+  const isClosable = closable && !disabled && !!onClose;
+  const closeIcon = useIcon("close", propCloseIcon);
+  const handleAuxClick = (event: MouseEvent<HTMLButtonElement>): void => {
+    if (onAuxClick) {
+      onAuxClick(event);
+    }
+
+    if (isClosable && event.button === 1 && onClose) {
+      event.preventDefault();
+      onClose();
+    }
+  };
+  const handleMouseDown = (event: MouseEvent<HTMLButtonElement>): void => {
+    if (onMouseDown) {
+      onMouseDown(event);
+    }
+
+    // prevent the browser's auto-scroll behavior when middle clicking
+    if (isClosable && event.button === 1) {
+      event.preventDefault();
+    }
+  };
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>): void => {
+    if (onKeyDown) {
+      onKeyDown(event);
+    }
+
+    if (isClosable && event.key === "Delete" && onClose) {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
   const { ripples, className, handlers } = useInteractionStates({
-    handlers: props,
+    handlers: {
+      ...props,
+      onMouseDown: handleMouseDown,
+      onKeyDown: handleKeyDown,
+    },
     className: propClassName,
     disabled,
     disableRipple,
@@ -95,11 +159,16 @@ export const Tab = forwardRef<HTMLButtonElement, TabProps>(function Tab(
       ref={active ? refHandler : propRef}
       aria-selected={active}
       aria-controls={panelId}
+      aria-keyshortcuts={isClosable ? "Delete" : undefined}
       type="button"
       role="tab"
       disabled={disabled}
-      className={cn(block({ active, stacked: icon && stacked }), className)}
+      className={cn(
+        block({ active, stacked: icon && stacked, closable: isClosable }),
+        className
+      )}
       tabIndex={active ? undefined : -1}
+      onAuxClick={handleAuxClick}
     >
       <TextIconSpacing icon={icon} stacked={stacked} iconAfter={iconAfter}>
         <span
@@ -109,6 +178,25 @@ export const Tab = forwardRef<HTMLButtonElement, TabProps>(function Tab(
           {children}
         </span>
       </TextIconSpacing>
+      {isClosable && (
+        // the close button is hidden from screen readers since it can not be
+        // nested within the tab's `<button>` and the Delete key can be used
+        // instead
+        <span
+          aria-hidden
+          role="presentation"
+          className={block("close")}
+          onClick={(event) => {
+            // prevent the tab from also becoming active
+            event.stopPropagation();
+            if (onClose) {
+              onClose();
+            }
+          }}
+        >
+          {closeIcon}
+        </span>
+      )}
       {ripples}
     </button>
   );
@@ -131,6 +219,11 @@ if (process.env.NODE_ENV !== "production") {
       stacked: PropTypes.bool,
       iconAfter: PropTypes.bool,
       disabled: PropTypes.bool,
+      closable: PropTypes.bool,
+      onClose: PropTypes.func,
+      closeIcon: PropTypes.node,
+      onAuxClick: PropTypes.func,
+      onMouseDown: PropTypes.func,
       onKeyDown: PropTypes.func,
       disableRipple: PropTypes.bool,
       disableProgrammaticRipple: PropTypes.bool,
@@ -15,6 +15,23 @@ import { bem, useEnsuredRef } from "@react-md/utils";
 import { PanelGroup } from "./PanelGroup";
 import { useTabs } from "./TabsManager";
 
+/**
+ * The supported ways to render the `TabPanel`s:
+ *
+ * - `"unmount"` - only the active panel will be mounted and the panel will be
+ *   unmounted once it is no longer active
+ * - `"persistent"` - all the panels will be mounted immediately and remain
+ *   mounted
+ * - `"lazy"` - each panel will be mounted once it becomes active for the first
+ *   time and then remain mounted
+ * - `"lru"` - each panel will be mounted once it becomes active and remain
+ *   mounted until it is no longer one of the `maxMountedPanels` most recently
+ *   active panels
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TabPanelsRenderStrategy = "unmount" | "persistent" | "lazy" | "lru";
+
 export interface TabPanelsProps extends HTMLAttributes<HTMLDivElement> {
   /**
    * Boolean if this component should no longer automatically reset the scrolling
@@ -35,10 +52,58 @@ export interface TabPanelsProps extends HTMLAttributes<HTMLDivElement> {
    * instead of mounting and unmounting when their active state changes. The
    * panels will also be updated to ensure that inactive panels can not be
    * tab focusable.
+   *
+   * Note: This is the same as setting the `renderStrategy` to `"persistent"`
+   * and will be ignored if the `renderStrategy` prop has been provided.
    */
   persistent?: boolean;
+
+  /**
+   * The strategy to use for mounting and unmounting the panels. This will
+   * default to `"persistent"` when the `persistent` prop is enabled and
+   * `"unmount"` otherwise.
+   *
+   * Note: The mounted panels are tracked by their tab's `id`, so each tab
+   * should be given a unique `id` if the tabs can be closed or reordered.
+   *
+   * @see {@link TabPanelsRenderStrategy}
+   * @remarks \@since 3.2.0
+   */
+  renderStrategy?: TabPanelsRenderStrategy;
+
+  /**
+   * The maximum number of panels that should remain mounted when the
+   * `renderStrategy` is set to `"lru"`. The active panel is always included
+   * in this count.
+   *
+   * @defaultValue `3`
+   * @remarks \@since 3.2.0
+   */
+  maxMountedPanels?: number;
+
+  /**
+   * Boolean if the scroll position of each panel should be restored when it
+   * becomes active again instead of scrolling to the top. This works best with
+   * a `renderStrategy` that keeps the panels mounted since the panel's content
+   * might not be the same size after being remounted.
+   *
+   * @defaultValue `false`
+   * @remarks \@since 3.2.0
+   */
+  preserveScroll?: boolean;
 }
 
+/**
+ * Updates the list of the most recently active tab ids so that the active tab
+ * id is first.
+ *
+ * @internal
+ */
+const updateRecentIds = (
+  recent: readonly string[],
+  activeId: string
+): readonly string[] => [activeId, ...recent.filter((id) => id !== activeId)];
+
 const block = bem("rmd-tab-panels");
 
 /**
@@ -47,6 +112,10 @@ const block = bem("rmd-tab-panels");
  * looping over all the children and getting the current `TabPanel` by the
  * `activeIndex`. This is why the children for this component can only be
  * `TabPanel` and should not be conditional.
+ *
+ * The `renderStrategy` prop can be used to keep expensive panels mounted after
+ * they have been viewed so that their content does not need to be re-created
+ * each time the panel becomes active.
  */
 export const TabPanels = forwardRef<HTMLDivElement, TabPanelsProps>(
   function TabPanels(
@@ -55,13 +124,26 @@ export const TabPanels = forwardRef<HTMLDivElement, TabPanelsProps>(
       children,
       disableScrollFix = false,
       disableTransition = false,
-      persistent = false,
+      persistent: propPersistent = false,
+      renderStrategy = propPersistent ? "persistent" : "unmount",
+      maxMountedPanels = 3,
+      preserveScroll = false,
       ...props
     },
     forwardedRef
   ) {
     const { tabsId, tabs, activeIndex } = useTabs();
-    const prevIndex = useRef(activeIndex);
+    // the other strategies all rely on the panels remaining in the DOM, so they
+    // can use the same transition behavior as the persistent panels
+    const persistent = renderStrategy !== "unmount";
+    const [ref, refHandler] = useEnsuredRef(forwardedRef);
+    // the panels are tracked by the tab ids instead of the indexes so that
+    // closing or reordering tabs does not mount or restore the wrong panel
+    const getId = (index: number): string => tabs[index]?.id ?? `${index}`;
+    const activeId = getId(activeIndex);
+    const prevId = useRef(activeId);
+    const recentIds = useRef<readonly string[]>([activeId]);
+    const scrollPositions = useRef(new Map<string, number>());
     const [{ previous, incrementing }, setState] = useState({
       previous: activeIndex,
       incrementing: true,
@@ -72,8 +154,15 @@ export const TabPanels = forwardRef<HTMLDivElement, TabPanelsProps>(
     // be re-evaluated when the activeIndex changes.
     const transitionable = useRef(!persistent && !disableTransition);
     const animimatable = useRef(persistent && !disableTransition);
-    if (prevIndex.current !== activeIndex) {
-      prevIndex.current = activeIndex;
+    if (prevId.current !== activeId) {
+      if (ref.current) {
+        // the panel's scroll position must be stored before it becomes
+        // inactive so it can be restored later
+        scrollPositions.current.set(prevId.current, ref.current.scrollTop);
+      }
+
+      recentIds.current = updateRecentIds(recentIds.current, activeId);
+      prevId.current = activeId;
       transitionable.current = !persistent && !disableTransition;
       animimatable.current = persistent && !disableTransition;
     }
@@ -93,18 +182,25 @@ export const TabPanels = forwardRef<HTMLDivElement, TabPanelsProps>(
       setState(({ incrementing }) => ({ incrementing, previous: activeIndex }));
     }, [activeIndex]);
 
-    const [ref, refHandler] = useEnsuredRef(forwardedRef);
-
     useEffect(() => {
       if (!ref.current || disableScrollFix) {
         return;
       }
 
-      ref.current.scrollTop = 0;
+      ref.current.scrollTop = preserveScroll
+        ? scrollPositions.current.get(activeId) ?? 0
+        : 0;
       // don't want it to be triggered if only the disableScrollFix prop has changed
       // since it might be independent from active indexes
       // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [activeIndex]);
+    }, [activeId]);
+
+    // closed tabs should no longer count towards the mounted panels
+    const tabIds = tabs.map(({ id }) => id);
+    let mountedIds = recentIds.current.filter((id) => tabIds.includes(id));
+    if (renderStrategy === "lru") {
+      mountedIds = mountedIds.slice(0, Math.max(1, maxMountedPanels));
+    }
 
     return (
       <div
@@ -128,6 +224,16 @@ export const TabPanels = forwardRef<HTMLDivElement, TabPanelsProps>(
               return null;
             }
 
+            // the previous panel must also remain mounted until it has
+            // finished animating out of view
+            if (
+              (renderStrategy === "lazy" || renderStrategy === "lru") &&
+              index !== previous &&
+              !mountedIds.includes(getId(index))
+            ) {
+              return null;
+            }
+
             if (!isValidElement(child)) {
               return child;
             }
@@ -182,6 +288,9 @@ if (process.env.NODE_ENV !== "production") {
       disableScrollFix: PropTypes.bool,
       disableTransition: PropTypes.bool,
       persistent: PropTypes.bool,
+      renderStrategy: PropTypes.oneOf(["unmount", "persistent", "lazy", "lru"]),
+      maxMountedPanels: PropTypes.number,
+      preserveScroll: PropTypes.bool,
     };
   } catch (e) {}
 }
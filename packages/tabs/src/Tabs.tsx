@@ -6,7 +6,7 @@ import { useTabs } from "./TabsManager";
 
 export type TabsProps = Omit<
   TabsListProps,
-  "activeIndex" | "onActiveIndexChange"
+  "activeIndex" | "onActiveIndexChange" | "onTabClose" | "onTabsReorder"
 >;
 
 /**
@@ -17,7 +17,14 @@ export const Tabs = forwardRef<HTMLDivElement, TabsProps>(function Tabs(
   props,
   ref
 ) {
-  const { tabsId, tabs, activeIndex, onActiveIndexChange } = useTabs();
+  const {
+    tabsId,
+    tabs,
+    activeIndex,
+    onActiveIndexChange,
+    onTabClose,
+    onTabsReorder,
+  } = useTabs();
   return (
     <TabsList
       {...props}
@@ -25,6 +32,8 @@ export const Tabs = forwardRef<HTMLDivElement, TabsProps>(function Tabs(
       ref={ref}
       activeIndex={activeIndex}
       onActiveIndexChange={onActiveIndexChange}
+      onTabClose={onTabClose}
+      onTabsReorder={onTabsReorder}
     >
       {tabs.map(({ id, ...config }, index) => (
         <Tab {...config} id={id} key={id} active={activeIndex === index} />
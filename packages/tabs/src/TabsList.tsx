@@ -2,22 +2,39 @@
 import React, {
   Children,
   cloneElement,
+  DragEvent,
   forwardRef,
   HTMLAttributes,
   isValidElement,
+  KeyboardEvent,
+  ReactElement,
+  ReactNode,
   Ref,
+  useCallback,
   useEffect,
   useRef,
+  useState,
 } from "react";
 import cn from "classnames";
-import { applyRef, bem, useIsUserInteractionMode } from "@react-md/utils";
+import { Button } from "@react-md/button";
+import { useIcon } from "@react-md/icon";
+import { DropdownMenu, MenuItemProps } from "@react-md/menu";
+import {
+  applyRef,
+  bem,
+  useDir,
+  useEnsuredRef,
+  useIsUserInteractionMode,
+} from "@react-md/utils";
 
+import { TabProps } from "./Tab";
 import { TabsConfig } from "./types";
 import {
   UpdateIndicatorStylesProvider,
   useTabIndicatorStyle,
 } from "./useTabIndicatorStyle";
 import { useTabsMovement } from "./useTabsMovement";
+import { useTabsOverflow } from "./useTabsOverflow";
 
 export interface TabsListProps
   extends HTMLAttributes<HTMLDivElement>,
@@ -39,9 +56,135 @@ export interface TabsListProps
    * index changes.
    */
   disableTransition?: boolean;
+
+  /**
+   * A function to call when a `closable` tab should be closed by clicking the
+   * close button, middle clicking, or pressing the Delete key. The tab will not
+   * be removed automatically, so the tabs should be updated within this
+   * callback.
+   *
+   * @remarks \@since 3.2.0
+   */
+  onTabClose?(index: number): void;
+
+  /**
+   * A function to call when a tab has been dragged and dropped onto another tab
+   * or moved with the keyboard by pressing `Control+Shift` along with an arrow
+   * key. Providing this function will make all the non-disabled tabs
+   * draggable. The tabs will not be reordered automatically, so the tabs
+   * should be updated within this callback.
+   *
+   * @see {@link moveTab}
+   * @remarks \@since 3.2.0
+   */
+  onTabsReorder?(fromIndex: number, toIndex: number): void;
+
+  /**
+   * An accessible label for the button that scrolls to the previous tabs when
+   * the `overflow` prop is set to `"paddles"`.
+   *
+   * @defaultValue `"Previous tabs"`
+   * @remarks \@since 3.2.0
+   */
+  prevPaddleLabel?: string;
+
+  /**
+   * An optional icon to use for the previous paddle button. This will default
+   * to the `back` icon from the `IconProvider`, or the `forward` icon for
+   * right-to-left languages.
+   *
+   * @remarks \@since 3.2.0
+   */
+  prevPaddleIcon?: ReactNode;
+
+  /**
+   * An accessible label for the button that scrolls to the next tabs when the
+   * `overflow` prop is set to `"paddles"`.
+   *
+   * @defaultValue `"Next tabs"`
+   * @remarks \@since 3.2.0
+   */
+  nextPaddleLabel?: string;
+
+  /**
+   * An optional icon to use for the next paddle button. This will default to
+   * the `forward` icon from the `IconProvider`, or the `back` icon for
+   * right-to-left languages.
+   *
+   * @remarks \@since 3.2.0
+   */
+  nextPaddleIcon?: ReactNode;
+
+  /**
+   * An accessible label for the `DropdownMenu` button that contains the tabs
+   * that are not fully visible when the `overflow` prop is set to `"menu"`.
+   *
+   * @defaultValue `"More tabs"`
+   * @remarks \@since 3.2.0
+   */
+  overflowMenuLabel?: string;
+
+  /**
+   * An optional icon to use for the overflow `DropdownMenu` button. This will
+   * default to the `dropdown` icon from the `IconProvider`.
+   *
+   * @remarks \@since 3.2.0
+   */
+  overflowMenuIcon?: ReactNode;
 }
 
 const block = bem("rmd-tabs");
+const container = bem("rmd-tabs-container");
+
+/**
+ * Gets the keyboard movement direction for reordering tabs with
+ * `Control+Shift` and an arrow key or `0` if the tabs should not be reordered.
+ *
+ * @internal
+ */
+function getReorderDirection(
+  event: KeyboardEvent<HTMLDivElement>,
+  horizontal: boolean,
+  isRTL: boolean
+): number {
+  const { key, ctrlKey, shiftKey, altKey, metaKey } = event;
+  if (!ctrlKey || !shiftKey || altKey || metaKey) {
+    return 0;
+  }
+
+  const [prevKey, nextKey] = horizontal
+    ? ["ArrowLeft", "ArrowRight"]
+    : ["ArrowUp", "ArrowDown"];
+  const direction = key === prevKey ? -1 : key === nextKey ? 1 : 0;
+
+  return horizontal && isRTL ? -direction : direction;
+}
+
+/**
+ * Converts a tab into the props for a `MenuItem` so that it can be rendered
+ * within the overflow menu.
+ *
+ * @internal
+ */
+function getMenuItem(
+  tab: ReactNode,
+  onClick: () => void
+): MenuItemProps | null {
+  if (!isValidElement(tab)) {
+    return null;
+  }
+
+  const { id, icon, disabled, children } = (tab as ReactElement<TabProps>)
+    .props;
+
+  return {
+    id: id && `${id}-menu-item`,
+    leftAddon: icon,
+    disabled,
+    onClick,
+    children,
+  };
+}
 
 /**
  * The `TabsList` component is the container for all the individual `Tab`s that
@@ -50,6 +193,10 @@ const block = bem("rmd-tabs");
  * active. It also handles the ability update which tab is selected when it has
  * been clicked or updated with keyboard movement.
  *
+ * When the tabs do not fit within the container, the `overflow` prop can be
+ * used to render previous and next paddle buttons or a `DropdownMenu` with the
+ * tabs that are not fully visible.
+ *
  * This should probably not be used outside of this package unless a custom
  * implementation is desired.
  */
@@ -60,6 +207,11 @@ export const TabsList = forwardRef<HTMLDivElement, TabsListProps>(
       className,
       onClick,
       onKeyDown,
+      onDragStart,
+      onDragOver,
+      onDragLeave,
+      onDrop,
+      onDragEnd,
       children,
       activeIndex,
       align = "left",
@@ -68,91 +220,320 @@ export const TabsList = forwardRef<HTMLDivElement, TabsListProps>(
       orientation = "horizontal",
       onActiveIndexChange,
       disableTransition = false,
+      onTabClose,
+      onTabsReorder,
+      overflow = "scroll",
+      prevPaddleLabel = "Previous tabs",
+      prevPaddleIcon: propPrevPaddleIcon,
+      nextPaddleLabel = "Next tabs",
+      nextPaddleIcon: propNextPaddleIcon,
+      overflowMenuLabel = "More tabs",
+      overflowMenuIcon: propOverflowMenuIcon,
       ...props
     },
     forwardedRef
   ) {
+    const { id = "tabs" } = props;
     const horizontal = orientation === "horizontal";
-    const { tabs, itemRefs, handleClick, handleKeyDown } = useTabsMovement({
+    const isRTL = useDir().dir === "rtl";
+    const pendingFocusIndex = useRef(-1);
+    const reorderKeyDown = (event: KeyboardEvent<HTMLDivElement>): void => {
+      if (onKeyDown) {
+        onKeyDown(event);
+      }
+
+      const direction = getReorderDirection(event, horizontal, isRTL);
+      if (!onTabsReorder || !direction) {
+        return;
+      }
+
+      const fromIndex = getTabIndex(event.target);
+      const toIndex = fromIndex + direction;
+      if (fromIndex === -1 || toIndex < 0 || toIndex >= tabs.length) {
+        return;
+      }
+
+      event.preventDefault();
+      pendingFocusIndex.current = toIndex;
+      onTabsReorder(fromIndex, toIndex);
+    };
+    const {
+      tabs,
+      itemRefs,
+      focusedIndex,
+      setFocusedIndex,
+      handleClick,
+      handleKeyDown,
+    } = useTabsMovement({
       onClick,
-      onKeyDown,
+      onKeyDown: reorderKeyDown,
       children,
       horizontal,
       activeIndex,
       onActiveIndexChange,
       automatic,
     });
-    const [mergedStyle, tabsRefHandler, tabsRef, updateIndicatorStyles] =
+    const [tabsRef, refHandler] = useEnsuredRef(forwardedRef);
+    const { prev, next, hidden, updateOverflow, scrollBy, scrollIntoView } =
+      useTabsOverflow({
+        tabsRef,
+        itemRefs,
+        horizontal,
+        overflow,
+      });
+    const handleResize = useCallback(() => {
+      updateOverflow();
+      scrollIntoView(activeIndex);
+    }, [activeIndex, scrollIntoView, updateOverflow]);
+    const [mergedStyle, tabsRefHandler, , updateIndicatorStyles] =
       useTabIndicatorStyle({
         style,
-        ref: forwardedRef,
+        ref: refHandler,
         align,
         itemRefs,
         totalTabs: tabs.length,
         activeIndex,
+        onResize: handleResize,
       });
+    const updateStyles = useCallback(() => {
+      updateIndicatorStyles();
+      updateOverflow();
+    }, [updateIndicatorStyles, updateOverflow]);
     const isKeyboard = useIsUserInteractionMode("keyboard");
+    const prevPaddleIcon = useIcon(
+      isRTL ? "forward" : "back",
+      propPrevPaddleIcon
+    );
+    const nextPaddleIcon = useIcon(
+      isRTL ? "back" : "forward",
+      propNextPaddleIcon
+    );
+    const overflowMenuIcon = useIcon("dropdown", propOverflowMenuIcon);
 
-    const prevActiveIndex = useRef(activeIndex);
     useEffect(() => {
-      const tabs = tabsRef.current;
-      const tabRef = itemRefs[activeIndex] && itemRefs[activeIndex].current;
-      const incrementing = prevActiveIndex.current < activeIndex;
-      prevActiveIndex.current = activeIndex;
-      if (!tabs || !tabRef) {
+      // the focused index will be updated from keyboard movement and whenever
+      // the active index changes so the tab should be fully visible
+      scrollIntoView(focusedIndex);
+
+      // don't want this to trigger on itemRefs changes since those have a
+      // chance of updating each render.
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [focusedIndex]);
+
+    useEffect(() => {
+      // the tabs will be remounted or moved in the DOM after they have been
+      // closed or reordered, so focus needs to be restored to the correct tab
+      const index = pendingFocusIndex.current;
+      pendingFocusIndex.current = -1;
+      const tab = itemRefs[index] && itemRefs[index].current;
+      if (tab) {
+        tab.focus();
+        setFocusedIndex(index);
+      }
+
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [tabs]);
+
+    const getTabIndex = (target: EventTarget | null): number =>
+      itemRefs.findIndex(
+        ({ current }) => !!current && current.contains(target as Node)
+      );
+
+    const handleTabClose = (index: number): void => {
+      if (!onTabClose) {
         return;
       }
 
-      const currentX = tabs.scrollLeft + tabs.offsetWidth;
-      const tabLeft = tabRef.offsetLeft;
-      const tabWidth = tabRef.offsetWidth;
-      if (incrementing && currentX < tabLeft + tabWidth) {
-        tabs.scrollLeft = tabLeft - tabWidth;
-      } else if (!incrementing && tabs.scrollLeft > tabLeft) {
-        tabs.scrollLeft = tabLeft;
+      const tab = itemRefs[index] && itemRefs[index].current;
+      if (tab && tab.contains(document.activeElement)) {
+        pendingFocusIndex.current =
+          index === tabs.length - 1 ? index - 1 : index;
       }
 
-      // don't want this to trigger on itemRefs or tabsRef changes since those
-      // have a chance of updating each render.
-      // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [activeIndex]);
+      onTabClose(index);
+    };
 
-    return (
-      <UpdateIndicatorStylesProvider value={updateIndicatorStyles}>
-        <div
-          {...props}
-          aria-orientation={orientation}
-          style={mergedStyle}
-          role="tablist"
-          className={cn(
-            block({
-              [align]: true,
-              padded,
-              vertical: !horizontal,
-              animate: !disableTransition && (!automatic || !isKeyboard),
+    const [dragIndex, setDragIndex] = useState(-1);
+    const [dropIndex, setDropIndex] = useState(-1);
+    const resetDrag = (): void => {
+      setDragIndex(-1);
+      setDropIndex(-1);
+    };
+    const handleDragStart = (event: DragEvent<HTMLDivElement>): void => {
+      if (onDragStart) {
+        onDragStart(event);
+      }
+
+      const index = getTabIndex(event.target);
+      if (!onTabsReorder || index === -1) {
+        return;
+      }
+
+      event.dataTransfer.effectAllowed = "move";
+      // firefox requires data to be set to be able to drag
+      event.dataTransfer.setData("text/plain", `${index}`);
+      setDragIndex(index);
+    };
+    const handleDragOver = (event: DragEvent<HTMLDivElement>): void => {
+      if (onDragOver) {
+        onDragOver(event);
+      }
+
+      const index = getTabIndex(event.target);
+      if (dragIndex === -1 || index === -1) {
+        return;
+      }
+
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      setDropIndex(index);
+    };
+    const handleDragLeave = (event: DragEvent<HTMLDivElement>): void => {
+      if (onDragLeave) {
+        onDragLeave(event);
+      }
+
+      if (event.target === event.currentTarget) {
+        setDropIndex(-1);
+      }
+    };
+    const handleDrop = (event: DragEvent<HTMLDivElement>): void => {
+      if (onDrop) {
+        onDrop(event);
+      }
+
+      const index = getTabIndex(event.target);
+      if (dragIndex === -1 || index === -1 || !onTabsReorder) {
+        return;
+      }
+
+      event.preventDefault();
+      if (index !== dragIndex) {
+        onTabsReorder(dragIndex, index);
+      }
+
+      resetDrag();
+    };
+    const handleDragEnd = (event: DragEvent<HTMLDivElement>): void => {
+      if (onDragEnd) {
+        onDragEnd(event);
+      }
+
+      resetDrag();
+    };
+
+    const tablist = (
+      <div
+        {...props}
+        aria-orientation={orientation}
+        style={mergedStyle}
+        role="tablist"
+        className={cn(
+          block({
+            [align]: true,
+            padded,
+            vertical: !horizontal,
+            animate: !disableTransition && (!automatic || !isKeyboard),
+          }),
+          className
+        )}
+        ref={tabsRefHandler}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        onDragStart={handleDragStart}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onDragEnd={handleDragEnd}
+      >
+        {Children.map(tabs, (child, i) => {
+          if (!isValidElement(child)) {
+            return child;
+          }
+
+          const tab = Children.only(child);
+          let ref: Ref<HTMLElement> = itemRefs[i];
+          if (tab.props.ref) {
+            ref = (instance: HTMLElement | null) => {
+              itemRefs[i].current = instance;
+              applyRef(instance, tab.props.ref);
+            };
+          }
+
+          const { closable, disabled, className } = tab.props;
+          const tabProps: Partial<TabProps> & { ref: Ref<HTMLElement> } = {
+            ref,
+            className: cn(className, {
+              "rmd-tab--dragging": i === dragIndex,
+              "rmd-tab--drop-target": i === dropIndex && i !== dragIndex,
             }),
-            className
+          };
+
+          // only override the tab's own props when the tabs list handles
+          // closing or reordering so that the `Tab` can still be used directly
+          if (onTabClose) {
+            tabProps.onClose = closable ? () => handleTabClose(i) : undefined;
+          }
+
+          if (onTabsReorder) {
+            tabProps.draggable = !disabled;
+          }
+
+          return cloneElement(tab, tabProps);
+        })}
+      </div>
+    );
+
+    if (!horizontal || overflow === "scroll") {
+      return (
+        <UpdateIndicatorStylesProvider value={updateStyles}>
+          {tablist}
+        </UpdateIndicatorStylesProvider>
+      );
+    }
+
+    const paddles = overflow === "paddles" && (prev || next);
+    return (
+      <UpdateIndicatorStylesProvider value={updateStyles}>
+        <div className={container({ [overflow]: true })}>
+          {paddles && (
+            <Button
+              id={`${id}-prev-paddle`}
+              aria-label={prevPaddleLabel}
+              buttonType="icon"
+              disabled={!prev}
+              onClick={() => scrollBy(-1)}
+              className={block("paddle")}
+            >
+              {prevPaddleIcon}
+            </Button>
+          )}
+          {tablist}
+          {paddles && (
+            <Button
+              id={`${id}-next-paddle`}
+              aria-label={nextPaddleLabel}
+              buttonType="icon"
+              disabled={!next}
+              onClick={() => scrollBy(1)}
+              className={block("paddle")}
+            >
+              {nextPaddleIcon}
+            </Button>
+          )}
+          {overflow === "menu" && hidden.length > 0 && (
+            <DropdownMenu
+              id={`${id}-overflow-menu`}
+              aria-label={overflowMenuLabel}
+              buttonType="icon"
+              items={hidden.map((index) =>
+                getMenuItem(tabs[index], () => onActiveIndexChange(index))
+              )}
+              className={block("overflow-menu")}
+            >
+              {overflowMenuIcon}
+            </DropdownMenu>
           )}
-          ref={tabsRefHandler}
-          onClick={handleClick}
-          onKeyDown={handleKeyDown}
-        >
-          {Children.map(tabs, (child, i) => {
-            if (!isValidElement(child)) {
-              return child;
-            }
-
-            const tab = Children.only(child);
-            let ref: Ref<HTMLElement> = itemRefs[i];
-            if (tab.props.ref) {
-              ref = (instance: HTMLElement | null) => {
-                itemRefs[i].current = instance;
-                applyRef(instance, tab.props.ref);
-              };
-            }
-
-            return cloneElement(tab, { ref });
-          })}
         </div>
       </UpdateIndicatorStylesProvider>
     );
@@ -177,6 +558,20 @@ if (process.env.NODE_ENV !== "production") {
       activeIndex: PropTypes.number.isRequired,
       onActiveIndexChange: PropTypes.func.isRequired,
       disableTransition: PropTypes.bool,
+      onDragStart: PropTypes.func,
+      onDragOver: PropTypes.func,
+      onDragLeave: PropTypes.func,
+      onDrop: PropTypes.func,
+      onDragEnd: PropTypes.func,
+      onTabClose: PropTypes.func,
+      onTabsReorder: PropTypes.func,
+      overflow: PropTypes.oneOf(["scroll", "paddles", "menu"]),
+      prevPaddleLabel: PropTypes.string,
+      prevPaddleIcon: PropTypes.node,
+      nextPaddleLabel: PropTypes.string,
+      nextPaddleIcon: PropTypes.node,
+      overflowMenuLabel: PropTypes.string,
+      overflowMenuIcon: PropTypes.node,
     };
   } catch (e) {}
 }
@@ -8,8 +8,10 @@ import React, {
   useMemo,
   useState,
 } from "react";
+import { HistoryAdapter, useHistorySync } from "@react-md/utils";
 
 import { TabConfig } from "./types";
+import { getActiveIndexAfterClose, getActiveIndexAfterReorder } from "./utils";
 
 export type InitializedTabConfig = TabConfig & Required<Pick<TabConfig, "id">>;
 
@@ -46,6 +48,24 @@ export interface TabsManagerContext {
    * The list of tabs that should be controlled by the tabs manager.
    */
   tabs: readonly InitializedTabConfig[];
+
+  /**
+   * A function to call when a `closable` tab should be closed. This will be
+   * `undefined` unless the `onTabClose` prop was provided to the
+   * `TabsManager`.
+   *
+   * @remarks \@since 3.2.0
+   */
+  onTabClose: ((index: number) => void) | undefined;
+
+  /**
+   * A function to call when a tab should be moved to a new index. This will be
+   * `undefined` unless the `onTabsReorder` prop was provided to the
+   * `TabsManager`.
+   *
+   * @remarks \@since 3.2.0
+   */
+  onTabsReorder: ((fromIndex: number, toIndex: number) => void) | undefined;
 }
 
 export type InitializedTabsManagerContext = Required<TabsManagerContext>;
@@ -57,6 +77,8 @@ const context = createContext<InitializedTabsManagerContext>({
     // do nothing
   },
   tabs: [],
+  onTabClose: undefined,
+  onTabsReorder: undefined,
 });
 
 /**
@@ -72,7 +94,11 @@ const { Provider } = context;
 export interface TabsManagerProps
   extends Omit<
     TabsManagerContext,
-    "activeIndex" | "onActiveIndexChange" | "tabs"
+    | "activeIndex"
+    | "onActiveIndexChange"
+    | "tabs"
+    | "onTabClose"
+    | "onTabsReorder"
   > {
   /**
    * The index of the tab that should be active by default. This is ignored if
@@ -129,8 +155,105 @@ export interface TabsManagerProps
    * value.
    */
   iconAfter?: boolean;
+
+  /**
+   * A function to call when a `closable` tab should be closed by clicking the
+   * close button, middle clicking, or pressing the Delete key. The `tabs` will
+   * not be updated automatically, so the tab should be removed within this
+   * callback. The `activeIndex` will be updated so that the same tab remains
+   * active, or the next tab becomes active when the active tab was closed.
+   *
+   * Example:
+   *
+   * ```tsx
+   * const [tabs, setTabs] = useState<TabConfig[]>([
+   *   { id: "index-tab", children: "index.ts", closable: true },
+   *   { id: "utils-tab", children: "utils.ts", closable: true },
+   * ]);
+   *
+   * <TabsManager
+   *   tabs={tabs}
+   *   tabsId="editor-tabs"
+   *   onTabClose={(index) =>
+   *     setTabs((prevTabs) => prevTabs.filter((_, i) => i !== index))
+   *   }
+   * >
+   *   <Tabs />
+   * </TabsManager>
+   * ```
+   *
+   * @remarks \@since 3.2.0
+   */
+  onTabClose?(index: number): void;
+
+  /**
+   * A function to call when a tab has been dragged onto another tab or moved
+   * with the keyboard by pressing `Control+Shift` along with an arrow key. The
+   * `tabs` will not be updated automatically, so they should be reordered
+   * within this callback. The `activeIndex` will be updated so that the same
+   * tab remains active.
+   *
+   * @see {@link moveTab}
+   * @remarks \@since 3.2.0
+   */
+  onTabsReorder?(fromIndex: number, toIndex: number): void;
+
+  /**
+   * An optional adapter to synchronize the active tab's `id` with the URL so
+   * that the active tab can be deep linked and restored with the browser's
+   * back and forward buttons. The active tab will be restored from the URL on
+   * mount and the `defaultActiveIndex` will be used when the URL does not
+   * contain an active tab.
+   *
+   * Example:
+   *
+   * ```tsx
+   * const historyAdapter = createHashHistoryAdapter();
+   *
+   * function Example(): ReactElement {
+   *   return (
+   *     <TabsManager
+   *       tabs={tabs}
+   *       tabsId="settings-tabs"
+   *       historyAdapter={historyAdapter}
+   *     >
+   *       <Tabs />
+   *       <TabPanels>{panels}</TabPanels>
+   *     </TabsManager>
+   *   );
+   * }
+   * ```
+   *
+   * @see {@link createHashHistoryAdapter}
+   * @see {@link createQueryHistoryAdapter}
+   * @remarks \@since 3.2.0
+   */
+  historyAdapter?: HistoryAdapter;
+
+  /**
+   * The key to use for the active tab within the URL when the `historyAdapter`
+   * prop has been provided.
+   *
+   * @defaultValue `tabsId`
+   * @remarks \@since 3.2.0
+   */
+  historyKey?: string;
 }
 
+/**
+ * Gets the id for a tab by using the configured `id` or generating one based
+ * on the `tabsId` and index.
+ *
+ * @internal
+ */
+const getTabId = (
+  tabsId: string,
+  config: TabConfig | ReactElement | string,
+  index: number
+): string =>
+  (typeof config === "object" && !isValidElement(config) && config.id) ||
+  `${tabsId}-tab-${index + 1}`;
+
 /**
  * The `TabsManager` is used to configure your `Tabs` component and handle some
  * of the default behavior such as:
@@ -148,6 +271,10 @@ export function TabsManager({
   tabs,
   stacked = false,
   iconAfter = false,
+  onTabClose: propOnTabClose,
+  onTabsReorder: propOnTabsReorder,
+  historyAdapter,
+  historyKey = tabsId,
   children,
 }: TabsManagerProps): ReactElement {
   const [localActiveIndex, setActiveIndex] = useState(defaultActiveIndex);
@@ -169,6 +296,59 @@ export function TabsManager({
       ? (onActiveIndexChange as TabsManagerContext["onActiveIndexChange"])
       : handleActiveIndexChange;
 
+  const totalTabs = tabs.length;
+  const onTabClose = useMemo(() => {
+    if (!propOnTabClose) {
+      return undefined;
+    }
+
+    return (index: number) => {
+      propOnTabClose(index);
+      const nextIndex = getActiveIndexAfterClose(activeIndex, index, totalTabs);
+      if (nextIndex !== activeIndex) {
+        updateActiveIndex(nextIndex);
+      }
+    };
+  }, [activeIndex, propOnTabClose, totalTabs, updateActiveIndex]);
+  const onTabsReorder = useMemo(() => {
+    if (!propOnTabsReorder) {
+      return undefined;
+    }
+
+    return (fromIndex: number, toIndex: number) => {
+      propOnTabsReorder(fromIndex, toIndex);
+      const nextIndex = getActiveIndexAfterReorder(
+        activeIndex,
+        fromIndex,
+        toIndex
+      );
+      if (nextIndex !== activeIndex) {
+        updateActiveIndex(nextIndex);
+      }
+    };
+  }, [activeIndex, propOnTabsReorder, updateActiveIndex]);
+
+  const getHistoryValue = (index: number): string | null => {
+    const tab = tabs[index];
+    return tab ? getTabId(tabsId, tab, index) : null;
+  };
+  useHistorySync({
+    adapter: historyAdapter,
+    key: historyKey,
+    value: getHistoryValue(activeIndex),
+    defaultValue: getHistoryValue(defaultActiveIndex),
+    onRestore(tabId) {
+      let index = defaultActiveIndex;
+      if (tabId !== null) {
+        index = tabs.findIndex((_, i) => getHistoryValue(i) === tabId);
+      }
+
+      if (index !== -1 && index !== activeIndex) {
+        updateActiveIndex(index);
+      }
+    },
+  });
+
   const value = useMemo(
     () => ({
       activeIndex,
@@ -183,7 +363,7 @@ export function TabsManager({
 
         return {
           ...tab,
-          id: tab.id || `${tabsId}-tab-${i + 1}`,
+          id: getTabId(tabsId, tab, i),
           panelId:
             activeIndex === i
               ? `${tabsId}-panel-${activeIndex + 1}`
@@ -194,8 +374,19 @@ export function TabsManager({
         };
       }),
       tabsId,
+      onTabClose,
+      onTabsReorder,
     }),
-    [activeIndex, iconAfter, stacked, tabs, tabsId, updateActiveIndex]
+    [
+      activeIndex,
+      iconAfter,
+      stacked,
+      tabs,
+      tabsId,
+      updateActiveIndex,
+      onTabClose,
+      onTabsReorder,
+    ]
   );
 
   return <Provider value={value}>{children}</Provider>;
@@ -1,10 +1,37 @@
-import React from "react";
+import React, { ReactElement } from "react";
 import { render } from "@testing-library/react";
 
 import { TabPanel } from "../TabPanel";
-import { TabPanels } from "../TabPanels";
+import { TabPanels, TabPanelsProps } from "../TabPanels";
 import { TabsManager } from "../TabsManager";
 
+const tabs = ["Tab 1", "Tab 2", "Tab 3", "Tab 4"];
+
+function Test({
+  activeIndex,
+  ...props
+}: TabPanelsProps & { activeIndex: number }): ReactElement {
+  return (
+    <TabsManager
+      tabs={tabs}
+      tabsId="tabs"
+      activeIndex={activeIndex}
+      onActiveIndexChange={() => {}}
+    >
+      <TabPanels {...props} disableTransition>
+        {tabs.map((tab, i) => (
+          <TabPanel key={tab}>Panel {i + 1}</TabPanel>
+        ))}
+      </TabPanels>
+    </TabsManager>
+  );
+}
+
+const getMountedPanels = (container: HTMLElement): (string | null)[] =>
+  Array.from(container.querySelectorAll(".rmd-tab-panel")).map(
+    (panel) => panel.textContent
+  );
+
 describe("TabPanels", () => {
   it("should render without crashing if not wrapped in the tabs manager (even though it _should_ be wrapped in one)", () => {
     const { container } = render(
@@ -47,4 +74,114 @@ describe("TabPanels", () => {
     expect(container).toMatchSnapshot();
     expect(container.querySelectorAll(".rmd-tab-panel").length).toBe(3);
   });
+
+  it("should only mount the panels once they have become active when the renderStrategy is lazy", () => {
+    const { container, rerender } = render(
+      <Test activeIndex={0} renderStrategy="lazy" />
+    );
+    expect(getMountedPanels(container)).toEqual(["Panel 1"]);
+
+    rerender(<Test activeIndex={2} renderStrategy="lazy" />);
+    expect(getMountedPanels(container)).toEqual(["Panel 1", "Panel 3"]);
+    expect(container.querySelector("#tabs-panel-1")).toHaveAttribute("hidden");
+    expect(container.querySelector("#tabs-panel-3")).not.toHaveAttribute(
+      "hidden"
+    );
+
+    rerender(<Test activeIndex={3} renderStrategy="lazy" />);
+    rerender(<Test activeIndex={0} renderStrategy="lazy" />);
+    expect(getMountedPanels(container)).toEqual([
+      "Panel 1",
+      "Panel 3",
+      "Panel 4",
+    ]);
+  });
+
+  it("should only keep the most recently active panels mounted when the renderStrategy is lru", () => {
+    const props = { renderStrategy: "lru", maxMountedPanels: 2 } as const;
+    const { container, rerender } = render(<Test {...props} activeIndex={0} />);
+    expect(getMountedPanels(container)).toEqual(["Panel 1"]);
+
+    rerender(<Test {...props} activeIndex={1} />);
+    expect(getMountedPanels(container)).toEqual(["Panel 1", "Panel 2"]);
+
+    rerender(<Test {...props} activeIndex={2} />);
+    expect(getMountedPanels(container)).toEqual(["Panel 2", "Panel 3"]);
+
+    rerender(<Test {...props} activeIndex={1} />);
+    expect(getMountedPanels(container)).toEqual(["Panel 2", "Panel 3"]);
+
+    rerender(<Test {...props} activeIndex={3} />);
+    expect(getMountedPanels(container)).toEqual(["Panel 2", "Panel 4"]);
+  });
+
+  it("should restore the scroll position for each panel when the preserveScroll prop is enabled", () => {
+    const { container, rerender } = render(
+      <Test activeIndex={0} renderStrategy="lazy" preserveScroll />
+    );
+    const panels = container.querySelector(".rmd-tab-panels") as HTMLElement;
+    panels.scrollTop = 100;
+
+    rerender(<Test activeIndex={1} renderStrategy="lazy" preserveScroll />);
+    expect(panels.scrollTop).toBe(0);
+    panels.scrollTop = 50;
+
+    rerender(<Test activeIndex={0} renderStrategy="lazy" preserveScroll />);
+    expect(panels.scrollTop).toBe(100);
+
+    rerender(<Test activeIndex={1} renderStrategy="lazy" preserveScroll />);
+    expect(panels.scrollTop).toBe(50);
+
+    rerender(<Test activeIndex={0} renderStrategy="lazy" />);
+    expect(panels.scrollTop).toBe(0);
+  });
+
+  it("should track the mounted panels by the tab ids so that closing a tab does not mount or restore the wrong panel", () => {
+    const allTabs = [
+      { id: "tab-a", children: "A" },
+      { id: "tab-b", children: "B" },
+      { id: "tab-c", children: "C" },
+    ];
+    function ClosableTest({
+      closed,
+      activeIndex,
+    }: {
+      closed: boolean;
+      activeIndex: number;
+    }): ReactElement {
+      const tabs = closed ? allTabs.slice(1) : allTabs;
+      return (
+        <TabsManager
+          tabs={tabs}
+          tabsId="tabs"
+          activeIndex={activeIndex}
+          onActiveIndexChange={() => {}}
+        >
+          <TabPanels renderStrategy="lazy" preserveScroll disableTransition>
+            {tabs.map(({ id, children }) => (
+              <TabPanel key={id}>Panel {children}</TabPanel>
+            ))}
+          </TabPanels>
+        </TabsManager>
+      );
+    }
+
+    const { container, rerender } = render(
+      <ClosableTest closed={false} activeIndex={0} />
+    );
+    const panels = container.querySelector(".rmd-tab-panels") as HTMLElement;
+    panels.scrollTop = 100;
+
+    rerender(<ClosableTest closed={false} activeIndex={2} />);
+    expect(getMountedPanels(container)).toEqual(["Panel A", "Panel C"]);
+    panels.scrollTop = 50;
+
+    rerender(<ClosableTest closed activeIndex={1} />);
+    expect(getMountedPanels(container)).toEqual(["Panel C"]);
+    expect(panels.scrollTop).toBe(50);
+
+    rerender(<ClosableTest closed activeIndex={0} />);
+    expect(getMountedPanels(container)).toEqual(["Panel B", "Panel C"]);
+    expect(panels.scrollTop).toBe(0);
+  });
 });
@@ -0,0 +1,159 @@
+import React, { ReactElement } from "react";
+import { fireEvent, render } from "@testing-library/react";
+
+import { Tab } from "../Tab";
+import { TabsList, TabsListProps } from "../TabsList";
+
+const TAB_WIDTH = 100;
+
+function createTabsList(props: Partial<TabsListProps> = {}): ReactElement {
+  const { activeIndex = 0 } = props;
+  return (
+    <TabsList
+      id="tabs"
+      activeIndex={activeIndex}
+      onActiveIndexChange={() => {}}
+      {...props}
+    >
+      {["Tab 1", "Tab 2", "Tab 3", "Tab 4", "Tab 5"].map((children, i) => (
+        <Tab key={i} id={`tab-${i + 1}`} active={activeIndex === i}>
+          {children}
+        </Tab>
+      ))}
+    </TabsList>
+  );
+}
+
+const renderTabs = (
+  props?: Partial<TabsListProps>
+): ReturnType<typeof render> => render(createTabsList(props));
+
+/**
+ * Mocks the tabs container so that only the first two tabs are fully visible
+ * and updates the tab positions based on the current scroll position.
+ */
+function mockOverflow(tablist: HTMLElement, scrollLeft = 0): void {
+  let currentScrollLeft = scrollLeft;
+  Object.defineProperties(tablist, {
+    scrollLeft: {
+      configurable: true,
+      get: () => currentScrollLeft,
+      set: (value: number) => {
+        currentScrollLeft = value;
+      },
+    },
+    scrollWidth: { configurable: true, value: TAB_WIDTH * 5 },
+    clientWidth: { configurable: true, value: TAB_WIDTH * 2.5 },
+  });
+
+  tablist.getBoundingClientRect = () =>
+    ({ left: 0, right: TAB_WIDTH * 2.5 } as DOMRect);
+  tablist.querySelectorAll<HTMLElement>('[role="tab"]').forEach((tab, i) => {
+    tab.getBoundingClientRect = () => {
+      const left = i * TAB_WIDTH - currentScrollLeft;
+      return { left, right: left + TAB_WIDTH } as DOMRect;
+    };
+  });
+}
+
+describe("TabsList", () => {
+  it("should not render a container or paddles by default", () => {
+    const { container, getByRole } = renderTabs();
+    const tablist = getByRole("tablist");
+
+    mockOverflow(tablist);
+    fireEvent.scroll(tablist);
+    expect(tablist.parentElement).toBe(container);
+    expect(container.querySelector(".rmd-tabs__paddle")).toBe(null);
+  });
+
+  it("should render paddles that scroll the tabs when they overflow", () => {
+    const { getByRole, queryByRole } = renderTabs({ overflow: "paddles" });
+    const tablist = getByRole("tablist");
+    expect(tablist.parentElement).toHaveClass("rmd-tabs-container");
+    expect(queryByRole("button", { name: "Previous tabs" })).toBe(null);
+    expect(queryByRole("button", { name: "Next tabs" })).toBe(null);
+
+    mockOverflow(tablist);
+    fireEvent.scroll(tablist);
+
+    const prev = getByRole("button", { name: "Previous tabs" });
+    const next = getByRole("button", { name: "Next tabs" });
+    expect(prev).toBeDisabled();
+    expect(next).not.toBeDisabled();
+
+    fireEvent.click(next);
+    expect(tablist.scrollLeft).toBe(TAB_WIDTH * 2.5);
+    expect(prev).not.toBeDisabled();
+    expect(next).toBeDisabled();
+
+    fireEvent.click(prev);
+    expect(tablist.scrollLeft).toBe(0);
+    expect(prev).toBeDisabled();
+    expect(next).not.toBeDisabled();
+  });
+
+  it("should scroll the active tab into view when it changes", () => {
+    const props = { overflow: "paddles" as const, activeIndex: 0 };
+    const { getByRole, rerender } = renderTabs(props);
+    const tablist = getByRole("tablist");
+    mockOverflow(tablist);
+
+    rerender(createTabsList({ ...props, activeIndex: 3 }));
+
+    // the fourth tab's right edge is at 400px and the container is 250px wide
+    expect(tablist.scrollLeft).toBe(150);
+  });
+
+  it("should render the tabs that are not fully visible in an overflow menu", () => {
+    const onActiveIndexChange = jest.fn();
+    const { getByRole, queryByRole } = renderTabs({
+      overflow: "menu",
+      onActiveIndexChange,
+    });
+    const tablist = getByRole("tablist");
+    expect(queryByRole("button", { name: "More tabs" })).toBe(null);
+
+    mockOverflow(tablist);
+    fireEvent.scroll(tablist);
+
+    const button = getByRole("button", { name: "More tabs" });
+    fireEvent.click(button);
+
+    const menu = getByRole("menu");
+    const items = menu.querySelectorAll('[role="menuitem"]');
+    expect(Array.from(items).map((item) => item.textContent)).toEqual([
+      "Tab 3",
+      "Tab 4",
+      "Tab 5",
+    ]);
+
+    fireEvent.click(items[1]);
+    expect(onActiveIndexChange).toBeCalledWith(3);
+  });
+
+  it("should not override the tab's own onClose and draggable props without the matching callbacks", () => {
+    const onClose = jest.fn();
+    const { getByRole, container } = render(
+      <TabsList id="tabs" activeIndex={0} onActiveIndexChange={() => {}}>
+        <Tab id="tab-1" active closable onClose={onClose} draggable>
+          Tab 1
+        </Tab>
+      </TabsList>
+    );
+
+    const tab = getByRole("tab");
+    expect(tab).toHaveAttribute("draggable", "true");
+
+    const close = container.querySelector(".rmd-tab__close");
+    if (!close) {
+      throw new Error();
+    }
+
+    fireEvent.click(close);
+    expect(onClose).toBeCalledTimes(1);
+
+    fireEvent.keyDown(tab, { key: "Delete" });
+    expect(onClose).toBeCalledTimes(2);
+  });
+});
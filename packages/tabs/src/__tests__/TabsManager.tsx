@@ -0,0 +1,216 @@
+import React, { ReactElement, useState } from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import { createQueryHistoryAdapter } from "@react-md/utils";
+
+import { Tabs } from "../Tabs";
+import { TabsManager, useTabs } from "../TabsManager";
+import { TabConfig } from "../types";
+import { moveTab } from "../utils";
+
+const INITIAL_TABS: TabConfig[] = ["Tab 1", "Tab 2", "Tab 3", "Tab 4"].map(
+  (children) => ({ id: children.replace(" ", "-"), children, closable: true })
+);
+
+function ActiveTab(): ReactElement {
+  const { tabs, activeIndex } = useTabs();
+
+  return <span data-testid="active">{tabs[activeIndex]?.children}</span>;
+}
+
+function Test({
+  defaultActiveIndex = 0,
+}: {
+  defaultActiveIndex?: number;
+}): ReactElement {
+  const [tabs, setTabs] = useState(INITIAL_TABS);
+
+  return (
+    <TabsManager
+      tabs={tabs}
+      tabsId="tabs"
+      defaultActiveIndex={defaultActiveIndex}
+      onTabClose={(index) =>
+        setTabs((prevTabs) => prevTabs.filter((_, i) => i !== index))
+      }
+      onTabsReorder={(fromIndex, toIndex) =>
+        setTabs((prevTabs) => moveTab(prevTabs, fromIndex, toIndex))
+      }
+    >
+      <Tabs />
+      <ActiveTab />
+    </TabsManager>
+  );
+}
+
+const getTabNames = (container: HTMLElement): (string | null)[] =>
+  Array.from(container.querySelectorAll(".rmd-tab__content")).map(
+    (tab) => tab.textContent
+  );
+
+describe("TabsManager", () => {
+  it("should close tabs with the close button, middle click, or Delete key", () => {
+    const { container, getByRole, getByTestId } = render(
+      <Test defaultActiveIndex={1} />
+    );
+    const active = getByTestId("active");
+    expect(active).toHaveTextContent("Tab 2");
+
+    const tab1 = getByRole("tab", { name: "Tab 1" });
+    fireEvent.click(tab1.querySelector(".rmd-tab__close") as HTMLElement);
+    expect(getTabNames(container)).toEqual(["Tab 2", "Tab 3", "Tab 4"]);
+    expect(active).toHaveTextContent("Tab 2");
+
+    const tab4 = getByRole("tab", { name: "Tab 4" });
+    fireEvent(tab4, new MouseEvent("auxclick", { bubbles: true, button: 1 }));
+    expect(getTabNames(container)).toEqual(["Tab 2", "Tab 3"]);
+    expect(active).toHaveTextContent("Tab 2");
+
+    const tab2 = getByRole("tab", { name: "Tab 2" });
+    tab2.focus();
+    fireEvent.keyDown(tab2, { key: "Delete" });
+    expect(getTabNames(container)).toEqual(["Tab 3"]);
+    expect(active).toHaveTextContent("Tab 3");
+    expect(document.activeElement).toBe(getByRole("tab", { name: "Tab 3" }));
+  });
+
+  it("should make the previous tab active when the last active tab is closed", () => {
+    const { container, getByRole, getByTestId } = render(
+      <Test defaultActiveIndex={3} />
+    );
+
+    const tab4 = getByRole("tab", { name: "Tab 4" });
+    fireEvent.click(tab4.querySelector(".rmd-tab__close") as HTMLElement);
+    expect(getTabNames(container)).toEqual(["Tab 1", "Tab 2", "Tab 3"]);
+    expect(getByTestId("active")).toHaveTextContent("Tab 3");
+  });
+
+  it("should reorder the tabs with drag and drop", () => {
+    const { container, getByRole, getByTestId } = render(<Test />);
+    const tab1 = getByRole("tab", { name: "Tab 1" });
+    const tab3 = getByRole("tab", { name: "Tab 3" });
+    expect(tab1).toHaveAttribute("draggable", "true");
+
+    const dataTransfer = {
+      setData: jest.fn(),
+      effectAllowed: "",
+      dropEffect: "",
+    };
+    fireEvent.dragStart(tab1, { dataTransfer });
+    expect(tab1).toHaveClass("rmd-tab--dragging");
+
+    fireEvent.dragOver(tab3, { dataTransfer });
+    expect(tab3).toHaveClass("rmd-tab--drop-target");
+
+    fireEvent.drop(tab3, { dataTransfer });
+    expect(getTabNames(container)).toEqual([
+      "Tab 2",
+      "Tab 3",
+      "Tab 1",
+      "Tab 4",
+    ]);
+    expect(getByTestId("active")).toHaveTextContent("Tab 1");
+    expect(tab1).not.toHaveClass("rmd-tab--dragging");
+    expect(tab3).not.toHaveClass("rmd-tab--drop-target");
+  });
+
+  it("should reorder the tabs with Control+Shift and the arrow keys", () => {
+    const { container, getByRole, getByTestId } = render(<Test />);
+    const tab1 = getByRole("tab", { name: "Tab 1" });
+    tab1.focus();
+
+    fireEvent.keyDown(tab1, {
+      key: "ArrowRight",
+      ctrlKey: true,
+      shiftKey: true,
+    });
+    expect(getTabNames(container)).toEqual([
+      "Tab 2",
+      "Tab 1",
+      "Tab 3",
+      "Tab 4",
+    ]);
+    expect(getByTestId("active")).toHaveTextContent("Tab 1");
+    expect(document.activeElement).toBe(tab1);
+
+    fireEvent.keyDown(tab1, {
+      key: "ArrowLeft",
+      ctrlKey: true,
+      shiftKey: true,
+    });
+    expect(getTabNames(container)).toEqual([
+      "Tab 1",
+      "Tab 2",
+      "Tab 3",
+      "Tab 4",
+    ]);
+
+    // can't move past the first tab
+    fireEvent.keyDown(tab1, {
+      key: "ArrowLeft",
+      ctrlKey: true,
+      shiftKey: true,
+    });
+    expect(getTabNames(container)).toEqual([
+      "Tab 1",
+      "Tab 2",
+      "Tab 3",
+      "Tab 4",
+    ]);
+    expect(getByTestId("active")).toHaveTextContent("Tab 1");
+  });
+
+  describe("history", () => {
+    const historyAdapter = createQueryHistoryAdapter();
+    const tabs = ["Tab 1", "Tab 2", { id: "settings", children: "Settings" }];
+
+    afterEach(() => {
+      window.history.replaceState(null, "", "/");
+    });
+
+    it("should restore the active tab from the URL", () => {
+      window.history.replaceState(null, "", "/?tabs=settings");
+      const { getByTestId } = render(
+        <TabsManager tabs={tabs} tabsId="tabs" historyAdapter={historyAdapter}>
+          <Tabs />
+          <ActiveTab />
+        </TabsManager>
+      );
+
+      expect(getByTestId("active")).toHaveTextContent("Settings");
+    });
+
+    it("should update the URL when the active tab changes and restore it on popstate", () => {
+      const { getByRole, getByTestId } = render(
+        <TabsManager
+          tabs={tabs}
+          tabsId="tabs"
+          historyAdapter={historyAdapter}
+          historyKey="tab"
+        >
+          <Tabs />
+          <ActiveTab />
+        </TabsManager>
+      );
+      const active = getByTestId("active");
+
+      fireEvent.click(getByRole("tab", { name: "Tab 2" }));
+      expect(window.location.search).toBe("?tab=tabs-tab-2");
+
+      fireEvent.click(getByRole("tab", { name: "Settings" }));
+      expect(window.location.search).toBe("?tab=settings");
+
+      act(() => {
+        window.history.replaceState(null, "", "/?tab=tabs-tab-2");
+        window.dispatchEvent(new PopStateEvent("popstate"));
+      });
+      expect(active).toHaveTextContent("Tab 2");
+
+      act(() => {
+        window.history.replaceState(null, "", "/");
+        window.dispatchEvent(new PopStateEvent("popstate"));
+      });
+      expect(active).toHaveTextContent("Tab 1");
+      expect(window.location.search).toBe("");
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  getActiveIndexAfterClose,
+  getActiveIndexAfterReorder,
+  moveTab,
+} from "../utils";
+
+describe("moveTab", () => {
+  it("should return a new list with the item moved to the new index", () => {
+    const list = ["a", "b", "c", "d"];
+
+    expect(moveTab(list, 0, 2)).toEqual(["b", "c", "a", "d"]);
+    expect(moveTab(list, 3, 0)).toEqual(["d", "a", "b", "c"]);
+    expect(moveTab(list, 1, 1)).toEqual(list);
+    expect(moveTab(list, 1, 1)).not.toBe(list);
+  });
+});
+
+describe("getActiveIndexAfterClose", () => {
+  it("should keep the same tab active when another tab is closed", () => {
+    expect(getActiveIndexAfterClose(2, 0, 4)).toBe(1);
+    expect(getActiveIndexAfterClose(2, 3, 4)).toBe(2);
+  });
+
+  it("should activate the next tab or the previous tab if the active tab was the last tab", () => {
+    expect(getActiveIndexAfterClose(1, 1, 4)).toBe(1);
+    expect(getActiveIndexAfterClose(3, 3, 4)).toBe(2);
+    expect(getActiveIndexAfterClose(0, 0, 1)).toBe(0);
+  });
+});
+
+describe("getActiveIndexAfterReorder", () => {
+  it("should keep the same tab active", () => {
+    expect(getActiveIndexAfterReorder(1, 1, 3)).toBe(3);
+    expect(getActiveIndexAfterReorder(2, 0, 3)).toBe(1);
+    expect(getActiveIndexAfterReorder(2, 3, 0)).toBe(3);
+    expect(getActiveIndexAfterReorder(2, 0, 1)).toBe(2);
+    expect(getActiveIndexAfterReorder(0, 2, 3)).toBe(0);
+  });
+});
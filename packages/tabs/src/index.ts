@@ -8,3 +8,4 @@ export * from "./TabPanels";
 export * from "./TabPanel";
 export * from "./TabsManager";
 export * from "./types";
+export { moveTab } from "./utils";
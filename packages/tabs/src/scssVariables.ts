@@ -15,6 +15,8 @@ export default {
   "rmd-tab-inactive-color": "#757575",
   "rmd-tab-disabled-color": "#9e9e9e",
   "rmd-tab-active-indicator-height": "0.125rem",
+  "rmd-tab-close-spacing": "0.5rem",
+  "rmd-tab-dragging-opacity": 0.5,
   "rmd-tabs-positions": ["left", "center", "right"],
   "rmd-tabs-scrollable-padding": "3.25rem",
   "rmd-tabs-theme-values": {
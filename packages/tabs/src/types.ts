@@ -5,6 +5,18 @@ import { CSSProperties, ReactNode } from "react";
  */
 export type TabsAlignment = "left" | "center" | "right";
 
+/**
+ * The supported ways to display tabs that do not fit within the `TabsList`:
+ *
+ * - `"scroll"` - the tabs can only be scrolled natively
+ * - `"paddles"` - previous and next buttons will be rendered to scroll the tabs
+ * - `"menu"` - the tabs that are not fully visible will be rendered within a
+ *   `DropdownMenu`
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TabsOverflow = "scroll" | "paddles" | "menu";
+
 export interface TabsConfig {
   /**
    * The alignment to use for the tabs.
@@ -32,6 +44,16 @@ export interface TabsConfig {
    * additional tabs.
    */
   padded?: boolean;
+
+  /**
+   * How the tabs should be displayed when they do not fit within the
+   * `TabsList`. This is only used for horizontal tabs.
+   *
+   * @see {@link TabsOverflow}
+   * @defaultValue `"scroll"`
+   * @remarks \@since 3.2.0
+   */
+  overflow?: TabsOverflow;
 }
 
 export interface TabConfig {
@@ -76,6 +98,16 @@ export interface TabConfig {
    */
   disabled?: boolean;
 
+  /**
+   * Boolean if the tab can be closed by clicking a close button, middle
+   * clicking, or pressing the Delete key while it is focused. This requires
+   * the `onTabClose` prop to be provided to the `TabsManager` or `TabsList`.
+   *
+   * @defaultValue `false`
+   * @remarks \@since 3.2.0
+   */
+  closable?: boolean;
+
   /**
    * An optional style to apply to the `<span>` surrounding the `children` of
    * the `Tab`. You _probably_ won't need to use this.
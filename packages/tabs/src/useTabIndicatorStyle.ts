@@ -18,6 +18,13 @@ interface Options {
   totalTabs: number;
   activeIndex: number;
   align: "left" | "center" | "right";
+
+  /**
+   * An optional function to call when the tabs container has been resized.
+   *
+   * @remarks \@since 3.2.0
+   */
+  onResize?(): void;
 }
 
 const TAB_WIDTH_VAR = "--rmd-tab-width";
@@ -83,6 +90,7 @@ export function useTabIndicatorStyle({
   itemRefs,
   totalTabs,
   activeIndex,
+  onResize,
 }: Options): ReturnValue {
   const [cssVars, setCSSVars] = useState(() => {
     const tabWidth = `${100 / totalTabs}%`;
@@ -129,7 +137,17 @@ export function useTabIndicatorStyle({
   // whenever the tabs container element is resized, it _probably_ means
   // that the tabs will be resized or moved. this means the indicator will
   // be in the wrong place so we need to fix it here.
-  const [tabsRef, tabsRefHandler] = useResizeObserver(updateStyles, {
+  //
+  // the tabs might also be partially hidden after a resize when they overflow,
+  // so the `onResize` handler is also called to be able to scroll them back
+  // into view
+  const handleResize = useCallback(() => {
+    updateStyles();
+    if (onResize) {
+      onResize();
+    }
+  }, [onResize, updateStyles]);
+  const [tabsRef, tabsRefHandler] = useResizeObserver(handleResize, {
     ref: propRef,
   });
 
@@ -28,6 +28,8 @@ interface Options {
 interface ReturnValue {
   tabs: readonly ReactNode[];
   itemRefs: ItemRefList;
+  focusedIndex: number;
+  setFocusedIndex(focusedIndex: number): void;
   handleClick: MouseEventHandler<HTMLDivElement>;
   handleKeyDown: KeyboardEventHandler<HTMLDivElement>;
 }
@@ -110,6 +112,8 @@ export function useTabsMovement({
   return {
     tabs,
     itemRefs,
+    focusedIndex,
+    setFocusedIndex,
     handleClick,
     handleKeyDown,
   };
@@ -0,0 +1,194 @@
+import {
+  MutableRefObject,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { ItemRefList } from "@react-md/utils";
+
+import { TabsOverflow } from "./types";
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface TabsOverflowState {
+  /**
+   * Boolean if the tabs can be scrolled backwards.
+   */
+  prev: boolean;
+
+  /**
+   * Boolean if the tabs can be scrolled forwards.
+   */
+  next: boolean;
+
+  /**
+   * A list of the tab indexes that are not fully visible.
+   */
+  hidden: readonly number[];
+}
+
+/**
+ * @internal
+ */
+interface Options {
+  tabsRef: MutableRefObject<HTMLDivElement | null>;
+  itemRefs: ItemRefList;
+  horizontal: boolean;
+  overflow: TabsOverflow;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface TabsOverflowReturnValue extends TabsOverflowState {
+  /**
+   * Updates the overflow state. This should be called whenever the tabs
+   * container or the tabs themselves have been resized.
+   */
+  updateOverflow(): void;
+
+  /**
+   * Scrolls the tabs container by its visible width. A negative direction will
+   * scroll backwards.
+   */
+  scrollBy(direction: 1 | -1): void;
+
+  /**
+   * Scrolls the tabs container so that the tab at the provided index is fully
+   * visible.
+   */
+  scrollIntoView(index: number): void;
+}
+
+const EMPTY_LIST: readonly number[] = [];
+const INITIAL_STATE: TabsOverflowState = {
+  prev: false,
+  next: false,
+  hidden: EMPTY_LIST,
+};
+
+/**
+ * Checks if the tab is outside of the tabs container's visible area. A single
+ * pixel is allowed to overflow to account for sub-pixel rendering.
+ *
+ * @internal
+ */
+const isHidden = (tab: HTMLElement, containerRect: DOMRect): boolean => {
+  const { left, right } = tab.getBoundingClientRect();
+
+  return left < containerRect.left - 1 || right > containerRect.right + 1;
+};
+
+/**
+ * This hook is used to determine if the tabs are overflowing the `TabsList`
+ * along with providing helpers to scroll the tabs container. The scroll
+ * position is based on the bounding rects so that it works for both
+ * left-to-right and right-to-left writing directions.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function useTabsOverflow({
+  tabsRef,
+  itemRefs,
+  horizontal,
+  overflow,
+}: Options): TabsOverflowReturnValue {
+  const enabled = horizontal && overflow !== "scroll";
+  const [state, setState] = useState(INITIAL_STATE);
+  const prevState = useRef(state);
+
+  const updateOverflow = useCallback(() => {
+    const tabs = tabsRef.current;
+    if (!tabs || !enabled) {
+      return;
+    }
+
+    const { scrollLeft, scrollWidth, clientWidth } = tabs;
+    // the scrollLeft will be negative for right-to-left languages
+    const start = Math.abs(scrollLeft);
+    const prev = start > 1;
+    const next = start + clientWidth < scrollWidth - 1;
+    let hidden = EMPTY_LIST;
+    if (overflow === "menu" && (prev || next)) {
+      const containerRect = tabs.getBoundingClientRect();
+      hidden = itemRefs.reduce<number[]>((list, { current }, i) => {
+        if (current && isHidden(current, containerRect)) {
+          list.push(i);
+        }
+
+        return list;
+      }, []);
+    }
+
+    const current = prevState.current;
+    if (
+      current.prev !== prev ||
+      current.next !== next ||
+      current.hidden.join() !== hidden.join()
+    ) {
+      const nextState = { prev, next, hidden };
+      prevState.current = nextState;
+      setState(nextState);
+    }
+  }, [enabled, itemRefs, overflow, tabsRef]);
+
+  useEffect(() => {
+    const tabs = tabsRef.current;
+    if (!tabs || !enabled) {
+      return;
+    }
+
+    updateOverflow();
+    tabs.addEventListener("scroll", updateOverflow, { passive: true });
+    return () => {
+      tabs.removeEventListener("scroll", updateOverflow);
+    };
+  }, [enabled, tabsRef, updateOverflow]);
+
+  const scrollBy = useCallback(
+    (direction: 1 | -1) => {
+      const tabs = tabsRef.current;
+      if (!tabs) {
+        return;
+      }
+
+      const sign = getComputedStyle(tabs).direction === "rtl" ? -1 : 1;
+      tabs.scrollLeft += sign * direction * tabs.clientWidth;
+      updateOverflow();
+    },
+    [tabsRef, updateOverflow]
+  );
+
+  const scrollIntoView = useCallback(
+    (index: number) => {
+      const tabs = tabsRef.current;
+      const tab = itemRefs[index] && itemRefs[index].current;
+      if (!tabs || !tab || !horizontal) {
+        return;
+      }
+
+      const containerRect = tabs.getBoundingClientRect();
+      const { left, right } = tab.getBoundingClientRect();
+      if (left < containerRect.left) {
+        tabs.scrollLeft -= containerRect.left - left;
+      } else if (right > containerRect.right) {
+        tabs.scrollLeft += right - containerRect.right;
+      }
+
+      updateOverflow();
+    },
+    [horizontal, itemRefs, tabsRef, updateOverflow]
+  );
+
+  return {
+    ...(enabled ? state : INITIAL_STATE),
+    updateOverflow,
+    scrollBy,
+    scrollIntoView,
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Creates a new list with the item at the `fromIndex` moved to the `toIndex`.
+ * This can be used within the `onTabsReorder` callback to update the `tabs`
+ * and any related panels.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const [tabs, setTabs] = useState(["Tab 1", "Tab 2", "Tab 3"]);
+ *
+ * <TabsManager
+ *   tabs={tabs}
+ *   tabsId="editor-tabs"
+ *   onTabsReorder={(fromIndex, toIndex) =>
+ *     setTabs((prevTabs) => moveTab(prevTabs, fromIndex, toIndex))
+ *   }
+ * >
+ *   <Tabs />
+ * </TabsManager>
+ * ```
+ *
+ * @param list - The list to reorder
+ * @param fromIndex - The index of the item to move
+ * @param toIndex - The index the item should be moved to
+ * @returns a new reordered list
+ * @remarks \@since 3.2.0
+ */
+export function moveTab<T>(
+  list: readonly T[],
+  fromIndex: number,
+  toIndex: number
+): T[] {
+  const nextList = list.slice();
+  const [item] = nextList.splice(fromIndex, 1);
+  nextList.splice(toIndex, 0, item);
+
+  return nextList;
+}
+
+/**
+ * Gets the next active index once a tab has been closed. The same index will
+ * be used when the active tab is closed so that the next tab becomes active
+ * unless it was the last tab.
+ *
+ * @param activeIndex - The current active index
+ * @param closedIndex - The index of the tab that was closed
+ * @param totalTabs - The number of tabs before the tab was closed
+ * @returns the next active index
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function getActiveIndexAfterClose(
+  activeIndex: number,
+  closedIndex: number,
+  totalTabs: number
+): number {
+  if (
+    closedIndex < activeIndex ||
+    (closedIndex === activeIndex && closedIndex === totalTabs - 1)
+  ) {
+    return Math.max(0, activeIndex - 1);
+  }
+
+  return activeIndex;
+}
+
+/**
+ * Gets the next active index once a tab has been moved so that the same tab
+ * remains active.
+ *
+ * @param activeIndex - The current active index
+ * @param fromIndex - The index of the tab that was moved
+ * @param toIndex - The index the tab was moved to
+ * @returns the next active index
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function getActiveIndexAfterReorder(
+  activeIndex: number,
+  fromIndex: number,
+  toIndex: number
+): number {
+  if (fromIndex === activeIndex) {
+    return toIndex;
+  }
+
+  if (fromIndex < activeIndex && toIndex >= activeIndex) {
+    return activeIndex - 1;
+  }
+
+  if (fromIndex > activeIndex && toIndex <= activeIndex) {
+    return activeIndex + 1;
+  }
+
+  return activeIndex;
+}
@@ -1,5 +1,6 @@
 import React, {
   forwardRef,
+  KeyboardEvent,
   MutableRefObject,
   ReactElement,
   ReactNode,
@@ -7,6 +8,7 @@ import React, {
 import cn from "classnames";
 import { useIcon } from "@react-md/icon";
 import { List, ListElement } from "@react-md/list";
+import { SrOnly } from "@react-md/typography";
 import { bem } from "@react-md/utils";
 
 import { defaultGetItemLabel } from "./defaultGetItemLabel";
@@ -14,10 +16,13 @@ import { defaultGetItemValue } from "./defaultGetItemValue";
 import { defaultTreeItemRenderer } from "./defaultTreeItemRenderer";
 import { TreeProps, UnknownTreeItem } from "./types";
 import { NestedTreeItem } from "./useNestedTreeList";
+import { useTreeItemDragAndDrop } from "./useTreeItemDragAndDrop";
 import { useTreeMovement } from "./useTreeMovement";
+import { useTreeVirtualization } from "./useTreeVirtualization";
 
 const block = bem("rmd-tree");
 const defaultGetItemProps = (): undefined => undefined;
+const renderNoChildItems = (): null => null;
 
 /**
  * Creates an accessible tree widget that allows you to show hierarchical data
@@ -39,6 +44,14 @@ export const Tree = forwardRef<ListElement, TreeProps<any>>(function Tree( // es
     expandedIds,
     onItemExpansion,
     onMultiItemExpansion,
+    loadingIds = [],
+    erroredIds = [],
+    onItemMove,
+    canItemMove,
+    getItemMoveMessage,
+    itemMoveInstructions = "Press Control+Enter to move the current tree item.",
+    checkboxes = false,
+    indeterminateIds = [],
     expanderLeft = false,
     expanderIcon: propExpanderIcon,
     labelKey = "name",
@@ -49,9 +62,14 @@ export const Tree = forwardRef<ListElement, TreeProps<any>>(function Tree( // es
     linkComponent,
     sort,
     rootId = null,
+    virtualized = false,
+    itemHeight = 48,
+    overscan = 5,
     onBlur,
     onFocus,
     onKeyDown,
+    onScroll,
+    "aria-describedby": propDescribedBy,
     ...props
   },
   ref
@@ -60,6 +78,8 @@ export const Tree = forwardRef<ListElement, TreeProps<any>>(function Tree( // es
 
   const {
     items,
+    visibleItems,
+    flattenedItems,
     activeId,
     setActiveId,
     itemIdRefs,
@@ -81,10 +101,120 @@ export const Tree = forwardRef<ListElement, TreeProps<any>>(function Tree( // es
     expandedIds,
     onItemExpansion,
     onMultiItemExpansion,
+    erroredIds,
     valueKey,
     getItemValue,
+    itemHeight: virtualized ? itemHeight : undefined,
   });
 
+  const {
+    draggedId,
+    dropTarget,
+    message,
+    getDragHandlers,
+    handleKeyDown: handleDragKeyDown,
+  } = useTreeItemDragAndDrop({
+    onItemMove,
+    canItemMove,
+    getItemMoveMessage,
+    flattenedItems,
+    visibleItems,
+    focusedItemId:
+      visibleItems.find((item) => item.id === activeId)?.itemId ?? null,
+  });
+
+  const handleTreeKeyDown = (event: KeyboardEvent<ListElement>): void => {
+    if (!handleDragKeyDown(event)) {
+      handleKeyDown(event);
+    } else if (onKeyDown) {
+      onKeyDown(event);
+    }
+  };
+
+  const {
+    ref: refHandler,
+    handleScroll,
+    start,
+    end,
+  } = useTreeVirtualization({
+    ref,
+    onScroll,
+    virtualized,
+    itemHeight,
+    overscan,
+    itemCount: visibleItems.length,
+  });
+
+  const renderItem = (
+    item: UnknownTreeItem,
+    depth: number,
+    index: number,
+    listSize: number,
+    renderChildItems: (() => ReactNode) | undefined
+  ): ReactNode => {
+    const { itemId, isCustom, disabled } = item;
+    const selected = selectedIds.includes(itemId);
+    const expanded = expandedIds.includes(itemId);
+    const loading = loadingIds.includes(itemId);
+    const error = erroredIds.includes(itemId);
+    const indeterminate = indeterminateIds.includes(itemId);
+    let id = "";
+    let ref: MutableRefObject<HTMLLIElement | null> | undefined;
+    let visibleIndex = -1;
+    if (!isCustom) {
+      ({ id, ref, visibleIndex } = itemIdRefs[itemId]);
+    }
+
+    const focused = id === activeId;
+
+    return itemRenderer(
+      {
+        key: itemId,
+        id,
+        liRef: ref,
+        liStyle: virtualized ? { height: itemHeight } : undefined,
+        depth,
+        listSize,
+        itemIndex: index,
+        selected,
+        expanded,
+        focused,
+        loading,
+        error,
+        indeterminate,
+        dragging: draggedId === itemId,
+        dropPosition:
+          dropTarget?.itemId === itemId ? dropTarget.position : null,
+        draggable: (!!onItemMove && !isCustom && !disabled) || undefined,
+        ...(!isCustom && !disabled && getDragHandlers(itemId)),
+        onClick() {
+          setActiveId(itemId);
+          onItemSelect(itemId);
+          if (renderChildItems) {
+            onItemExpansion(itemId, error || !expanded);
+          }
+        },
+        renderChildItems,
+      },
+      { ...item, visibleIndex },
+      {
+        id,
+        expanderLeft,
+        expanderIcon: expanderIcon as ReactElement,
+        checkboxes,
+        multiSelect,
+        labelKey,
+        valueKey,
+        getItemLabel,
+        getItemValue,
+        getItemProps,
+        linkComponent,
+        rootId,
+        ...props,
+      }
+    );
+  };
+
   const renderChildItems = (
     items: readonly NestedTreeItem<UnknownTreeItem>[],
     depth: number,
@@ -93,80 +223,90 @@ export const Tree = forwardRef<ListElement, TreeProps<any>>(function Tree( // es
     const listSize = items.length;
 
     return items.map((item, index) => {
-      const { itemId, childItems, isCustom } = item;
-      const selected = selectedIds.includes(itemId);
-      const expanded = expandedIds.includes(itemId);
-      let id = "";
-      let ref: MutableRefObject<HTMLLIElement | null> | undefined;
-      let visibleIndex = -1;
-      if (!isCustom) {
-        ({ id, ref, visibleIndex } = itemIdRefs[itemId]);
+      const { childItems, hasChildItems } = item;
+      let renderItemChildren: (() => ReactNode) | undefined;
+      if (childItems) {
+        renderItemChildren = () =>
+          renderChildItems(childItems, depth + 1, [
+            ...parentIndexes,
+            index + 1,
+          ]);
+      } else if (hasChildItems) {
+        renderItemChildren = renderNoChildItems;
       }
 
-      const focused = id === activeId;
-
-      return itemRenderer(
-        {
-          key: itemId,
-          id,
-          liRef: ref,
-          depth,
-          listSize,
-          itemIndex: index,
-          selected,
-          expanded,
-          focused,
-          onClick() {
-            setActiveId(itemId);
-            onItemSelect(itemId);
-            if (childItems) {
-              onItemExpansion(itemId, !expanded);
-            }
-          },
-          renderChildItems: childItems
-            ? () =>
-                renderChildItems(childItems, depth + 1, [
-                  ...parentIndexes,
-                  index + 1,
-                ])
-            : undefined,
-        },
-        { ...item, visibleIndex },
-        {
-          id,
-          expanderLeft,
-          expanderIcon: expanderIcon as ReactElement,
-          multiSelect,
-          labelKey,
-          valueKey,
-          getItemLabel,
-          getItemValue,
-          getItemProps,
-          linkComponent,
-          rootId,
-          ...props,
-        }
-      );
+      return renderItem(item, depth, index, listSize, renderItemChildren);
     });
   };
 
-  return (
+  let children: ReactNode;
+  if (virtualized) {
+    // the tree items are rendered as a flat list with spacers before and after
+    // so that the tree's scroll height matches the height of all the visible
+    // items
+    children = (
+      <>
+        <li
+          role="none"
+          style={{ height: start * itemHeight }}
+          className={block("spacer")}
+        />
+        {visibleItems
+          .slice(start, end)
+          .map(({ itemId, depth, itemIndex, listSize, isParent }) =>
+            renderItem(
+              data[itemId],
+              depth,
+              itemIndex,
+              listSize,
+              isParent ? renderNoChildItems : undefined
+            )
+          )}
+        <li
+          role="none"
+          style={{ height: (visibleItems.length - end) * itemHeight }}
+          className={block("spacer")}
+        />
+      </>
+    );
+  } else {
+    children = renderChildItems(items, 0, []);
+  }
+
+  const instructionsId = `${id}-move-instructions`;
+  const tree = (
     <List
       {...props}
-      ref={ref}
+      ref={refHandler}
       id={id}
+      aria-describedby={
+        cn(propDescribedBy, onItemMove && instructionsId) || undefined
+      }
       aria-activedescendant={activeId}
-      aria-multiselectable={multiSelect || undefined}
+      aria-multiselectable={multiSelect || checkboxes || undefined}
       role="tree"
       tabIndex={0}
-      className={cn(block(), className)}
+      className={cn(block({ virtualized }), className)}
       onBlur={handleBlur}
       onFocus={handleFocus}
-      onKeyDown={handleKeyDown}
+      onKeyDown={handleTreeKeyDown}
+      onScroll={handleScroll}
     >
-      {renderChildItems(items, 0, [])}
+      {children}
     </List>
   );
+
+  if (!onItemMove) {
+    return tree;
+  }
+
+  return (
+    <>
+      {tree}
+      <SrOnly id={instructionsId}>{itemMoveInstructions}</SrOnly>
+      <SrOnly aria-live="assertive">{message}</SrOnly>
+    </>
+  );
 });
 
 /* istanbul ignore next */
@@ -180,8 +320,10 @@ if (process.env.NODE_ENV !== "production") {
       onBlur: PropTypes.func,
       onFocus: PropTypes.func,
       onKeyDown: PropTypes.func,
+      onScroll: PropTypes.func,
       "aria-label": PropTypes.string,
       "aria-labelledby": PropTypes.string,
+      "aria-describedby": PropTypes.string,
       // TODO: Update to custom prop validation for itemId and parentId
       data: PropTypes.object.isRequired,
       rootId: PropTypes.string,
@@ -192,7 +334,18 @@ if (process.env.NODE_ENV !== "production") {
       expandedIds: PropTypes.arrayOf(PropTypes.string).isRequired,
       onItemExpansion: PropTypes.func.isRequired,
       onMultiItemExpansion: PropTypes.func.isRequired,
+      loadingIds: PropTypes.arrayOf(PropTypes.string),
+      erroredIds: PropTypes.arrayOf(PropTypes.string),
+      onItemMove: PropTypes.func,
+      canItemMove: PropTypes.func,
+      getItemMoveMessage: PropTypes.func,
+      itemMoveInstructions: PropTypes.node,
+      checkboxes: PropTypes.bool,
+      indeterminateIds: PropTypes.arrayOf(PropTypes.string),
       multiSelect: PropTypes.bool,
+      virtualized: PropTypes.bool,
+      itemHeight: PropTypes.number,
+      overscan: PropTypes.number,
       expanderLeft: PropTypes.bool,
       expanderIcon: PropTypes.node,
       itemRenderer: PropTypes.func,
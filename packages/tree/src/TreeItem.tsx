@@ -1,7 +1,9 @@
-import React, { forwardRef, useCallback } from "react";
+import React, { forwardRef, ReactNode, useCallback } from "react";
 import cn from "classnames";
+import { InputToggleIcon } from "@react-md/form";
 import { useIcon } from "@react-md/icon";
 import { ListElement, ListItemChildren } from "@react-md/list";
+import { CircularProgress } from "@react-md/progress";
 import { useInteractionStates } from "@react-md/states";
 import { bem } from "@react-md/utils";
 
@@ -33,6 +35,13 @@ export const TreeItem = forwardRef<
     expanded,
     selected,
     focused,
+    loading = false,
+    error = false,
+    dragging = false,
+    dropPosition = null,
+    checkbox = false,
+    indeterminate = false,
+    checkboxIcon: propCheckboxIcon,
     expanderIcon: propExpanderIcon,
     expanderLeft = false,
     textClassName,
@@ -60,6 +69,8 @@ export const TreeItem = forwardRef<
   ref
 ) {
   const expanderIcon = useIcon("expander", propExpanderIcon);
+  const errorIcon = useIcon("error");
+  const checkboxIcon = useIcon("checkbox", propCheckboxIcon);
 
   const isLink =
     typeof propIsLink === "boolean"
@@ -76,19 +87,45 @@ export const TreeItem = forwardRef<
   let group;
   let leftAddon = propLeftAddon;
   let rightAddon = propRightAddon;
-  if (renderChildItems) {
-    const icon = (
-      <TreeItemExpanderIcon rotated={expanded}>
-        {expanderIcon}
-      </TreeItemExpanderIcon>
+  if (checkbox) {
+    leftAddon = (
+      <span className={cn("rmd-toggle", block("checkbox"))}>
+        <InputToggleIcon
+          disabled={disabled}
+          overlay
+          checked={selected}
+          indeterminate={indeterminate}
+        >
+          {checkboxIcon}
+        </InputToggleIcon>
+      </span>
     );
-    if (expanderLeft) {
+  }
+
+  if (renderChildItems) {
+    let icon: ReactNode;
+    if (loading) {
+      icon = <CircularProgress id={`${id}-progress`} small centered={false} />;
+    } else if (error) {
+      icon = errorIcon;
+    } else {
+      icon = (
+        <TreeItemExpanderIcon rotated={expanded}>
+          {expanderIcon}
+        </TreeItemExpanderIcon>
+      );
+    }
+
+    if (expanderLeft && !checkbox) {
       leftAddon = icon;
     } else {
       rightAddon = icon;
     }
 
-    group = <TreeGroup collapsed={!expanded}>{renderChildItems()}</TreeGroup>;
+    const childItems = renderChildItems();
+    if (childItems !== null) {
+      group = <TreeGroup collapsed={!expanded}>{childItems}</TreeGroup>;
+    }
   }
 
   const handleFocus = useCallback(
@@ -108,6 +145,8 @@ export const TreeItem = forwardRef<
 
   const a11y = {
     "aria-expanded": renderChildItems ? expanded : undefined,
+    "aria-busy": loading || undefined,
+    "aria-checked": checkbox ? (indeterminate ? "mixed" : selected) : undefined,
     "aria-level": depth + 1,
     "aria-setsize": listSize,
     "aria-posinset": itemIndex + 1,
@@ -139,6 +178,8 @@ export const TreeItem = forwardRef<
             "three-lines": !!secondaryText && threeLines,
             selected,
             focused,
+            dragging,
+            [`drop-${dropPosition}`]: !!dropPosition,
           }),
           className
         )}
@@ -179,6 +220,13 @@ if (process.env.NODE_ENV !== "production") {
       selected: PropTypes.bool.isRequired,
       expanded: PropTypes.bool.isRequired,
       focused: PropTypes.bool.isRequired,
+      loading: PropTypes.bool,
+      error: PropTypes.bool,
+      dragging: PropTypes.bool,
+      dropPosition: PropTypes.oneOf(["before", "after", "inside"]),
+      checkbox: PropTypes.bool,
+      indeterminate: PropTypes.bool,
+      checkboxIcon: PropTypes.node,
       renderChildItems: PropTypes.func,
       className: PropTypes.string,
       liRef: PropTypes.oneOfType([PropTypes.func, PropTypes.object]),
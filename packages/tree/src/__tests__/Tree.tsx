@@ -1,5 +1,5 @@
 import React from "react";
-import { render } from "@testing-library/react";
+import { createEvent, fireEvent, render } from "@testing-library/react";
 
 import { Tree } from "../Tree";
 
@@ -86,4 +86,360 @@ describe("Tree", () => {
     expect(item.className).toContain("item-1-li-class-name");
     expect(item.children[0].className).toContain("item-1-class-name");
   });
+
+  describe("virtualized", () => {
+    const data: Record<
+      string,
+      { itemId: string; parentId: string | null; name: string }
+    > = {};
+    for (let i = 1; i <= 100; i += 1) {
+      data[`item-${i}`] = {
+        itemId: `item-${i}`,
+        parentId: null,
+        name: `Item ${i}`,
+      };
+    }
+    data["item-1-1"] = {
+      itemId: "item-1-1",
+      parentId: "item-1",
+      name: "Item 1-1",
+    };
+
+    it("should only render the items within the scroll area and overscan", () => {
+      const { getByRole, queryAllByRole } = render(
+        <Tree {...PROPS} data={data} virtualized overscan={2} />
+      );
+      const getItemIds = () =>
+        queryAllByRole("treeitem").map((item) => item.id);
+
+      // jsdom has no height, so only the overscan items are rendered
+      expect(getItemIds()).toEqual(["tree-item-1", "tree-item-2"]);
+
+      const tree = getByRole("tree");
+      fireEvent.scroll(tree, { target: { scrollTop: 480 } });
+      expect(getItemIds()).toEqual([
+        "tree-item-9",
+        "tree-item-10",
+        "tree-item-11",
+        "tree-item-12",
+      ]);
+    });
+
+    it("should render the child items as a flat list with the correct aria attributes", () => {
+      const { getByRole, getByText } = render(
+        <Tree
+          {...PROPS}
+          data={data}
+          expandedIds={["item-1"]}
+          virtualized
+          overscan={3}
+        />
+      );
+
+      expect(() => getByRole("group")).toThrow();
+      const parent = getByText("Item 1").closest("li");
+      const child = getByText("Item 1-1").closest("li");
+      expect(parent).toHaveAttribute("aria-expanded", "true");
+      expect(parent).toHaveAttribute("aria-level", "1");
+      expect(parent).toHaveAttribute("aria-setsize", "100");
+      expect(child).toHaveAttribute("aria-level", "2");
+      expect(child).toHaveAttribute("aria-posinset", "1");
+      expect(child).toHaveAttribute("aria-setsize", "1");
+      expect(child?.previousElementSibling).toBe(parent);
+      expect(child).toHaveStyle({ height: "48px" });
+    });
+
+    it("should scroll items that have not been rendered into view with keyboard movement", () => {
+      const clientHeight = jest
+        .spyOn(HTMLElement.prototype, "clientHeight", "get")
+        .mockReturnValue(96);
+      const { getByRole, getByText } = render(
+        <Tree {...PROPS} data={data} virtualized overscan={0} />
+      );
+      const tree = getByRole("tree");
+      let scrollTop = 0;
+      Object.defineProperties(tree, {
+        scrollHeight: { value: 4800 },
+        offsetHeight: { value: 96 },
+        scrollTop: {
+          get: () => scrollTop,
+          set: (value: number) => {
+            scrollTop = value;
+          },
+        },
+      });
+
+      fireEvent.focus(tree);
+      fireEvent.keyDown(tree, { key: "End" });
+      expect(tree).toHaveAttribute("aria-activedescendant", "tree-item-100");
+      expect(scrollTop).toBe(4800 - 96);
+
+      fireEvent.scroll(tree);
+      expect(() => getByText("Item 100")).not.toThrow();
+      expect(document.getElementById("tree-item-100")).not.toBeNull();
+
+      clientHeight.mockRestore();
+    });
+  });
+
+  describe("lazy loading", () => {
+    const data = {
+      "item-1": { itemId: "item-1", parentId: null, name: "Item 1" },
+      "item-2": {
+        itemId: "item-2",
+        parentId: null,
+        name: "Item 2",
+        hasChildItems: true,
+      },
+    };
+
+    it("should render items with unloaded child items as expandable parents", () => {
+      const { getByRole } = render(<Tree {...PROPS} data={data} />);
+
+      const item2 = getByRole("treeitem", { name: "Item 2" });
+      expect(item2).toHaveAttribute("aria-expanded", "false");
+      expect(item2.querySelector('[role="group"]')).toBeNull();
+    });
+
+    it("should render a progress indicator while loading and retry errored items", () => {
+      const onItemExpansion = jest.fn();
+      const { getByRole, getByText, rerender } = render(
+        <Tree
+          {...PROPS}
+          data={data}
+          expandedIds={["item-2"]}
+          onItemExpansion={onItemExpansion}
+          loadingIds={["item-2"]}
+        />
+      );
+
+      const item2 = getByRole("treeitem", { name: "Item 2" });
+      expect(item2).toHaveAttribute("aria-busy", "true");
+      expect(() => getByRole("progressbar")).not.toThrow();
+
+      rerender(
+        <Tree
+          {...PROPS}
+          data={data}
+          expandedIds={["item-2"]}
+          onItemExpansion={onItemExpansion}
+          erroredIds={["item-2"]}
+        />
+      );
+      expect(() => getByRole("progressbar")).toThrow();
+
+      fireEvent.click(getByText("Item 2"));
+      expect(onItemExpansion).toBeCalledWith("item-2", true);
+
+      const tree = getByRole("tree");
+      fireEvent.focus(tree);
+      fireEvent.keyDown(tree, { key: "Enter" });
+      expect(onItemExpansion).toBeCalledTimes(2);
+      expect(onItemExpansion).toHaveBeenLastCalledWith("item-2", true);
+    });
+  });
+
+  describe("drag and drop", () => {
+    const data = {
+      "item-1": { itemId: "item-1", parentId: null, name: "Item 1" },
+      "item-2": { itemId: "item-2", parentId: null, name: "Item 2" },
+      "item-2-1": { itemId: "item-2-1", parentId: "item-2", name: "Item 2-1" },
+      "item-3": { itemId: "item-3", parentId: null, name: "Item 3" },
+    };
+    const getContent = (id: string): HTMLElement => {
+      const content = document.querySelector<HTMLElement>(
+        `#${id} > .rmd-tree-item__content`
+      );
+      if (!content) {
+        throw new Error();
+      }
+
+      return content;
+    };
+    // jsdom does not support the DragEvent so the clientY needs to be set
+    // manually
+    const dragOver = (element: HTMLElement, clientY: number): void => {
+      const event = createEvent.dragOver(element);
+      Object.defineProperty(event, "clientY", { value: clientY });
+      fireEvent(element, event);
+    };
+
+    it("should be able to move a tree item with the keyboard", () => {
+      const onItemMove = jest.fn();
+      const { getByRole } = render(
+        <Tree
+          {...PROPS}
+          data={data}
+          expandedIds={["item-2"]}
+          onItemMove={onItemMove}
+          aria-label="Tree"
+        />
+      );
+
+      const tree = getByRole("tree");
+      expect(tree).toHaveAttribute(
+        "aria-describedby",
+        "tree-move-instructions"
+      );
+      fireEvent.focus(tree);
+      expect(tree).toHaveAttribute("aria-activedescendant", "tree-item-1");
+
+      fireEvent.keyDown(tree, { key: "Enter", ctrlKey: true });
+      expect(getContent("tree-item-1")).toHaveClass(
+        "rmd-tree-item__content--dragging"
+      );
+      expect(getContent("tree-item-2")).toHaveClass(
+        "rmd-tree-item__content--drop-before"
+      );
+      expect(document.querySelector("[aria-live]")).toHaveTextContent(
+        "Item 1 grabbed."
+      );
+
+      fireEvent.keyDown(tree, { key: "ArrowDown" });
+      expect(getContent("tree-item-2")).toHaveClass(
+        "rmd-tree-item__content--drop-inside"
+      );
+      expect(document.querySelector("[aria-live]")).toHaveTextContent(
+        "Item 1 inside Item 2."
+      );
+      // focus does not move while grabbed
+      expect(tree).toHaveAttribute("aria-activedescendant", "tree-item-1");
+
+      fireEvent.keyDown(tree, { key: "Enter" });
+      expect(onItemMove).toBeCalledWith({
+        itemId: "item-1",
+        parentId: "item-2",
+        index: 1,
+      });
+      expect(getContent("tree-item-1")).not.toHaveClass(
+        "rmd-tree-item__content--dragging"
+      );
+
+      fireEvent.keyDown(tree, { key: "Enter", ctrlKey: true });
+      fireEvent.keyDown(tree, { key: "ArrowDown" });
+      fireEvent.keyDown(tree, { key: "Escape" });
+      expect(onItemMove).toBeCalledTimes(1);
+      expect(document.querySelector("[aria-live]")).toHaveTextContent(
+        "Item 1 was not moved."
+      );
+    });
+
+    it("should skip moves that are rejected by the canItemMove guard", () => {
+      const onItemMove = jest.fn();
+      const { getByRole } = render(
+        <Tree
+          {...PROPS}
+          data={data}
+          expandedIds={["item-2"]}
+          onItemMove={onItemMove}
+          canItemMove={({ position }) => position !== "inside"}
+          aria-label="Tree"
+        />
+      );
+
+      const tree = getByRole("tree");
+      fireEvent.focus(tree);
+      fireEvent.keyDown(tree, { key: "Enter", ctrlKey: true });
+      fireEvent.keyDown(tree, { key: "ArrowDown" });
+      expect(getContent("tree-item-2-1")).toHaveClass(
+        "rmd-tree-item__content--drop-before"
+      );
+
+      fireEvent.keyDown(tree, { key: " " });
+      expect(onItemMove).toBeCalledWith({
+        itemId: "item-1",
+        parentId: "item-2",
+        index: 0,
+      });
+    });
+
+    it("should be able to move a tree item with pointer drag events", () => {
+      const getBoundingClientRect = jest
+        .spyOn(HTMLElement.prototype, "getBoundingClientRect")
+        .mockReturnValue({ top: 0, height: 40 } as DOMRect);
+      const onItemMove = jest.fn();
+      const { getByText } = render(
+        <Tree
+          {...PROPS}
+          data={data}
+          expandedIds={["item-2"]}
+          onItemMove={onItemMove}
+          aria-label="Tree"
+        />
+      );
+
+      expect(getContent("tree-item-3")).toHaveAttribute("draggable", "true");
+      fireEvent.dragStart(getByText("Item 3"));
+      expect(getContent("tree-item-3")).toHaveClass(
+        "rmd-tree-item__content--dragging"
+      );
+
+      dragOver(getByText("Item 1"), 35);
+      expect(getContent("tree-item-1")).toHaveClass(
+        "rmd-tree-item__content--drop-after"
+      );
+
+      dragOver(getByText("Item 1"), 5);
+      expect(getContent("tree-item-1")).toHaveClass(
+        "rmd-tree-item__content--drop-before"
+      );
+
+      fireEvent.drop(getByText("Item 1"));
+      expect(onItemMove).toBeCalledWith({
+        itemId: "item-3",
+        parentId: null,
+        index: 0,
+      });
+
+      // can't move an item into itself
+      fireEvent.dragStart(getByText("Item 2"));
+      dragOver(getByText("Item 2-1"), 20);
+      expect(getContent("tree-item-2-1")).not.toHaveClass(
+        "rmd-tree-item__content--drop-inside"
+      );
+      fireEvent.dragEnd(getByText("Item 2"));
+      expect(getContent("tree-item-2")).not.toHaveClass(
+        "rmd-tree-item__content--dragging"
+      );
+
+      getBoundingClientRect.mockRestore();
+    });
+  });
+
+  it("should render checkboxes with the aria-checked state when the checkboxes prop is enabled", () => {
+    const data = {
+      "item-1": { itemId: "item-1", parentId: null, name: "Item 1" },
+      "item-1-1": { itemId: "item-1-1", parentId: "item-1", name: "Item 1-1" },
+      "item-1-2": { itemId: "item-1-2", parentId: "item-1", name: "Item 1-2" },
+      "item-2": { itemId: "item-2", parentId: null, name: "Item 2" },
+    };
+    const { getByRole } = render(
+      <Tree
+        {...PROPS}
+        data={data}
+        expandedIds={["item-1"]}
+        selectedIds={["item-1-1"]}
+        indeterminateIds={["item-1"]}
+        aria-label="Tree"
+        checkboxes
+      />
+    );
+
+    expect(getByRole("tree")).toHaveAttribute("aria-multiselectable", "true");
+    expect(document.getElementById("tree-item-1")).toHaveAttribute(
+      "aria-checked",
+      "mixed"
+    );
+    expect(document.getElementById("tree-item-1-1")).toHaveAttribute(
+      "aria-checked",
+      "true"
+    );
+    expect(document.getElementById("tree-item-1-2")).toHaveAttribute(
+      "aria-checked",
+      "false"
+    );
+    expect(
+      document.querySelectorAll(".rmd-tree-item__checkbox .rmd-toggle__icon")
+    ).toHaveLength(4);
+  });
 });
@@ -0,0 +1,58 @@
+import { moveTreeItem } from "../moveTreeItem";
+
+const data = {
+  "item-1": { itemId: "item-1", parentId: null, name: "Item 1" },
+  "item-2": { itemId: "item-2", parentId: null, name: "Item 2" },
+  "item-2-1": { itemId: "item-2-1", parentId: "item-2", name: "Item 2-1" },
+  "item-3": { itemId: "item-3", parentId: null, name: "Item 3" },
+};
+
+describe("moveTreeItem", () => {
+  it("should return the data if the item does not exist", () => {
+    expect(
+      moveTreeItem(data, { itemId: "item-4", parentId: null, index: 0 })
+    ).toBe(data);
+  });
+
+  it("should reorder an item within the same parent", () => {
+    const nextData = moveTreeItem(data, {
+      itemId: "item-3",
+      parentId: null,
+      index: 0,
+    });
+
+    expect(Object.keys(nextData)).toEqual([
+      "item-3",
+      "item-1",
+      "item-2",
+      "item-2-1",
+    ]);
+    expect(nextData["item-3"]).toEqual(data["item-3"]);
+  });
+
+  it("should update the parentId when moving an item to a new parent", () => {
+    const nextData = moveTreeItem(data, {
+      itemId: "item-1",
+      parentId: "item-2",
+      index: 1,
+    });
+
+    expect(Object.keys(nextData)).toEqual([
+      "item-2",
+      "item-2-1",
+      "item-1",
+      "item-3",
+    ]);
+    expect(nextData["item-1"]).toEqual({
+      ...data["item-1"],
+      parentId: "item-2",
+    });
+    expect(data["item-1"].parentId).toBe(null);
+
+    expect(
+      Object.keys(
+        moveTreeItem(data, { itemId: "item-3", parentId: "item-1", index: 0 })
+      )
+    ).toEqual(["item-1", "item-2", "item-2-1", "item-3"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { act, renderHook } from "@testing-library/react-hooks";
+
+import { useTreeItemCheckboxSelection } from "../useTreeItemCheckboxSelection";
+
+const data = {
+  "item-1": { itemId: "item-1", parentId: null },
+  "item-1-1": { itemId: "item-1-1", parentId: "item-1" },
+  "item-1-2": { itemId: "item-1-2", parentId: "item-1" },
+  "item-1-2-1": { itemId: "item-1-2-1", parentId: "item-1-2" },
+  "item-1-2-2": { itemId: "item-1-2-2", parentId: "item-1-2" },
+  "item-2": { itemId: "item-2", parentId: null },
+};
+
+describe("useTreeItemCheckboxSelection", () => {
+  it("should select all the leaf ids for parent ids provided as the default selected ids", () => {
+    const { result } = renderHook(() =>
+      useTreeItemCheckboxSelection(data, ["item-1-2"])
+    );
+
+    expect(result.current.multiSelect).toBe(true);
+    expect(result.current.leafIds).toEqual(["item-1-2-1", "item-1-2-2"]);
+    expect(result.current.ancestorIds).toEqual(["item-1-2"]);
+    expect(result.current.indeterminateIds).toEqual(["item-1"]);
+    expect(result.current.selectedIds).toEqual([
+      "item-1-2-1",
+      "item-1-2-2",
+      "item-1-2",
+    ]);
+  });
+
+  it("should cascade the selection to all the descendants when a parent is selected", () => {
+    const { result } = renderHook(() => useTreeItemCheckboxSelection(data));
+
+    act(() => {
+      result.current.onItemSelect("item-1");
+    });
+    expect(result.current.leafIds).toEqual([
+      "item-1-1",
+      "item-1-2-1",
+      "item-1-2-2",
+    ]);
+    expect(result.current.ancestorIds).toEqual(["item-1-2", "item-1"]);
+    expect(result.current.indeterminateIds).toEqual([]);
+
+    act(() => {
+      result.current.onItemSelect("item-1-2-1");
+    });
+    expect(result.current.ancestorIds).toEqual([]);
+    expect(result.current.indeterminateIds).toEqual(["item-1-2", "item-1"]);
+
+    // indeterminate parents will select all descendants
+    act(() => {
+      result.current.onItemSelect("item-1");
+    });
+    expect(result.current.ancestorIds).toEqual(["item-1-2", "item-1"]);
+
+    // checked parents will deselect all descendants
+    act(() => {
+      result.current.onItemSelect("item-1");
+    });
+    expect(result.current.selectedIds).toEqual([]);
+    expect(result.current.indeterminateIds).toEqual([]);
+  });
+
+  it("should convert the onMultiItemSelect ids into leaf ids", () => {
+    const { result } = renderHook(() => useTreeItemCheckboxSelection(data));
+
+    act(() => {
+      result.current.onMultiItemSelect(["item-1-2", "item-2"]);
+    });
+    expect(result.current.leafIds).toEqual([
+      "item-1-2-1",
+      "item-1-2-2",
+      "item-2",
+    ]);
+    expect(result.current.ancestorIds).toEqual(["item-1-2"]);
+  });
+});
@@ -96,4 +96,29 @@ describe("useTreeItemExpansion", () => {
     });
     expect(result.current.expandedIds).toEqual(ids2);
   });
+
+  it("should call the onItemExpand option each time an item is expanded", () => {
+    const onItemExpand = jest.fn();
+    const { result } = renderHook(() =>
+      useTreeItemExpansion([], { onItemExpand })
+    );
+    const { onItemExpansion, onMultiItemExpansion } = result.current;
+
+    act(() => {
+      onItemExpansion("id-1", true);
+    });
+    expect(onItemExpand).toBeCalledWith("id-1");
+
+    act(() => {
+      onItemExpansion("id-1", false);
+    });
+    expect(onItemExpand).toBeCalledTimes(1);
+
+    act(() => {
+      onMultiItemExpansion(["id-2", "id-3"]);
+    });
+    expect(onItemExpand).toBeCalledTimes(3);
+    expect(onItemExpand).toBeCalledWith("id-2");
+    expect(onItemExpand).toBeCalledWith("id-3");
+  });
 });
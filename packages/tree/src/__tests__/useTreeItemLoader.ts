@@ -0,0 +1,104 @@
+import { act, renderHook } from "@testing-library/react-hooks";
+
+import { TreeData, UnknownTreeItem } from "../types";
+import { useTreeItemLoader } from "../useTreeItemLoader";
+
+const data: TreeData<UnknownTreeItem> = {
+  "item-1": { itemId: "item-1", parentId: null, name: "Item 1" },
+  "item-2": {
+    itemId: "item-2",
+    parentId: null,
+    name: "Item 2",
+    hasChildItems: true,
+  },
+};
+
+const children: readonly UnknownTreeItem[] = [
+  { itemId: "item-2-1", parentId: "item-2", name: "Item 2-1" },
+  { itemId: "item-2-2", parentId: "item-2", name: "Item 2-2" },
+];
+
+describe("useTreeItemLoader", () => {
+  it("should only load items that have unloaded child items", async () => {
+    const loadChildItems = jest.fn(() => Promise.resolve(children));
+    const { result, waitForNextUpdate } = renderHook(() =>
+      useTreeItemLoader(data, loadChildItems)
+    );
+
+    act(() => {
+      result.current.onItemExpand("item-1");
+      result.current.onItemExpand("unknown");
+    });
+    expect(loadChildItems).not.toBeCalled();
+    expect(result.current.loadingIds).toEqual([]);
+
+    act(() => {
+      result.current.onItemExpand("item-2");
+      result.current.onItemExpand("item-2");
+    });
+    expect(loadChildItems).toBeCalledTimes(1);
+    expect(loadChildItems).toBeCalledWith(data["item-2"]);
+    expect(result.current.loadingIds).toEqual(["item-2"]);
+
+    await waitForNextUpdate();
+    expect(result.current.loadingIds).toEqual([]);
+    expect(result.current.data).toEqual({
+      ...data,
+      "item-2": { ...data["item-2"], hasChildItems: false },
+      "item-2-1": children[0],
+      "item-2-2": children[1],
+    });
+
+    act(() => {
+      result.current.onItemExpand("item-2");
+    });
+    expect(loadChildItems).toBeCalledTimes(1);
+  });
+
+  it("should add the item to the erroredIds when loading fails and clear it when retried", async () => {
+    const loadChildItems = jest
+      .fn()
+      .mockImplementationOnce(() => Promise.reject(new Error()))
+      .mockImplementationOnce(() => Promise.resolve(children));
+    const { result, waitForNextUpdate } = renderHook(() =>
+      useTreeItemLoader(data, loadChildItems)
+    );
+
+    act(() => {
+      result.current.onItemExpand("item-2");
+    });
+    await waitForNextUpdate();
+    expect(result.current.loadingIds).toEqual([]);
+    expect(result.current.erroredIds).toEqual(["item-2"]);
+    expect(result.current.data).toBe(data);
+
+    act(() => {
+      result.current.onItemExpand("item-2");
+    });
+    expect(result.current.loadingIds).toEqual(["item-2"]);
+    expect(result.current.erroredIds).toEqual([]);
+
+    await waitForNextUpdate();
+    expect(result.current.data["item-2-1"]).toEqual(children[0]);
+  });
+
+  it("should add the item to the erroredIds when the loader throws synchronously", async () => {
+    const loadChildItems = jest.fn(() => {
+      throw new Error();
+    });
+    const { result, waitForNextUpdate } = renderHook(() =>
+      useTreeItemLoader(data, loadChildItems)
+    );
+
+    expect(() => {
+      act(() => {
+        result.current.onItemExpand("item-2");
+      });
+    }).not.toThrow();
+    expect(result.current.loadingIds).toEqual(["item-2"]);
+
+    await waitForNextUpdate();
+    expect(result.current.loadingIds).toEqual([]);
+    expect(result.current.erroredIds).toEqual(["item-2"]);
+  });
+});
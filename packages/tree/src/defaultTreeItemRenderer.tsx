@@ -57,6 +57,7 @@ export function defaultTreeItemRenderer(
   const {
     expanderLeft,
     expanderIcon,
+    checkboxes,
     labelKey,
     getItemLabel,
     getItemProps,
@@ -136,6 +137,7 @@ export function defaultTreeItemRenderer(
       rightAddonType={rightAddonType}
       rightAddonPosition={rightAddonPosition}
       expanderLeft={expanderLeft}
+      checkbox={checkboxes}
       expanderIcon={expanderIcon}
       className={className}
       liClassName={liClassName}
@@ -3,6 +3,8 @@
  */
 export * from "./useTreeItemExpansion";
 export * from "./useTreeItemSelection";
+export * from "./useTreeItemCheckboxSelection";
+export * from "./useTreeItemLoader";
 export * from "./types";
 
 export * from "./Tree";
@@ -12,3 +14,4 @@ export * from "./TreeGroup";
 export * from "./defaultTreeItemRenderer";
 export * from "./getChildItems";
 export * from "./getItemsFrom";
+export * from "./moveTreeItem";
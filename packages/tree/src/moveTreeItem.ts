@@ -0,0 +1,55 @@
+import { BaseTreeItem, TreeData, TreeItemMove } from "./types";
+
+/**
+ * Creates a new tree data object with an item moved to a new parent and index.
+ * This can be used to implement the `onItemMove` callback for the `Tree`
+ * component when the tree does not provide a custom `sort` function since the
+ * order of the items is based on the insertion order of the tree data. If the
+ * tree is sorted, the `index` should be used to update whatever value is used
+ * for sorting instead.
+ *
+ * Note: Since the insertion order is used, the `itemId`s should not be integer
+ * like strings (`"1"`, `"2"`, etc) since objects always order those keys
+ * first.
+ *
+ * ```tsx
+ * const [data, setData] = useState(initialData);
+ *
+ * <Tree
+ *   {...props}
+ *   data={data}
+ *   onItemMove={(move) => setData((data) => moveTreeItem(data, move))}
+ * />
+ * ```
+ *
+ * @param data - The current tree data
+ * @param move - The move that was emitted by the `onItemMove` callback
+ * @returns a new tree data object with the moved item
+ * @remarks \@since 3.2.0
+ */
+export function moveTreeItem<T extends BaseTreeItem>(
+  data: TreeData<T>,
+  { itemId, parentId, index }: TreeItemMove
+): TreeData<T> {
+  const item = data[itemId];
+  if (!item) {
+    return data;
+  }
+
+  const items = Object.values(data).filter((item) => item.itemId !== itemId);
+  const siblings = items.filter((item) => item.parentId === parentId);
+  const movedItem: T = { ...item, parentId };
+
+  let insertIndex = items.length;
+  if (index < siblings.length) {
+    insertIndex = items.indexOf(siblings[Math.max(0, index)]);
+  } else if (siblings.length) {
+    insertIndex = items.indexOf(siblings[siblings.length - 1]) + 1;
+  }
+
+  items.splice(insertIndex, 0, movedItem);
+  return items.reduce<TreeData<T>>((nextData, item) => {
+    nextData[item.itemId] = item;
+    return nextData;
+  }, {});
+}
@@ -11,5 +11,8 @@ export default {
   "rmd-tree-item-keyboard-focused-styles": {
     "box-shadow": "inset 0 0 0 2px #2196f3",
   },
+  "rmd-tree-item-drop-indicator-size": "2px",
+  "rmd-tree-item-drop-indicator-color": "#2196f3",
+  "rmd-tree-item-dragging-opacity": 0.5,
   "rmd-tree-theme-values": { incrementor: "1.5rem", "base-padding": "4.5rem" },
 };
@@ -42,6 +42,17 @@ export interface BaseTreeItem extends TreeItemIds, ListItemChildrenProps {
    * be able to be rendered without any of the tree functionality.
    */
   isCustom?: boolean;
+
+  /**
+   * Boolean if the tree item has child items that have not been loaded into the
+   * tree's data yet. This will make the tree item render as an expandable
+   * parent item even though there are no items that reference it with the
+   * `parentId`. This is normally used along with the `useTreeItemLoader` hook
+   * to load the child items once the item has been expanded.
+   *
+   * @remarks \@since 3.2.0
+   */
+  hasChildItems?: boolean;
 }
 
 /**
@@ -150,6 +161,153 @@ export interface TreeItemExpansion {
   onMultiItemExpansion: (itemIds: ExpandedIds) => void;
 }
 
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemLoading {
+  /**
+   * The list of tree item ids that are currently loading their child items.
+   */
+  loadingIds?: readonly TreeItemId[];
+
+  /**
+   * The list of tree item ids that failed to load their child items. Clicking
+   * or pressing the enter key on one of these tree items will expand the item
+   * again instead of toggling the expansion so that the child items can be
+   * reloaded.
+   */
+  erroredIds?: readonly TreeItemId[];
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemMove {
+  /**
+   * The id of the tree item that was moved.
+   */
+  itemId: TreeItemId;
+
+  /**
+   * The id of the tree item's new parent or the `rootId` if it was moved to
+   * the root level.
+   */
+  parentId: TreeItemId | null;
+
+  /**
+   * The tree item's new index within the parent's child items. This index does
+   * not include the moved tree item itself.
+   */
+  index: number;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemMoveTarget extends TreeItemMove {
+  /**
+   * The id of the tree item that the moved tree item was dropped on.
+   */
+  targetId: TreeItemId;
+
+  /**
+   * Where the moved tree item was dropped relative to the target tree item.
+   */
+  position: TreeItemDropPosition;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemMoveMessageOptions {
+  /**
+   * - `"grab"` - the tree item was grabbed with the keyboard or started
+   *   dragging with a pointer
+   * - `"move"` - the drop target was changed with the keyboard
+   * - `"drop"` - the tree item was moved
+   * - `"cancel"` - the tree item was dropped without being moved
+   */
+  type: "grab" | "move" | "drop" | "cancel";
+
+  /**
+   * The searchable value for the moved tree item.
+   */
+  value: string;
+
+  /**
+   * The searchable value for the current drop target. This will only be
+   * provided for the `"move"` type.
+   */
+  targetValue?: string;
+
+  /**
+   * The current drop position. This will only be provided for the `"move"`
+   * type.
+   */
+  position?: TreeItemDropPosition;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemDragAndDrop {
+  /**
+   * An optional function to call when a tree item has been dropped in a new
+   * location with a pointer or the keyboard. Providing this function will
+   * enable drag and drop behavior for all tree items that are not `disabled`
+   * or `isCustom`. The `moveTreeItem` util can be used to update the tree data
+   * with the move.
+   *
+   * To move tree items with the keyboard, press `Control+Enter` to grab the
+   * focused tree item, the `ArrowUp` and `ArrowDown` keys to change the drop
+   * target, `Enter` or `Space` to drop, and `Escape` to cancel.
+   */
+  onItemMove?(move: TreeItemMove): void;
+
+  /**
+   * An optional function that can be used to reject a move before it becomes a
+   * drop target. Moving a tree item into itself or one of its descendants will
+   * always be rejected.
+   */
+  canItemMove?(move: TreeItemMoveTarget): boolean;
+
+  /**
+   * An optional function to get the message that will be announced to screen
+   * readers while moving tree items. This should be used to translate the
+   * default English messages.
+   */
+  getItemMoveMessage?(options: TreeItemMoveMessageOptions): string;
+
+  /**
+   * Screen reader only instructions that describe how to move tree items with
+   * the keyboard.
+   *
+   * @defaultValue `"Press Control+Enter to move the current tree item."`
+   */
+  itemMoveInstructions?: ReactNode;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemCheckboxes {
+  /**
+   * Boolean if each tree item should render a checkbox that reflects the
+   * selection state. This is normally used along with the
+   * `useTreeItemCheckboxSelection` hook.
+   *
+   * Note: The checkbox will be rendered as the `leftAddon`, so the expander
+   * icon will always be rendered to the right while this is enabled.
+   */
+  checkboxes?: boolean;
+
+  /**
+   * The list of tree item ids that should render an indeterminate checkbox
+   * since only some of their descendants have been selected.
+   */
+  indeterminateIds?: readonly TreeItemId[];
+}
+
 export interface TreeItemSelection {
   /**
    * Boolean if multiple items within the tree can be selected at once.
@@ -208,9 +366,81 @@ export interface TreeItemStates {
   focused: boolean;
 }
 
+/**
+ * The placement of a dragged tree item relative to the tree item it is
+ * dropped on.
+ *
+ * - `"before"` - the item will become the previous sibling of the tree item
+ * - `"after"` - the item will become the next sibling of the tree item
+ * - `"inside"` - the item will become the last child of the tree item
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TreeItemDropPosition = "before" | "after" | "inside";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemDragStates {
+  /**
+   * Boolean if the tree item is currently being dragged with a pointer or
+   * grabbed with the keyboard.
+   */
+  dragging?: boolean;
+
+  /**
+   * The drop position to show an indicator for when the tree item is the
+   * current drop target.
+   */
+  dropPosition?: TreeItemDropPosition | null;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemCheckboxStates {
+  /**
+   * Boolean if the tree item should render a checkbox as the `leftAddon` and
+   * use the `selected` state as the checked state. The `aria-checked`
+   * attribute will also be applied to the tree item.
+   */
+  checkbox?: boolean;
+
+  /**
+   * Boolean if the checkbox should be rendered in the indeterminate state
+   * because only some of the descendants have been selected.
+   */
+  indeterminate?: boolean;
+
+  /**
+   * An optional icon to use for the checkbox.
+   */
+  checkboxIcon?: ReactNode;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemLoadingStates {
+  /**
+   * Boolean if the tree item's child items are currently being loaded. This
+   * will replace the expander icon with a small `CircularProgress`.
+   */
+  loading?: boolean;
+
+  /**
+   * Boolean if the tree item's child items could not be loaded. This will
+   * replace the expander icon with the error icon.
+   */
+  error?: boolean;
+}
+
 export interface TreeItemProps
   extends HTMLAttributes<HTMLLIElement>,
     TreeItemStates,
+    TreeItemLoadingStates,
+    TreeItemDragStates,
+    TreeItemCheckboxStates,
     TreeItemExpansionIcon,
     ListItemChildrenProps,
     Pick<SimpleListItemProps, "threeLines" | "height"> {
@@ -245,6 +475,10 @@ export interface TreeItemProps
    * This function will only be provided when the tree item has child tree
    * items. This function should only be called within the exported `TreeGroup`
    * component or in a component that has the `role="group"` for accessibility.
+   *
+   * Note: This will return `null` while the tree is `virtualized` since the
+   * child items are rendered as siblings instead of within a group or when the
+   * tree item `hasChildItems` that have not been loaded yet.
    */
   renderChildItems?: () => ReactNode;
 
@@ -325,6 +559,11 @@ export type ConfigurableTreeItemProps = Omit<
   | "selected"
   | "expanded"
   | "focused"
+  | "loading"
+  | "error"
+  | "dragging"
+  | "dropPosition"
+  | "indeterminate"
   | "renderChildItems"
 > & { children?: ReactNode };
 
@@ -336,10 +575,28 @@ type TreeItemKeys =
   | "selected"
   | "expanded"
   | "focused"
+  | "loading"
+  | "error"
+  | "dragging"
+  | "dropPosition"
+  | "indeterminate"
   | "renderChildItems";
 
+/**
+ * The drag and drop handlers that allow a tree item to be moved with a pointer.
+ * These will only be provided when the `onItemMove` prop was provided to the
+ * tree.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TreeItemDragHandlers = Pick<
+  HTMLAttributes<HTMLLIElement>,
+  "onDragStart" | "onDragOver" | "onDragLeave" | "onDrop" | "onDragEnd"
+>;
+
 export interface ProvidedTreeItemProps
-  extends Pick<TreeItemProps, TreeItemKeys> {
+  extends Pick<TreeItemProps, TreeItemKeys>,
+    TreeItemDragHandlers {
   /**
    * React `key`s aren't really "props", but it will be provided to each
    * `TreeItem` automatically.
@@ -358,12 +615,76 @@ export interface ProvidedTreeItemProps
    * will be omitted when the `isCustom` key is enabled on the item.
    */
   onClick?: React.MouseEventHandler<HTMLLIElement>;
+
+  /**
+   * A style that sets the height of the tree item to the `itemHeight`. This
+   * will only be provided while the tree is `virtualized`.
+   *
+   * @remarks \@since 3.2.0
+   */
+  liStyle?: CSSProperties;
+
+  /**
+   * Boolean if the tree item can be dragged with a pointer. This will only be
+   * provided when the `onItemMove` prop was provided to the tree.
+   *
+   * @remarks \@since 3.2.0
+   */
+  draggable?: boolean;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeVirtualizationOptions {
+  /**
+   * Boolean if the tree should only render the tree items that are within the
+   * tree's scroll area instead of every visible tree item. This is useful for
+   * extremely large trees since rendering thousands of items at once will slow
+   * down the page.
+   *
+   * When this is enabled:
+   *
+   * - the tree must have a fixed height so that it becomes the scroll container
+   * - all tree items must have the same height as the `itemHeight`
+   * - the tree items will be rendered as a flat list instead of nested groups
+   *   and rely on the `aria-level`, `aria-setsize`, and `aria-posinset`
+   *   attributes to describe the hierarchy
+   * - items with `isCustom` enabled will not be rendered
+   *
+   * The keyboard movement will continue to work for tree items that are not
+   * currently rendered since the tree will be scrolled so that the newly
+   * focused item becomes visible.
+   */
+  virtualized?: boolean;
+
+  /**
+   * The height in pixels for each tree item while the tree is `virtualized`.
+   * This is used to determine which items are within the scroll area and
+   * defaults to the height of a single line list item.
+   *
+   * @defaultValue `48`
+   */
+  itemHeight?: number;
+
+  /**
+   * The number of additional tree items to render before and after the items
+   * within the scroll area while the tree is `virtualized`. This helps prevent
+   * empty space from appearing while scrolling quickly.
+   *
+   * @defaultValue `5`
+   */
+  overscan?: number;
 }
 
 export interface TreeProps<T extends BaseTreeItem = UnknownTreeItem>
   extends ListProps,
+    TreeVirtualizationOptions,
     TreeItemExpansionIcon,
     TreeItemExpansion,
+    TreeItemLoading,
+    TreeItemDragAndDrop,
+    TreeItemCheckboxes,
     TreeItemSelection {
   /**
    * The id for the tree element. This is required for a lot of accessibility features.
@@ -472,5 +793,6 @@ export type ProvidedTreeProps = Pick<TreeProps, "linkComponent" | "id"> &
       | "getItemProps"
       | "expanderLeft"
       | "expanderIcon"
+      | "checkboxes"
     >
   >;
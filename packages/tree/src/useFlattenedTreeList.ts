@@ -18,6 +18,28 @@ export interface SearchableTreeItem {
   isParent: boolean;
   itemId: TreeItemId;
   parentId: TreeItemId | null;
+
+  /**
+   * The depth of the tree item starting from `0` for root items. This is used
+   * to render the tree items as a flat list while virtualized.
+   *
+   * @remarks \@since 3.2.0
+   */
+  depth: number;
+
+  /**
+   * The tree item's index within its parent's child items.
+   *
+   * @remarks \@since 3.2.0
+   */
+  itemIndex: number;
+
+  /**
+   * The number of items within the tree item's parent.
+   *
+   * @remarks \@since 3.2.0
+   */
+  listSize: number;
 }
 
 type TreeConfig = Required<
@@ -28,6 +50,7 @@ interface FlattenOptions extends TreeConfig {
   list: SearchableTreeItem[];
   item: NestedTreeItem<UnknownTreeItem>;
   index: number;
+  listSize: number;
   baseId: string;
   parentIndexes: number[];
 }
@@ -36,6 +59,7 @@ function flatten({
   list,
   item,
   index,
+  listSize,
   baseId,
   parentIndexes,
   valueKey,
@@ -52,8 +76,11 @@ function flatten({
     id,
     itemId,
     parentId,
-    isParent: !!childItems,
+    isParent: !!childItems || !!item.hasChildItems,
     value,
+    depth: parentIndexes.length,
+    itemIndex: index,
+    listSize,
   });
 
   if (!childItems) {
@@ -66,6 +93,7 @@ function flatten({
       list,
       item: child,
       index: childIndex,
+      listSize: childItems.length,
       valueKey,
       getItemValue,
       baseId,
@@ -127,6 +155,7 @@ export function useFlattenedTreeList({
             list,
             item,
             index,
+            listSize: items.length,
             valueKey,
             getItemValue,
             baseId: id,
@@ -0,0 +1,204 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  getIndeterminateState,
+  getNextIndeterminateValues,
+} from "@react-md/form";
+
+import {
+  BaseTreeItem,
+  SelectedIds,
+  TreeData,
+  TreeItemId,
+  TreeItemSelection,
+} from "./types";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemCheckboxSelection extends Required<TreeItemSelection> {
+  /**
+   * The list of tree item ids that should be rendered as checked. This is the
+   * {@link leafIds} and {@link ancestorIds} merged together.
+   */
+  selectedIds: SelectedIds;
+
+  /**
+   * The list of tree item ids that have some, but not all, of their descendants
+   * selected. This should be passed to the `Tree` component.
+   */
+  indeterminateIds: SelectedIds;
+
+  /**
+   * The list of selected tree item ids that do not have any child items.
+   */
+  leafIds: SelectedIds;
+
+  /**
+   * The list of tree item ids that have every descendant selected.
+   */
+  ancestorIds: SelectedIds;
+}
+
+/**
+ * This hook implements a tri-state checkbox selection for a tree. Selecting a
+ * tree item will also select all of its descendants, and the parent tree items
+ * will become checked once every descendant has been selected or
+ * indeterminate when only some of the descendants have been selected.
+ *
+ * This uses the same logic as the `useIndeterminateChecked` hook from
+ * `@react-md/form` for each parent tree item: selecting an unchecked or
+ * indeterminate parent will select every descendant while selecting a checked
+ * parent will deselect every descendant.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const selection = useTreeItemCheckboxSelection(data);
+ * const expansion = useTreeItemExpansion([]);
+ *
+ * return (
+ *   <Tree
+ *     {...selection}
+ *     {...expansion}
+ *     id="checkbox-tree"
+ *     data={data}
+ *     aria-label="Permissions"
+ *     checkboxes
+ *   />
+ * );
+ * ```
+ *
+ * @param data - The tree data used to find the descendants for each tree item
+ * @param defaultSelectedIds - The tree item ids that should be selected by
+ * default. Parent tree item ids will select all of their descendants.
+ * @returns an object containing props that can be passed to the `Tree`
+ * component to handle the checkbox selection state along with the selected
+ * leaf and ancestor ids.
+ * @remarks \@since 3.2.0
+ */
+export function useTreeItemCheckboxSelection<T extends BaseTreeItem>(
+  data: TreeData<T>,
+  defaultSelectedIds: SelectedIds | (() => SelectedIds) = []
+): TreeItemCheckboxSelection {
+  const childIds = useMemo(() => {
+    const childIds = new Map<TreeItemId | null, TreeItemId[]>();
+    Object.values(data).forEach(({ itemId, parentId }) => {
+      const siblings = childIds.get(parentId);
+      if (siblings) {
+        siblings.push(itemId);
+      } else {
+        childIds.set(parentId, [itemId]);
+      }
+    });
+
+    return childIds;
+  }, [data]);
+
+  const getLeafIds = useCallback(
+    (itemIds: SelectedIds): TreeItemId[] => {
+      const leafIds: TreeItemId[] = [];
+      const addLeafIds = (itemId: TreeItemId): void => {
+        const children = childIds.get(itemId);
+        if (!children) {
+          leafIds.push(itemId);
+          return;
+        }
+
+        children.forEach(addLeafIds);
+      };
+      itemIds.forEach(addLeafIds);
+
+      return Array.from(new Set(leafIds));
+    },
+    [childIds]
+  );
+
+  const [leafIds, setLeafIds] = useState<SelectedIds>(() =>
+    getLeafIds(
+      typeof defaultSelectedIds === "function"
+        ? defaultSelectedIds()
+        : defaultSelectedIds
+    )
+  );
+
+  const { ancestorIds, indeterminateIds } = useMemo(() => {
+    const selected = new Set(leafIds);
+    const ancestorIds: TreeItemId[] = [];
+    const indeterminateIds: TreeItemId[] = [];
+    const getLeafState = (
+      itemId: TreeItemId
+    ): { leafIds: TreeItemId[]; checkedLeafIds: TreeItemId[] } => {
+      const children = childIds.get(itemId);
+      if (!children) {
+        return {
+          leafIds: [itemId],
+          checkedLeafIds: selected.has(itemId) ? [itemId] : [],
+        };
+      }
+
+      const leafIds: TreeItemId[] = [];
+      const checkedLeafIds: TreeItemId[] = [];
+      children.forEach((childId) => {
+        const state = getLeafState(childId);
+        leafIds.push(...state.leafIds);
+        checkedLeafIds.push(...state.checkedLeafIds);
+      });
+
+      const { checked, indeterminate } = getIndeterminateState(
+        checkedLeafIds,
+        leafIds
+      );
+      if (indeterminate) {
+        indeterminateIds.push(itemId);
+      } else if (checked) {
+        ancestorIds.push(itemId);
+      }
+
+      return { leafIds, checkedLeafIds };
+    };
+    Object.keys(data).forEach((itemId) => {
+      const item = data[itemId];
+      if (!item.parentId || !data[item.parentId]) {
+        getLeafState(itemId);
+      }
+    });
+
+    return { ancestorIds, indeterminateIds };
+  }, [childIds, data, leafIds]);
+
+  const selectedIds = useMemo(
+    () => [...leafIds, ...ancestorIds],
+    [ancestorIds, leafIds]
+  );
+
+  const onItemSelect = useCallback(
+    (itemId: TreeItemId) => {
+      const itemLeafIds = getLeafIds([itemId]);
+      setLeafIds((leafIds) => [
+        ...leafIds.filter((leafId) => !itemLeafIds.includes(leafId)),
+        ...getNextIndeterminateValues(
+          itemLeafIds.filter((leafId) => leafIds.includes(leafId)),
+          itemLeafIds
+        ),
+      ]);
+    },
+    [getLeafIds]
+  );
+
+  const onMultiItemSelect = useCallback(
+    (itemIds: SelectedIds) => {
+      setLeafIds(getLeafIds(itemIds));
+    },
+    [getLeafIds]
+  );
+
+  return {
+    multiSelect: true,
+    selectedIds,
+    indeterminateIds,
+    leafIds,
+    ancestorIds,
+    onItemSelect,
+    onMultiItemSelect,
+  };
+}
@@ -0,0 +1,465 @@
+import { useCallback, useMemo, useState } from "react";
+
+import {
+  TreeItemDragAndDrop,
+  TreeItemDragHandlers,
+  TreeItemDropPosition,
+  TreeItemId,
+  TreeItemMoveMessageOptions,
+  TreeItemMoveTarget,
+} from "./types";
+import { SearchableTreeItem } from "./useFlattenedTreeList";
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface TreeItemDropTarget {
+  itemId: TreeItemId;
+  position: TreeItemDropPosition;
+}
+
+/**
+ * The default English messages that are announced while moving tree items.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export const defaultGetItemMoveMessage = ({
+  type,
+  value,
+  targetValue,
+  position,
+}: TreeItemMoveMessageOptions): string => {
+  switch (type) {
+    case "grab":
+      return `${value} grabbed. Use the arrow keys to move, Enter to drop, or Escape to cancel.`;
+    case "move":
+      return `${value} ${position} ${targetValue}.`;
+    case "drop":
+      return `${value} moved.`;
+    default:
+      return `${value} was not moved.`;
+  }
+};
+
+/**
+ * Creates the move that would happen if the dragged tree item was dropped on
+ * the target. `null` will be returned if the target is the dragged tree item
+ * or one of its descendants.
+ *
+ * @param itemId - The dragged tree item id
+ * @param target - The current drop target
+ * @param items - A flattened list of every tree item in the rendered order
+ * @returns the move or `null`
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function getTreeItemMove(
+  itemId: TreeItemId,
+  { itemId: targetId, position }: TreeItemDropTarget,
+  items: readonly SearchableTreeItem[]
+): TreeItemMoveTarget | null {
+  const parentIds = new Map<TreeItemId, TreeItemId | null>();
+  items.forEach((item) => parentIds.set(item.itemId, item.parentId));
+
+  let currentId: TreeItemId | null | undefined = targetId;
+  while (currentId !== null && typeof currentId !== "undefined") {
+    if (currentId === itemId) {
+      return null;
+    }
+
+    currentId = parentIds.get(currentId);
+  }
+
+  if (!parentIds.has(targetId)) {
+    return null;
+  }
+
+  const parentId =
+    position === "inside" ? targetId : parentIds.get(targetId) ?? null;
+  const siblings = items.filter(
+    (item) => item.parentId === parentId && item.itemId !== itemId
+  );
+
+  let index = siblings.length;
+  if (position !== "inside") {
+    index =
+      siblings.findIndex((item) => item.itemId === targetId) +
+      (position === "after" ? 1 : 0);
+  }
+
+  return { itemId, parentId, index, targetId, position };
+}
+
+/**
+ * Gets the drop position based on where the pointer is within the tree item.
+ * The top and bottom quarters of the tree item will place the dragged tree
+ * item before or after while the middle will place it inside.
+ *
+ * @internal
+ */
+const getDropPosition = (
+  event: React.DragEvent<HTMLElement>
+): TreeItemDropPosition => {
+  const { top, height } = event.currentTarget.getBoundingClientRect();
+  const offset = event.clientY - top;
+  if (offset < height / 4) {
+    return "before";
+  }
+
+  if (offset > (height * 3) / 4) {
+    return "after";
+  }
+
+  return "inside";
+};
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface TreeItemDragAndDropOptions
+  extends Omit<TreeItemDragAndDrop, "itemMoveInstructions"> {
+  /**
+   * A flattened list of every tree item in the rendered order.
+   */
+  flattenedItems: readonly SearchableTreeItem[];
+
+  /**
+   * A flattened list of the tree items that are currently visible.
+   */
+  visibleItems: readonly SearchableTreeItem[];
+
+  /**
+   * The current keyboard focused tree item id.
+   */
+  focusedItemId: TreeItemId | null;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface TreeItemDragAndDropReturnValue {
+  /**
+   * The tree item id that is currently being dragged or grabbed.
+   */
+  draggedId: TreeItemId | null;
+
+  /**
+   * The current drop target.
+   */
+  dropTarget: TreeItemDropTarget | null;
+
+  /**
+   * The latest message that should be announced in a live region.
+   */
+  message: string;
+
+  /**
+   * Gets the drag and drop handlers for a tree item. This will return
+   * `undefined` when drag and drop has not been enabled.
+   */
+  getDragHandlers(itemId: TreeItemId): TreeItemDragHandlers | undefined;
+
+  /**
+   * Handles the keyboard grab and drop behavior and returns `true` if the
+   * keyboard event was handled so that the default keyboard movement should
+   * be skipped.
+   */
+  handleKeyDown(event: React.KeyboardEvent<HTMLElement>): boolean;
+}
+
+/**
+ * This hook implements moving tree items with pointer drag and drop events and
+ * the keyboard. While a tree item is grabbed with the keyboard, the arrow keys
+ * will move through every possible drop target instead of moving focus.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function useTreeItemDragAndDrop({
+  onItemMove,
+  canItemMove,
+  getItemMoveMessage = defaultGetItemMoveMessage,
+  flattenedItems,
+  visibleItems,
+  focusedItemId,
+}: TreeItemDragAndDropOptions): TreeItemDragAndDropReturnValue {
+  const [draggedId, setDraggedId] = useState<TreeItemId | null>(null);
+  const [dropTarget, setDropTarget] = useState<TreeItemDropTarget | null>(null);
+  const [keyboard, setKeyboard] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const getValue = useCallback(
+    (itemId: TreeItemId) =>
+      flattenedItems.find((item) => item.itemId === itemId)?.value ?? "",
+    [flattenedItems]
+  );
+
+  const getMove = useCallback(
+    (itemId: TreeItemId, target: TreeItemDropTarget) => {
+      const move = getTreeItemMove(itemId, target, flattenedItems);
+      if (!move || (canItemMove && !canItemMove(move))) {
+        return null;
+      }
+
+      return move;
+    },
+    [canItemMove, flattenedItems]
+  );
+
+  // every possible keyboard drop target in the visible order. Placing an item
+  // after another item is only required for the last item since every other
+  // "after" position is the same as "before" the next item or "inside" the
+  // parent.
+  const keyboardTargets = useMemo(() => {
+    if (!draggedId || !keyboard) {
+      return [];
+    }
+
+    const targets: TreeItemDropTarget[] = [];
+    visibleItems.forEach(({ itemId }) => {
+      targets.push({ itemId, position: "before" });
+      targets.push({ itemId, position: "inside" });
+    });
+
+    const lastItem = visibleItems[visibleItems.length - 1];
+    if (lastItem) {
+      targets.push({ itemId: lastItem.itemId, position: "after" });
+    }
+
+    return targets.filter((target) => !!getMove(draggedId, target));
+  }, [draggedId, getMove, keyboard, visibleItems]);
+
+  const reset = useCallback(() => {
+    setDraggedId(null);
+    setDropTarget(null);
+    setKeyboard(false);
+  }, []);
+
+  const drop = useCallback(() => {
+    if (!draggedId) {
+      return;
+    }
+
+    const move = dropTarget && getMove(draggedId, dropTarget);
+    const prevItem = flattenedItems.find((item) => item.itemId === draggedId);
+    const siblings = flattenedItems.filter(
+      (item) => item.parentId === prevItem?.parentId
+    );
+    const prevIndex = siblings.findIndex((item) => item.itemId === draggedId);
+    const value = getValue(draggedId);
+    reset();
+    if (
+      !move ||
+      (move.parentId === prevItem?.parentId && move.index === prevIndex)
+    ) {
+      setMessage(getItemMoveMessage({ type: "cancel", value }));
+      return;
+    }
+
+    const { itemId, parentId, index } = move;
+    setMessage(getItemMoveMessage({ type: "drop", value }));
+    onItemMove?.({ itemId, parentId, index });
+  }, [
+    draggedId,
+    dropTarget,
+    flattenedItems,
+    getItemMoveMessage,
+    getMove,
+    getValue,
+    onItemMove,
+    reset,
+  ]);
+
+  const getDragHandlers = useCallback(
+    (itemId: TreeItemId): TreeItemDragHandlers | undefined => {
+      if (!onItemMove) {
+        return undefined;
+      }
+
+      return {
+        onDragStart(event) {
+          event.stopPropagation();
+          if (event.dataTransfer) {
+            event.dataTransfer.effectAllowed = "move";
+            event.dataTransfer.setData("text/plain", itemId);
+          }
+
+          setDraggedId(itemId);
+          setDropTarget(null);
+          setKeyboard(false);
+          setMessage(
+            getItemMoveMessage({ type: "grab", value: getValue(itemId) })
+          );
+        },
+        onDragOver(event) {
+          if (!draggedId || keyboard) {
+            return;
+          }
+
+          const target = { itemId, position: getDropPosition(event) };
+          if (!getMove(draggedId, target)) {
+            setDropTarget(null);
+            return;
+          }
+
+          event.preventDefault();
+          if (event.dataTransfer) {
+            event.dataTransfer.dropEffect = "move";
+          }
+
+          if (
+            dropTarget?.itemId !== target.itemId ||
+            dropTarget.position !== target.position
+          ) {
+            setDropTarget(target);
+          }
+        },
+        onDragLeave(event) {
+          const related = event.relatedTarget as Node | null;
+          if (
+            dropTarget?.itemId === itemId &&
+            (!related || !event.currentTarget.contains(related))
+          ) {
+            setDropTarget(null);
+          }
+        },
+        onDrop(event) {
+          event.preventDefault();
+          drop();
+        },
+        onDragEnd() {
+          if (draggedId) {
+            reset();
+          }
+        },
+      };
+    },
+    [
+      draggedId,
+      drop,
+      dropTarget,
+      getItemMoveMessage,
+      getMove,
+      getValue,
+      keyboard,
+      onItemMove,
+      reset,
+    ]
+  );
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLElement>): boolean => {
+      if (!onItemMove) {
+        return false;
+      }
+
+      if (!draggedId || !keyboard) {
+        if (
+          !focusedItemId ||
+          event.key !== "Enter" ||
+          !event.ctrlKey ||
+          event.shiftKey
+        ) {
+          return false;
+        }
+
+        event.preventDefault();
+        setDraggedId(focusedItemId);
+        setKeyboard(true);
+        setMessage(
+          getItemMoveMessage({ type: "grab", value: getValue(focusedItemId) })
+        );
+
+        // start at the current location of the tree item
+        const index = visibleItems.findIndex(
+          (item) => item.itemId === focusedItemId
+        );
+        const nextItem = visibleItems.slice(index + 1).find(
+          (item) =>
+            !!getMove(focusedItemId, {
+              itemId: item.itemId,
+              position: "before",
+            })
+        );
+        setDropTarget(
+          nextItem ? { itemId: nextItem.itemId, position: "before" } : null
+        );
+        return true;
+      }
+
+      switch (event.key) {
+        case "ArrowUp":
+        case "ArrowDown": {
+          event.preventDefault();
+          if (!keyboardTargets.length) {
+            return true;
+          }
+
+          const increment = event.key === "ArrowUp" ? -1 : 1;
+          const currentIndex = dropTarget
+            ? keyboardTargets.findIndex(
+                (target) =>
+                  target.itemId === dropTarget.itemId &&
+                  target.position === dropTarget.position
+              )
+            : keyboardTargets.length;
+          const nextIndex = Math.min(
+            keyboardTargets.length - 1,
+            Math.max(0, currentIndex + increment)
+          );
+          const target = keyboardTargets[nextIndex];
+          setDropTarget(target);
+          setMessage(
+            getItemMoveMessage({
+              type: "move",
+              value: getValue(draggedId),
+              targetValue: getValue(target.itemId),
+              position: target.position,
+            })
+          );
+          return true;
+        }
+        case "Enter":
+        case " ":
+          event.preventDefault();
+          drop();
+          return true;
+        case "Escape":
+        case "Tab":
+          setMessage(
+            getItemMoveMessage({ type: "cancel", value: getValue(draggedId) })
+          );
+          reset();
+          return event.key === "Escape";
+        default:
+          return true;
+      }
+    },
+    [
+      draggedId,
+      drop,
+      dropTarget,
+      focusedItemId,
+      getItemMoveMessage,
+      getMove,
+      getValue,
+      keyboard,
+      keyboardTargets,
+      onItemMove,
+      reset,
+      visibleItems,
+    ]
+  );
+
+  return {
+    draggedId,
+    dropTarget,
+    message,
+    getDragHandlers,
+    handleKeyDown,
+  };
+}
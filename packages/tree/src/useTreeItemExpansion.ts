@@ -1,7 +1,23 @@
 import { useCallback, useState } from "react";
+import { useRefCache } from "@react-md/utils";
 
 import { ExpandedIds, TreeItemExpansion, TreeItemId } from "./types";
 
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemExpansionOptions {
+  /**
+   * An optional function to call each time a tree item is expanded. This is
+   * useful for lazy loading the child items of a tree item and can be the
+   * `onItemExpand` function returned by the `useTreeItemLoader` hook.
+   *
+   * Note: This will also be called if an already expanded item is expanded
+   * again so that errored items can be retried.
+   */
+  onItemExpand?(itemId: TreeItemId): void;
+}
+
 /**
  * A hook that implements the base functionality for expanding different tree
  * items.
@@ -9,15 +25,22 @@ import { ExpandedIds, TreeItemExpansion, TreeItemId } from "./types";
  * @param defaultExpandedIds - Either a list of tree item ids to be expanded by
  * default or a function that will return the list of tree item ids to be
  * expanded by default
+ * @param options - An optional object of additional expansion options
  * @returns An object containing props that can be passed to the `Tree`
  * component to handle the expansion state within the tree.
  */
 export function useTreeItemExpansion(
-  defaultExpandedIds: ExpandedIds | (() => ExpandedIds)
+  defaultExpandedIds: ExpandedIds | (() => ExpandedIds),
+  { onItemExpand }: TreeItemExpansionOptions = {}
 ): TreeItemExpansion {
   const [expandedIds, setExpandedIds] = useState(defaultExpandedIds);
+  const onItemExpandRef = useRefCache(onItemExpand);
   const onItemExpansion = useCallback(
     (itemId: TreeItemId, expanded: boolean) => {
+      if (expanded) {
+        onItemExpandRef.current?.(itemId);
+      }
+
       setExpandedIds((expandedIds) => {
         const i = expandedIds.indexOf(itemId);
         if (i === -1 && expanded) {
@@ -33,12 +56,20 @@ export function useTreeItemExpansion(
         return expandedIds;
       });
     },
-    []
+    [onItemExpandRef]
   );
 
-  const onMultiItemExpansion = useCallback((itemIds: ExpandedIds) => {
-    setExpandedIds(itemIds);
-  }, []);
+  const onMultiItemExpansion = useCallback(
+    (itemIds: ExpandedIds) => {
+      const onItemExpand = onItemExpandRef.current;
+      if (onItemExpand) {
+        itemIds.forEach((itemId) => onItemExpand(itemId));
+      }
+
+      setExpandedIds(itemIds);
+    },
+    [onItemExpandRef]
+  );
 
   return {
     expandedIds,
@@ -0,0 +1,179 @@
+import { Dispatch, SetStateAction, useCallback, useRef, useState } from "react";
+import { useOnUnmount, useRefCache } from "@react-md/utils";
+
+import { BaseTreeItem, TreeData, TreeItemId } from "./types";
+
+/**
+ * A function that should load the child items for the provided tree item. The
+ * returned items should have the `parentId` set to the tree item's `itemId`.
+ *
+ * @remarks \@since 3.2.0
+ */
+export type TreeItemChildLoader<T extends BaseTreeItem> = (
+  item: T
+) => Promise<readonly T[]>;
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface TreeItemLoaderReturnValue<T extends BaseTreeItem> {
+  /**
+   * The current tree data that includes all the child items that have been
+   * loaded. This should be passed to the `Tree` component.
+   */
+  data: TreeData<T>;
+
+  /**
+   * A function that can be used to manually update the tree data.
+   */
+  setData: Dispatch<SetStateAction<TreeData<T>>>;
+
+  /**
+   * The list of tree item ids that are currently loading their child items.
+   * This should be passed to the `Tree` component.
+   */
+  loadingIds: readonly TreeItemId[];
+
+  /**
+   * The list of tree item ids that failed to load their child items. This
+   * should be passed to the `Tree` component.
+   */
+  erroredIds: readonly TreeItemId[];
+
+  /**
+   * A function that will start loading the child items for a tree item if it
+   * `hasChildItems` that have not been loaded yet. This should normally be
+   * provided as the `onItemExpand` option for the `useTreeItemExpansion` hook.
+   */
+  onItemExpand(itemId: TreeItemId): void;
+}
+
+/**
+ * This hook can be used to lazy load the child items for tree items that have
+ * the `hasChildItems` flag enabled. Once the child items have been loaded,
+ * they will be merged into the tree data and the `hasChildItems` flag will be
+ * disabled for the tree item so it will not be loaded again.
+ *
+ * If the child items fail to load, the tree item will be added to the
+ * `erroredIds` list and loading will be retried the next time it is expanded.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const { data, loadingIds, erroredIds, onItemExpand } = useTreeItemLoader(
+ *   {
+ *     "folder-1": { itemId: "folder-1", parentId: null, name: "Folder 1", hasChildItems: true },
+ *   },
+ *   async (item) => {
+ *     const response = await fetch(`/api/folders/${item.itemId}`);
+ *     return response.json();
+ *   }
+ * );
+ * const expansion = useTreeItemExpansion([], { onItemExpand });
+ *
+ * return (
+ *   <Tree
+ *     {...selection}
+ *     {...expansion}
+ *     id="lazy-tree"
+ *     data={data}
+ *     loadingIds={loadingIds}
+ *     erroredIds={erroredIds}
+ *     aria-label="Files"
+ *   />
+ * );
+ * ```
+ *
+ * @param defaultData - The initial tree data or a function that returns the
+ * initial tree data
+ * @param loadChildItems - The function that loads the child items for a tree
+ * item
+ * @returns An object containing the tree data, the loading states, and a
+ * function to start loading a tree item's child items.
+ * @remarks \@since 3.2.0
+ */
+export function useTreeItemLoader<T extends BaseTreeItem>(
+  defaultData: TreeData<T> | (() => TreeData<T>),
+  loadChildItems: TreeItemChildLoader<T>
+): TreeItemLoaderReturnValue<T> {
+  const [data, setData] = useState(defaultData);
+  const [loadingIds, setLoadingIds] = useState<readonly TreeItemId[]>([]);
+  const [erroredIds, setErroredIds] = useState<readonly TreeItemId[]>([]);
+
+  // refs are used so that the `onItemExpand` function can be stable and still
+  // access the latest data without starting duplicate requests
+  const dataRef = useRefCache(data);
+  const loaderRef = useRefCache(loadChildItems);
+  const pending = useRef(new Set<TreeItemId>());
+  const unmounted = useRef(false);
+  useOnUnmount(() => {
+    unmounted.current = true;
+  });
+
+  const onItemExpand = useCallback(
+    (itemId: TreeItemId) => {
+      const item = dataRef.current[itemId];
+      if (!item || !item.hasChildItems || pending.current.has(itemId)) {
+        return;
+      }
+
+      pending.current.add(itemId);
+      setLoadingIds((loadingIds) => [...loadingIds, itemId]);
+      setErroredIds((erroredIds) =>
+        erroredIds.includes(itemId)
+          ? erroredIds.filter((erroredId) => erroredId !== itemId)
+          : erroredIds
+      );
+
+      const complete = (): void => {
+        pending.current.delete(itemId);
+        setLoadingIds((loadingIds) =>
+          loadingIds.filter((loadingId) => loadingId !== itemId)
+        );
+      };
+
+      // wrapped in a promise so that synchronous errors are handled the same
+      // way as rejections
+      new Promise<readonly T[]>((resolve) => {
+        resolve(loaderRef.current(item));
+      }).then(
+        (childItems) => {
+          if (unmounted.current) {
+            return;
+          }
+
+          complete();
+          setData((prevData) => {
+            const nextData: TreeData<T> = { ...prevData };
+            childItems.forEach((childItem) => {
+              nextData[childItem.itemId] = childItem;
+            });
+
+            if (prevData[itemId]) {
+              nextData[itemId] = { ...prevData[itemId], hasChildItems: false };
+            }
+
+            return nextData;
+          });
+        },
+        () => {
+          if (unmounted.current) {
+            return;
+          }
+
+          complete();
+          setErroredIds((erroredIds) => [...erroredIds, itemId]);
+        }
+      );
+    },
+    [dataRef, loaderRef]
+  );
+
+  return {
+    data,
+    setData,
+    loadingIds,
+    erroredIds,
+    onItemExpand,
+  };
+}
@@ -20,6 +20,7 @@ import {
   useFlattenedTreeList,
 } from "./useFlattenedTreeList";
 import { NestedTreeItem, useNestedTreeList } from "./useNestedTreeList";
+import { scrollToVirtualizedIndex } from "./useTreeVirtualization";
 
 type Options = Pick<
   TreeProps<UnknownTreeItem>,
@@ -36,10 +37,20 @@ type Options = Pick<
   | "expandedIds"
   | "onItemExpansion"
   | "onMultiItemExpansion"
+  | "erroredIds"
 > &
   Required<
     Pick<TreeProps<UnknownTreeItem>, "valueKey" | "getItemValue" | "rootId">
-  >;
+  > & {
+    /**
+     * The height for each tree item that should only be provided while the
+     * tree is virtualized. This is used to scroll tree items into view that
+     * have not been rendered yet.
+     *
+     * @remarks \@since 3.2.0
+     */
+    itemHeight?: number;
+  };
 
 interface ReturnValue {
   /**
@@ -48,6 +59,23 @@ interface ReturnValue {
    */
   items: readonly NestedTreeItem<UnknownTreeItem>[];
 
+  /**
+   * An ordered list of all the tree items that are currently visible based on
+   * the expanded ids. This is used for rendering the tree items while
+   * virtualized.
+   *
+   * @remarks \@since 3.2.0
+   */
+  visibleItems: readonly SearchableTreeItem[];
+
+  /**
+   * An ordered list of every tree item including the tree items within
+   * collapsed parents. This is used for moving tree items.
+   *
+   * @remarks \@since 3.2.0
+   */
+  flattenedItems: readonly SearchableTreeItem[];
+
   /**
    * The current treeitem's DOM id that is currently keyboard focused.
    */
@@ -131,8 +159,10 @@ export function useTreeMovement({
   expandedIds,
   onItemExpansion,
   onMultiItemExpansion,
+  erroredIds = [],
   valueKey,
   getItemValue,
+  itemHeight,
 }: Options): ReturnValue {
   const items = useNestedTreeList(data, sort, rootId);
   const [visibleItems, itemIdRefs, flattenedItems] = useFlattenedTreeList({
@@ -146,6 +176,23 @@ export function useTreeMovement({
 
   const isKeyboard = useIsUserInteractionMode("keyboard");
 
+  /**
+   * Virtualized trees might not have rendered the item yet, so the scroll
+   * position needs to be calculated by the item's index instead.
+   */
+  const scrollItemIntoView = useCallback(
+    (container: HTMLElement | null, index: number) => {
+      if (itemHeight) {
+        scrollToVirtualizedIndex(container, index, itemHeight);
+        return;
+      }
+
+      const item = itemIdRefs[visibleItems[index]?.itemId]?.ref.current ?? null;
+      scrollIntoView(container, item);
+    },
+    [itemHeight, itemIdRefs, visibleItems]
+  );
+
   const {
     activeId,
     onKeyDown: handleKeyDown,
@@ -173,18 +220,12 @@ export function useTreeMovement({
     },
     onChange(data) {
       const { index, target, query } = data;
-      const { itemId } = visibleItems[index];
       // Note: have to do a custom `scrollIntoView` here instead of relying on
       // the `useActiveDescendantMovement`'s `scrollIntoView` because of how the
       // tree renders with the ref behavior.
-      const item = itemIdRefs[itemId].ref.current;
       const container = getScrollContainer(target);
-      if (
-        item &&
-        container &&
-        container.scrollHeight > container.offsetHeight
-      ) {
-        scrollIntoView(container, item);
+      if (container && container.scrollHeight > container.offsetHeight) {
+        scrollItemIntoView(container, index);
       }
 
       if (!multiSelect) {
@@ -223,7 +264,12 @@ export function useTreeMovement({
       switch (event.key) {
         case "Enter": {
           if (isParent) {
-            onItemExpansion(itemId, !expandedIds.includes(itemId));
+            // errored items are "expanded" again so the child items can be
+            // reloaded instead of collapsing the item
+            onItemExpansion(
+              itemId,
+              erroredIds.includes(itemId) || !expandedIds.includes(itemId)
+            );
             return;
           }
 
@@ -264,13 +310,12 @@ export function useTreeMovement({
 
           if (!expandedIds.includes(itemId)) {
             onItemExpansion(itemId, true);
-          } else {
+          } else if (visibleItems[focusedIndex + 1]?.parentId === itemId) {
+            // the child items might not have been loaded yet
             const nextIndex = focusedIndex + 1;
-            const nextItem =
-              itemIdRefs[visibleItems[nextIndex]?.itemId]?.ref.current;
 
             setFocusedIndex(nextIndex);
-            scrollIntoView(event.currentTarget, nextItem);
+            scrollItemIntoView(event.currentTarget, nextIndex);
           }
           break;
         case "ArrowLeft":
@@ -280,11 +325,9 @@ export function useTreeMovement({
             const parentIndex = visibleItems.findIndex(
               (item) => item.itemId === parentId
             );
-            const parentItem =
-              itemIdRefs[visibleItems[parentIndex]?.itemId]?.ref.current;
 
             setFocusedIndex(parentIndex);
-            scrollIntoView(event.currentTarget, parentItem);
+            scrollItemIntoView(event.currentTarget, parentIndex);
           }
           break;
         case "a": {
@@ -396,16 +439,15 @@ export function useTreeMovement({
         index = Math.max(0, Math.min(lastFocus.current, visibleItems.length));
       }
 
-      const currentItem = itemIdRefs[visibleItems[index]?.itemId]?.ref.current;
-      if (currentItem && isKeyboard) {
-        scrollIntoView(getScrollContainer(event.currentTarget), currentItem);
+      if (isKeyboard) {
+        scrollItemIntoView(getScrollContainer(event.currentTarget), index);
       }
       setFocusedIndex(index);
     },
     [
       focusedIndex,
       isKeyboard,
-      itemIdRefs,
+      scrollItemIntoView,
       onFocus,
       selectedIds,
       setFocusedIndex,
@@ -425,6 +467,8 @@ export function useTreeMovement({
 
   return {
     items,
+    visibleItems,
+    flattenedItems,
     activeId,
     setActiveId,
     itemIdRefs,
@@ -0,0 +1,158 @@
+import { Ref, UIEventHandler, useCallback, useEffect, useState } from "react";
+import { ListElement } from "@react-md/list";
+import { useResizeObserver } from "@react-md/utils";
+
+/**
+ * Gets the amount of padding applied to the top of the tree since the
+ * virtualized items will be offset by this amount within the scroll area.
+ *
+ * @internal
+ */
+const getPaddingTop = (container: HTMLElement): number =>
+  parseFloat(window.getComputedStyle(container).paddingTop) || 0;
+
+/**
+ * Scrolls a virtualized tree so that the item at the provided visible index
+ * will be within the scroll area. This needs to be used instead of the
+ * `scrollIntoView` util since the item might not be rendered yet.
+ *
+ * @param container - The tree element that is scrollable
+ * @param index - The visible index of the item that should be scrolled into
+ * view
+ * @param itemHeight - The height for each tree item
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function scrollToVirtualizedIndex(
+  container: HTMLElement | null,
+  index: number,
+  itemHeight: number
+): void {
+  if (!container || index < 0) {
+    return;
+  }
+
+  const itemTop = getPaddingTop(container) + index * itemHeight;
+  const itemBottom = itemTop + itemHeight;
+  const { scrollTop, offsetHeight } = container;
+  if (itemBottom > scrollTop + offsetHeight) {
+    container.scrollTop = itemBottom - offsetHeight;
+  } else if (itemTop < scrollTop) {
+    container.scrollTop = itemTop;
+  }
+}
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface TreeVirtualizationHookOptions {
+  ref: Ref<ListElement> | undefined;
+  onScroll: UIEventHandler<ListElement> | undefined;
+  virtualized: boolean;
+  itemHeight: number;
+  overscan: number;
+  itemCount: number;
+}
+
+/**
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export interface TreeVirtualizationHookReturnValue {
+  /**
+   * A ref handler that must be passed to the tree element so that the tree's
+   * height can be tracked.
+   */
+  ref: (instance: ListElement | null) => void;
+
+  /**
+   * The scroll handler that must be passed to the tree element so that the
+   * rendered items can be updated while scrolling. This will also call the
+   * optional `onScroll` prop.
+   */
+  handleScroll: UIEventHandler<ListElement>;
+
+  /**
+   * The visible index of the first tree item that should be rendered.
+   */
+  start: number;
+
+  /**
+   * The visible index after the last tree item that should be rendered.
+   */
+  end: number;
+}
+
+/**
+ * This hook is used to determine which tree items should be rendered while the
+ * tree is virtualized based on the tree's current scroll position and height.
+ * When the tree is not virtualized, all the items will be rendered.
+ *
+ * @remarks \@since 3.2.0
+ * @internal
+ */
+export function useTreeVirtualization({
+  ref: propRef,
+  onScroll,
+  virtualized,
+  itemHeight,
+  overscan,
+  itemCount,
+}: TreeVirtualizationHookOptions): TreeVirtualizationHookReturnValue {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [height, setHeight] = useState(0);
+  const handleResize = useCallback(({ height }: { height: number }) => {
+    setHeight(height);
+  }, []);
+  const [ref, refHandler] = useResizeObserver(handleResize, {
+    ref: propRef,
+    disableWidth: true,
+    disableHeight: !virtualized,
+  });
+
+  useEffect(() => {
+    const tree = ref.current;
+    if (!virtualized || !tree) {
+      return;
+    }
+
+    setHeight(tree.clientHeight);
+    setScrollTop(tree.scrollTop);
+  }, [virtualized, ref]);
+
+  const handleScroll = useCallback(
+    (event: React.UIEvent<ListElement>) => {
+      if (onScroll) {
+        onScroll(event);
+      }
+
+      if (virtualized) {
+        setScrollTop(event.currentTarget.scrollTop);
+      }
+    },
+    [onScroll, virtualized]
+  );
+
+  if (!virtualized) {
+    return {
+      ref: refHandler,
+      handleScroll,
+      start: 0,
+      end: itemCount,
+    };
+  }
+
+  const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const end = Math.min(
+    itemCount,
+    Math.ceil((scrollTop + height) / itemHeight) + overscan
+  );
+
+  return {
+    ref: refHandler,
+    handleScroll,
+    start,
+    end,
+  };
+}
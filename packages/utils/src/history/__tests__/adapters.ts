@@ -0,0 +1,75 @@
+import {
+  createHashHistoryAdapter,
+  createQueryHistoryAdapter,
+} from "../adapters";
+
+afterEach(() => {
+  window.history.replaceState(null, "", "/");
+});
+
+describe("createHashHistoryAdapter", () => {
+  it("should read and write values within the URL hash", () => {
+    const adapter = createHashHistoryAdapter();
+    expect(adapter.read("tabs")).toBe(null);
+
+    adapter.write("tabs", "tab-2");
+    expect(window.location.hash).toBe("#tabs=tab-2");
+    expect(adapter.read("tabs")).toBe("tab-2");
+
+    adapter.write("panels", "panel-1,panel-2");
+    expect(adapter.read("tabs")).toBe("tab-2");
+    expect(adapter.read("panels")).toBe("panel-1,panel-2");
+
+    adapter.write("tabs", null);
+    adapter.write("panels", null);
+    expect(window.location.hash).toBe("");
+    expect(window.location.pathname).toBe("/");
+  });
+
+  it("should add or replace history entries", () => {
+    const adapter = createHashHistoryAdapter();
+    const { length } = window.history;
+
+    adapter.write("tabs", "tab-2");
+    expect(window.history.length).toBe(length + 1);
+
+    adapter.write("tabs", "tab-3", { replace: true });
+    expect(window.history.length).toBe(length + 1);
+    expect(adapter.read("tabs")).toBe("tab-3");
+
+    // writing the same value does nothing
+    adapter.write("tabs", "tab-3");
+    expect(window.history.length).toBe(length + 1);
+  });
+
+  it("should call the subscribed listeners on popstate and hashchange events", () => {
+    const adapter = createHashHistoryAdapter();
+    const callback = jest.fn();
+    const unsubscribe = adapter.subscribe(callback);
+
+    window.dispatchEvent(new PopStateEvent("popstate"));
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+    expect(callback).toBeCalledTimes(2);
+
+    unsubscribe();
+    window.dispatchEvent(new PopStateEvent("popstate"));
+    expect(callback).toBeCalledTimes(2);
+  });
+});
+
+describe("createQueryHistoryAdapter", () => {
+  it("should read and write values within the URL query string", () => {
+    window.history.replaceState(null, "", "/path#hash");
+    const adapter = createQueryHistoryAdapter();
+    expect(adapter.read("tabs")).toBe(null);
+
+    adapter.write("tabs", "tab-2");
+    expect(window.location.search).toBe("?tabs=tab-2");
+    expect(window.location.pathname).toBe("/path");
+    expect(window.location.hash).toBe("#hash");
+    expect(adapter.read("tabs")).toBe("tab-2");
+
+    adapter.write("tabs", null);
+    expect(window.location.search).toBe("");
+  });
+});
@@ -0,0 +1,113 @@
+import React, { ReactElement, useState } from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+
+import { createHashHistoryAdapter, HistoryAdapter } from "../adapters";
+import { useHistorySync } from "../useHistorySync";
+
+const adapter = createHashHistoryAdapter();
+
+function Test({
+  historyAdapter = adapter,
+}: {
+  historyAdapter?: HistoryAdapter;
+}): ReactElement {
+  const [value, setValue] = useState("a");
+  useHistorySync({
+    adapter: historyAdapter,
+    key: "value",
+    value,
+    defaultValue: "a",
+    onRestore(restored) {
+      setValue(restored ?? "a");
+    },
+  });
+
+  return (
+    <>
+      <span data-testid="value">{value}</span>
+      <button type="button" onClick={() => setValue("a")}>
+        a
+      </button>
+      <button type="button" onClick={() => setValue("b")}>
+        b
+      </button>
+      <button type="button" onClick={() => setValue("c")}>
+        c
+      </button>
+    </>
+  );
+}
+
+afterEach(() => {
+  window.history.replaceState(null, "", "/");
+});
+
+describe("useHistorySync", () => {
+  it("should not update the URL on mount", () => {
+    const { getByTestId } = render(<Test />);
+
+    expect(getByTestId("value")).toHaveTextContent("a");
+    expect(window.location.hash).toBe("");
+  });
+
+  it("should restore the value from the URL on mount", () => {
+    window.history.replaceState(null, "", "/#value=c");
+    const { getByTestId } = render(<Test />);
+
+    expect(getByTestId("value")).toHaveTextContent("c");
+    expect(window.location.hash).toBe("#value=c");
+  });
+
+  it("should update the URL when the value changes and restore the value on popstate", () => {
+    const { getByTestId, getByRole } = render(<Test />);
+    const value = getByTestId("value");
+
+    fireEvent.click(getByRole("button", { name: "b" }));
+    expect(window.location.hash).toBe("#value=b");
+
+    fireEvent.click(getByRole("button", { name: "c" }));
+    expect(window.location.hash).toBe("#value=c");
+
+    act(() => {
+      window.history.replaceState(null, "", "/#value=b");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    });
+    expect(value).toHaveTextContent("b");
+    expect(window.location.hash).toBe("#value=b");
+
+    act(() => {
+      window.history.replaceState(null, "", "/");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    });
+    expect(value).toHaveTextContent("a");
+    expect(window.location.hash).toBe("");
+  });
+
+  it("should remove the key from the URL when the value is the default value", () => {
+    window.history.replaceState(null, "", "/#value=b&other=1");
+    const { getByRole, getByTestId } = render(<Test />);
+    expect(getByTestId("value")).toHaveTextContent("b");
+
+    fireEvent.click(getByRole("button", { name: "a" }));
+    expect(window.location.hash).toBe("#other=1");
+  });
+
+  it("should support custom adapters", () => {
+    const values = new Map<string, string | null>();
+    const customAdapter: HistoryAdapter = {
+      read: (key) => values.get(key) ?? null,
+      write: jest.fn((key, value) => {
+        values.set(key, value);
+      }),
+      subscribe: () => () => {},
+    };
+
+    const { getByRole } = render(<Test historyAdapter={customAdapter} />);
+    fireEvent.click(getByRole("button", { name: "b" }));
+
+    expect(customAdapter.write).toBeCalledWith("value", "b", {
+      replace: false,
+    });
+    expect(window.location.hash).toBe("");
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface HistoryWriteOptions {
+  /**
+   * Boolean if the current history entry should be replaced instead of adding
+   * a new entry.
+   *
+   * @defaultValue `false`
+   */
+  replace?: boolean;
+}
+
+/**
+ * A router-agnostic adapter that is used to read and write state to the URL.
+ * A custom adapter can be created to integrate with a specific router library
+ * if the default hash and query string adapters do not work.
+ *
+ * @remarks \@since 3.2.0
+ */
+export interface HistoryAdapter {
+  /**
+   * Returns the current value for the key within the URL or `null` if it does
+   * not exist.
+   */
+  read(key: string): string | null;
+
+  /**
+   * Updates the value for the key within the URL. The key should be removed
+   * when the value is `null`.
+   */
+  write(key: string, value: string | null, options?: HistoryWriteOptions): void;
+
+  /**
+   * Adds a listener that should be called whenever the URL is changed outside
+   * of the `write` function, such as the back and forward buttons. This should
+   * return a function that removes the listener.
+   */
+  subscribe(callback: () => void): () => void;
+}
+
+/**
+ * @internal
+ */
+type HistoryLocation = "hash" | "query";
+
+/**
+ * @internal
+ */
+const getParams = (location: HistoryLocation): URLSearchParams => {
+  const { hash, search } = window.location;
+
+  return new URLSearchParams(location === "hash" ? hash.substring(1) : search);
+};
+
+/**
+ * @internal
+ */
+function createSearchParamsAdapter(location: HistoryLocation): HistoryAdapter {
+  return {
+    read(key) {
+      if (typeof window === "undefined") {
+        return null;
+      }
+
+      return getParams(location).get(key);
+    },
+    write(key, value, { replace = false } = {}) {
+      if (typeof window === "undefined") {
+        return;
+      }
+
+      const params = getParams(location);
+      if (value === null) {
+        params.delete(key);
+      } else {
+        params.set(key, value);
+      }
+
+      const { pathname, search, hash } = window.location;
+      const query = params.toString();
+      let url: string;
+      if (location === "hash") {
+        url = `${pathname}${search}${query ? `#${query}` : ""}`;
+      } else {
+        url = `${pathname}${query ? `?${query}` : ""}${hash}`;
+      }
+
+      if (url === `${pathname}${search}${hash}`) {
+        return;
+      }
+
+      if (replace) {
+        window.history.replaceState(window.history.state, "", url);
+      } else {
+        window.history.pushState(window.history.state, "", url);
+      }
+    },
+    subscribe(callback) {
+      if (typeof window === "undefined") {
+        return () => {
+          // do nothing
+        };
+      }
+
+      window.addEventListener("popstate", callback);
+      if (location === "hash") {
+        window.addEventListener("hashchange", callback);
+      }
+
+      return () => {
+        window.removeEventListener("popstate", callback);
+        window.removeEventListener("hashchange", callback);
+      };
+    },
+  };
+}
+
+/**
+ * Creates a {@link HistoryAdapter} that stores each value as a key-value pair
+ * within the URL hash. For example: `#tabs=tab-2&panels=panel-1`.
+ *
+ * @returns a {@link HistoryAdapter} for the URL hash
+ * @remarks \@since 3.2.0
+ */
+export function createHashHistoryAdapter(): HistoryAdapter {
+  return createSearchParamsAdapter("hash");
+}
+
+/**
+ * Creates a {@link HistoryAdapter} that stores each value within the URL query
+ * string. For example: `?tabs=tab-2&panels=panel-1`.
+ *
+ * @returns a {@link HistoryAdapter} for the URL query string
+ * @remarks \@since 3.2.0
+ */
+export function createQueryHistoryAdapter(): HistoryAdapter {
+  return createSearchParamsAdapter("query");
+}
@@ -0,0 +1,127 @@
+import { useEffect, useRef } from "react";
+
+import { useRefCache } from "../useRefCache";
+import { HistoryAdapter } from "./adapters";
+
+/**
+ * @remarks \@since 3.2.0
+ */
+export interface HistorySyncOptions {
+  /**
+   * The adapter to use for reading and writing the value to the URL. The sync
+   * behavior will be disabled when this is `undefined`.
+   */
+  adapter: HistoryAdapter | undefined;
+
+  /**
+   * The key to store the value as within the URL.
+   */
+  key: string;
+
+  /**
+   * The current value that should be written to the URL whenever it changes.
+   */
+  value: string | null;
+
+  /**
+   * The value that represents the default state. The key will be removed from
+   * the URL instead when the value is the same as the default value so that
+   * the `onRestore` function is able to restore the default state.
+   *
+   * @defaultValue `null`
+   */
+  defaultValue?: string | null;
+
+  /**
+   * A function that will be called with the value from the URL on mount and
+   * whenever the URL changes from the back and forward buttons. The value will
+   * be `null` if the key does not exist in the URL so that the default state
+   * should be restored.
+   */
+  onRestore(value: string | null): void;
+
+  /**
+   * Boolean if the current history entry should be replaced when the value
+   * changes instead of adding a new entry.
+   *
+   * @defaultValue `false`
+   */
+  replace?: boolean;
+}
+
+/**
+ * This hook is used to synchronize some state with the URL through a
+ * {@link HistoryAdapter}. The state will be restored from the URL on mount and
+ * on `popstate` events, and the URL will be updated each time the value
+ * changes. The adapter should be created once outside of the component so
+ * that it does not change between renders.
+ *
+ * Example:
+ *
+ * ```tsx
+ * const adapter = createHashHistoryAdapter();
+ *
+ * function Example(): ReactElement {
+ *   const [value, setValue] = useState("a");
+ *   useHistorySync({
+ *     adapter,
+ *     key: "value",
+ *     value,
+ *     defaultValue: "a",
+ *     onRestore(restored) {
+ *       setValue(restored ?? "a");
+ *     },
+ *   });
+ *
+ *   // ...
+ * }
+ * ```
+ *
+ * @remarks \@since 3.2.0
+ */
+export function useHistorySync({
+  adapter,
+  key,
+  value,
+  defaultValue = null,
+  onRestore,
+  replace = false,
+}: HistorySyncOptions): void {
+  const restore = useRefCache(onRestore);
+
+  useEffect(() => {
+    if (!adapter) {
+      return;
+    }
+
+    const initialValue = adapter.read(key);
+    if (initialValue !== null) {
+      restore.current(initialValue);
+    }
+
+    return adapter.subscribe(() => {
+      restore.current(adapter.read(key));
+    });
+  }, [adapter, key, restore]);
+
+  const mounted = useRef(false);
+  useEffect(() => {
+    // the value should only be written once it has been changed so that the
+    // URL is not updated just by mounting the component
+    if (!mounted.current) {
+      mounted.current = true;
+      return;
+    }
+
+    // the URL will already match the value when it has just been restored
+    const nextValue = value === defaultValue ? null : value;
+    if (!adapter || adapter.read(key) === nextValue) {
+      return;
+    }
+
+    adapter.write(key, nextValue, { replace });
+
+    // this should only be triggered when the value changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value]);
+}
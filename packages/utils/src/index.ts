@@ -9,6 +9,7 @@ export * from "./defaults";
 export * from "./Dir";
 export * from "./events";
 export * from "./getPercentage";
+export * from "./history";
 export * from "./hover";
 export * from "./layout";
 export * from "./loop";
@@ -7,4 +7,4 @@ export * from "./useActiveDescendantMovement";
 export * from "./useFocusMovement";
 
 export * from "./types";
-export { getItemId } from "./utils";
+export { getItemId, getKeyboardConfig, transformKeys } from "./utils";
@@ -34,6 +34,8 @@ export enum IncrementMovementKey {
   ShiftArrowDown = "Shift+ArrowDown",
   ShiftArrowLeft = "Shift+ArrowLeft",
   ShiftArrowRight = "Shift+ArrowRight",
+  ShiftPageDown = "Shift+PageDown",
+  ShiftPageUp = "Shift+PageUp",
   AltArrowDown = "Alt+ArrowDown",
   AltArrowUp = "Alt+ArrowUp",
   AltArrowLeft = "Alt+ArrowLeft",
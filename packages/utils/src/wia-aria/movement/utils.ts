@@ -30,7 +30,8 @@ export function getItemId(id: string, i: number): string {
  * @param keys - A list of key mappings to convert to a key object. These should
  * be things like: "Tab", "Alt+Home", "A", "Shift+Alt+ArrowUp"
  * @param type - The keyboard focus type this key should be mapped to
- * @internal
+ * @remarks \@since 3.2.0 This is now exported so that custom keyboard
+ * movement (like a date grid) can reuse the key mappings.
  */
 export function transformKeys(
   keys: readonly MovementKey[],
@@ -56,7 +57,8 @@ export function transformKeys(
  * @param event - The event to get a key mapping type for
  * @param keys - A list of key mappings to attempt to find a valid key event
  * type from.
- * @internal
+ * @remarks \@since 3.2.0 This is now exported along with the
+ * {@link transformKeys} util.
  */
 export function getKeyboardConfig(
   event: KeyboardEvent | React.KeyboardEvent,